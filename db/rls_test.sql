@@ -0,0 +1,269 @@
+-- Row level security checks for the default admin, manager and staff roles.
+-- Run against a database where setup.sql has been applied (psql or the Supabase SQL editor).
+-- Everything runs in one transaction that is rolled back at the end; the first failed check
+-- stops the script and names what was wrongly allowed or denied.
+
+BEGIN;
+
+-- === FIXTURES ===
+
+INSERT INTO auth.users (id, email) VALUES
+  ('f0000000-0000-4000-8000-00000000000a', 'rls-admin@example.com'),
+  ('f0000000-0000-4000-8000-00000000000b', 'rls-manager@example.com'),
+  ('f0000000-0000-4000-8000-00000000000c', 'rls-staff@example.com');
+
+INSERT INTO user_roles (user_id, role_id)
+SELECT u.id, r.id
+FROM (VALUES
+  ('f0000000-0000-4000-8000-00000000000a'::UUID, 'admin'),
+  ('f0000000-0000-4000-8000-00000000000b'::UUID, 'manager'),
+  ('f0000000-0000-4000-8000-00000000000c'::UUID, 'staff')
+) AS u(id, role_name)
+JOIN roles r ON r.name = u.role_name;
+
+INSERT INTO customers (id, name, type, primary_phone_number, address) VALUES
+  ('f1000000-0000-4000-8000-000000000001', 'RLS Customer', 'customer', 'rls-test-1', 'Test street'),
+  ('f1000000-0000-4000-8000-000000000002', 'RLS Vendor', 'vendor', 'rls-test-2', 'Test street');
+
+INSERT INTO products (id, name, price, lot_size, min_stock)
+VALUES ('f2000000-0000-4000-8000-000000000001', 'RLS Product', 10, 1, 0);
+
+INSERT INTO seller_info (company_name, email, contact_number)
+SELECT 'RLS Seller', 'rls-seller@example.com', '000'
+WHERE NOT EXISTS (SELECT 1 FROM seller_info);
+
+-- Stock, a bill, a payment, an order and a stock take are created by the admin through the app's functions
+SELECT set_config('request.jwt.claims', '{"sub":"f0000000-0000-4000-8000-00000000000a"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT increment_stock('f2000000-0000-4000-8000-000000000001', 100, 'f1000000-0000-4000-8000-000000000002', 'RLS test stock', 5, 'RLS-BATCH');
+SELECT create_bill('f1000000-0000-4000-8000-000000000001', '[{"product_id":"f2000000-0000-4000-8000-000000000001","quantity":1,"price":10}]'::JSONB, 10);
+INSERT INTO orders (id, customer_id) VALUES ('f3000000-0000-4000-8000-000000000001', 'f1000000-0000-4000-8000-000000000001');
+INSERT INTO order_items (order_id, product_id, lots, units) VALUES ('f3000000-0000-4000-8000-000000000001', 'f2000000-0000-4000-8000-000000000001', 0, 1);
+SELECT process_payment('f1000000-0000-4000-8000-000000000001', 5, ARRAY[]::UUID[], now());
+SELECT start_stock_take('RLS test count') WHERE NOT EXISTS (SELECT 1 FROM stock_takes WHERE status = 'open');
+
+RESET ROLE;
+
+
+-- === STAFF ===
+-- Default grants: orders.view, orders.create, stock_take.view, stock_take.count
+
+SELECT set_config('request.jwt.claims', '{"sub":"f0000000-0000-4000-8000-00000000000c"}', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  -- Reads needed to take orders and count stock
+  ASSERT (SELECT count(*) FROM customers) > 0, 'staff cannot read customers';
+  ASSERT (SELECT count(*) FROM products) > 0, 'staff cannot read products';
+  ASSERT (SELECT count(*) FROM inventory) > 0, 'staff cannot read inventory';
+  ASSERT (SELECT count(*) FROM orders) > 0, 'staff cannot read orders';
+  ASSERT (SELECT count(*) FROM order_items) > 0, 'staff cannot read order items';
+  ASSERT (SELECT count(*) FROM stock_locations) > 0, 'staff cannot read stock locations';
+  ASSERT (SELECT count(*) FROM stock_takes) > 0, 'staff cannot read stock takes';
+  ASSERT (SELECT count(*) FROM seller_info) > 0, 'staff cannot read seller info';
+
+  -- Everything else is hidden
+  ASSERT (SELECT count(*) FROM bills) = 0, 'staff can read bills';
+  ASSERT (SELECT count(*) FROM bill_items) = 0, 'staff can read bill items';
+  ASSERT (SELECT count(*) FROM transactions) = 0, 'staff can read transactions';
+  ASSERT (SELECT count(*) FROM inventory_batches) = 0, 'staff can read inventory batches';
+  ASSERT (SELECT count(*) FROM location_stock) = 0, 'staff can read location stock';
+  ASSERT (SELECT count(*) FROM inventory_transactions) = 0, 'staff can read inventory transactions';
+  ASSERT (SELECT count(*) FROM app_settings) = 0, 'staff can read app settings';
+  ASSERT (SELECT count(*) FROM number_series) = 0, 'staff can read number series';
+
+  -- Orders can be created
+  INSERT INTO orders (customer_id) VALUES ('f1000000-0000-4000-8000-000000000001');
+
+  -- Nothing else can be written
+  BEGIN
+    INSERT INTO customers (name, primary_phone_number, address) VALUES ('Staff customer', 'rls-test-3', 'x');
+    RAISE EXCEPTION 'staff can add customers';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    INSERT INTO stock_locations (name) VALUES ('Staff location');
+    RAISE EXCEPTION 'staff can add stock locations';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  UPDATE orders SET comments = 'edited' WHERE id = 'f3000000-0000-4000-8000-000000000001';
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 0, 'staff can edit orders';
+
+  UPDATE products SET price = 0 WHERE id = 'f2000000-0000-4000-8000-000000000001';
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 0, 'staff can edit products';
+
+  UPDATE inventory SET quantity = 0;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 0, 'staff can edit inventory';
+
+  BEGIN
+    PERFORM record_stock_movement('f2000000-0000-4000-8000-000000000001', 5, 'purchase');
+    RAISE EXCEPTION 'staff can call record_stock_movement';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    PERFORM next_document_number('invoice', now());
+    RAISE EXCEPTION 'staff can draw invoice numbers';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    PERFORM increment_stock('f2000000-0000-4000-8000-000000000001', 5, NULL, 'staff stock');
+    RAISE EXCEPTION 'staff can add stock';
+  EXCEPTION WHEN raise_exception THEN
+    ASSERT SQLERRM LIKE '%(stock.add)', SQLERRM;
+  END;
+
+  BEGIN
+    PERFORM create_bill('f1000000-0000-4000-8000-000000000001', '[{"product_id":"f2000000-0000-4000-8000-000000000001","quantity":1,"price":10}]'::JSONB, 10);
+    RAISE EXCEPTION 'staff can create bills';
+  EXCEPTION WHEN raise_exception THEN
+    ASSERT SQLERRM LIKE '%(bills.create)', SQLERRM;
+  END;
+
+  BEGIN
+    INSERT INTO role_permissions (role_id, permission_key) SELECT id, 'bills.create' FROM roles WHERE name = 'staff';
+    RAISE EXCEPTION 'staff can grant permissions';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+RESET ROLE;
+
+-- A role granted bills.create can bill without write access to the bill tables
+INSERT INTO role_permissions (role_id, permission_key) SELECT id, 'bills.create' FROM roles WHERE name = 'staff';
+
+SET LOCAL ROLE authenticated;
+
+DO $$
+BEGIN
+  PERFORM create_bill('f1000000-0000-4000-8000-000000000001', '[{"product_id":"f2000000-0000-4000-8000-000000000001","quantity":1,"price":10}]'::JSONB, 10);
+
+  BEGIN
+    INSERT INTO bills (customer_id, total_amount) VALUES ('f1000000-0000-4000-8000-000000000001', 10);
+    RAISE EXCEPTION 'staff can insert bills directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+RESET ROLE;
+
+
+-- === MANAGER ===
+-- Default grants: everything except admin.view, stock.edit and stock_take.approve
+
+SELECT set_config('request.jwt.claims', '{"sub":"f0000000-0000-4000-8000-00000000000b"}', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  ASSERT (SELECT count(*) FROM bills) > 0, 'manager cannot read bills';
+  ASSERT (SELECT count(*) FROM bill_items) > 0, 'manager cannot read bill items';
+  ASSERT (SELECT count(*) FROM transactions) > 0, 'manager cannot read transactions';
+  ASSERT (SELECT count(*) FROM inventory_batches) > 0, 'manager cannot read inventory batches';
+  ASSERT (SELECT count(*) FROM location_stock) > 0, 'manager cannot read location stock';
+  ASSERT (SELECT count(*) FROM inventory_transactions) > 0, 'manager cannot read inventory transactions';
+  ASSERT (SELECT count(*) FROM app_settings) > 0, 'manager cannot read app settings';
+  ASSERT (SELECT count(*) FROM number_series) = 0, 'manager can read number series';
+
+  INSERT INTO customers (name, primary_phone_number, address) VALUES ('Manager customer', 'rls-test-4', 'x');
+  PERFORM create_bill('f1000000-0000-4000-8000-000000000001', '[{"product_id":"f2000000-0000-4000-8000-000000000001","quantity":1,"price":10}]'::JSONB, 10);
+
+  UPDATE orders SET comments = 'edited' WHERE id = 'f3000000-0000-4000-8000-000000000001';
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 1, 'manager cannot edit orders';
+
+  UPDATE inventory SET quantity = 0;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 0, 'manager can edit inventory directly';
+
+  UPDATE app_settings SET value = '{}' WHERE key = 'gst_defaults';
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 0, 'manager can change app settings';
+
+  UPDATE seller_info SET company_name = 'Changed';
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 0, 'manager can change seller info';
+
+  BEGIN
+    PERFORM adjust_stock('f2000000-0000-4000-8000-000000000001', 0, 'manager count', default_stock_location());
+    RAISE EXCEPTION 'manager can edit stock counts';
+  EXCEPTION WHEN raise_exception THEN
+    ASSERT SQLERRM LIKE '%(stock.edit)', SQLERRM;
+  END;
+
+  BEGIN
+    INSERT INTO payment_reversals (amount, reason) VALUES (1, 'manager reversal');
+    RAISE EXCEPTION 'manager can write payment reversals';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    INSERT INTO balance_adjustments (customer_id, previous_balance, new_balance, amount, reason)
+    VALUES ('f1000000-0000-4000-8000-000000000001', 0, 1, 1, 'manager adjustment');
+    RAISE EXCEPTION 'manager can write balance adjustments';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    UPDATE credit SET status = 'redeemed', redeemed_amount = amount;
+    RAISE EXCEPTION 'manager can redeem credits without a settlement';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    INSERT INTO user_roles (user_id, role_id) SELECT 'f0000000-0000-4000-8000-00000000000b', id FROM roles WHERE name = 'admin';
+    RAISE EXCEPTION 'manager can assign roles';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+RESET ROLE;
+
+
+-- === ADMIN ===
+
+SELECT set_config('request.jwt.claims', '{"sub":"f0000000-0000-4000-8000-00000000000a"}', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  ASSERT (SELECT count(*) FROM number_series) > 0, 'admin cannot read number series';
+  ASSERT (SELECT count(*) FROM role_permissions) > 0, 'admin cannot read role permissions';
+
+  UPDATE app_settings SET value = value WHERE key = 'gst_defaults';
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected = 1, 'admin cannot change app settings';
+
+  UPDATE seller_info SET company_name = company_name;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  ASSERT affected > 0, 'admin cannot change seller info';
+
+  PERFORM adjust_stock('f2000000-0000-4000-8000-000000000001', 50, 'admin count', default_stock_location());
+
+  -- Bills are written through the billing functions, even by admins
+  BEGIN
+    INSERT INTO bills (customer_id, total_amount) VALUES ('f1000000-0000-4000-8000-000000000001', 10);
+    RAISE EXCEPTION 'admin can insert bills directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+RESET ROLE;
+
+DO $$ BEGIN RAISE NOTICE 'All row level security checks passed'; END $$;
+
+ROLLBACK;
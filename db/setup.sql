@@ -1,10 +1,8 @@
 -- This is a consolidated setup file reflecting the final database schema.
 -- It is designed to be idempotent, meaning it can be run multiple times without causing errors.
 
--- Drop existing structures if they exist to ensure a clean slate for changes
-DROP TABLE IF EXISTS public.user_roles CASCADE;
-DROP TABLE IF EXISTS public.users CASCADE;
-DROP TABLE IF EXISTS public.roles CASCADE;
+-- Drop existing structures if they exist to ensure a clean slate for changes.
+-- Users, roles and their permissions are kept across runs.
 DROP TABLE IF EXISTS public.product_vendors CASCADE;
 DROP FUNCTION IF EXISTS public.handle_new_user() CASCADE;
 DROP FUNCTION IF EXISTS get_users_with_roles();
@@ -16,12 +14,15 @@ CREATE TABLE IF NOT EXISTS customers (
   primary_phone_number TEXT UNIQUE NOT NULL,
   address TEXT NOT NULL,
   gst_number TEXT,
+  state TEXT,
+  state_code TEXT, -- Two-digit GST state code
   manager_name TEXT,
   manager_phone_number TEXT,
   comments TEXT,
   type TEXT NOT NULL DEFAULT 'customer' CHECK (type IN ('vendor', 'customer')),
   is_active BOOLEAN DEFAULT true,
   outstanding_balance NUMERIC(10, 2) DEFAULT 0.00,
+  credit_days INTEGER NOT NULL DEFAULT 30 CHECK (credit_days >= 0), -- Sets the due date of new bills
   is_cooler BOOLEAN DEFAULT false,
   is_cooler_details TEXT,
   created_at TIMESTAMPTZ DEFAULT now()
@@ -35,6 +36,10 @@ CREATE TABLE IF NOT EXISTS products (
   lot_size INTEGER DEFAULT 1,
   lot_price NUMERIC(10, 2) DEFAULT 0.00,
   min_stock INTEGER DEFAULT 0,
+  hsn_code TEXT, -- HSN/SAC code printed on invoices
+  gst_rate NUMERIC(5, 2), -- Combined GST rate (CGST + SGST); NULL uses the bill-level rates
+  cess_rate NUMERIC(5, 2),
+  average_cost NUMERIC(12, 4), -- Moving weighted-average cost of the stock on hand
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
@@ -47,6 +52,52 @@ CREATE TABLE IF NOT EXISTS inventory (
   UNIQUE(product_id)
 );
 
+-- Create Stock Locations table (the godown and delivery vans stock sits in).
+-- Stock with no location given is booked to the default location.
+CREATE TABLE IF NOT EXISTS stock_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  location_type TEXT NOT NULL DEFAULT 'warehouse' CHECK (location_type IN ('warehouse', 'van')),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (is_active OR NOT is_default)
+);
+
+-- Insert the default location
+INSERT INTO stock_locations (name, location_type, is_default)
+SELECT 'Godown', 'warehouse', true
+WHERE NOT EXISTS (SELECT 1 FROM stock_locations WHERE is_default)
+ON CONFLICT (name) DO NOTHING;
+
+-- Create Inventory Batches table (batch-level stock for perishables).
+-- Batches are kept per location; stock received without a batch is what a
+-- location holds less its batches there.
+CREATE TABLE IF NOT EXISTS inventory_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  location_id UUID REFERENCES stock_locations(id) ON DELETE RESTRICT NOT NULL,
+  batch_code TEXT NOT NULL,
+  manufacture_date DATE,
+  expiry_date DATE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  vendor_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (product_id, location_id, batch_code),
+  CHECK (expiry_date IS NULL OR manufacture_date IS NULL OR expiry_date >= manufacture_date)
+);
+
+-- Create Location Stock table (per-location quantities).
+-- inventory.quantity is the total of a product across its locations.
+CREATE TABLE IF NOT EXISTS location_stock (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  location_id UUID REFERENCES stock_locations(id) ON DELETE RESTRICT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (product_id, location_id)
+);
+
 -- Create Bills table
 CREATE TABLE IF NOT EXISTS bills (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -54,6 +105,7 @@ CREATE TABLE IF NOT EXISTS bills (
   customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
   total_amount NUMERIC(10, 2) NOT NULL,
   paid_amount NUMERIC(10, 2) DEFAULT 0.00,
+  credited_amount NUMERIC(10, 2) NOT NULL DEFAULT 0.00, -- Taken off by credit notes; payable is total - credited - paid
   status TEXT NOT NULL DEFAULT 'outstanding', -- outstanding, partial, paid
   due_date DATE DEFAULT now() + interval '30 days',
   discount NUMERIC(10, 2) DEFAULT 0.00,
@@ -61,8 +113,12 @@ CREATE TABLE IF NOT EXISTS bills (
   cgst_percentage NUMERIC(5, 2) DEFAULT 0.00,
   sgst_percentage NUMERIC(5, 2) DEFAULT 0.00,
   cess_percentage NUMERIC(5, 2) DEFAULT 0.00,
+  igst_percentage NUMERIC(5, 2) DEFAULT 0.00, -- Set on inter-state bills instead of CGST + SGST
+  place_of_supply TEXT, -- State code of the buyer at billing time
+  is_inter_state BOOLEAN NOT NULL DEFAULT false, -- Place of supply outside the seller's state: IGST instead of CGST + SGST
   is_gst_bill BOOLEAN DEFAULT false,
   comments TEXT,
+  location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL, -- Where the billed stock was drawn from
   created_at TIMESTAMPTZ DEFAULT now(),
   date_of_bill TIMESTAMPTZ DEFAULT now()
 );
@@ -73,7 +129,12 @@ CREATE TABLE IF NOT EXISTS bill_items (
   bill_id UUID REFERENCES bills(id) ON DELETE CASCADE,
   product_id UUID REFERENCES products(id) ON DELETE SET NULL,
   quantity INTEGER NOT NULL,
-  price NUMERIC(10, 2) NOT NULL
+  price NUMERIC(10, 2) NOT NULL,
+  -- Tax snapshot of the product at billing time; NULL on bills that used the bill-level rates
+  hsn_code TEXT,
+  gst_rate NUMERIC(5, 2),
+  cess_rate NUMERIC(5, 2),
+  unit_cost NUMERIC(12, 4) -- Average cost per unit at billing time (cost of goods sold)
 );
 
 -- Create Orders table
@@ -95,16 +156,81 @@ CREATE TABLE IF NOT EXISTS order_items (
   units INTEGER
 );
 
--- Create Inventory Transactions table (for logging stock changes)
+-- Create Purchase Bills table (vendor invoices for stock received)
+CREATE TABLE IF NOT EXISTS purchase_bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID REFERENCES customers(id) ON DELETE RESTRICT NOT NULL,
+  vendor_invoice_number TEXT,
+  bill_date TIMESTAMPTZ DEFAULT now(),
+  due_date TIMESTAMPTZ,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0.00,
+  paid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0.00,
+  status TEXT NOT NULL DEFAULT 'outstanding' CHECK (status IN ('outstanding', 'partial', 'paid')),
+  comments TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Purchase Bill Items table
+CREATE TABLE IF NOT EXISTS purchase_bill_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_bill_id UUID REFERENCES purchase_bills(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES products(id) ON DELETE RESTRICT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  line_total NUMERIC GENERATED ALWAYS AS ((quantity * unit_cost)) STORED
+);
+
+-- Create Inventory Transactions table (the stock movement ledger).
+-- inventory.quantity always equals the sum of quantity_change per product.
 CREATE TABLE IF NOT EXISTS inventory_transactions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
   vendor_id UUID REFERENCES customers(id) ON DELETE SET NULL,
   quantity_change INTEGER NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'purchase' CHECK (reason IN ('sale', 'purchase', 'damage', 'correction', 'return', 'transfer')),
+  balance_after INTEGER,
   comments TEXT,
+  unit_cost NUMERIC(10, 2),
+  purchase_bill_id UUID REFERENCES purchase_bills(id) ON DELETE SET NULL,
+  bill_id UUID REFERENCES bills(id) ON DELETE SET NULL,
+  batch_id UUID REFERENCES inventory_batches(id) ON DELETE SET NULL,
+  location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL,
+  transfer_id UUID, -- Shared by the two movements of a stock transfer
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_username TEXT,
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- Create Stock Takes table (physical count sessions)
+CREATE TABLE IF NOT EXISTS stock_takes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'cancelled')),
+  location_id UUID REFERENCES stock_locations(id) ON DELETE RESTRICT, -- Location whose stock is counted
+  comments TEXT,
+  started_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_by_username TEXT,
+  started_at TIMESTAMPTZ DEFAULT now(),
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_by_username TEXT,
+  closed_at TIMESTAMPTZ
+);
+
+-- Create Stock Take Items table (expected quantity snapshot and counted quantity per product)
+CREATE TABLE IF NOT EXISTS stock_take_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id UUID REFERENCES stock_takes(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  expected_quantity INTEGER NOT NULL,
+  lot_size INTEGER NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  counted_lots INTEGER CHECK (counted_lots >= 0),
+  counted_units INTEGER CHECK (counted_units >= 0),
+  counted_quantity INTEGER CHECK (counted_quantity >= 0), -- NULL until the product is counted
+  counted_by_username TEXT,
+  counted_at TIMESTAMPTZ,
+  UNIQUE (stock_take_id, product_id)
+);
+
 -- Create Expense Categories table
 CREATE TABLE IF NOT EXISTS expense_categories (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -112,6 +238,39 @@ CREATE TABLE IF NOT EXISTS expense_categories (
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- Create Cheques table (cheque register for collections paid by cheque)
+CREATE TABLE IF NOT EXISTS cheques (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE NOT NULL,
+  cheque_number TEXT NOT NULL,
+  bank_name TEXT,
+  cheque_date DATE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'deposited', 'cleared', 'bounced')),
+  received_at TIMESTAMPTZ DEFAULT now(),
+  deposited_at TIMESTAMPTZ,
+  cleared_at TIMESTAMPTZ,
+  bounced_at TIMESTAMPTZ,
+  bounce_reason TEXT,
+  bounce_fee NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (bounce_fee >= 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Vendor Settlements table (a vendor payment with the pending credits netted off against it)
+CREATE TABLE IF NOT EXISTS vendor_settlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID REFERENCES customers(id) ON DELETE RESTRICT NOT NULL,
+  payment_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (payment_amount >= 0),
+  credit_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (credit_amount >= 0),
+  payment_mode TEXT NOT NULL DEFAULT 'cash' CHECK (payment_mode IN ('cash', 'upi', 'cheque', 'bank_transfer', 'card')),
+  reference_number TEXT,
+  comments TEXT,
+  -- Purchase bills settled, as [{purchase_bill_id, vendor_invoice_number, from_credit, from_payment}]
+  settled_bills JSONB NOT NULL DEFAULT '[]'::jsonb,
+  settlement_date TIMESTAMPTZ DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
 -- Create unified Transactions table (for revenue and expenses)
 CREATE TABLE IF NOT EXISTS transactions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -123,7 +282,19 @@ CREATE TABLE IF NOT EXISTS transactions (
   vendor_id UUID REFERENCES customers(id) ON DELETE SET NULL,
   category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL,
   created_at TIMESTAMPTZ DEFAULT now(),
-  date_of_transaction TIMESTAMPTZ DEFAULT now()
+  date_of_transaction TIMESTAMPTZ DEFAULT now(),
+  payment_mode TEXT NOT NULL DEFAULT 'cash' CHECK (payment_mode IN ('cash', 'upi', 'cheque', 'bank_transfer', 'card')),
+  reference_number TEXT,
+  bank_name TEXT,
+  cheque_number TEXT,
+  cheque_date DATE,
+  -- Cheques stay pending until they are cleared or bounce; other modes are cleared on receipt
+  clearance_status TEXT NOT NULL DEFAULT 'cleared' CHECK (clearance_status IN ('pending', 'cleared', 'bounced')),
+  cheque_id UUID REFERENCES cheques(id) ON DELETE SET NULL,
+  -- Shared by all rows written by one process_payment call
+  collection_id UUID,
+  purchase_bill_id UUID REFERENCES purchase_bills(id) ON DELETE SET NULL,
+  settlement_id UUID REFERENCES vendor_settlements(id) ON DELETE SET NULL
 );
 
 -- Create the damaged_stock_log table
@@ -135,6 +306,8 @@ CREATE TABLE IF NOT EXISTS public.damaged_stock_log (
     unit_cost numeric NOT NULL,
     total_value numeric GENERATED ALWAYS AS ((quantity * unit_cost)) STORED,
     reason text,
+    batch_id uuid REFERENCES public.inventory_batches(id) ON DELETE SET NULL,
+    location_id uuid REFERENCES public.stock_locations(id) ON DELETE SET NULL,
     status text DEFAULT 'PENDING_ADJUSTMENT'::text NOT NULL,
     created_at timestamp with time zone DEFAULT now() NOT NULL,
     CONSTRAINT damaged_stock_log_pkey PRIMARY KEY (id),
@@ -156,9 +329,91 @@ CREATE TABLE IF NOT EXISTS credit (
   date TIMESTAMPTZ DEFAULT now(),
   comments TEXT,
   status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'redeemed')),
+  -- Part of the credit already netted off against vendor payments
+  redeemed_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (redeemed_amount >= 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Vendor Settlement Credits table (how much of each credit a settlement used)
+CREATE TABLE IF NOT EXISTS vendor_settlement_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  settlement_id UUID REFERENCES vendor_settlements(id) ON DELETE CASCADE NOT NULL,
+  credit_id UUID REFERENCES credit(id) ON DELETE RESTRICT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Customer Advances table (money received from a customer beyond the bills it was collected against)
+CREATE TABLE IF NOT EXISTS customer_advances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  comments TEXT,
+  date_of_transaction TIMESTAMPTZ DEFAULT now(),
+  cheque_id UUID REFERENCES cheques(id) ON DELETE SET NULL,
+  collection_id UUID,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Advance Applications table (parts of an advance used to pay later bills)
+CREATE TABLE IF NOT EXISTS advance_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  advance_id UUID REFERENCES customer_advances(id) ON DELETE CASCADE NOT NULL,
+  bill_id UUID REFERENCES bills(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Payment Reversals table (audit trail of voided collections)
+CREATE TABLE IF NOT EXISTS payment_reversals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id UUID,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  reason TEXT NOT NULL,
+  -- Snapshot of the transactions rows that were removed
+  reversed_transactions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reversed_by_username TEXT,
+  reversed_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Balance Adjustments table (recorded corrections to a customer's outstanding balance)
+CREATE TABLE IF NOT EXISTS balance_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE NOT NULL,
+  previous_balance NUMERIC(10, 2) NOT NULL,
+  new_balance NUMERIC(10, 2) NOT NULL,
+  -- New balance minus previous balance
+  amount NUMERIC(10, 2) NOT NULL,
+  reason TEXT NOT NULL,
+  adjusted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  adjusted_by_username TEXT,
+  adjusted_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Credit Notes table (sales returns against an existing bill)
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number TEXT UNIQUE,
+  bill_id UUID REFERENCES bills(id) ON DELETE RESTRICT NOT NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  reason TEXT,
+  date_of_credit_note TIMESTAMPTZ DEFAULT now(),
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- Create Credit Note Items table (the returned subset of a bill's items)
+CREATE TABLE IF NOT EXISTS credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID REFERENCES credit_notes(id) ON DELETE CASCADE NOT NULL,
+  bill_item_id UUID REFERENCES bill_items(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  price NUMERIC(10, 2) NOT NULL
+);
+
 -- Create Seller Information table (single row design)
 CREATE TABLE IF NOT EXISTS seller_info (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -167,6 +422,8 @@ CREATE TABLE IF NOT EXISTS seller_info (
   contact_number TEXT NOT NULL,
   address TEXT,
   gst_number TEXT,
+  state TEXT,
+  state_code TEXT, -- Two-digit GST state code
   bank_account_number TEXT,
   account_holder_name TEXT,
   account_no TEXT,
@@ -180,8 +437,34 @@ CREATE TABLE IF NOT EXISTS seller_info (
 -- Add a unique constraint to ensure only one row exists
 CREATE UNIQUE INDEX IF NOT EXISTS single_seller_info_idx ON seller_info ((true));
 
+-- Create App Settings table (business settings shared by all users, one JSON value per key)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Number Series table (numbering scheme for invoices and orders)
+CREATE TABLE IF NOT EXISTS number_series (
+  document_type TEXT PRIMARY KEY CHECK (document_type IN ('invoice', 'order')),
+  prefix TEXT NOT NULL DEFAULT '',
+  fy_format TEXT NOT NULL DEFAULT 'none' CHECK (fy_format IN ('none', 'YYYY-YY', 'YY-YY', 'YYYY')),
+  separator TEXT NOT NULL DEFAULT '' CHECK (separator IN ('', '/', '-')),
+  padding INTEGER NOT NULL DEFAULT 6 CHECK (padding BETWEEN 1 AND 10),
+  reset_rule TEXT NOT NULL DEFAULT 'never' CHECK (reset_rule IN ('never', 'financial_year')),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create Number Series Counters table (last number used per series and period)
+CREATE TABLE IF NOT EXISTS number_series_counters (
+  document_type TEXT REFERENCES number_series(document_type) ON DELETE CASCADE,
+  period TEXT NOT NULL, -- Financial year such as 2026-27, or 'all' for series that never reset
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, period)
+);
+
 -- Create Roles table
-CREATE TABLE public.roles (
+CREATE TABLE IF NOT EXISTS public.roles (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name TEXT NOT NULL UNIQUE,
   description TEXT,
@@ -189,14 +472,14 @@ CREATE TABLE public.roles (
 );
 
 -- Create public.users table
-CREATE TABLE public.users (
+CREATE TABLE IF NOT EXISTS public.users (
   id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   username TEXT UNIQUE,
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
 -- Create User_Roles table
-CREATE TABLE public.user_roles (
+CREATE TABLE IF NOT EXISTS public.user_roles (
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
   role_id UUID REFERENCES roles(id) ON DELETE CASCADE,
   PRIMARY KEY (user_id, role_id)
@@ -209,6 +492,89 @@ INSERT INTO roles (name, description) VALUES
   ('staff', 'Staff with limited access')
 ON CONFLICT (name) DO NOTHING;
 
+-- Create Permissions table (actions and pages that can be granted to roles)
+CREATE TABLE IF NOT EXISTS permissions (
+  key TEXT PRIMARY KEY, -- e.g. bills.delete
+  category TEXT NOT NULL,
+  description TEXT NOT NULL
+);
+
+-- Create Role Permissions table (permissions granted to each role; admins always have all of them)
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_id UUID REFERENCES roles(id) ON DELETE CASCADE,
+  permission_key TEXT REFERENCES permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role_id, permission_key)
+);
+
+-- Earlier versions of this script dropped and recreated roles on every run,
+-- which removed this foreign key and left grants of roles that no longer exist
+DO $$
+DECLARE
+  orphaned INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'role_permissions'::regclass AND confrelid = 'roles'::regclass AND contype = 'f'
+  ) THEN
+    DELETE FROM role_permissions rp WHERE NOT EXISTS (SELECT 1 FROM roles r WHERE r.id = rp.role_id);
+    GET DIAGNOSTICS orphaned = ROW_COUNT;
+    IF orphaned > 0 THEN
+      RAISE NOTICE 'Removed % permission grants of roles that no longer exist', orphaned;
+    END IF;
+
+    ALTER TABLE role_permissions ADD CONSTRAINT role_permissions_role_id_fkey
+      FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Insert default permissions. Default grants are only given for permissions
+-- added by this run, so grants an admin has changed are left alone on reruns.
+WITH new_permissions AS (
+  INSERT INTO permissions (key, category, description) VALUES
+    ('dashboard.view', 'Pages', 'View the dashboard'),
+    ('billing.view', 'Pages', 'Open the billing page'),
+    ('orders.view', 'Pages', 'Open the orders page'),
+    ('inventory.view', 'Pages', 'Open the inventory page'),
+    ('payments.view', 'Pages', 'Open the payments page'),
+    ('customers.view', 'Pages', 'Open the customers page'),
+    ('damaged_stock.view', 'Pages', 'Open the damaged stock page'),
+    ('financial_analytics.view', 'Pages', 'Open financial analytics'),
+    ('admin.view', 'Pages', 'Open the admin panel'),
+    ('bills.create', 'Billing', 'Create bills and generate bills from orders'),
+    ('bills.edit', 'Billing', 'Edit bills'),
+    ('bills.delete', 'Billing', 'Delete bills'),
+    ('credit_notes.create', 'Billing', 'Issue credit notes for returns'),
+    ('orders.create', 'Orders', 'Create orders'),
+    ('orders.edit', 'Orders', 'Edit orders'),
+    ('stock.add', 'Inventory', 'Add stock received from vendors'),
+    ('stock.edit', 'Inventory', 'Edit stock counts'),
+    ('stock.transfer', 'Inventory', 'Move stock between locations'),
+    ('stock_locations.manage', 'Inventory', 'Add, rename and deactivate stock locations'),
+    ('damaged_stock.record', 'Inventory', 'Write off damaged stock and log it against the vendor'),
+    ('payments.record', 'Payments', 'Record customer collections'),
+    ('expenses.record', 'Payments', 'Record expenses'),
+    ('credits.record', 'Payments', 'Record vendor credits'),
+    ('cheques.manage', 'Payments', 'Deposit, clear and bounce cheques'),
+    ('payments.void', 'Payments', 'Void collections entered by mistake'),
+    ('purchases.view', 'Pages', 'Open the purchases page'),
+    ('purchases.create', 'Purchases', 'Record purchase bills from vendors'),
+    ('stock_take.view', 'Pages', 'Open the stock take page'),
+    ('stock_take.count', 'Inventory', 'Start stock takes and enter counted quantities'),
+    ('stock_take.approve', 'Inventory', 'Approve or cancel stock takes and post their variances')
+  ON CONFLICT (key) DO NOTHING
+  RETURNING key
+)
+-- Default grants mirror the original page access: managers get everything
+-- except the admin panel and stock count edits, staff work with orders and
+-- enter stock take counts
+INSERT INTO role_permissions (role_id, permission_key)
+SELECT r.id, p.key
+FROM roles r
+CROSS JOIN new_permissions p
+WHERE (r.name = 'manager' AND p.key NOT IN ('admin.view', 'stock.edit', 'stock_take.approve'))
+   OR (r.name = 'staff' AND p.key IN ('orders.view', 'orders.create', 'stock_take.view', 'stock_take.count'))
+ON CONFLICT DO NOTHING;
+
 
 -- === DATABASE FUNCTIONS ===
 
@@ -231,11 +597,106 @@ CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- Bring back profiles lost when earlier versions of this script dropped public.users
+INSERT INTO public.users (id, username)
+SELECT id, COALESCE(raw_user_meta_data->>'username', email)
+FROM auth.users
+ON CONFLICT DO NOTHING;
+
+
+-- Function to get the role of the signed-in user (the highest one if several are assigned)
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+DECLARE
+  role_name TEXT;
+BEGIN
+  SELECT r.name INTO role_name
+  FROM public.user_roles ur
+  JOIN public.roles r ON r.id = ur.role_id
+  WHERE ur.user_id = auth.uid()
+  ORDER BY CASE r.name WHEN 'admin' THEN 1 WHEN 'manager' THEN 2 WHEN 'staff' THEN 3 ELSE 4 END
+  LIMIT 1;
+
+  RETURN role_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to check whether the signed-in user has the admin role
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE(current_user_role() = 'admin', false);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to check whether the signed-in user has been granted a permission
+CREATE OR REPLACE FUNCTION has_permission(p_permission_key TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role_id = ur.role_id
+    WHERE ur.user_id = auth.uid() AND rp.permission_key = p_permission_key
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to check whether the signed-in user has been granted any of the given permissions
+CREATE OR REPLACE FUNCTION has_any_permission(VARIADIC p_permission_keys TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role_id = ur.role_id
+    WHERE ur.user_id = auth.uid() AND rp.permission_key = ANY(p_permission_keys)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to stop an action the signed-in user has not been granted
+CREATE OR REPLACE FUNCTION require_permission(p_permission_key TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT has_permission(p_permission_key) THEN
+    RAISE EXCEPTION 'You do not have permission to perform this action (%)', p_permission_key;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to list the permissions of the signed-in user
+CREATE OR REPLACE FUNCTION get_my_permissions()
+RETURNS SETOF TEXT AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN QUERY SELECT key FROM public.permissions;
+  ELSE
+    RETURN QUERY
+    SELECT DISTINCT rp.permission_key
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role_id = ur.role_id
+    WHERE ur.user_id = auth.uid();
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
 
 -- Function to get users with their roles
 CREATE FUNCTION get_users_with_roles()
 RETURNS TABLE(id UUID, username TEXT, role_name TEXT) AS $$
 BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can list users';
+  END IF;
+
   RETURN QUERY
   SELECT
     u.id,
@@ -253,123 +714,1427 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 CREATE OR REPLACE FUNCTION delete_user(user_id_to_delete UUID)
 RETURNS void AS $$
 BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can delete users';
+  END IF;
+
   DELETE FROM auth.users WHERE id = user_id_to_delete;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Function to decrement stock
-CREATE OR REPLACE FUNCTION decrement_stock(p_product_id UUID, p_quantity INTEGER)
-RETURNS VOID AS $$
+-- Function to get the location stock is booked to when none is given
+CREATE OR REPLACE FUNCTION default_stock_location()
+RETURNS UUID AS $$
+  SELECT id FROM stock_locations WHERE is_default LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Function to move stock in or out and log the movement with its reason
+-- and the acting user. Every change to inventory.quantity goes through here.
+-- The change is also booked to p_location_id (the default location if NULL).
+-- With p_batch_id the movement is booked against that batch, at the batch's
+-- location; other outgoing stock is taken first-expiry-first-out from the
+-- product's batches at the location. Sales never draw on expired batches: a
+-- sale that would need them is refused until the expired stock is written
+-- off. Other outgoing movements (corrections, damage, transfers) use expired
+-- batches last. Stock without a batch is used after the batches.
+-- Stock coming back against a bill (edits, deletion, returns) goes back into
+-- the batches that bill drew from, and stock coming into a location by
+-- transfer goes into batches of the same code as the ones it left. Each batch
+-- touched gets its own log row.
+DROP FUNCTION IF EXISTS record_stock_movement(UUID, INTEGER, TEXT, TEXT, UUID, NUMERIC, UUID, UUID);
+DROP FUNCTION IF EXISTS record_stock_movement(UUID, INTEGER, TEXT, TEXT, UUID, NUMERIC, UUID, UUID, UUID);
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id UUID,
+  p_quantity_change INTEGER,
+  p_reason TEXT,
+  p_comments TEXT DEFAULT NULL,
+  p_vendor_id UUID DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_purchase_bill_id UUID DEFAULT NULL,
+  p_bill_id UUID DEFAULT NULL,
+  p_batch_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_transfer_id UUID DEFAULT NULL
+)
+RETURNS inventory_transactions AS $$
+DECLARE
+  new_quantity INTEGER;
+  movement inventory_transactions;
+  batch RECORD;
+  taken INTEGER;
+  -- Portions of the movement booked to each batch; a NULL batch is stock without one
+  split_batch_ids UUID[] := '{}';
+  split_changes INTEGER[] := '{}';
+  unbatched_change INTEGER := p_quantity_change;
+  unbatched_stock INTEGER;
+  v_batch_id UUID;
+  v_location_id UUID := COALESCE(p_location_id, default_stock_location());
 BEGIN
-  UPDATE inventory
-  SET quantity = quantity - p_quantity
-  WHERE product_id = p_product_id;
-END;
-$$ LANGUAGE plpgsql;
+  IF p_batch_id IS NOT NULL THEN
+    SELECT * INTO batch FROM inventory_batches WHERE id = p_batch_id AND product_id = p_product_id FOR UPDATE;
 
--- Function to update customer balance
-CREATE OR REPLACE FUNCTION update_customer_balance(p_customer_id UUID, p_amount NUMERIC)
-RETURNS VOID AS $$
-BEGIN
-  UPDATE customers
-  SET outstanding_balance = outstanding_balance + p_amount
-  WHERE id = p_customer_id;
-END;
-$$ LANGUAGE plpgsql;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Batch % not found for this product', p_batch_id;
+    END IF;
 
--- Function to increment stock
-CREATE OR REPLACE FUNCTION increment_stock(p_product_id UUID, p_quantity INTEGER, p_vendor_id UUID, p_comments TEXT)
-RETURNS VOID AS $$
-BEGIN
-  -- Add the transaction to the log
-  INSERT INTO inventory_transactions (product_id, quantity_change, vendor_id, comments)
-  VALUES (p_product_id, p_quantity, p_vendor_id, p_comments);
+    IF p_location_id IS NOT NULL AND batch.location_id <> p_location_id THEN
+      RAISE EXCEPTION 'Batch % is not held at this location', batch.batch_code;
+    END IF;
+
+    v_location_id := batch.location_id;
+  END IF;
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'No default stock location is set';
+  END IF;
+
+  IF p_batch_id IS NOT NULL THEN
+    IF batch.quantity + p_quantity_change < 0 THEN
+      RAISE EXCEPTION 'Batch % only has % units', batch.batch_code, batch.quantity;
+    END IF;
+
+    UPDATE inventory_batches SET quantity = quantity + p_quantity_change WHERE id = p_batch_id;
+    split_batch_ids := ARRAY[p_batch_id];
+    split_changes := ARRAY[p_quantity_change];
+    unbatched_change := 0;
+  ELSIF p_quantity_change < 0 THEN
+    SELECT ls.quantity - COALESCE((
+      SELECT SUM(b.quantity) FROM inventory_batches b
+      WHERE b.product_id = p_product_id AND b.location_id = v_location_id
+    ), 0)
+    INTO unbatched_stock
+    FROM location_stock ls
+    WHERE ls.product_id = p_product_id AND ls.location_id = v_location_id;
+
+    FOR batch IN
+      SELECT id, quantity FROM inventory_batches
+      WHERE product_id = p_product_id AND location_id = v_location_id AND quantity > 0
+        AND (p_reason <> 'sale' OR expiry_date IS NULL OR expiry_date >= CURRENT_DATE)
+      ORDER BY COALESCE(expiry_date < CURRENT_DATE, false), expiry_date NULLS LAST, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN unbatched_change = 0;
+      taken := LEAST(batch.quantity, -unbatched_change);
+      UPDATE inventory_batches SET quantity = quantity - taken WHERE id = batch.id;
+      split_batch_ids := split_batch_ids || batch.id;
+      split_changes := split_changes || -taken;
+      unbatched_change := unbatched_change + taken;
+    END LOOP;
+
+    -- What the unexpired batches could not cover must come from stock without a batch
+    IF p_reason = 'sale' AND -unbatched_change > GREATEST(COALESCE(unbatched_stock, 0), 0) AND EXISTS (
+      SELECT 1 FROM inventory_batches
+      WHERE product_id = p_product_id AND location_id = v_location_id AND quantity > 0 AND expiry_date < CURRENT_DATE
+    ) THEN
+      RAISE EXCEPTION 'Only % units of % can be sold, the rest has expired. Write off the expired batches first',
+        unbatched_change - p_quantity_change + GREATEST(COALESCE(unbatched_stock, 0), 0),
+        (SELECT name FROM products WHERE id = p_product_id);
+    END IF;
+  ELSIF p_quantity_change > 0 AND p_bill_id IS NOT NULL THEN
+    -- Put the stock back into the batches this bill still holds, latest expiry first
+    FOR batch IN
+      SELECT t.batch_id AS id, -SUM(t.quantity_change)::INTEGER AS quantity
+      FROM inventory_transactions t
+      JOIN inventory_batches b ON b.id = t.batch_id
+      WHERE t.bill_id = p_bill_id AND t.product_id = p_product_id AND b.location_id = v_location_id
+      GROUP BY t.batch_id, b.expiry_date, b.created_at
+      HAVING SUM(t.quantity_change) < 0
+      ORDER BY b.expiry_date DESC NULLS FIRST, b.created_at DESC
+    LOOP
+      EXIT WHEN unbatched_change = 0;
+      taken := LEAST(batch.quantity, unbatched_change);
+      UPDATE inventory_batches SET quantity = quantity + taken WHERE id = batch.id;
+      split_batch_ids := split_batch_ids || batch.id;
+      split_changes := split_changes || taken;
+      unbatched_change := unbatched_change - taken;
+    END LOOP;
+  ELSIF p_quantity_change > 0 AND p_reason = 'transfer' AND p_transfer_id IS NOT NULL THEN
+    -- Receive the batches the other side of this transfer gave up
+    FOR batch IN
+      SELECT b.batch_code, b.manufacture_date, b.expiry_date, b.vendor_id, -SUM(t.quantity_change)::INTEGER AS quantity
+      FROM inventory_transactions t
+      JOIN inventory_batches b ON b.id = t.batch_id
+      WHERE t.transfer_id = p_transfer_id AND t.product_id = p_product_id AND t.quantity_change < 0
+      GROUP BY b.id
+      ORDER BY b.expiry_date NULLS LAST, b.created_at
+    LOOP
+      EXIT WHEN unbatched_change = 0;
+      taken := LEAST(batch.quantity, unbatched_change);
+
+      INSERT INTO inventory_batches (product_id, location_id, batch_code, manufacture_date, expiry_date, vendor_id, quantity)
+      VALUES (p_product_id, v_location_id, batch.batch_code, batch.manufacture_date, batch.expiry_date, batch.vendor_id, taken)
+      ON CONFLICT (product_id, location_id, batch_code) DO UPDATE
+      SET quantity = inventory_batches.quantity + EXCLUDED.quantity
+      RETURNING id INTO v_batch_id;
+
+      split_batch_ids := split_batch_ids || v_batch_id;
+      split_changes := split_changes || taken;
+      unbatched_change := unbatched_change - taken;
+    END LOOP;
+  END IF;
+
+  IF unbatched_change <> 0 OR cardinality(split_changes) = 0 THEN
+    split_batch_ids := split_batch_ids || NULL::UUID;
+    split_changes := split_changes || unbatched_change;
+  END IF;
 
-  -- Update the main inventory table
   UPDATE inventory
-  SET quantity = quantity + p_quantity, updated_at = now()
-  WHERE product_id = p_product_id;
+  SET quantity = quantity + p_quantity_change, updated_at = now()
+  WHERE product_id = p_product_id
+  RETURNING quantity INTO new_quantity;
 
   -- If the product is not in the inventory table, insert it.
   IF NOT FOUND THEN
     INSERT INTO inventory (product_id, quantity)
-    VALUES (p_product_id, p_quantity);
+    VALUES (p_product_id, p_quantity_change)
+    RETURNING quantity INTO new_quantity;
   END IF;
+
+  INSERT INTO location_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, p_quantity_change)
+  ON CONFLICT (product_id, location_id) DO UPDATE
+  SET quantity = location_stock.quantity + EXCLUDED.quantity, updated_at = now();
+
+  -- Log each portion with the running balance; the last row is returned
+  new_quantity := new_quantity - p_quantity_change;
+  FOR i IN 1 .. cardinality(split_changes) LOOP
+    new_quantity := new_quantity + split_changes[i];
+
+    INSERT INTO inventory_transactions (
+      product_id, quantity_change, reason, balance_after, comments, vendor_id,
+      unit_cost, purchase_bill_id, bill_id, batch_id, location_id, transfer_id,
+      created_by, created_by_username
+    )
+    VALUES (
+      p_product_id, split_changes[i], p_reason, new_quantity, p_comments, p_vendor_id,
+      p_unit_cost, p_purchase_bill_id, p_bill_id, split_batch_ids[i], v_location_id, p_transfer_id,
+      auth.uid(), (SELECT username FROM public.users WHERE id = auth.uid())
+    )
+    RETURNING * INTO movement;
+  END LOOP;
+
+  RETURN movement;
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to process a payment (collection)
-CREATE OR REPLACE FUNCTION process_payment(p_customer_id UUID, p_payment_amount NUMERIC, p_bill_ids UUID[], p_date_of_transaction TIMESTAMPTZ)
+-- Function to start a stock take of one location (the default location if
+-- NULL). Snapshots the expected quantity at that location, lot size and price
+-- of every product; only one stock take can be open at a time.
+DROP FUNCTION IF EXISTS start_stock_take(TEXT);
+CREATE OR REPLACE FUNCTION start_stock_take(p_comments TEXT DEFAULT NULL, p_location_id UUID DEFAULT NULL)
+RETURNS stock_takes AS $$
+DECLARE
+  new_stock_take stock_takes;
+  v_location_id UUID := COALESCE(p_location_id, default_stock_location());
+BEGIN
+  PERFORM require_permission('stock_take.count');
+
+  IF NOT EXISTS (SELECT 1 FROM stock_locations WHERE id = v_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Select an active location to count';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM stock_takes WHERE status = 'open') THEN
+    RAISE EXCEPTION 'A stock take is already open. Approve or cancel it first.';
+  END IF;
+
+  INSERT INTO stock_takes (location_id, comments, started_by, started_by_username)
+  VALUES (v_location_id, NULLIF(trim(p_comments), ''), auth.uid(), (SELECT username FROM public.users WHERE id = auth.uid()))
+  RETURNING * INTO new_stock_take;
+
+  INSERT INTO stock_take_items (stock_take_id, product_id, expected_quantity, lot_size, unit_price)
+  SELECT new_stock_take.id, p.id, COALESCE(ls.quantity, 0), GREATEST(COALESCE(p.lot_size, 1), 1), p.price
+  FROM products p
+  LEFT JOIN location_stock ls ON ls.product_id = p.id AND ls.location_id = v_location_id;
+
+  RETURN new_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to save counted lots and loose units on an open stock take.
+-- p_counts is [{product_id, lots, units}]; leaving both empty clears the count.
+CREATE OR REPLACE FUNCTION save_stock_take_counts(p_stock_take_id UUID, p_counts JSONB)
 RETURNS VOID AS $$
 DECLARE
-  bill_record RECORD;
-  payment_left NUMERIC := p_payment_amount;
-  payable_amount NUMERIC;
+  entry RECORD;
 BEGIN
-  -- Update customer balance
-  UPDATE customers
-  SET outstanding_balance = outstanding_balance - p_payment_amount
-  WHERE id = p_customer_id;
+  PERFORM require_permission('stock_take.count');
 
-  -- Loop through selected bills and apply payment
-  FOR bill_record IN
-    SELECT * FROM bills
-    WHERE id = ANY(p_bill_ids) AND status IN ('outstanding', 'partial')
-    ORDER BY due_date
+  IF NOT EXISTS (SELECT 1 FROM stock_takes WHERE id = p_stock_take_id AND status = 'open') THEN
+    RAISE EXCEPTION 'Stock take % is not open', p_stock_take_id;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_counts, '[]'::JSONB)) AS x(product_id UUID, lots INTEGER, units INTEGER)
   LOOP
-    IF payment_left <= 0 THEN
-      EXIT;
+    IF COALESCE(entry.lots, 0) < 0 OR COALESCE(entry.units, 0) < 0 THEN
+      RAISE EXCEPTION 'Counted quantities cannot be negative';
     END IF;
 
-    payable_amount := bill_record.total_amount - bill_record.paid_amount;
-    
-    IF payment_left >= payable_amount THEN
-      -- Pay the bill in full
-      UPDATE bills
-      SET paid_amount = total_amount, status = 'paid'
-      WHERE id = bill_record.id;
+    UPDATE stock_take_items
+    SET
+      counted_lots = entry.lots,
+      counted_units = entry.units,
+      counted_quantity = CASE
+        WHEN entry.lots IS NULL AND entry.units IS NULL THEN NULL
+        ELSE COALESCE(entry.lots, 0) * lot_size + COALESCE(entry.units, 0)
+      END,
+      counted_by_username = (SELECT username FROM public.users WHERE id = auth.uid()),
+      counted_at = now()
+    WHERE stock_take_id = p_stock_take_id AND product_id = entry.product_id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
-      INSERT INTO transactions (bill_id, customer_id, amount, type, description, date_of_transaction)
-      VALUES (bill_record.id, p_customer_id, payable_amount, 'revenue', 'Payment for Bill #' || bill_record.id::text, p_date_of_transaction);
+-- Function to approve a stock take and post every variance as a stock
+-- correction at the counted location in one transaction. Variances are applied
+-- as counted minus expected, so sales made while counting are kept. Uncounted
+-- products are skipped.
+CREATE OR REPLACE FUNCTION approve_stock_take(p_stock_take_id UUID)
+RETURNS stock_takes AS $$
+DECLARE
+  target stock_takes;
+  item RECORD;
+  reference TEXT;
+BEGIN
+  PERFORM require_permission('stock_take.approve');
 
-      payment_left := payment_left - payable_amount;
-    ELSE
-      -- Partially pay the bill
-      UPDATE bills
-      SET paid_amount = paid_amount + payment_left, status = 'partial'
-      WHERE id = bill_record.id;
+  SELECT * INTO target FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
 
-      INSERT INTO transactions (bill_id, customer_id, amount, type, description, date_of_transaction)
-      VALUES (bill_record.id, p_customer_id, payment_left, 'revenue', 'Partial payment for Bill #' || bill_record.id::text, p_date_of_transaction);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take % not found', p_stock_take_id;
+  END IF;
 
-      payment_left := 0;
-    END IF;
+  IF target.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock take is already %', target.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM stock_take_items WHERE stock_take_id = p_stock_take_id AND counted_quantity IS NOT NULL) THEN
+    RAISE EXCEPTION 'No products have been counted yet';
+  END IF;
+
+  reference := 'Stock take ' || upper(left(target.id::text, 8));
+
+  FOR item IN
+    SELECT * FROM stock_take_items
+    WHERE stock_take_id = p_stock_take_id
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+  LOOP
+    PERFORM record_stock_movement(
+      item.product_id, item.counted_quantity - item.expected_quantity, 'correction', reference,
+      NULL, NULL, NULL, NULL, NULL, target.location_id
+    );
   END LOOP;
+
+  UPDATE stock_takes
+  SET status = 'approved', closed_by = auth.uid(), closed_by_username = (SELECT username FROM public.users WHERE id = auth.uid()), closed_at = now()
+  WHERE id = p_stock_take_id
+  RETURNING * INTO target;
+
+  RETURN target;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Function to record an expense
-CREATE OR REPLACE FUNCTION record_expense(p_amount NUMERIC, p_vendor_id UUID, p_category_id UUID, p_comments TEXT, p_date_of_transaction TIMESTAMPTZ)
+-- Function to cancel an open stock take without touching stock
+CREATE OR REPLACE FUNCTION cancel_stock_take(p_stock_take_id UUID)
+RETURNS stock_takes AS $$
+DECLARE
+  target stock_takes;
+BEGIN
+  PERFORM require_permission('stock_take.approve');
+
+  UPDATE stock_takes
+  SET status = 'cancelled', closed_by = auth.uid(), closed_by_username = (SELECT username FROM public.users WHERE id = auth.uid()), closed_at = now()
+  WHERE id = p_stock_take_id AND status = 'open'
+  RETURNING * INTO target;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take % is not open', p_stock_take_id;
+  END IF;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to decrement stock
+CREATE OR REPLACE FUNCTION decrement_stock(p_product_id UUID, p_quantity INTEGER)
 RETURNS VOID AS $$
 BEGIN
-  INSERT INTO transactions (amount, vendor_id, category_id, description, type, date_of_transaction)
-  VALUES (p_amount, p_vendor_id, p_category_id, p_comments, 'expense', p_date_of_transaction);
+  PERFORM record_stock_movement(p_product_id, -p_quantity, 'sale');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to correct the counted stock of a product at one location by hand.
+-- The difference is logged as a correction rather than overwritten.
+-- A location is required so the count is compared with, and booked to, the
+-- stock actually counted rather than the product's total.
+DROP FUNCTION IF EXISTS adjust_stock(UUID, INTEGER, TEXT);
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_product_id UUID,
+  p_new_quantity INTEGER,
+  p_comments TEXT DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS inventory_transactions AS $$
+DECLARE
+  current_quantity INTEGER;
+BEGIN
+  PERFORM require_permission('stock.edit');
+
+  IF p_new_quantity IS NULL OR p_new_quantity < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative';
+  END IF;
+
+  IF p_location_id IS NULL THEN
+    RAISE EXCEPTION 'Select the location whose stock was counted';
+  END IF;
+
+  SELECT quantity INTO current_quantity
+  FROM location_stock
+  WHERE product_id = p_product_id AND location_id = p_location_id
+  FOR UPDATE;
+
+  IF COALESCE(current_quantity, 0) = p_new_quantity THEN
+    RAISE EXCEPTION 'Stock is already %', p_new_quantity;
+  END IF;
+
+  RETURN record_stock_movement(
+    p_product_id,
+    p_new_quantity - COALESCE(current_quantity, 0),
+    'correction',
+    COALESCE(NULLIF(trim(p_comments), ''), 'Manual stock correction'),
+    NULL, NULL, NULL, NULL, NULL, p_location_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move stock from one location to another, e.g. loading a van
+-- from the godown. p_items is a JSON array of { product_id, quantity }.
+-- Each product is logged as a paired out/in movement sharing a transfer id,
+-- which is returned. Batches move with the stock, first expiry first.
+-- Product totals are unchanged.
+CREATE OR REPLACE FUNCTION transfer_stock(
+  p_from_location_id UUID,
+  p_to_location_id UUID,
+  p_items JSONB,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  from_location stock_locations;
+  to_location stock_locations;
+  requested RECORD;
+  available_stock INTEGER;
+  product_name TEXT;
+  v_transfer_id UUID := gen_random_uuid();
+  v_comments TEXT;
+BEGIN
+  PERFORM require_permission('stock.transfer');
+
+  SELECT * INTO from_location FROM stock_locations WHERE id = p_from_location_id;
+  SELECT * INTO to_location FROM stock_locations WHERE id = p_to_location_id;
+
+  IF from_location.id IS NULL OR to_location.id IS NULL THEN
+    RAISE EXCEPTION 'Select both the source and destination locations';
+  END IF;
+
+  IF from_location.id = to_location.id THEN
+    RAISE EXCEPTION 'Source and destination must be different locations';
+  END IF;
+
+  IF NOT to_location.is_active THEN
+    RAISE EXCEPTION 'Location % is inactive', to_location.name;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A transfer must contain at least one item';
+  END IF;
+
+  v_comments := COALESCE(NULLIF(trim(p_comments), ''), 'Transfer from ' || from_location.name || ' to ' || to_location.name);
+
+  FOR requested IN
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER)
+    GROUP BY product_id
+  LOOP
+    IF requested.quantity IS NULL OR requested.quantity <= 0 THEN
+      RAISE EXCEPTION 'Transfer quantities must be greater than zero';
+    END IF;
+
+    SELECT quantity INTO available_stock
+    FROM location_stock
+    WHERE product_id = requested.product_id AND location_id = from_location.id
+    FOR UPDATE;
+
+    IF COALESCE(available_stock, 0) < requested.quantity THEN
+      SELECT name INTO product_name FROM products WHERE id = requested.product_id;
+      RAISE EXCEPTION 'Insufficient stock for % at %: requested %, available %',
+        COALESCE(product_name, requested.product_id::text), from_location.name,
+        requested.quantity, COALESCE(available_stock, 0);
+    END IF;
+
+    PERFORM record_stock_movement(
+      requested.product_id, -requested.quantity::INTEGER, 'transfer', v_comments,
+      NULL, NULL, NULL, NULL, NULL, from_location.id, v_transfer_id
+    );
+    PERFORM record_stock_movement(
+      requested.product_id, requested.quantity::INTEGER, 'transfer', v_comments,
+      NULL, NULL, NULL, NULL, NULL, to_location.id, v_transfer_id
+    );
+  END LOOP;
+
+  RETURN v_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to make a location the default for stock booked without one
+CREATE OR REPLACE FUNCTION set_default_stock_location(p_location_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM require_permission('stock_locations.manage');
+
+  IF NOT EXISTS (SELECT 1 FROM stock_locations WHERE id = p_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Only an active location can be the default';
+  END IF;
+
+  UPDATE stock_locations SET is_default = false WHERE is_default AND id <> p_location_id;
+  UPDATE stock_locations SET is_default = true WHERE id = p_location_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to update customer balance
+CREATE OR REPLACE FUNCTION update_customer_balance(p_customer_id UUID, p_amount NUMERIC)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance + p_amount
+  WHERE id = p_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to fold received stock into a product's moving weighted-average cost.
+-- Must run before the received quantity is added to inventory.
+CREATE OR REPLACE FUNCTION update_average_cost(p_product_id UUID, p_quantity INTEGER, p_unit_cost NUMERIC)
+RETURNS VOID AS $$
+DECLARE
+  current_quantity INTEGER;
+BEGIN
+  IF p_unit_cost IS NULL OR p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT GREATEST(quantity, 0) INTO current_quantity FROM inventory WHERE product_id = p_product_id;
+  current_quantity := COALESCE(current_quantity, 0);
+
+  UPDATE products
+  SET average_cost = CASE
+    WHEN current_quantity = 0 OR average_cost IS NULL THEN p_unit_cost
+    ELSE ROUND((current_quantity * average_cost + p_quantity * p_unit_cost) / (current_quantity + p_quantity), 4)
+  END
+  WHERE id = p_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to increment stock. A batch code books the stock into that batch,
+-- creating it at the location with its manufacture and expiry dates on first
+-- receipt. Stock is received into p_location_id, or the default location if NULL.
+DROP FUNCTION IF EXISTS increment_stock(UUID, INTEGER, UUID, TEXT);
+DROP FUNCTION IF EXISTS increment_stock(UUID, INTEGER, UUID, TEXT, NUMERIC);
+DROP FUNCTION IF EXISTS increment_stock(UUID, INTEGER, UUID, TEXT, NUMERIC, TEXT, DATE, DATE);
+CREATE OR REPLACE FUNCTION increment_stock(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_vendor_id UUID,
+  p_comments TEXT,
+  p_unit_cost NUMERIC DEFAULT NULL,
+  p_batch_code TEXT DEFAULT NULL,
+  p_manufacture_date DATE DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_batch_id UUID;
+BEGIN
+  PERFORM require_permission('stock.add');
+
+  IF p_unit_cost IS NOT NULL AND p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative';
+  END IF;
+
+  IF p_expiry_date < p_manufacture_date THEN
+    RAISE EXCEPTION 'Expiry date cannot be before the manufacture date';
+  END IF;
+
+  IF NULLIF(trim(p_batch_code), '') IS NOT NULL THEN
+    INSERT INTO inventory_batches (product_id, location_id, batch_code, manufacture_date, expiry_date, vendor_id)
+    VALUES (p_product_id, COALESCE(p_location_id, default_stock_location()), trim(p_batch_code), p_manufacture_date, p_expiry_date, p_vendor_id)
+    ON CONFLICT (product_id, location_id, batch_code) DO UPDATE
+    SET
+      manufacture_date = COALESCE(inventory_batches.manufacture_date, EXCLUDED.manufacture_date),
+      expiry_date = COALESCE(inventory_batches.expiry_date, EXCLUDED.expiry_date)
+    RETURNING id INTO v_batch_id;
+  ELSIF p_manufacture_date IS NOT NULL OR p_expiry_date IS NOT NULL THEN
+    RAISE EXCEPTION 'Enter a batch code for stock with manufacture or expiry dates';
+  END IF;
+
+  PERFORM update_average_cost(p_product_id, p_quantity, p_unit_cost);
+
+  PERFORM record_stock_movement(p_product_id, p_quantity, 'purchase', p_comments, p_vendor_id, p_unit_cost, NULL, NULL, v_batch_id, p_location_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record a purchase bill from a vendor. Received stock is added to
+-- inventory and the bill total is added to the vendor's outstanding balance
+-- (what we owe them).
+CREATE OR REPLACE FUNCTION create_purchase_bill(
+  p_vendor_id UUID,
+  p_vendor_invoice_number TEXT,
+  p_bill_date TIMESTAMPTZ,
+  p_due_date TIMESTAMPTZ,
+  p_items JSONB,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS purchase_bills AS $$
+DECLARE
+  new_bill purchase_bills;
+  item RECORD;
+  v_total NUMERIC := 0;
+BEGIN
+  PERFORM require_permission('purchases.create');
+
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = p_vendor_id AND type = 'vendor') THEN
+    RAISE EXCEPTION 'Vendor % not found', p_vendor_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A purchase bill needs at least one item';
+  END IF;
+
+  INSERT INTO purchase_bills (vendor_id, vendor_invoice_number, bill_date, due_date, comments)
+  VALUES (p_vendor_id, NULLIF(trim(p_vendor_invoice_number), ''), COALESCE(p_bill_date, now()), p_due_date, p_comments)
+  RETURNING * INTO new_bill;
+
+  FOR item IN SELECT * FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER, unit_cost NUMERIC)
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than zero';
+    END IF;
+    IF item.unit_cost IS NULL OR item.unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost cannot be negative';
+    END IF;
+
+    INSERT INTO purchase_bill_items (purchase_bill_id, product_id, quantity, unit_cost)
+    VALUES (new_bill.id, item.product_id, item.quantity, item.unit_cost);
+
+    PERFORM update_average_cost(item.product_id, item.quantity, item.unit_cost);
+
+    PERFORM record_stock_movement(
+      item.product_id, item.quantity, 'purchase',
+      'Purchase bill ' || COALESCE(new_bill.vendor_invoice_number, left(new_bill.id::text, 8)),
+      p_vendor_id, item.unit_cost, new_bill.id
+    );
+
+    v_total := v_total + item.quantity * item.unit_cost;
+  END LOOP;
+
+  UPDATE purchase_bills SET total_amount = v_total WHERE id = new_bill.id
+  RETURNING * INTO new_bill;
+
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance + v_total
+  WHERE id = p_vendor_id;
+
+  RETURN new_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to create or update a product together with its vendor links
+DROP FUNCTION IF EXISTS upsert_product_with_vendors(UUID, TEXT, NUMERIC, INTEGER, NUMERIC, INTEGER, UUID[]);
+CREATE OR REPLACE FUNCTION upsert_product_with_vendors(
+  p_id UUID,
+  p_name TEXT,
+  p_price NUMERIC,
+  p_lot_size INTEGER,
+  p_lot_price NUMERIC,
+  p_min_stock INTEGER,
+  p_vendor_ids UUID[],
+  p_hsn_code TEXT DEFAULT NULL,
+  p_gst_rate NUMERIC DEFAULT NULL,
+  p_cess_rate NUMERIC DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := p_id;
+BEGIN
+  PERFORM require_permission('admin.view');
+
+  IF v_product_id IS NULL THEN
+    INSERT INTO products (name, price, lot_size, lot_price, min_stock, hsn_code, gst_rate, cess_rate)
+    VALUES (p_name, p_price, p_lot_size, p_lot_price, p_min_stock, NULLIF(p_hsn_code, ''), p_gst_rate, p_cess_rate)
+    RETURNING id INTO v_product_id;
+  ELSE
+    UPDATE products
+    SET name = p_name,
+        price = p_price,
+        lot_size = p_lot_size,
+        lot_price = p_lot_price,
+        min_stock = p_min_stock,
+        hsn_code = NULLIF(p_hsn_code, ''),
+        gst_rate = p_gst_rate,
+        cess_rate = p_cess_rate
+    WHERE id = v_product_id;
+  END IF;
+
+  -- Replace the vendor links
+  DELETE FROM product_vendors WHERE product_id = v_product_id;
+  INSERT INTO product_vendors (product_id, vendor_id)
+  SELECT v_product_id, unnest(COALESCE(p_vendor_ids, ARRAY[]::UUID[]));
+
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to process a payment (collection)
+DROP FUNCTION IF EXISTS process_payment(UUID, NUMERIC, UUID[], TIMESTAMPTZ);
+CREATE OR REPLACE FUNCTION process_payment(
+  p_customer_id UUID,
+  p_payment_amount NUMERIC,
+  p_bill_ids UUID[],
+  p_date_of_transaction TIMESTAMPTZ,
+  p_payment_mode TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_bank_name TEXT DEFAULT NULL,
+  p_cheque_number TEXT DEFAULT NULL,
+  p_cheque_date DATE DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  bill_record RECORD;
+  payment_left NUMERIC := p_payment_amount;
+  payable_amount NUMERIC;
+  v_clearance_status TEXT := CASE WHEN p_payment_mode = 'cheque' THEN 'pending' ELSE 'cleared' END;
+  v_cheque_id UUID;
+  v_collection_id UUID := gen_random_uuid();
+BEGIN
+  PERFORM require_permission('payments.record');
+
+  IF p_payment_mode = 'cheque' THEN
+    IF COALESCE(trim(p_cheque_number), '') = '' THEN
+      RAISE EXCEPTION 'Cheque number is required for cheque payments';
+    END IF;
+
+    -- Register the cheque so it can be tracked until it clears or bounces
+    INSERT INTO cheques (customer_id, cheque_number, bank_name, cheque_date, amount, received_at)
+    VALUES (p_customer_id, trim(p_cheque_number), p_bank_name, p_cheque_date, p_payment_amount, COALESCE(p_date_of_transaction, now()))
+    RETURNING id INTO v_cheque_id;
+  END IF;
+
+  -- Update customer balance
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance - p_payment_amount
+  WHERE id = p_customer_id;
+
+  -- Loop through selected bills and apply payment
+  FOR bill_record IN
+    SELECT * FROM bills
+    WHERE id = ANY(p_bill_ids) AND status IN ('outstanding', 'partial')
+    ORDER BY due_date
+  LOOP
+    IF payment_left <= 0 THEN
+      EXIT;
+    END IF;
+
+    payable_amount := GREATEST(bill_record.total_amount - bill_record.credited_amount - COALESCE(bill_record.paid_amount, 0), 0);
+    
+    IF payment_left >= payable_amount THEN
+      -- Pay the bill in full
+      UPDATE bills
+      SET paid_amount = COALESCE(paid_amount, 0) + payable_amount, status = 'paid'
+      WHERE id = bill_record.id;
+
+      INSERT INTO transactions (bill_id, customer_id, amount, type, description, date_of_transaction, payment_mode, reference_number, bank_name, cheque_number, cheque_date, clearance_status, cheque_id, collection_id)
+      VALUES (bill_record.id, p_customer_id, payable_amount, 'revenue', 'Payment for Bill #' || bill_record.id::text, p_date_of_transaction, p_payment_mode, p_reference_number, p_bank_name, p_cheque_number, p_cheque_date, v_clearance_status, v_cheque_id, v_collection_id);
+
+      payment_left := payment_left - payable_amount;
+    ELSE
+      -- Partially pay the bill
+      UPDATE bills
+      SET paid_amount = paid_amount + payment_left, status = 'partial'
+      WHERE id = bill_record.id;
+
+      INSERT INTO transactions (bill_id, customer_id, amount, type, description, date_of_transaction, payment_mode, reference_number, bank_name, cheque_number, cheque_date, clearance_status, cheque_id, collection_id)
+      VALUES (bill_record.id, p_customer_id, payment_left, 'revenue', 'Partial payment for Bill #' || bill_record.id::text, p_date_of_transaction, p_payment_mode, p_reference_number, p_bank_name, p_cheque_number, p_cheque_date, v_clearance_status, v_cheque_id, v_collection_id);
+
+      payment_left := 0;
+    END IF;
+  END LOOP;
+
+  -- Keep whatever was not needed for the selected bills as an advance for later bills
+  IF payment_left > 0 THEN
+    INSERT INTO customer_advances (customer_id, amount, comments, date_of_transaction, cheque_id, collection_id)
+    VALUES (p_customer_id, payment_left, 'Unapplied amount from collection', p_date_of_transaction, v_cheque_id, v_collection_id);
+
+    INSERT INTO transactions (customer_id, amount, type, description, date_of_transaction, payment_mode, reference_number, bank_name, cheque_number, cheque_date, clearance_status, cheque_id, collection_id)
+    VALUES (p_customer_id, payment_left, 'revenue', 'Advance payment received', p_date_of_transaction, p_payment_mode, p_reference_number, p_bank_name, p_cheque_number, p_cheque_date, v_clearance_status, v_cheque_id, v_collection_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to pay a bill from the customer's unapplied advances, oldest first.
+-- The advance was already counted as revenue and taken off the customer's
+-- balance when it was received, so only the bill's paid amount changes here.
+CREATE OR REPLACE FUNCTION apply_customer_advance(p_bill_id UUID, p_amount NUMERIC DEFAULT NULL)
+RETURNS NUMERIC AS $$
+DECLARE
+  target_bill bills;
+  advance_record RECORD;
+  amount_left NUMERIC;
+  portion NUMERIC;
+  applied NUMERIC := 0;
+BEGIN
+  PERFORM require_permission('payments.record');
+
+  SELECT * INTO target_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  amount_left := GREATEST(target_bill.total_amount - target_bill.credited_amount - COALESCE(target_bill.paid_amount, 0), 0);
+  IF p_amount IS NOT NULL THEN
+    IF p_amount <= 0 THEN
+      RAISE EXCEPTION 'Amount to apply must be greater than zero';
+    END IF;
+    amount_left := LEAST(amount_left, p_amount);
+  END IF;
+
+  -- Lock the customer's advances so two bills cannot use the same money
+  PERFORM 1 FROM customer_advances WHERE customer_id = target_bill.customer_id FOR UPDATE;
+
+  FOR advance_record IN
+    SELECT
+      a.id,
+      a.amount - COALESCE((SELECT SUM(aa.amount) FROM advance_applications aa WHERE aa.advance_id = a.id), 0) AS remaining
+    FROM customer_advances a
+    WHERE a.customer_id = target_bill.customer_id
+    ORDER BY a.date_of_transaction, a.created_at
+  LOOP
+    EXIT WHEN amount_left <= 0;
+    CONTINUE WHEN advance_record.remaining <= 0;
+
+    portion := LEAST(advance_record.remaining, amount_left);
+
+    INSERT INTO advance_applications (advance_id, bill_id, amount)
+    VALUES (advance_record.id, p_bill_id, portion);
+
+    amount_left := amount_left - portion;
+    applied := applied + portion;
+  END LOOP;
+
+  IF applied > 0 THEN
+    UPDATE bills
+    SET
+      paid_amount = COALESCE(paid_amount, 0) + applied,
+      status = CASE WHEN COALESCE(paid_amount, 0) + applied >= total_amount - credited_amount THEN 'paid' ELSE 'partial' END
+    WHERE id = p_bill_id;
+  END IF;
+
+  RETURN applied;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to move a cheque to deposited or cleared
+CREATE OR REPLACE FUNCTION update_cheque_status(p_cheque_id UUID, p_status TEXT, p_date TIMESTAMPTZ DEFAULT now())
+RETURNS VOID AS $$
+DECLARE
+  target_cheque cheques;
+BEGIN
+  PERFORM require_permission('cheques.manage');
+
+  SELECT * INTO target_cheque FROM cheques WHERE id = p_cheque_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cheque % not found', p_cheque_id;
+  END IF;
+
+  IF target_cheque.status IN ('cleared', 'bounced') THEN
+    RAISE EXCEPTION 'Cheque % is already %', target_cheque.cheque_number, target_cheque.status;
+  END IF;
+
+  IF p_status = 'deposited' THEN
+    UPDATE cheques SET status = 'deposited', deposited_at = p_date WHERE id = p_cheque_id;
+  ELSIF p_status = 'cleared' THEN
+    UPDATE cheques
+    SET status = 'cleared', deposited_at = COALESCE(deposited_at, p_date), cleared_at = p_date
+    WHERE id = p_cheque_id;
+
+    UPDATE transactions SET clearance_status = 'cleared' WHERE cheque_id = p_cheque_id;
+  ELSE
+    RAISE EXCEPTION 'Use bounce_cheque to bounce a cheque; invalid status %', p_status;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to bounce a cheque. Undoes everything process_payment did with it:
+-- bill allocations are taken back, any advance it created (and the bills that
+-- advance paid) is reversed, and the customer owes the amount again, plus an
+-- optional bounce fee.
+CREATE OR REPLACE FUNCTION bounce_cheque(p_cheque_id UUID, p_reason TEXT DEFAULT NULL, p_bounce_fee NUMERIC DEFAULT 0, p_date TIMESTAMPTZ DEFAULT now())
+RETURNS VOID AS $$
+DECLARE
+  target_cheque cheques;
+  allocation RECORD;
+BEGIN
+  PERFORM require_permission('cheques.manage');
+
+  IF COALESCE(p_bounce_fee, 0) < 0 THEN
+    RAISE EXCEPTION 'Bounce fee cannot be negative';
+  END IF;
+
+  SELECT * INTO target_cheque FROM cheques WHERE id = p_cheque_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cheque % not found', p_cheque_id;
+  END IF;
+
+  IF target_cheque.status = 'bounced' THEN
+    RAISE EXCEPTION 'Cheque % has already bounced', target_cheque.cheque_number;
+  END IF;
+
+  -- Bill allocations made directly from the cheque, plus bills later paid
+  -- from the advance it created
+  FOR allocation IN
+    SELECT t.bill_id, t.amount
+    FROM transactions t
+    WHERE t.cheque_id = p_cheque_id AND t.bill_id IS NOT NULL
+    UNION ALL
+    SELECT aa.bill_id, aa.amount
+    FROM advance_applications aa
+    JOIN customer_advances a ON a.id = aa.advance_id
+    WHERE a.cheque_id = p_cheque_id
+  LOOP
+    UPDATE bills
+    SET
+      paid_amount = GREATEST(COALESCE(paid_amount, 0) - allocation.amount, 0),
+      status = CASE
+        WHEN COALESCE(paid_amount, 0) - allocation.amount >= total_amount - credited_amount THEN 'paid'
+        WHEN COALESCE(paid_amount, 0) - allocation.amount > 0 THEN 'partial'
+        ELSE 'outstanding'
+      END
+    WHERE id = allocation.bill_id;
+  END LOOP;
+
+  -- The advance never really existed
+  DELETE FROM customer_advances WHERE cheque_id = p_cheque_id;
+
+  UPDATE transactions SET clearance_status = 'bounced' WHERE cheque_id = p_cheque_id;
+
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance + target_cheque.amount + COALESCE(p_bounce_fee, 0)
+  WHERE id = target_cheque.customer_id;
+
+  UPDATE cheques
+  SET status = 'bounced', bounced_at = p_date, bounce_reason = p_reason, bounce_fee = COALESCE(p_bounce_fee, 0)
+  WHERE id = p_cheque_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to void a collection entered by mistake. Every row written by the
+-- same process_payment call is removed (older collections without a
+-- collection_id are voided one row at a time), bill allocations are rolled back
+-- newest first and the customer owes the amount again. An audit row keeps the
+-- removed transactions, who voided them and why.
+CREATE OR REPLACE FUNCTION reverse_payment(p_transaction_id UUID, p_reason TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  target_transaction transactions;
+  allocation RECORD;
+  v_total NUMERIC;
+  v_snapshot JSONB;
+BEGIN
+  PERFORM require_permission('payments.void');
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a payment';
+  END IF;
+
+  SELECT * INTO target_transaction FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  IF target_transaction.type <> 'revenue' OR target_transaction.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Only customer collections can be voided';
+  END IF;
+
+  IF target_transaction.clearance_status = 'bounced' THEN
+    RAISE EXCEPTION 'This payment was a bounced cheque and has already been reversed';
+  END IF;
+
+  PERFORM 1 FROM transactions
+  WHERE id = target_transaction.id OR collection_id = target_transaction.collection_id
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(t.amount), 0), COALESCE(jsonb_agg(to_jsonb(t) ORDER BY t.created_at), '[]'::jsonb)
+  INTO v_total, v_snapshot
+  FROM transactions t
+  WHERE t.id = target_transaction.id OR t.collection_id = target_transaction.collection_id;
+
+  -- Bills later paid from an advance this collection created
+  IF target_transaction.collection_id IS NOT NULL THEN
+    FOR allocation IN
+      SELECT aa.bill_id, aa.amount
+      FROM advance_applications aa
+      JOIN customer_advances a ON a.id = aa.advance_id
+      WHERE a.collection_id = target_transaction.collection_id
+      ORDER BY aa.created_at DESC
+    LOOP
+      UPDATE bills
+      SET
+        paid_amount = GREATEST(COALESCE(paid_amount, 0) - allocation.amount, 0),
+        status = CASE
+          WHEN COALESCE(paid_amount, 0) - allocation.amount >= total_amount - credited_amount THEN 'paid'
+          WHEN COALESCE(paid_amount, 0) - allocation.amount > 0 THEN 'partial'
+          ELSE 'outstanding'
+        END
+      WHERE id = allocation.bill_id;
+    END LOOP;
+
+    DELETE FROM customer_advances WHERE collection_id = target_transaction.collection_id;
+  END IF;
+
+  -- Roll back bill allocations in the reverse order they were made
+  FOR allocation IN
+    SELECT t.bill_id, t.amount FROM transactions t
+    WHERE (t.id = target_transaction.id OR t.collection_id = target_transaction.collection_id)
+      AND t.bill_id IS NOT NULL
+    ORDER BY t.created_at DESC, t.id DESC
+  LOOP
+    UPDATE bills
+    SET
+      paid_amount = GREATEST(COALESCE(paid_amount, 0) - allocation.amount, 0),
+      status = CASE
+        WHEN COALESCE(paid_amount, 0) - allocation.amount >= total_amount - credited_amount THEN 'paid'
+        WHEN COALESCE(paid_amount, 0) - allocation.amount > 0 THEN 'partial'
+        ELSE 'outstanding'
+      END
+    WHERE id = allocation.bill_id;
+  END LOOP;
+
+  INSERT INTO payment_reversals (collection_id, customer_id, amount, reason, reversed_transactions, reversed_by, reversed_by_username)
+  VALUES (
+    target_transaction.collection_id,
+    target_transaction.customer_id,
+    v_total,
+    trim(p_reason),
+    v_snapshot,
+    auth.uid(),
+    (SELECT username FROM public.users WHERE id = auth.uid())
+  );
+
+  DELETE FROM transactions
+  WHERE id = target_transaction.id OR collection_id = target_transaction.collection_id;
+
+  -- A cheque only belongs to one collection, so it leaves the register too
+  IF target_transaction.cheque_id IS NOT NULL THEN
+    DELETE FROM cheques WHERE id = target_transaction.cheque_id;
+  END IF;
+
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance + v_total
+  WHERE id = target_transaction.customer_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record an expense
+DROP FUNCTION IF EXISTS record_expense(NUMERIC, UUID, UUID, TEXT, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS record_expense(NUMERIC, UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION record_expense(
+  p_amount NUMERIC,
+  p_vendor_id UUID,
+  p_category_id UUID,
+  p_comments TEXT,
+  p_date_of_transaction TIMESTAMPTZ,
+  p_payment_mode TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_purchase_bill_ids UUID[] DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  bill_record RECORD;
+  amount_left NUMERIC := p_amount;
+  portion NUMERIC;
+  settled NUMERIC := 0;
+BEGIN
+  PERFORM require_permission('expenses.record');
+
+  -- Settle the selected purchase bills of the vendor, oldest first
+  IF p_vendor_id IS NOT NULL AND COALESCE(array_length(p_purchase_bill_ids, 1), 0) > 0 THEN
+    FOR bill_record IN
+      SELECT * FROM purchase_bills
+      WHERE id = ANY(p_purchase_bill_ids) AND vendor_id = p_vendor_id AND status IN ('outstanding', 'partial')
+      ORDER BY bill_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN amount_left <= 0;
+
+      portion := LEAST(amount_left, bill_record.total_amount - bill_record.paid_amount);
+
+      UPDATE purchase_bills
+      SET
+        paid_amount = paid_amount + portion,
+        status = CASE WHEN paid_amount + portion >= total_amount THEN 'paid' ELSE 'partial' END
+      WHERE id = bill_record.id;
+
+      INSERT INTO transactions (amount, vendor_id, category_id, description, type, date_of_transaction, payment_mode, reference_number, purchase_bill_id)
+      VALUES (portion, p_vendor_id, p_category_id, COALESCE(NULLIF(p_comments, ''), 'Payment for purchase bill ' || COALESCE(bill_record.vendor_invoice_number, left(bill_record.id::text, 8))), 'expense', p_date_of_transaction, p_payment_mode, p_reference_number, bill_record.id);
+
+      amount_left := amount_left - portion;
+      settled := settled + portion;
+    END LOOP;
+
+    UPDATE customers
+    SET outstanding_balance = outstanding_balance - settled
+    WHERE id = p_vendor_id;
+  END IF;
+
+  IF amount_left > 0 THEN
+    INSERT INTO transactions (amount, vendor_id, category_id, description, type, date_of_transaction, payment_mode, reference_number)
+    VALUES (amount_left, p_vendor_id, p_category_id, p_comments, 'expense', p_date_of_transaction, p_payment_mode, p_reference_number);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to pay a vendor while netting off selected pending credits, in one go.
+-- p_credits is [{credit_id, amount}]; a credit may be redeemed in part. Credits are
+-- applied to the selected purchase bills before the payment. The payment is written
+-- as expense transactions and any credit left over still reduces what we owe the vendor.
+CREATE OR REPLACE FUNCTION settle_vendor_payment(
+  p_vendor_id UUID,
+  p_payment_amount NUMERIC,
+  p_credits JSONB,
+  p_purchase_bill_ids UUID[],
+  p_category_id UUID,
+  p_comments TEXT,
+  p_date_of_transaction TIMESTAMPTZ,
+  p_payment_mode TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL
+)
+RETURNS vendor_settlements AS $$
+DECLARE
+  new_settlement vendor_settlements;
+  credit_item RECORD;
+  credit_record credit;
+  bill_record RECORD;
+  credit_left NUMERIC := 0;
+  payment_left NUMERIC := COALESCE(p_payment_amount, 0);
+  from_credit NUMERIC;
+  from_payment NUMERIC;
+  settled NUMERIC := 0;
+  bills_settled JSONB := '[]'::jsonb;
+BEGIN
+  PERFORM require_permission('expenses.record');
+
+  IF payment_left < 0 THEN
+    RAISE EXCEPTION 'Payment amount cannot be negative';
+  END IF;
+
+  INSERT INTO vendor_settlements (vendor_id, payment_amount, payment_mode, reference_number, comments, settlement_date)
+  VALUES (p_vendor_id, payment_left, p_payment_mode, p_reference_number, p_comments, COALESCE(p_date_of_transaction, now()))
+  RETURNING * INTO new_settlement;
+
+  -- 1. Redeem the selected credits, fully or in part
+  FOR credit_item IN
+    SELECT (x->>'credit_id')::UUID AS credit_id, (x->>'amount')::NUMERIC AS amount
+    FROM jsonb_array_elements(COALESCE(p_credits, '[]'::jsonb)) x
+  LOOP
+    SELECT * INTO credit_record FROM credit WHERE id = credit_item.credit_id FOR UPDATE;
+
+    IF NOT FOUND OR credit_record.vendor_id IS DISTINCT FROM p_vendor_id THEN
+      RAISE EXCEPTION 'Credit % does not belong to this vendor', credit_item.credit_id;
+    END IF;
+    IF credit_record.status <> 'pending' THEN
+      RAISE EXCEPTION 'Credit % has already been redeemed', credit_item.credit_id;
+    END IF;
+    IF credit_item.amount IS NULL OR credit_item.amount <= 0 THEN
+      RAISE EXCEPTION 'Credit amounts must be greater than zero';
+    END IF;
+    IF credit_item.amount > credit_record.amount - credit_record.redeemed_amount THEN
+      RAISE EXCEPTION 'Only % is left on credit %', credit_record.amount - credit_record.redeemed_amount, credit_item.credit_id;
+    END IF;
+
+    UPDATE credit
+    SET
+      redeemed_amount = redeemed_amount + credit_item.amount,
+      status = CASE WHEN redeemed_amount + credit_item.amount >= amount THEN 'redeemed' ELSE 'pending' END
+    WHERE id = credit_record.id;
+
+    INSERT INTO vendor_settlement_credits (settlement_id, credit_id, amount)
+    VALUES (new_settlement.id, credit_record.id, credit_item.amount);
+
+    credit_left := credit_left + credit_item.amount;
+  END LOOP;
+
+  IF credit_left + payment_left <= 0 THEN
+    RAISE EXCEPTION 'Enter a payment amount or select at least one credit';
+  END IF;
+
+  -- 2. Settle the selected purchase bills oldest first, using credits before the payment
+  FOR bill_record IN
+    SELECT * FROM purchase_bills
+    WHERE id = ANY(COALESCE(p_purchase_bill_ids, '{}')) AND vendor_id = p_vendor_id AND status IN ('outstanding', 'partial')
+    ORDER BY bill_date, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN credit_left + payment_left <= 0;
+
+    from_credit := LEAST(credit_left, bill_record.total_amount - bill_record.paid_amount);
+    from_payment := LEAST(payment_left, bill_record.total_amount - bill_record.paid_amount - from_credit);
+
+    UPDATE purchase_bills
+    SET
+      paid_amount = paid_amount + from_credit + from_payment,
+      status = CASE WHEN paid_amount + from_credit + from_payment >= total_amount THEN 'paid' ELSE 'partial' END
+    WHERE id = bill_record.id;
+
+    IF from_payment > 0 THEN
+      INSERT INTO transactions (amount, vendor_id, category_id, description, type, date_of_transaction, payment_mode, reference_number, purchase_bill_id, settlement_id)
+      VALUES (from_payment, p_vendor_id, p_category_id, COALESCE(NULLIF(p_comments, ''), 'Payment for purchase bill ' || COALESCE(bill_record.vendor_invoice_number, left(bill_record.id::text, 8))), 'expense', COALESCE(p_date_of_transaction, now()), p_payment_mode, p_reference_number, bill_record.id, new_settlement.id);
+    END IF;
+
+    bills_settled := bills_settled || jsonb_build_object(
+      'purchase_bill_id', bill_record.id,
+      'vendor_invoice_number', bill_record.vendor_invoice_number,
+      'from_credit', from_credit,
+      'from_payment', from_payment
+    );
+
+    credit_left := credit_left - from_credit;
+    payment_left := payment_left - from_payment;
+    settled := settled + from_credit + from_payment;
+  END LOOP;
+
+  -- 3. Any payment left over is a plain expense against the vendor
+  IF payment_left > 0 THEN
+    INSERT INTO transactions (amount, vendor_id, category_id, description, type, date_of_transaction, payment_mode, reference_number, settlement_id)
+    VALUES (payment_left, p_vendor_id, p_category_id, p_comments, 'expense', COALESCE(p_date_of_transaction, now()), p_payment_mode, p_reference_number, new_settlement.id);
+  END IF;
+
+  -- Settled bills and netted credits both reduce what we owe the vendor
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance - settled - credit_left
+  WHERE id = p_vendor_id;
+
+  UPDATE vendor_settlements
+  SET
+    credit_amount = (SELECT COALESCE(SUM(amount), 0) FROM vendor_settlement_credits WHERE settlement_id = new_settlement.id),
+    settled_bills = bills_settled
+  WHERE id = new_settlement.id
+  RETURNING * INTO new_settlement;
+
+  RETURN new_settlement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to compare each customer's recorded outstanding balance with the balance
+-- expected from their documents: unpaid bills, less credit notes and unapplied
+-- advances, plus cheque bounce charges. Drift is recorded minus expected.
+CREATE OR REPLACE FUNCTION get_balance_reconciliation(p_customer_id UUID DEFAULT NULL)
+RETURNS TABLE(
+    customer_id UUID,
+    name TEXT,
+    recorded_balance NUMERIC,
+    unpaid_bills NUMERIC,
+    credit_notes NUMERIC,
+    unapplied_advances NUMERIC,
+    bounce_charges NUMERIC,
+    expected_balance NUMERIC,
+    drift NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reconcile balances';
+  END IF;
+
+  RETURN QUERY
+  WITH parts AS (
+    SELECT
+      c.id,
+      c.name,
+      COALESCE(c.outstanding_balance, 0) AS recorded,
+      COALESCE((SELECT SUM(b.total_amount - COALESCE(b.paid_amount, 0)) FROM bills b WHERE b.customer_id = c.id), 0) AS bills_due,
+      COALESCE((SELECT SUM(cn.total_amount) FROM credit_notes cn WHERE cn.customer_id = c.id), 0) AS credited,
+      COALESCE((
+        SELECT SUM(ca.amount - COALESCE((SELECT SUM(aa.amount) FROM advance_applications aa WHERE aa.advance_id = ca.id), 0))
+        FROM customer_advances ca WHERE ca.customer_id = c.id
+      ), 0) AS advances,
+      COALESCE((SELECT SUM(ch.bounce_fee) FROM cheques ch WHERE ch.customer_id = c.id AND ch.status = 'bounced'), 0) AS charges
+    FROM customers c
+    WHERE c.type = 'customer' AND (p_customer_id IS NULL OR c.id = p_customer_id)
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.recorded,
+    p.bills_due,
+    p.credited,
+    p.advances,
+    p.charges,
+    p.bills_due - p.credited - p.advances + p.charges,
+    p.recorded - (p.bills_due - p.credited - p.advances + p.charges)
+  FROM parts p
+  ORDER BY ABS(p.recorded - (p.bills_due - p.credited - p.advances + p.charges)) DESC, p.name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to set a customer's outstanding balance to its expected balance.
+-- The correction is kept in balance_adjustments instead of overwriting silently.
+CREATE OR REPLACE FUNCTION reconcile_customer_balance(p_customer_id UUID, p_reason TEXT)
+RETURNS balance_adjustments AS $$
+DECLARE
+  target RECORD;
+  new_adjustment balance_adjustments;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can adjust balances';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to adjust a balance';
+  END IF;
+
+  PERFORM 1 FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+  SELECT * INTO target FROM get_balance_reconciliation(p_customer_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF target.drift = 0 THEN
+    RAISE EXCEPTION 'The balance of % already matches', target.name;
+  END IF;
+
+  INSERT INTO balance_adjustments (customer_id, previous_balance, new_balance, amount, reason, adjusted_by, adjusted_by_username)
+  VALUES (
+    p_customer_id,
+    target.recorded_balance,
+    target.expected_balance,
+    target.expected_balance - target.recorded_balance,
+    trim(p_reason),
+    auth.uid(),
+    (SELECT username FROM public.users WHERE id = auth.uid())
+  )
+  RETURNING * INTO new_adjustment;
+
+  UPDATE customers
+  SET outstanding_balance = target.expected_balance
+  WHERE id = p_customer_id;
+
+  RETURN new_adjustment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get a customer's account ledger: bills and bounced cheques are debits,
+-- collections and credit notes are credits; balance adjustments go either way. Each collection is one entry even when it
+-- was split across several bills.
+CREATE OR REPLACE FUNCTION get_customer_ledger(p_customer_id UUID, p_end_date TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE(entry_date TIMESTAMPTZ, entry_type TEXT, reference TEXT, description TEXT, debit NUMERIC, credit NUMERIC) AS $$
+BEGIN
+  PERFORM require_permission('customers.view');
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT b.date_of_bill, 'bill'::TEXT, b.invoice_number, 'Invoice'::TEXT, b.total_amount, 0::NUMERIC
+    FROM bills b
+    WHERE b.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT
+      MIN(t.date_of_transaction),
+      'collection'::TEXT,
+      COALESCE(MAX(t.cheque_number), MAX(t.reference_number)),
+      'Payment received (' || CASE MAX(t.payment_mode)
+        WHEN 'upi' THEN 'UPI'
+        WHEN 'cheque' THEN 'Cheque'
+        WHEN 'bank_transfer' THEN 'Bank Transfer'
+        WHEN 'card' THEN 'Card'
+        ELSE 'Cash'
+      END || ')',
+      0::NUMERIC,
+      SUM(t.amount)
+    FROM transactions t
+    WHERE t.customer_id = p_customer_id AND t.type = 'revenue'
+    GROUP BY COALESCE(t.collection_id, t.id)
+
+    UNION ALL
+
+    SELECT cn.date_of_credit_note, 'credit_note'::TEXT, cn.credit_note_number, COALESCE('Credit note - ' || NULLIF(cn.reason, ''), 'Credit note'), 0::NUMERIC, cn.total_amount
+    FROM credit_notes cn
+    WHERE cn.customer_id = p_customer_id
+
+    UNION ALL
+
+    SELECT ch.bounced_at, 'cheque_bounce'::TEXT, ch.cheque_number,
+      'Cheque bounced' || CASE WHEN ch.bounce_fee > 0 THEN ' (incl. bounce charges ' || ch.bounce_fee || ')' ELSE '' END,
+      ch.amount + ch.bounce_fee, 0::NUMERIC
+    FROM cheques ch
+    WHERE ch.customer_id = p_customer_id AND ch.status = 'bounced'
+
+    UNION ALL
+
+    SELECT ba.adjusted_at, 'adjustment'::TEXT, NULL::TEXT, 'Balance adjustment - ' || ba.reason, GREATEST(ba.amount, 0), GREATEST(-ba.amount, 0)
+    FROM balance_adjustments ba
+    WHERE ba.customer_id = p_customer_id
+  ) ledger(entry_date, entry_type, reference, description, debit, credit)
+  WHERE p_end_date IS NULL OR ledger.entry_date <= p_end_date
+  ORDER BY ledger.entry_date, ledger.entry_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to get the day-end cash-in-hand summary for a business day (Asia/Kolkata).
+-- Only cash transactions move cash in hand; bounced entries are ignored.
+CREATE OR REPLACE FUNCTION get_day_end_cash_summary(p_date DATE)
+RETURNS TABLE(opening_balance NUMERIC, cash_in NUMERIC, cash_out NUMERIC, closing_balance NUMERIC) AS $$
+DECLARE
+  day_start TIMESTAMPTZ := p_date::TIMESTAMP AT TIME ZONE 'Asia/Kolkata';
+  day_end TIMESTAMPTZ := (p_date + 1)::TIMESTAMP AT TIME ZONE 'Asia/Kolkata';
+BEGIN
+  PERFORM require_permission('payments.view');
+
+  RETURN QUERY
+  WITH cash AS (
+    SELECT
+      CASE WHEN t.type = 'revenue' THEN t.amount ELSE -t.amount END AS signed_amount,
+      t.date_of_transaction
+    FROM transactions t
+    WHERE t.payment_mode = 'cash' AND t.clearance_status <> 'bounced'
+  )
+  SELECT
+    COALESCE(SUM(signed_amount) FILTER (WHERE date_of_transaction < day_start), 0) AS opening_balance,
+    COALESCE(SUM(signed_amount) FILTER (WHERE date_of_transaction >= day_start AND date_of_transaction < day_end AND signed_amount > 0), 0) AS cash_in,
+    COALESCE(-SUM(signed_amount) FILTER (WHERE date_of_transaction >= day_start AND date_of_transaction < day_end AND signed_amount < 0), 0) AS cash_out,
+    COALESCE(SUM(signed_amount) FILTER (WHERE date_of_transaction < day_end), 0) AS closing_balance
+  FROM cash;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Function to get main dashboard stats
 CREATE OR REPLACE FUNCTION get_dashboard_stats()
 RETURNS TABLE(total_products BIGINT, low_stock_items BIGINT, outstanding_bills BIGINT, total_receivables NUMERIC, monthly_revenue NUMERIC) AS $$
 BEGIN
+  PERFORM require_permission('dashboard.view');
+
   RETURN QUERY
   SELECT
     (SELECT count(*) FROM products) as total_products,
     (SELECT count(*) FROM inventory i JOIN products p ON i.product_id = p.id WHERE i.quantity <= p.min_stock) as low_stock_items,
     (SELECT count(*) FROM bills WHERE status IN ('outstanding', 'partial')) as outstanding_bills,
-    (SELECT sum(total_amount - paid_amount) FROM bills WHERE status IN ('outstanding', 'partial')) as total_receivables,
-    (SELECT sum(amount) FROM transactions WHERE type = 'revenue' AND created_at >= date_trunc('month', now())) as monthly_revenue;
+    (SELECT sum(total_amount - credited_amount - paid_amount) FROM bills WHERE status IN ('outstanding', 'partial')) as total_receivables,
+    (SELECT sum(amount) FROM transactions WHERE type = 'revenue' AND clearance_status <> 'bounced' AND created_at >= date_trunc('month', now())) as monthly_revenue;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Function to get extended dashboard stats (revenue and expenses)
 CREATE OR REPLACE FUNCTION get_extended_dashboard_stats()
@@ -382,16 +2147,18 @@ RETURNS TABLE(
     monthly_expense NUMERIC
 ) AS $$
 BEGIN
+  PERFORM require_permission('dashboard.view');
+
   RETURN QUERY
   SELECT
-    (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'revenue' AND date_of_transaction >= now() - interval '1 day') as daily_revenue,
-    (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'revenue' AND date_of_transaction >= now() - interval '7 days') as weekly_revenue,
-    (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'revenue' AND date_of_transaction >= now() - interval '30 days') as monthly_revenue,
+    (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'revenue' AND clearance_status <> 'bounced' AND date_of_transaction >= now() - interval '1 day') as daily_revenue,
+    (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'revenue' AND clearance_status <> 'bounced' AND date_of_transaction >= now() - interval '7 days') as weekly_revenue,
+    (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'revenue' AND clearance_status <> 'bounced' AND date_of_transaction >= now() - interval '30 days') as monthly_revenue,
     (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'expense' AND date_of_transaction >= now() - interval '1 day') as daily_expense,
     (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'expense' AND date_of_transaction >= now() - interval '7 days') as weekly_expense,
     (SELECT COALESCE(SUM(amount), 0) FROM transactions WHERE type = 'expense' AND date_of_transaction >= now() - interval '30 days') as monthly_expense;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 CREATE OR REPLACE FUNCTION get_vendors_with_credit_balances()
 RETURNS TABLE(
@@ -427,7 +2194,7 @@ BEGIN
   LEFT JOIN (
     SELECT 
       vendor_id,
-      SUM(amount) as pending_credits
+      SUM(amount - redeemed_amount) as pending_credits
     FROM credit 
     WHERE status = 'pending'
     GROUP BY vendor_id
@@ -474,6 +2241,7 @@ BEGIN
             AND (p_vendor_ids IS NULL OR t.vendor_id = ANY(p_vendor_ids))
             AND (p_customer_ids IS NULL OR t.customer_id = ANY(p_customer_ids))
             AND (p_category_ids IS NULL OR t.category_id = ANY(p_category_ids))
+            AND t.clearance_status <> 'bounced'
     ),
     revenue_sum AS (
         SELECT COALESCE(SUM(amount), 0) as total
@@ -493,7 +2261,7 @@ BEGIN
             WHEN r.total > 0 THEN ((r.total - e.total) / r.total * 100)
             ELSE 0
         END as profit_margin,
-        (SELECT COALESCE(SUM(total_amount - paid_amount), 0) 
+        (SELECT COALESCE(SUM(total_amount - credited_amount - paid_amount), 0) 
          FROM bills 
          WHERE status IN ('outstanding', 'partial')) as outstanding_receivables,
         (SELECT COUNT(*) FROM filtered_transactions) as transaction_count
@@ -502,13 +2270,79 @@ END;
 $$ LANGUAGE plpgsql;
 
 
--- Function to delete a bill and handle all related data
+-- Function to collect what the reorder suggestions are built from: each
+-- product's stock and minimum, units sold over the last p_days (net of
+-- returns) and the vendor and unit cost of its most recent purchase.
+CREATE OR REPLACE FUNCTION get_reorder_data(p_days INTEGER DEFAULT 30)
+RETURNS TABLE(
+    product_id UUID,
+    product_name TEXT,
+    current_stock INTEGER,
+    min_stock INTEGER,
+    lot_size INTEGER,
+    average_cost NUMERIC,
+    units_sold INTEGER,
+    last_vendor_id UUID,
+    last_unit_cost NUMERIC
+) AS $$
+BEGIN
+  PERFORM require_permission('purchases.view');
+
+  IF p_days IS NULL OR p_days <= 0 THEN
+    RAISE EXCEPTION 'The sales period must be at least one day';
+  END IF;
+
+  RETURN QUERY
+  WITH sold AS (
+    SELECT bi.product_id, SUM(bi.quantity) AS quantity
+    FROM bill_items bi
+    JOIN bills b ON b.id = bi.bill_id
+    WHERE b.date_of_bill >= now() - make_interval(days => p_days)
+    GROUP BY bi.product_id
+  ),
+  returned AS (
+    SELECT cni.product_id, SUM(cni.quantity) AS quantity
+    FROM credit_note_items cni
+    JOIN credit_notes cn ON cn.id = cni.credit_note_id
+    WHERE cn.date_of_credit_note >= now() - make_interval(days => p_days)
+    GROUP BY cni.product_id
+  ),
+  last_purchase AS (
+    SELECT DISTINCT ON (it.product_id) it.product_id, it.vendor_id, it.unit_cost
+    FROM inventory_transactions it
+    WHERE it.reason = 'purchase' AND it.vendor_id IS NOT NULL
+    ORDER BY it.product_id, it.created_at DESC
+  )
+  SELECT
+    p.id,
+    p.name,
+    COALESCE(i.quantity, 0),
+    COALESCE(p.min_stock, 0),
+    GREATEST(COALESCE(p.lot_size, 1), 1),
+    p.average_cost,
+    GREATEST(COALESCE(s.quantity, 0) - COALESCE(r.quantity, 0), 0)::INTEGER,
+    lp.vendor_id,
+    lp.unit_cost
+  FROM products p
+  LEFT JOIN inventory i ON i.product_id = p.id
+  LEFT JOIN sold s ON s.product_id = p.id
+  LEFT JOIN returned r ON r.product_id = p.id
+  LEFT JOIN last_purchase lp ON lp.product_id = p.id
+  ORDER BY p.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to delete a bill and handle all related data. Money the customer
+-- already paid against the bill is kept as an advance for later bills, so the
+-- balance, revenue and any cheque it came from still agree.
 CREATE OR REPLACE FUNCTION delete_bill(p_bill_id UUID)
 RETURNS VOID AS $$
 DECLARE
   bill_to_delete RECORD;
   item_to_revert RECORD;
 BEGIN
+  PERFORM require_permission('bills.delete');
+
   -- 1. Get the bill details before deleting
   SELECT * INTO bill_to_delete FROM bills WHERE id = p_bill_id;
 
@@ -517,6 +2351,11 @@ BEGIN
     RETURN;
   END IF;
 
+  -- Returned goods and credited amounts would be reverted twice
+  IF EXISTS (SELECT 1 FROM credit_notes WHERE bill_id = p_bill_id) THEN
+    RAISE EXCEPTION 'Cannot delete bill % because it has credit notes', bill_to_delete.invoice_number;
+  END IF;
+
   -- 2. Revert customer's outstanding balance
   IF bill_to_delete.customer_id IS NOT NULL THEN
     UPDATE customers
@@ -526,14 +2365,30 @@ BEGIN
 
   -- 3. Revert stock for each item in the bill
   FOR item_to_revert IN
-    SELECT * FROM bill_items WHERE bill_id = p_bill_id
+    SELECT * FROM bill_items WHERE bill_id = p_bill_id AND product_id IS NOT NULL
   LOOP
-    UPDATE inventory
-    SET quantity = quantity + item_to_revert.quantity
-    WHERE product_id = item_to_revert.product_id;
+    PERFORM record_stock_movement(
+      item_to_revert.product_id, item_to_revert.quantity, 'sale',
+      'Bill ' || bill_to_delete.invoice_number || ' deleted',
+      NULL, NULL, NULL, bill_to_delete.id, NULL, bill_to_delete.location_id
+    );
   END LOOP;
 
-  -- 4. Delete related transactions (payments applied to this bill)
+  -- 4. Keep payments applied to this bill as advances. They were already taken
+  -- off the customer's balance when received. Bounced cheques were reversed
+  -- already, and walk-in bills have no account to hold an advance.
+  IF bill_to_delete.customer_id IS NOT NULL THEN
+    INSERT INTO customer_advances (customer_id, amount, comments, date_of_transaction, cheque_id, collection_id)
+    SELECT bill_to_delete.customer_id, t.amount, 'Paid on deleted bill ' || bill_to_delete.invoice_number,
+      t.date_of_transaction, t.cheque_id, t.collection_id
+    FROM transactions t
+    WHERE t.bill_id = p_bill_id AND t.type = 'revenue' AND t.clearance_status <> 'bounced' AND t.amount > 0;
+
+    UPDATE transactions
+    SET bill_id = NULL, description = 'Advance payment received (bill ' || bill_to_delete.invoice_number || ' deleted)'
+    WHERE bill_id = p_bill_id AND type = 'revenue' AND clearance_status <> 'bounced';
+  END IF;
+
   DELETE FROM transactions WHERE bill_id = p_bill_id;
 
   -- 5. Delete bill items (CASCADE delete should handle this, but explicit is safer)
@@ -543,15 +2398,587 @@ BEGIN
   DELETE FROM bills WHERE id = p_bill_id;
 
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Create the function to decrement stock
-CREATE OR REPLACE FUNCTION decrement_stock_from_damage(p_product_id uuid, p_quantity integer)
-RETURNS void AS $$
+-- Function to check whether a supply to a state is inter-state, i.e. the
+-- place of supply is known and differs from the seller's state
+CREATE OR REPLACE FUNCTION is_inter_state_supply(p_place_of_supply TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT NULLIF(p_place_of_supply, '') <> NULLIF(s.state_code, '') FROM seller_info s LIMIT 1),
+    false
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Function to create a bill with its items in a single transaction.
+-- Validates stock, inserts the bill and items, decrements inventory,
+-- updates the customer's balance and fulfils the linked order (if any).
+-- p_items is a JSON array of { product_id, quantity, price, hsn_code, gst_rate, cess_rate }.
+-- Inter-state bills pass p_igst_percentage instead of CGST/SGST percentages;
+-- whether a bill is inter-state is decided from p_place_of_supply, not the rates.
+-- p_apply_advance pays the new bill from the customer's unapplied advances.
+-- The due date follows the customer's credit terms.
+-- Stock is drawn from p_location_id, or the default location if NULL.
+DROP FUNCTION IF EXISTS create_bill(UUID, JSONB, NUMERIC, NUMERIC, TEXT, TIMESTAMPTZ, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC, UUID);
+DROP FUNCTION IF EXISTS create_bill(UUID, JSONB, NUMERIC, NUMERIC, TEXT, TIMESTAMPTZ, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC, UUID, NUMERIC, TEXT);
+DROP FUNCTION IF EXISTS create_bill(UUID, JSONB, NUMERIC, NUMERIC, TEXT, TIMESTAMPTZ, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC, UUID, NUMERIC, TEXT, BOOLEAN);
+CREATE OR REPLACE FUNCTION create_bill(
+  p_customer_id UUID,
+  p_items JSONB,
+  p_total_amount NUMERIC,
+  p_discount NUMERIC DEFAULT 0,
+  p_comments TEXT DEFAULT NULL,
+  p_date_of_bill TIMESTAMPTZ DEFAULT now(),
+  p_is_gst_bill BOOLEAN DEFAULT false,
+  p_sgst_percentage NUMERIC DEFAULT NULL,
+  p_cgst_percentage NUMERIC DEFAULT NULL,
+  p_cess_percentage NUMERIC DEFAULT NULL,
+  p_gst_amount NUMERIC DEFAULT 0,
+  p_order_id UUID DEFAULT NULL,
+  p_igst_percentage NUMERIC DEFAULT NULL,
+  p_place_of_supply TEXT DEFAULT NULL,
+  p_apply_advance BOOLEAN DEFAULT false,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  new_bill bills;
+  requested RECORD;
+  available_stock INTEGER;
+  product_name TEXT;
+  bill_location stock_locations;
 BEGIN
-  UPDATE inventory
-  SET quantity = quantity - p_quantity
-  WHERE product_id = p_product_id;
+  PERFORM require_permission('bills.create');
+
+  SELECT * INTO bill_location FROM stock_locations WHERE id = COALESCE(p_location_id, default_stock_location());
+
+  IF bill_location.id IS NULL THEN
+    RAISE EXCEPTION 'Select the location this bill draws stock from';
+  END IF;
+
+  IF NOT bill_location.is_active THEN
+    RAISE EXCEPTION 'Location % is inactive', bill_location.name;
+  END IF;
+
+  IF p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'A customer is required to create a bill';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A bill must contain at least one item';
+  END IF;
+
+  -- 1. Validate stock per product at the bill's location, locking the rows until commit
+  FOR requested IN
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER, price NUMERIC)
+    GROUP BY product_id
+  LOOP
+    IF requested.quantity <= 0 THEN
+      RAISE EXCEPTION 'Item quantities must be greater than zero';
+    END IF;
+
+    SELECT quantity INTO available_stock
+    FROM location_stock
+    WHERE product_id = requested.product_id AND location_id = bill_location.id
+    FOR UPDATE;
+
+    IF COALESCE(available_stock, 0) < requested.quantity THEN
+      SELECT name INTO product_name FROM products WHERE id = requested.product_id;
+      RAISE EXCEPTION 'Insufficient stock for % at %: requested %, available %',
+        COALESCE(product_name, requested.product_id::text), bill_location.name,
+        requested.quantity, COALESCE(available_stock, 0);
+    END IF;
+  END LOOP;
+
+  -- 2. Insert the bill (invoice number is set by trigger)
+  INSERT INTO bills (
+    customer_id, total_amount, status, discount, comments, date_of_bill, due_date, is_gst_bill,
+    sgst_percentage, cgst_percentage, cess_percentage, igst_percentage, place_of_supply, is_inter_state,
+    gst_amount, location_id
+  )
+  VALUES (
+    p_customer_id, p_total_amount, 'outstanding', COALESCE(p_discount, 0), p_comments,
+    COALESCE(p_date_of_bill, now()),
+    COALESCE(p_date_of_bill, now())::DATE + COALESCE((SELECT credit_days FROM customers WHERE id = p_customer_id), 30),
+    COALESCE(p_is_gst_bill, false),
+    p_sgst_percentage, p_cgst_percentage, p_cess_percentage, COALESCE(p_igst_percentage, 0),
+    p_place_of_supply, COALESCE(p_is_gst_bill, false) AND is_inter_state_supply(p_place_of_supply),
+    COALESCE(p_gst_amount, 0), bill_location.id
+  )
+  RETURNING * INTO new_bill;
+
+  -- 3. Insert the bill items, capturing the current average cost for COGS
+  INSERT INTO bill_items (bill_id, product_id, quantity, price, hsn_code, gst_rate, cess_rate, unit_cost)
+  SELECT new_bill.id, x.product_id, x.quantity, x.price, x.hsn_code, x.gst_rate, x.cess_rate, p.average_cost
+  FROM jsonb_to_recordset(p_items)
+    AS x(product_id UUID, quantity INTEGER, price NUMERIC, hsn_code TEXT, gst_rate NUMERIC, cess_rate NUMERIC)
+  LEFT JOIN products p ON p.id = x.product_id;
+
+  -- 4. Decrement stock
+  FOR requested IN
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER, price NUMERIC)
+    GROUP BY product_id
+  LOOP
+    PERFORM record_stock_movement(
+      requested.product_id, -requested.quantity::INTEGER, 'sale',
+      'Bill ' || new_bill.invoice_number, NULL, NULL, NULL, new_bill.id, NULL, bill_location.id
+    );
+  END LOOP;
+
+  -- 5. Update customer balance
+  UPDATE customers
+  SET outstanding_balance = outstanding_balance + p_total_amount
+  WHERE id = p_customer_id;
+
+  -- 6. Pay the bill from the customer's unapplied advances
+  IF COALESCE(p_apply_advance, false) THEN
+    PERFORM apply_customer_advance(new_bill.id);
+    SELECT * INTO new_bill FROM bills WHERE id = new_bill.id;
+  END IF;
+
+  -- 7. Fulfil the linked order
+  IF p_order_id IS NOT NULL THEN
+    UPDATE orders SET status = 'fulfilled' WHERE id = p_order_id;
+  END IF;
+
+  RETURN new_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to edit an existing bill in a single transaction.
+-- Diffs old vs new items to adjust inventory per product, corrects the
+-- customer's balance by the total delta and recomputes the bill status.
+-- Refuses edits that would bring the total below the amount already paid.
+-- Moving the bill to another location returns its old items to the old
+-- location and draws the new items from the new one.
+DROP FUNCTION IF EXISTS update_bill(UUID, UUID, JSONB, NUMERIC, NUMERIC, TEXT, TIMESTAMPTZ, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC);
+DROP FUNCTION IF EXISTS update_bill(UUID, UUID, JSONB, NUMERIC, NUMERIC, TEXT, TIMESTAMPTZ, BOOLEAN, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, TEXT);
+CREATE OR REPLACE FUNCTION update_bill(
+  p_bill_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_total_amount NUMERIC,
+  p_discount NUMERIC DEFAULT 0,
+  p_comments TEXT DEFAULT NULL,
+  p_date_of_bill TIMESTAMPTZ DEFAULT now(),
+  p_is_gst_bill BOOLEAN DEFAULT false,
+  p_sgst_percentage NUMERIC DEFAULT NULL,
+  p_cgst_percentage NUMERIC DEFAULT NULL,
+  p_cess_percentage NUMERIC DEFAULT NULL,
+  p_gst_amount NUMERIC DEFAULT 0,
+  p_igst_percentage NUMERIC DEFAULT NULL,
+  p_place_of_supply TEXT DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  old_bill bills;
+  updated_bill bills;
+  delta RECORD;
+  available_stock INTEGER;
+  product_name TEXT;
+  new_status TEXT;
+  old_costs JSONB;
+  old_location_id UUID;
+  bill_location stock_locations;
+BEGIN
+  PERFORM require_permission('bills.edit');
+
+  -- 1. Lock the bill being edited
+  SELECT * INTO old_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM credit_notes WHERE bill_id = p_bill_id) THEN
+    RAISE EXCEPTION 'Cannot edit bill % because it has credit notes', old_bill.invoice_number;
+  END IF;
+
+  IF p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'A customer is required for a bill';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A bill must contain at least one item';
+  END IF;
+
+  IF p_total_amount < COALESCE(old_bill.paid_amount, 0) THEN
+    RAISE EXCEPTION 'New total (%) is below the amount already paid (%)',
+      p_total_amount, old_bill.paid_amount;
+  END IF;
+
+  old_location_id := COALESCE(old_bill.location_id, default_stock_location());
+  SELECT * INTO bill_location FROM stock_locations WHERE id = COALESCE(p_location_id, old_location_id);
+
+  IF bill_location.id IS NULL THEN
+    RAISE EXCEPTION 'Select the location this bill draws stock from';
+  END IF;
+
+  IF bill_location.id <> old_location_id AND NOT bill_location.is_active THEN
+    RAISE EXCEPTION 'Location % is inactive', bill_location.name;
+  END IF;
+
+  -- 2. Diff old and new quantities per product and location and adjust stock.
+  --    A positive change means more goods leave that location.
+  FOR delta IN
+    SELECT product_id, location_id, SUM(new_qty) - SUM(old_qty) AS change
+    FROM (
+      SELECT product_id, old_location_id AS location_id, 0 AS new_qty, quantity AS old_qty
+      FROM bill_items
+      WHERE bill_id = p_bill_id AND product_id IS NOT NULL
+      UNION ALL
+      SELECT product_id, bill_location.id AS location_id, quantity AS new_qty, 0 AS old_qty
+      FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER, price NUMERIC)
+    ) diff
+    GROUP BY product_id, location_id
+    HAVING SUM(new_qty) - SUM(old_qty) <> 0
+  LOOP
+    SELECT quantity INTO available_stock
+    FROM location_stock
+    WHERE product_id = delta.product_id AND location_id = delta.location_id
+    FOR UPDATE;
+
+    IF delta.change > 0 AND COALESCE(available_stock, 0) < delta.change THEN
+      SELECT name INTO product_name FROM products WHERE id = delta.product_id;
+      RAISE EXCEPTION 'Insufficient stock for % at %: additional % needed, available %',
+        COALESCE(product_name, delta.product_id::text), bill_location.name,
+        delta.change, COALESCE(available_stock, 0);
+    END IF;
+
+    PERFORM record_stock_movement(
+      delta.product_id, -delta.change::INTEGER, 'sale',
+      'Bill ' || old_bill.invoice_number || ' edited', NULL, NULL, NULL, p_bill_id, NULL, delta.location_id
+    );
+  END LOOP;
+
+  -- 3. Replace the bill items. Products already on the bill keep the cost
+  -- captured when it was created; new ones take the current average cost.
+  SELECT jsonb_object_agg(product_id, unit_cost) INTO old_costs
+  FROM bill_items
+  WHERE bill_id = p_bill_id AND unit_cost IS NOT NULL;
+
+  DELETE FROM bill_items WHERE bill_id = p_bill_id;
+
+  INSERT INTO bill_items (bill_id, product_id, quantity, price, hsn_code, gst_rate, cess_rate, unit_cost)
+  SELECT p_bill_id, x.product_id, x.quantity, x.price, x.hsn_code, x.gst_rate, x.cess_rate,
+    COALESCE((old_costs ->> x.product_id::text)::NUMERIC, p.average_cost)
+  FROM jsonb_to_recordset(p_items)
+    AS x(product_id UUID, quantity INTEGER, price NUMERIC, hsn_code TEXT, gst_rate NUMERIC, cess_rate NUMERIC)
+  LEFT JOIN products p ON p.id = x.product_id;
+
+  -- 4. Correct customer balances by the total delta (or move it if the customer changed)
+  IF old_bill.customer_id IS NOT DISTINCT FROM p_customer_id THEN
+    UPDATE customers
+    SET outstanding_balance = outstanding_balance + (p_total_amount - old_bill.total_amount)
+    WHERE id = p_customer_id;
+  ELSE
+    IF old_bill.paid_amount > 0 THEN
+      RAISE EXCEPTION 'Cannot change the customer of a bill that already has payments';
+    END IF;
+
+    UPDATE customers
+    SET outstanding_balance = outstanding_balance - old_bill.total_amount
+    WHERE id = old_bill.customer_id;
+
+    UPDATE customers
+    SET outstanding_balance = outstanding_balance + p_total_amount
+    WHERE id = p_customer_id;
+  END IF;
+
+  -- 5. Recompute status against what has been paid
+  IF old_bill.paid_amount >= p_total_amount THEN
+    new_status := 'paid';
+  ELSIF old_bill.paid_amount > 0 THEN
+    new_status := 'partial';
+  ELSE
+    new_status := 'outstanding';
+  END IF;
+
+  UPDATE bills
+  SET
+    customer_id = p_customer_id,
+    total_amount = p_total_amount,
+    status = new_status,
+    discount = COALESCE(p_discount, 0),
+    comments = p_comments,
+    date_of_bill = COALESCE(p_date_of_bill, old_bill.date_of_bill),
+    -- A new bill date or customer restarts the credit period
+    due_date = CASE
+      WHEN COALESCE(p_date_of_bill, old_bill.date_of_bill) IS DISTINCT FROM old_bill.date_of_bill
+        OR p_customer_id IS DISTINCT FROM old_bill.customer_id
+      THEN COALESCE(p_date_of_bill, old_bill.date_of_bill)::DATE + COALESCE((SELECT credit_days FROM customers WHERE id = p_customer_id), 30)
+      ELSE old_bill.due_date
+    END,
+    is_gst_bill = COALESCE(p_is_gst_bill, false),
+    sgst_percentage = p_sgst_percentage,
+    cgst_percentage = p_cgst_percentage,
+    cess_percentage = p_cess_percentage,
+    igst_percentage = COALESCE(p_igst_percentage, 0),
+    place_of_supply = p_place_of_supply,
+    is_inter_state = COALESCE(p_is_gst_bill, false) AND is_inter_state_supply(p_place_of_supply),
+    gst_amount = COALESCE(p_gst_amount, 0),
+    location_id = bill_location.id
+  WHERE id = p_bill_id
+  RETURNING * INTO updated_bill;
+
+  RETURN updated_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to record a credit note (sales return) against an existing bill.
+-- p_items is a JSON array of { bill_item_id, quantity }. Returned quantities
+-- are restocked through inventory_transactions. The credit is the returned
+-- value less its share of the bill discount; it is kept on the bill as
+-- credited_amount and taken off the customer's outstanding balance.
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_bill_id UUID,
+  p_items JSONB,
+  p_reason TEXT DEFAULT NULL,
+  p_date_of_credit_note TIMESTAMPTZ DEFAULT now()
+)
+RETURNS credit_notes AS $$
+DECLARE
+  original_bill bills;
+  new_credit_note credit_notes;
+  returned RECORD;
+  already_returned INTEGER;
+  bill_gross NUMERIC;
+  credit_total NUMERIC := 0;
+BEGIN
+  PERFORM require_permission('credit_notes.create');
+
+  SELECT * INTO original_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A credit note must contain at least one returned item';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_items) AS x(bill_item_id UUID, quantity INTEGER)
+    WHERE x.quantity IS NULL OR x.quantity <= 0
+  ) THEN
+    RAISE EXCEPTION 'Returned quantities must be greater than zero';
+  END IF;
+
+  -- 1. Validate returned quantities against what was billed and already returned.
+  -- The same bill item may be listed more than once, so it is checked in total.
+  FOR returned IN
+    SELECT bi.id, bi.product_id, bi.quantity AS billed_quantity, bi.price, x.quantity
+    FROM (
+      SELECT r.bill_item_id, SUM(r.quantity)::INTEGER AS quantity
+      FROM jsonb_to_recordset(p_items) AS r(bill_item_id UUID, quantity INTEGER)
+      GROUP BY r.bill_item_id
+    ) x
+    LEFT JOIN bill_items bi ON bi.id = x.bill_item_id AND bi.bill_id = p_bill_id
+  LOOP
+    IF returned.id IS NULL THEN
+      RAISE EXCEPTION 'Returned item does not belong to bill %', original_bill.invoice_number;
+    END IF;
+
+    SELECT COALESCE(SUM(cni.quantity), 0) INTO already_returned
+    FROM credit_note_items cni
+    WHERE cni.bill_item_id = returned.id;
+
+    IF already_returned + returned.quantity > returned.billed_quantity THEN
+      RAISE EXCEPTION 'Cannot return % units: % billed, % already returned',
+        returned.quantity, returned.billed_quantity, already_returned;
+    END IF;
+
+    credit_total := credit_total + returned.quantity * returned.price;
+  END LOOP;
+
+  -- The bill discount was given on the whole bill, so returns share it pro rata
+  SELECT COALESCE(SUM(bi.quantity * bi.price), 0) INTO bill_gross
+  FROM bill_items bi
+  WHERE bi.bill_id = p_bill_id;
+
+  IF bill_gross > 0 AND COALESCE(original_bill.discount, 0) > 0 THEN
+    credit_total := credit_total * (1 - original_bill.discount / bill_gross);
+  END IF;
+  credit_total := ROUND(credit_total, 2);
+
+  -- 2. Insert the credit note (credit note number is set by trigger)
+  INSERT INTO credit_notes (bill_id, customer_id, total_amount, reason, date_of_credit_note)
+  VALUES (p_bill_id, original_bill.customer_id, credit_total, p_reason, COALESCE(p_date_of_credit_note, now()))
+  RETURNING * INTO new_credit_note;
+
+  INSERT INTO credit_note_items (credit_note_id, bill_item_id, product_id, quantity, price)
+  SELECT new_credit_note.id, bi.id, bi.product_id, SUM(x.quantity)::INTEGER, bi.price
+  FROM jsonb_to_recordset(p_items) AS x(bill_item_id UUID, quantity INTEGER)
+  JOIN bill_items bi ON bi.id = x.bill_item_id
+  GROUP BY bi.id, bi.product_id, bi.price;
+
+  -- 3. Restock the returned goods and log the movement
+  FOR returned IN
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM credit_note_items
+    WHERE credit_note_id = new_credit_note.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  LOOP
+    PERFORM record_stock_movement(
+      returned.product_id, returned.quantity::INTEGER, 'return',
+      'Sales return ' || new_credit_note.credit_note_number || ' against ' || original_bill.invoice_number,
+      NULL, NULL, NULL, p_bill_id, NULL, original_bill.location_id
+    );
+  END LOOP;
+
+  -- 4. Take the credit off what is still owed on the bill and by the customer
+  UPDATE bills
+  SET
+    credited_amount = credited_amount + credit_total,
+    status = CASE
+      WHEN COALESCE(paid_amount, 0) >= total_amount - (credited_amount + credit_total) THEN 'paid'
+      WHEN COALESCE(paid_amount, 0) > 0 THEN 'partial'
+      ELSE 'outstanding'
+    END
+  WHERE id = p_bill_id;
+
+  IF original_bill.customer_id IS NOT NULL THEN
+    UPDATE customers
+    SET outstanding_balance = outstanding_balance - credit_total
+    WHERE id = original_bill.customer_id;
+  END IF;
+
+  RETURN new_credit_note;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to write off damaged stock: takes the stock out of p_location_id
+-- (from p_batch_id if given), logs the write-off and records a pending credit
+-- from the vendor. All three happen together, so a refused stock movement
+-- leaves nothing behind.
+DROP FUNCTION IF EXISTS decrement_stock_from_damage(uuid, integer);
+DROP FUNCTION IF EXISTS decrement_stock_from_damage(uuid, integer, text);
+DROP FUNCTION IF EXISTS decrement_stock_from_damage(uuid, integer, text, uuid);
+DROP FUNCTION IF EXISTS record_damaged_stock(UUID, UUID, INTEGER, NUMERIC, TEXT, UUID);
+CREATE OR REPLACE FUNCTION record_damaged_stock(
+  p_product_id UUID,
+  p_vendor_id UUID,
+  p_quantity INTEGER,
+  p_unit_cost NUMERIC,
+  p_reason TEXT DEFAULT NULL,
+  p_batch_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS damaged_stock_log AS $$
+DECLARE
+  new_log damaged_stock_log;
+  movement inventory_transactions;
+  v_reason TEXT := COALESCE(NULLIF(trim(p_reason), ''), 'Not specified');
+BEGIN
+  PERFORM require_permission('damaged_stock.record');
+
+  IF p_product_id IS NULL OR p_vendor_id IS NULL THEN
+    RAISE EXCEPTION 'Select the product and the vendor it came from';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) <= 0 OR COALESCE(p_unit_cost, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity and unit cost must be greater than zero';
+  END IF;
+
+  movement := record_stock_movement(
+    p_product_id, -p_quantity, 'damage', 'Damaged stock: ' || v_reason,
+    NULL, NULL, NULL, NULL, p_batch_id, p_location_id
+  );
+
+  INSERT INTO damaged_stock_log (product_id, vendor_id, quantity, unit_cost, reason, batch_id, location_id)
+  VALUES (p_product_id, p_vendor_id, p_quantity, p_unit_cost, NULLIF(trim(p_reason), ''), p_batch_id, movement.location_id)
+  RETURNING * INTO new_log;
+
+  INSERT INTO credit (vendor_id, amount, date, comments, status)
+  VALUES (
+    p_vendor_id,
+    p_quantity * p_unit_cost,
+    now(),
+    'Credit for damaged stock: ' || (SELECT name FROM products WHERE id = p_product_id)
+      || ' (Qty: ' || p_quantity || ', Reason: ' || v_reason || ')',
+    'pending'
+  );
+
+  RETURN new_log;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to correct a damaged stock entry. Stock moves by the difference; if
+-- the product or location changed, the original write-off is put back (into
+-- its batch and location) and the new one is written off instead. The
+-- location stays as it was if p_location_id is NULL.
+DROP FUNCTION IF EXISTS update_damaged_stock(UUID, UUID, UUID, INTEGER, NUMERIC, TEXT);
+CREATE OR REPLACE FUNCTION update_damaged_stock(
+  p_log_id UUID,
+  p_product_id UUID,
+  p_vendor_id UUID,
+  p_quantity INTEGER,
+  p_unit_cost NUMERIC,
+  p_reason TEXT DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL
+)
+RETURNS damaged_stock_log AS $$
+DECLARE
+  original damaged_stock_log;
+  updated_log damaged_stock_log;
+  v_location_id UUID;
+  same_stock BOOLEAN;
+  v_comments TEXT := 'Damaged stock log edited: ' || COALESCE(NULLIF(trim(p_reason), ''), 'Not specified');
+BEGIN
+  PERFORM require_permission('damaged_stock.record');
+
+  IF p_product_id IS NULL OR p_vendor_id IS NULL THEN
+    RAISE EXCEPTION 'Select the product and the vendor it came from';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) <= 0 OR COALESCE(p_unit_cost, 0) <= 0 THEN
+    RAISE EXCEPTION 'Quantity and unit cost must be greater than zero';
+  END IF;
+
+  SELECT * INTO original FROM damaged_stock_log WHERE id = p_log_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Damaged stock entry % not found', p_log_id;
+  END IF;
+
+  v_location_id := COALESCE(p_location_id, original.location_id, default_stock_location());
+  same_stock := p_product_id = original.product_id AND v_location_id IS NOT DISTINCT FROM original.location_id;
+
+  IF same_stock THEN
+    IF p_quantity <> original.quantity THEN
+      PERFORM record_stock_movement(
+        p_product_id, original.quantity - p_quantity, 'damage', v_comments,
+        NULL, NULL, NULL, NULL, original.batch_id, original.location_id
+      );
+    END IF;
+  ELSE
+    PERFORM record_stock_movement(
+      original.product_id, original.quantity, 'damage', v_comments,
+      NULL, NULL, NULL, NULL, original.batch_id, original.location_id
+    );
+    PERFORM record_stock_movement(
+      p_product_id, -p_quantity, 'damage', v_comments,
+      NULL, NULL, NULL, NULL, NULL, v_location_id
+    );
+  END IF;
+
+  UPDATE damaged_stock_log
+  SET
+    product_id = p_product_id,
+    vendor_id = p_vendor_id,
+    quantity = p_quantity,
+    unit_cost = p_unit_cost,
+    reason = NULLIF(trim(p_reason), ''),
+    -- The written-off batch only applies while the product and location stay the same
+    batch_id = CASE WHEN same_stock THEN original.batch_id END,
+    location_id = v_location_id
+  WHERE id = p_log_id
+  RETURNING * INTO updated_log;
+
+  RETURN updated_log;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -561,25 +2988,199 @@ CREATE SEQUENCE IF NOT EXISTS invoice_number_seq START 1;
 -- Create sequence for order numbers  
 CREATE SEQUENCE IF NOT EXISTS order_number_seq START 1;
 
--- Function to generate next invoice number (INV000001 format)
-CREATE OR REPLACE FUNCTION generate_invoice_number()
+-- Create sequence for credit note numbers
+CREATE SEQUENCE IF NOT EXISTS credit_note_number_seq START 1;
+
+-- Function to get the Indian financial year (April to March) of a date, e.g. 2026-27
+CREATE OR REPLACE FUNCTION financial_year_label(p_date TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+  local_date DATE := (p_date AT TIME ZONE 'Asia/Kolkata')::DATE;
+  start_year INTEGER;
+BEGIN
+  start_year := EXTRACT(YEAR FROM local_date)::INTEGER
+    - CASE WHEN EXTRACT(MONTH FROM local_date) < 4 THEN 1 ELSE 0 END;
+  RETURN start_year::TEXT || '-' || LPAD(((start_year + 1) % 100)::TEXT, 2, '0');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to get the counter period of a number series for a date
+CREATE OR REPLACE FUNCTION number_series_period(p_series number_series, p_date TIMESTAMPTZ)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_series.reset_rule = 'financial_year' THEN
+    RETURN financial_year_label(p_date);
+  END IF;
+  RETURN 'all';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to format a document number from a series, e.g. INV/2026-27/0001
+CREATE OR REPLACE FUNCTION format_document_number(p_series number_series, p_date TIMESTAMPTZ, p_number INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  fy TEXT := financial_year_label(p_date);
+  parts TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF p_series.prefix <> '' THEN
+    parts := parts || p_series.prefix;
+  END IF;
+
+  CASE p_series.fy_format
+    WHEN 'YYYY-YY' THEN parts := parts || fy;
+    WHEN 'YY-YY' THEN parts := parts || SUBSTRING(fy FROM 3);
+    WHEN 'YYYY' THEN parts := parts || SUBSTRING(fy FROM 1 FOR 4);
+    ELSE NULL;
+  END CASE;
+
+  -- LPAD truncates longer values, so numbers past the padding are kept whole
+  parts := parts || CASE
+    WHEN LENGTH(p_number::TEXT) >= p_series.padding THEN p_number::TEXT
+    ELSE LPAD(p_number::TEXT, p_series.padding, '0')
+  END;
+
+  RETURN array_to_string(parts, p_series.separator);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to check whether a document number is already used
+CREATE OR REPLACE FUNCTION document_number_exists(p_document_type TEXT, p_number TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_document_type = 'invoice' THEN
+    RETURN EXISTS (SELECT 1 FROM bills WHERE invoice_number = p_number);
+  ELSIF p_document_type = 'order' THEN
+    RETURN EXISTS (SELECT 1 FROM orders WHERE order_number = p_number);
+  END IF;
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function to allocate the next number of a series.
+-- The counter row stays locked until the inserting transaction ends, so numbers
+-- are handed out one at a time and a rolled back insert does not leave a gap.
+CREATE OR REPLACE FUNCTION next_document_number(p_document_type TEXT, p_date TIMESTAMPTZ)
 RETURNS TEXT AS $$
 DECLARE
+  series number_series;
+  series_period TEXT;
+  next_num INTEGER;
+  new_number TEXT;
+BEGIN
+  SELECT * INTO series FROM number_series WHERE document_type = p_document_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Number series for % is not configured', p_document_type;
+  END IF;
+
+  series_period := number_series_period(series, p_date);
+
+  INSERT INTO number_series_counters (document_type, period, last_number)
+  VALUES (p_document_type, series_period, 1)
+  ON CONFLICT (document_type, period)
+  DO UPDATE SET last_number = number_series_counters.last_number + 1
+  RETURNING last_number INTO next_num;
+
+  new_number := format_document_number(series, p_date, next_num);
+
+  IF document_number_exists(p_document_type, new_number) THEN
+    RAISE EXCEPTION 'Number % is already in use. Review the % numbering settings', new_number, p_document_type;
+  END IF;
+
+  RETURN new_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to update a number series, optionally restarting the current period at a given number
+CREATE OR REPLACE FUNCTION update_number_series(
+  p_document_type TEXT,
+  p_prefix TEXT,
+  p_fy_format TEXT,
+  p_separator TEXT,
+  p_padding INTEGER,
+  p_reset_rule TEXT,
+  p_next_number INTEGER DEFAULT NULL
+)
+RETURNS number_series AS $$
+DECLARE
+  updated_series number_series;
+  series_period TEXT;
   next_num INTEGER;
+  next_value TEXT;
+BEGIN
+  PERFORM require_permission('admin.view');
+
+  -- A series that restarts every year must show the year, or its numbers would repeat
+  IF p_reset_rule = 'financial_year' AND p_fy_format = 'none' THEN
+    RAISE EXCEPTION 'A series that resets every financial year must include the financial year in its format';
+  END IF;
+
+  UPDATE number_series
+  SET
+    prefix = TRIM(COALESCE(p_prefix, '')),
+    fy_format = p_fy_format,
+    separator = COALESCE(p_separator, ''),
+    padding = p_padding,
+    reset_rule = p_reset_rule,
+    updated_at = now()
+  WHERE document_type = p_document_type
+  RETURNING * INTO updated_series;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Number series for % is not configured', p_document_type;
+  END IF;
+
+  series_period := number_series_period(updated_series, now());
+
+  IF p_next_number IS NOT NULL THEN
+    IF p_next_number < 1 THEN
+      RAISE EXCEPTION 'Next number must be at least 1';
+    END IF;
+
+    INSERT INTO number_series_counters (document_type, period, last_number)
+    VALUES (p_document_type, series_period, p_next_number - 1)
+    ON CONFLICT (document_type, period)
+    DO UPDATE SET last_number = EXCLUDED.last_number;
+  END IF;
+
+  SELECT last_number + 1 INTO next_num
+  FROM number_series_counters
+  WHERE document_type = p_document_type AND period = series_period;
+
+  next_value := format_document_number(updated_series, now(), COALESCE(next_num, 1));
+
+  -- Refuse formats that would hand out a number that already exists
+  IF document_number_exists(p_document_type, next_value) THEN
+    RAISE EXCEPTION 'The next number % already exists. Change the prefix, format or next number', next_value;
+  END IF;
+
+  RETURN updated_series;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to generate next invoice number from the invoice number series
+CREATE OR REPLACE FUNCTION generate_invoice_number()
+RETURNS TEXT AS $$
 BEGIN
-  next_num := nextval('invoice_number_seq');
-  RETURN 'INV' || LPAD(next_num::TEXT, 6, '0');
+  RETURN next_document_number('invoice', now());
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Function to generate next order number (ORD000001 format)
+-- Function to generate next order number from the order number series
 CREATE OR REPLACE FUNCTION generate_order_number()
 RETURNS TEXT AS $$
+BEGIN
+  RETURN next_document_number('order', now());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to generate next credit note number (CN000001 format)
+CREATE OR REPLACE FUNCTION generate_credit_note_number()
+RETURNS TEXT AS $$
 DECLARE
   next_num INTEGER;
 BEGIN
-  next_num := nextval('order_number_seq');
-  RETURN 'ORD' || LPAD(next_num::TEXT, 6, '0');
+  next_num := nextval('credit_note_number_seq');
+  RETURN 'CN' || LPAD(next_num::TEXT, 6, '0');
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -615,17 +3216,173 @@ BEGIN
   END IF;
 END $$;
 
+-- Default GST rates for new bills
+INSERT INTO app_settings (key, value)
+VALUES ('gst_defaults', '{"sgst": 14, "cgst": 14, "cess": 0}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Default number series continue the original INV000001 / ORD000001 numbering
+INSERT INTO number_series (document_type, prefix, fy_format, separator, padding, reset_rule)
+VALUES
+  ('invoice', 'INV', 'none', '', 6, 'never'),
+  ('order', 'ORD', 'none', '', 6, 'never')
+ON CONFLICT (document_type) DO NOTHING;
+
+INSERT INTO number_series_counters (document_type, period, last_number)
+SELECT 'invoice', 'all', CASE WHEN is_called THEN last_value ELSE 0 END FROM invoice_number_seq
+ON CONFLICT (document_type, period) DO NOTHING;
+
+INSERT INTO number_series_counters (document_type, period, last_number)
+SELECT 'order', 'all', CASE WHEN is_called THEN last_value ELSE 0 END FROM order_number_seq
+ON CONFLICT (document_type, period) DO NOTHING;
+
+-- Keep the amount credited by sales returns on each bill so it is no longer owed
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS credited_amount NUMERIC(10, 2) NOT NULL DEFAULT 0.00;
+
+UPDATE bills b
+SET credited_amount = cn.total
+FROM (SELECT bill_id, SUM(total_amount) AS total FROM credit_notes GROUP BY bill_id) cn
+WHERE cn.bill_id = b.id AND b.credited_amount <> cn.total;
+
+UPDATE bills
+SET status = 'paid'
+WHERE status IN ('outstanding', 'partial') AND credited_amount > 0
+  AND COALESCE(paid_amount, 0) >= total_amount - credited_amount;
+
+-- Add per-product HSN codes and tax rates to existing tables
+ALTER TABLE products ADD COLUMN IF NOT EXISTS hsn_code TEXT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5, 2);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS cess_rate NUMERIC(5, 2);
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS hsn_code TEXT;
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5, 2);
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS cess_rate NUMERIC(5, 2);
+
+-- Add state details for inter-state (IGST) billing to existing tables
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS state TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS state_code TEXT;
+ALTER TABLE seller_info ADD COLUMN IF NOT EXISTS state TEXT;
+ALTER TABLE seller_info ADD COLUMN IF NOT EXISTS state_code TEXT;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS igst_percentage NUMERIC(5, 2) DEFAULT 0.00;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS place_of_supply TEXT;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS is_inter_state BOOLEAN NOT NULL DEFAULT false;
+
+-- Bills saved before the flag existed: IGST was charged, or the buyer was outside the seller's state
+UPDATE bills
+SET is_inter_state = true
+WHERE NOT is_inter_state AND is_gst_bill
+  AND (COALESCE(igst_percentage, 0) > 0 OR is_inter_state_supply(place_of_supply));
+
+-- Add payment mode, reference and cheque details to existing transactions
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payment_mode TEXT NOT NULL DEFAULT 'cash' CHECK (payment_mode IN ('cash', 'upi', 'cheque', 'bank_transfer', 'card'));
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reference_number TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS bank_name TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS cheque_number TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS cheque_date DATE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS clearance_status TEXT NOT NULL DEFAULT 'cleared' CHECK (clearance_status IN ('pending', 'cleared', 'bounced'));
+
+-- Add credit terms that set the due date of new bills
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS credit_days INTEGER NOT NULL DEFAULT 30 CHECK (credit_days >= 0);
+
+-- Add unit costs for weighted-average costing and cost of goods sold
+ALTER TABLE products ADD COLUMN IF NOT EXISTS average_cost NUMERIC(12, 4);
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(10, 2);
+ALTER TABLE bill_items ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(12, 4);
+
+-- Link stock movements and vendor payments to purchase bills
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS purchase_bill_id UUID REFERENCES purchase_bills(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS purchase_bill_id UUID REFERENCES purchase_bills(id) ON DELETE SET NULL;
+
+-- Link collections and advances to the cheque register
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS cheque_id UUID REFERENCES cheques(id) ON DELETE SET NULL;
+ALTER TABLE customer_advances ADD COLUMN IF NOT EXISTS cheque_id UUID REFERENCES cheques(id) ON DELETE SET NULL;
+
+-- Group the rows written by one collection so it can be voided as a whole
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS collection_id UUID;
+ALTER TABLE customer_advances ADD COLUMN IF NOT EXISTS collection_id UUID;
+
+-- Track partial redemption of vendor credits and link payments to their settlement
+ALTER TABLE credit ADD COLUMN IF NOT EXISTS redeemed_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (redeemed_amount >= 0);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS settlement_id UUID REFERENCES vendor_settlements(id) ON DELETE SET NULL;
+
+-- Turn inventory transactions into a typed stock movement ledger
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS reason TEXT NOT NULL DEFAULT 'purchase' CHECK (reason IN ('sale', 'purchase', 'damage', 'correction', 'return'));
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS balance_after INTEGER;
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS bill_id UUID REFERENCES bills(id) ON DELETE SET NULL;
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS created_by_username TEXT;
+
+-- Link stock movements and damaged stock write-offs to batches
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES inventory_batches(id) ON DELETE SET NULL;
+ALTER TABLE public.damaged_stock_log ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.inventory_batches(id) ON DELETE SET NULL;
+
+-- Book stock movements and bills against stock locations
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL;
+ALTER TABLE inventory_transactions ADD COLUMN IF NOT EXISTS transfer_id UUID;
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL;
+ALTER TABLE stock_takes ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES stock_locations(id) ON DELETE RESTRICT;
+UPDATE stock_takes SET location_id = default_stock_location() WHERE location_id IS NULL;
+
+-- Keep batches per location. Batches from before this are taken to be at the default location.
+ALTER TABLE inventory_batches ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES stock_locations(id) ON DELETE RESTRICT;
+UPDATE inventory_batches SET location_id = default_stock_location() WHERE location_id IS NULL;
+ALTER TABLE inventory_batches ALTER COLUMN location_id SET NOT NULL;
+ALTER TABLE inventory_batches DROP CONSTRAINT IF EXISTS inventory_batches_product_id_batch_code_key;
+ALTER TABLE inventory_batches DROP CONSTRAINT IF EXISTS inventory_batches_product_id_location_id_batch_code_key;
+ALTER TABLE inventory_batches ADD CONSTRAINT inventory_batches_product_id_location_id_batch_code_key
+  UNIQUE (product_id, location_id, batch_code);
+
+-- Write-offs from before this came out of the default location
+ALTER TABLE public.damaged_stock_log ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES public.stock_locations(id) ON DELETE SET NULL;
+UPDATE public.damaged_stock_log SET location_id = default_stock_location() WHERE location_id IS NULL;
+
+ALTER TABLE inventory_transactions DROP CONSTRAINT IF EXISTS inventory_transactions_reason_check;
+ALTER TABLE inventory_transactions ADD CONSTRAINT inventory_transactions_reason_check
+  CHECK (reason IN ('sale', 'purchase', 'damage', 'correction', 'return', 'transfer'));
+
+UPDATE inventory_transactions
+SET reason = 'return'
+WHERE reason = 'purchase' AND vendor_id IS NULL AND comments LIKE 'Sales return %';
+
+-- Stock moved before the ledger existed is carried in as an opening correction
+-- so that the ledger adds up to the current quantity of every product.
+INSERT INTO inventory_transactions (product_id, quantity_change, reason, balance_after, comments)
+SELECT i.product_id, i.quantity - COALESCE(l.total, 0), 'correction', i.quantity, 'Opening balance carried into the stock ledger'
+FROM inventory i
+LEFT JOIN (
+  SELECT product_id, SUM(quantity_change) AS total
+  FROM inventory_transactions
+  GROUP BY product_id
+) l ON l.product_id = i.product_id
+WHERE i.product_id IS NOT NULL AND i.quantity <> COALESCE(l.total, 0);
+
+-- Stock held before locations existed sits in the default location
+INSERT INTO location_stock (product_id, location_id, quantity)
+SELECT i.product_id, d.id, i.quantity
+FROM inventory i
+CROSS JOIN stock_locations d
+WHERE d.is_default AND i.product_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM location_stock ls WHERE ls.product_id = i.product_id);
+
+UPDATE inventory_transactions
+SET location_id = (SELECT id FROM stock_locations WHERE is_default)
+WHERE location_id IS NULL;
+
 
 -- === ROW LEVEL SECURITY (RLS) ===
 
 ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 ALTER TABLE inventory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_stock ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bill_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE inventory_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE expense_categories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.damaged_stock_log ENABLE ROW LEVEL SECURITY;
@@ -634,44 +3391,283 @@ ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE credit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_advances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE advance_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cheques ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reversals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE balance_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_bill_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vendor_settlement_credits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_note_items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE seller_info ENABLE ROW LEVEL SECURITY;
-
-
--- Note: These are placeholder policies. Adapt them to your authentication setup.
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE number_series_counters ENABLE ROW LEVEL SECURITY;
+
+
+-- Stock, balance and cost helpers are only called from other functions, which check
+-- permissions first; nobody may move stock or change a balance by calling them directly
+REVOKE EXECUTE ON FUNCTION record_stock_movement(UUID, INTEGER, TEXT, TEXT, UUID, NUMERIC, UUID, UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decrement_stock(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_customer_balance(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_average_cost(UUID, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Document numbers are only handed out by the set_*_number triggers; a direct call
+-- would advance the series and leave a gap in the numbering
+REVOKE EXECUTE ON FUNCTION next_document_number(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_invoice_number() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_order_number() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_credit_note_number() FROM PUBLIC, anon, authenticated;
+
+-- Policies follow the permissions granted to the signed-in user's role (see has_permission()).
+-- Each table is readable from the pages that show it and writable only where a page saves
+-- it directly. Everything else is written by SECURITY DEFINER functions that check the
+-- matching permission first, so a role granted bills.create or payments.record can bill
+-- and collect without write access to the tables behind them.
+-- With the default grants staff read customers, products and stock levels to take orders,
+-- and stock locations, stock takes and the seller letterhead to count stock; they write
+-- only orders and order items. db/rls_test.sql checks the default roles against these policies.
+-- Remove the original allow-all policies
 DROP POLICY IF EXISTS "Allow all access to all users" ON customers;
-CREATE POLICY "Allow all access to all users" ON customers FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON products;
-CREATE POLICY "Allow all access to all users" ON products FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON inventory;
-CREATE POLICY "Allow all access to all users" ON inventory FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON bills;
-CREATE POLICY "Allow all access to all users" ON bills FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON bill_items;
-CREATE POLICY "Allow all access to all users" ON bill_items FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON orders;
-CREATE POLICY "Allow all access to all users" ON orders FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON order_items;
-CREATE POLICY "Allow all access to all users" ON order_items FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON inventory_transactions;
-CREATE POLICY "Allow all access to all users" ON inventory_transactions FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON expense_categories;
-CREATE POLICY "Allow all access to all users" ON expense_categories FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON transactions;
-CREATE POLICY "Allow all access to all users" ON transactions FOR ALL USING (true) WITH CHECK (true);
-DROP POLICY IF EXISTS "Allow public access to all users" ON public.damaged_stock_log;
-CREATE POLICY "Allow public access to all users" ON public.damaged_stock_log FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON public.product_vendors;
-CREATE POLICY "Allow all access to all users" ON public.product_vendors FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON roles;
-CREATE POLICY "Allow all access to all users" ON roles FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON user_roles;
-CREATE POLICY "Allow all access to all users" ON user_roles FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON public.users;
-CREATE POLICY "Allow all access to all users" ON public.users FOR ALL USING (true) WITH CHECK (true);
 DROP POLICY IF EXISTS "Allow all access to all users" ON credit;
-CREATE POLICY "Allow all access to all users" ON credit FOR ALL USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Allow all access to all users" ON credit_notes;
+DROP POLICY IF EXISTS "Allow all access to all users" ON credit_note_items;
 DROP POLICY IF EXISTS "Allow all access to all users" ON seller_info;
-CREATE POLICY "Allow all access to all users" ON seller_info FOR ALL USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Allow all access to all users" ON number_series;
+DROP POLICY IF EXISTS "Allow all access to all users" ON number_series_counters;
+DROP POLICY IF EXISTS "Allow public access to all users" ON public.damaged_stock_log;
+DROP POLICY IF EXISTS "Allow read access to all users" ON app_settings;
+
+-- Customers and vendors are picked on most pages; the Customers page adds and edits them
+DROP POLICY IF EXISTS "Allow read access to all roles" ON customers;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON customers;
+DROP POLICY IF EXISTS "Allow read access by permission" ON customers;
+CREATE POLICY "Allow read access by permission" ON customers FOR SELECT USING (has_any_permission('billing.view', 'orders.view', 'inventory.view', 'purchases.view', 'payments.view', 'customers.view', 'damaged_stock.view', 'financial_analytics.view', 'dashboard.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON customers;
+CREATE POLICY "Allow inserts by permission" ON customers FOR INSERT WITH CHECK (has_permission('customers.view'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON customers;
+CREATE POLICY "Allow updates by permission" ON customers FOR UPDATE USING (has_permission('customers.view')) WITH CHECK (has_permission('customers.view'));
+
+-- Products are listed wherever stock is sold, bought or counted; they are created through
+-- upsert_product_with_vendors and deleted from the admin panel
+DROP POLICY IF EXISTS "Allow read access to all roles" ON products;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON products;
+DROP POLICY IF EXISTS "Allow read access by permission" ON products;
+CREATE POLICY "Allow read access by permission" ON products FOR SELECT USING (has_any_permission('billing.view', 'orders.view', 'inventory.view', 'stock_take.view', 'purchases.view', 'damaged_stock.view', 'financial_analytics.view', 'dashboard.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow deletes by permission" ON products;
+CREATE POLICY "Allow deletes by permission" ON products FOR DELETE USING (has_permission('admin.view'));
+DROP POLICY IF EXISTS "Allow read access to all roles" ON public.product_vendors;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON public.product_vendors;
+DROP POLICY IF EXISTS "Allow read access by permission" ON public.product_vendors;
+CREATE POLICY "Allow read access by permission" ON public.product_vendors FOR SELECT USING (has_any_permission('inventory.view', 'purchases.view', 'admin.view'));
+
+-- Stock levels: written only by the stock functions
+DROP POLICY IF EXISTS "Allow read access to all roles" ON inventory;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON inventory;
+DROP POLICY IF EXISTS "Allow read access by permission" ON inventory;
+CREATE POLICY "Allow read access by permission" ON inventory FOR SELECT USING (has_any_permission('billing.view', 'orders.view', 'inventory.view', 'dashboard.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow read access to all roles" ON inventory_batches;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON inventory_batches;
+DROP POLICY IF EXISTS "Allow read access by permission" ON inventory_batches;
+CREATE POLICY "Allow read access by permission" ON inventory_batches FOR SELECT USING (has_any_permission('inventory.view', 'damaged_stock.view', 'dashboard.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow read access to all roles" ON location_stock;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON location_stock;
+DROP POLICY IF EXISTS "Allow read access by permission" ON location_stock;
+CREATE POLICY "Allow read access by permission" ON location_stock FOR SELECT USING (has_any_permission('billing.view', 'inventory.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON inventory_transactions;
+DROP POLICY IF EXISTS "Allow read access by permission" ON inventory_transactions;
+CREATE POLICY "Allow read access by permission" ON inventory_transactions FOR SELECT USING (has_any_permission('inventory.view', 'admin.view'));
+
+-- Locations are added and renamed from the inventory page
+DROP POLICY IF EXISTS "Allow read access to all roles" ON stock_locations;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON stock_locations;
+DROP POLICY IF EXISTS "Allow read access by permission" ON stock_locations;
+CREATE POLICY "Allow read access by permission" ON stock_locations FOR SELECT USING (has_any_permission('billing.view', 'inventory.view', 'stock_take.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON stock_locations;
+CREATE POLICY "Allow inserts by permission" ON stock_locations FOR INSERT WITH CHECK (has_permission('stock_locations.manage'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON stock_locations;
+CREATE POLICY "Allow updates by permission" ON stock_locations FOR UPDATE USING (has_permission('stock_locations.manage')) WITH CHECK (has_permission('stock_locations.manage'));
+
+-- Orders are created and edited directly from the orders page
+DROP POLICY IF EXISTS "Allow all roles to manage" ON orders;
+DROP POLICY IF EXISTS "Allow read access by permission" ON orders;
+CREATE POLICY "Allow read access by permission" ON orders FOR SELECT USING (has_any_permission('orders.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON orders;
+CREATE POLICY "Allow inserts by permission" ON orders FOR INSERT WITH CHECK (has_permission('orders.create'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON orders;
+CREATE POLICY "Allow updates by permission" ON orders FOR UPDATE USING (has_permission('orders.edit')) WITH CHECK (has_permission('orders.edit'));
+DROP POLICY IF EXISTS "Allow all roles to manage" ON order_items;
+DROP POLICY IF EXISTS "Allow read access by permission" ON order_items;
+CREATE POLICY "Allow read access by permission" ON order_items FOR SELECT USING (has_any_permission('orders.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON order_items;
+CREATE POLICY "Allow inserts by permission" ON order_items FOR INSERT WITH CHECK (has_permission('orders.create'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON order_items;
+CREATE POLICY "Allow updates by permission" ON order_items FOR UPDATE USING (has_permission('orders.edit')) WITH CHECK (has_permission('orders.edit'));
+
+-- Stock takes: counts are entered and approved through functions
+DROP POLICY IF EXISTS "Allow read access to all roles" ON stock_takes;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON stock_takes;
+DROP POLICY IF EXISTS "Allow read access by permission" ON stock_takes;
+CREATE POLICY "Allow read access by permission" ON stock_takes FOR SELECT USING (has_any_permission('stock_take.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow read access to all roles" ON stock_take_items;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON stock_take_items;
+DROP POLICY IF EXISTS "Allow read access by permission" ON stock_take_items;
+CREATE POLICY "Allow read access by permission" ON stock_take_items FOR SELECT USING (has_any_permission('stock_take.view', 'admin.view'));
+
+-- Billing, payments and purchases: written only by functions that check the matching permission
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON bills;
+DROP POLICY IF EXISTS "Allow read access by permission" ON bills;
+CREATE POLICY "Allow read access by permission" ON bills FOR SELECT USING (has_any_permission('billing.view', 'payments.view', 'financial_analytics.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON bill_items;
+DROP POLICY IF EXISTS "Allow read access by permission" ON bill_items;
+CREATE POLICY "Allow read access by permission" ON bill_items FOR SELECT USING (has_any_permission('billing.view', 'financial_analytics.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON credit_notes;
+DROP POLICY IF EXISTS "Allow read access by permission" ON credit_notes;
+CREATE POLICY "Allow read access by permission" ON credit_notes FOR SELECT USING (has_any_permission('billing.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON credit_note_items;
+DROP POLICY IF EXISTS "Allow read access by permission" ON credit_note_items;
+CREATE POLICY "Allow read access by permission" ON credit_note_items FOR SELECT USING (has_any_permission('billing.view', 'financial_analytics.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON transactions;
+DROP POLICY IF EXISTS "Allow read access by permission" ON transactions;
+CREATE POLICY "Allow read access by permission" ON transactions FOR SELECT USING (has_any_permission('payments.view', 'financial_analytics.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON customer_advances;
+DROP POLICY IF EXISTS "Allow read access by permission" ON customer_advances;
+CREATE POLICY "Allow read access by permission" ON customer_advances FOR SELECT USING (has_any_permission('billing.view', 'payments.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON advance_applications;
+DROP POLICY IF EXISTS "Allow read access by permission" ON advance_applications;
+CREATE POLICY "Allow read access by permission" ON advance_applications FOR SELECT USING (has_any_permission('payments.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON cheques;
+DROP POLICY IF EXISTS "Allow read access by permission" ON cheques;
+CREATE POLICY "Allow read access by permission" ON cheques FOR SELECT USING (has_any_permission('payments.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON purchase_bills;
+DROP POLICY IF EXISTS "Allow read access by permission" ON purchase_bills;
+CREATE POLICY "Allow read access by permission" ON purchase_bills FOR SELECT USING (has_any_permission('purchases.view', 'payments.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON purchase_bill_items;
+DROP POLICY IF EXISTS "Allow read access by permission" ON purchase_bill_items;
+CREATE POLICY "Allow read access by permission" ON purchase_bill_items FOR SELECT USING (has_any_permission('purchases.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON vendor_settlements;
+DROP POLICY IF EXISTS "Allow read access by permission" ON vendor_settlements;
+CREATE POLICY "Allow read access by permission" ON vendor_settlements FOR SELECT USING (has_any_permission('payments.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON vendor_settlement_credits;
+DROP POLICY IF EXISTS "Allow read access by permission" ON vendor_settlement_credits;
+CREATE POLICY "Allow read access by permission" ON vendor_settlement_credits FOR SELECT USING (has_any_permission('payments.view', 'admin.view'));
+
+-- Vendor credits are recorded on the payments page; write-offs add theirs through record_damaged_stock
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON credit;
+DROP POLICY IF EXISTS "Allow read access by permission" ON credit;
+CREATE POLICY "Allow read access by permission" ON credit FOR SELECT USING (has_any_permission('payments.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON credit;
+CREATE POLICY "Allow inserts by permission" ON credit FOR INSERT WITH CHECK (has_permission('credits.record'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON credit;
+CREATE POLICY "Allow updates by permission" ON credit FOR UPDATE USING (has_permission('credits.record')) WITH CHECK (has_permission('credits.record'));
+-- Credits are only redeemed by netting them off in settle_vendor_payment, so
+-- the page can write the credit's details but not its status or redeemed amount
+REVOKE INSERT, UPDATE ON credit FROM anon, authenticated;
+GRANT INSERT (vendor_id, amount, date, comments), UPDATE (vendor_id, amount, date, comments) ON credit TO authenticated;
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON public.damaged_stock_log;
+DROP POLICY IF EXISTS "Allow read access by permission" ON public.damaged_stock_log;
+CREATE POLICY "Allow read access by permission" ON public.damaged_stock_log FOR SELECT USING (has_any_permission('damaged_stock.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON public.damaged_stock_log;
+DROP POLICY IF EXISTS "Allow updates by permission" ON public.damaged_stock_log;
+CREATE POLICY "Allow updates by permission" ON public.damaged_stock_log FOR UPDATE USING (has_permission('damaged_stock.record')) WITH CHECK (has_permission('damaged_stock.record'));
+-- Write-offs are entered and corrected through record_damaged_stock and update_damaged_stock;
+-- the page only moves an entry between PENDING_ADJUSTMENT and ADJUSTED
+REVOKE UPDATE ON public.damaged_stock_log FROM anon, authenticated;
+GRANT UPDATE (status) ON public.damaged_stock_log TO authenticated;
+
+-- Expense categories are kept in the admin panel
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON expense_categories;
+DROP POLICY IF EXISTS "Allow read access by permission" ON expense_categories;
+CREATE POLICY "Allow read access by permission" ON expense_categories FOR SELECT USING (has_any_permission('payments.view', 'financial_analytics.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON expense_categories;
+CREATE POLICY "Allow inserts by permission" ON expense_categories FOR INSERT WITH CHECK (has_permission('admin.view'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON expense_categories;
+CREATE POLICY "Allow updates by permission" ON expense_categories FOR UPDATE USING (has_permission('admin.view')) WITH CHECK (has_permission('admin.view'));
+DROP POLICY IF EXISTS "Allow deletes by permission" ON expense_categories;
+CREATE POLICY "Allow deletes by permission" ON expense_categories FOR DELETE USING (has_permission('admin.view'));
+
+-- Payment reversals are an audit trail: only reverse_payment writes them
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON payment_reversals;
+DROP POLICY IF EXISTS "Allow read access by permission" ON payment_reversals;
+CREATE POLICY "Allow read access by permission" ON payment_reversals FOR SELECT USING (has_any_permission('payments.view', 'admin.view'));
+
+-- Balance adjustments are an audit trail: only reconcile_customer_balance writes them
+DROP POLICY IF EXISTS "Allow managers and admins to manage" ON balance_adjustments;
+DROP POLICY IF EXISTS "Allow read access by permission" ON balance_adjustments;
+CREATE POLICY "Allow read access by permission" ON balance_adjustments FOR SELECT USING (has_permission('admin.view'));
+
+-- Business settings: read where documents are printed, changed from the admin panel
+DROP POLICY IF EXISTS "Allow read access to managers and admins" ON seller_info;
+DROP POLICY IF EXISTS "Allow admins to manage" ON seller_info;
+DROP POLICY IF EXISTS "Allow read access by permission" ON seller_info;
+CREATE POLICY "Allow read access by permission" ON seller_info FOR SELECT USING (has_any_permission('billing.view', 'stock_take.view', 'payments.view', 'purchases.view', 'customers.view', 'admin.view'));
+DROP POLICY IF EXISTS "Allow inserts by permission" ON seller_info;
+CREATE POLICY "Allow inserts by permission" ON seller_info FOR INSERT WITH CHECK (has_permission('admin.view'));
+DROP POLICY IF EXISTS "Allow updates by permission" ON seller_info;
+CREATE POLICY "Allow updates by permission" ON seller_info FOR UPDATE USING (has_permission('admin.view')) WITH CHECK (has_permission('admin.view'));
+DROP POLICY IF EXISTS "Allow read access to all roles" ON app_settings;
+DROP POLICY IF EXISTS "Allow admins to manage settings" ON app_settings;
+DROP POLICY IF EXISTS "Allow read access by permission" ON app_settings;
+CREATE POLICY "Allow read access by permission" ON app_settings FOR SELECT USING (has_any_permission('billing.view', 'admin.view'));
+-- Settings stay with admins even if admin.view is granted to another role
+DROP POLICY IF EXISTS "Allow inserts by permission" ON app_settings;
+DROP POLICY IF EXISTS "Allow updates by permission" ON app_settings;
+DROP POLICY IF EXISTS "Allow admins to insert" ON app_settings;
+CREATE POLICY "Allow admins to insert" ON app_settings FOR INSERT WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow admins to update" ON app_settings;
+CREATE POLICY "Allow admins to update" ON app_settings FOR UPDATE USING (is_admin()) WITH CHECK (is_admin());
+
+-- Number series are changed through update_number_series
+DROP POLICY IF EXISTS "Allow read access to managers and admins" ON number_series;
+DROP POLICY IF EXISTS "Allow admins to manage" ON number_series;
+DROP POLICY IF EXISTS "Allow read access by permission" ON number_series;
+CREATE POLICY "Allow read access by permission" ON number_series FOR SELECT USING (has_permission('admin.view'));
+DROP POLICY IF EXISTS "Allow read access to managers and admins" ON number_series_counters;
+DROP POLICY IF EXISTS "Allow admins to manage" ON number_series_counters;
+DROP POLICY IF EXISTS "Allow read access by permission" ON number_series_counters;
+CREATE POLICY "Allow read access by permission" ON number_series_counters FOR SELECT USING (has_permission('admin.view'));
+
+-- Users, roles and permissions: everyone reads the role list, their own assignment
+-- and the permission matrix. Only admins change them, so a granted permission can
+-- never be used to grant more
+DROP POLICY IF EXISTS "Allow read access to all users" ON roles;
+CREATE POLICY "Allow read access to all users" ON roles FOR SELECT USING (auth.uid() IS NOT NULL);
+DROP POLICY IF EXISTS "Allow admins to manage" ON roles;
+CREATE POLICY "Allow admins to manage" ON roles FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow users to read their own role" ON user_roles;
+CREATE POLICY "Allow users to read their own role" ON user_roles FOR SELECT USING (user_id = auth.uid());
+DROP POLICY IF EXISTS "Allow admins to manage" ON user_roles;
+CREATE POLICY "Allow admins to manage" ON user_roles FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow users to read their own profile" ON public.users;
+CREATE POLICY "Allow users to read their own profile" ON public.users FOR SELECT USING (id = auth.uid());
+DROP POLICY IF EXISTS "Allow admins to manage" ON public.users;
+CREATE POLICY "Allow admins to manage" ON public.users FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow read access to all users" ON permissions;
+CREATE POLICY "Allow read access to all users" ON permissions FOR SELECT USING (auth.uid() IS NOT NULL);
+DROP POLICY IF EXISTS "Allow admins to manage" ON permissions;
+CREATE POLICY "Allow admins to manage" ON permissions FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow read access to all users" ON role_permissions;
+CREATE POLICY "Allow read access to all users" ON role_permissions FOR SELECT USING (auth.uid() IS NOT NULL);
+DROP POLICY IF EXISTS "Allow admins to manage" ON role_permissions;
+CREATE POLICY "Allow admins to manage" ON role_permissions FOR ALL USING (is_admin()) WITH CHECK (is_admin());
 
 
 -- === INDEXES for Performance ===
@@ -687,34 +3683,86 @@ CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
 CREATE INDEX IF NOT EXISTS idx_transactions_vendor_id ON transactions(vendor_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_category_id ON transactions(category_id);
 CREATE INDEX IF NOT EXISTS idx_transactions_customer_id ON transactions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_payment_mode ON transactions(payment_mode);
+CREATE INDEX IF NOT EXISTS idx_transactions_clearance_status ON transactions(clearance_status);
+CREATE INDEX IF NOT EXISTS idx_transactions_cheque_id ON transactions(cheque_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_collection_id ON transactions(collection_id);
+CREATE INDEX IF NOT EXISTS idx_customer_advances_collection_id ON customer_advances(collection_id);
+CREATE INDEX IF NOT EXISTS idx_bills_due_date ON bills(due_date);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_product_id ON inventory_transactions(product_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_reason ON inventory_transactions(reason);
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_product_id ON inventory_batches(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_locations_one_default ON stock_locations(is_default) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_location_stock_location_id ON location_stock(location_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_location_id ON inventory_transactions(location_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_transfer_id ON inventory_transactions(transfer_id) WHERE transfer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_expiry_date ON inventory_batches(expiry_date) WHERE quantity > 0;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_takes_one_open ON stock_takes(status) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_stock_take_items_stock_take_id ON stock_take_items(stock_take_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reversals_customer_id ON payment_reversals(customer_id);
+CREATE INDEX IF NOT EXISTS idx_balance_adjustments_customer_id ON balance_adjustments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_bills_vendor_id ON purchase_bills(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_bills_status ON purchase_bills(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_bills_vendor_invoice ON purchase_bills(vendor_id, vendor_invoice_number) WHERE vendor_invoice_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_purchase_bill_items_purchase_bill_id ON purchase_bill_items(purchase_bill_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_purchase_bill_id ON transactions(purchase_bill_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_settlement_id ON transactions(settlement_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_settlements_vendor_id ON vendor_settlements(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_settlement_credits_settlement_id ON vendor_settlement_credits(settlement_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_settlement_credits_credit_id ON vendor_settlement_credits(credit_id);
+CREATE INDEX IF NOT EXISTS idx_cheques_customer_id ON cheques(customer_id);
+CREATE INDEX IF NOT EXISTS idx_cheques_status ON cheques(status);
+CREATE INDEX IF NOT EXISTS idx_customer_advances_cheque_id ON customer_advances(cheque_id);
 CREATE INDEX IF NOT EXISTS idx_seller_info_company_name ON seller_info(company_name);
 CREATE INDEX IF NOT EXISTS idx_product_vendors_product_id ON public.product_vendors(product_id);
 CREATE INDEX IF NOT EXISTS idx_product_vendors_vendor_id ON public.product_vendors(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_customer_advances_customer_id ON customer_advances(customer_id);
+CREATE INDEX IF NOT EXISTS idx_advance_applications_advance_id ON advance_applications(advance_id);
+CREATE INDEX IF NOT EXISTS idx_advance_applications_bill_id ON advance_applications(bill_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_bill_id ON credit_notes(bill_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_customer_id ON credit_notes(customer_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note_id ON credit_note_items(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_bill_item_id ON credit_note_items(bill_item_id);
+CREATE INDEX IF NOT EXISTS idx_role_permissions_permission_key ON role_permissions(permission_key);
 
 
 -- === TRIGGERS ===
 
+-- Trigger functions to number new documents. They run as the owner so that orders
+-- entered directly by staff can still draw from the series they cannot call themselves.
+
 -- Trigger function to set invoice_number on bill insert
 CREATE OR REPLACE FUNCTION set_invoice_number()
 RETURNS TRIGGER AS $$
 BEGIN
   IF NEW.invoice_number IS NULL THEN
-    NEW.invoice_number := generate_invoice_number();
+    NEW.invoice_number := next_document_number('invoice', COALESCE(NEW.date_of_bill, now()));
   END IF;
   RETURN NEW;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Trigger function to set order_number on order insert
 CREATE OR REPLACE FUNCTION set_order_number()
 RETURNS TRIGGER AS $$
 BEGIN
   IF NEW.order_number IS NULL THEN
-    NEW.order_number := generate_order_number();
+    NEW.order_number := next_document_number('order', COALESCE(NEW.created_at, now()));
   END IF;
   RETURN NEW;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger function to set credit_note_number on credit note insert
+CREATE OR REPLACE FUNCTION set_credit_note_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.credit_note_number IS NULL THEN
+    NEW.credit_note_number := generate_credit_note_number();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Create triggers
 DROP TRIGGER IF EXISTS trigger_set_invoice_number ON bills;
@@ -729,6 +3777,12 @@ CREATE TRIGGER trigger_set_order_number
   FOR EACH ROW
   EXECUTE FUNCTION set_order_number();
 
+DROP TRIGGER IF EXISTS trigger_set_credit_note_number ON credit_notes;
+CREATE TRIGGER trigger_set_credit_note_number
+  BEFORE INSERT ON credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_credit_note_number();
+
 -- Trigger to automatically update the 'updated_at' timestamp in the inventory table
 CREATE OR REPLACE FUNCTION update_inventory_timestamp()
 RETURNS TRIGGER AS $$
@@ -6,6 +6,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Dashboard } from "./pages/Dashboard";
 import { Billing } from "./pages/Billing";
 import { Inventory } from "./pages/Inventory";
+import { StockTake } from "./pages/StockTake";
+import { Purchases } from "./pages/Purchases";
 import { Payments } from "./pages/Payments";
 import { Customers } from "./pages/Customers";
 import { Orders } from "./pages/Orders";
@@ -33,6 +35,8 @@ const App = () => {
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/billing" element={<Billing />} />
               <Route path="/inventory" element={<Inventory />} />
+              <Route path="/stock-take" element={<StockTake />} />
+              <Route path="/purchases" element={<Purchases />} />
               <Route path="/payments" element={<Payments />} />
               <Route path="/customers" element={<Customers />} />
               <Route path="/orders" element={<Orders />} />
@@ -1,22 +1,11 @@
-import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { ROUTE_PERMISSIONS } from "@/lib/permissions";
 import { Navigate, Outlet, useLocation } from "react-router-dom";
 import { AppLayout } from "./AppLayout";
 import { Loader2 } from "lucide-react";
 
-const routePermissions: Record<string, string[]> = {
-  '/': ['admin', 'manager'],
-  '/billing': ['admin', 'manager'],
-  '/orders': ['admin', 'manager', 'staff'],
-  '/inventory': ['admin', 'manager'],
-  '/payments': ['admin', 'manager'],
-  '/customers': ['admin', 'manager'],
-  '/damaged-stock': ['admin', 'manager'],
-  '/financial-analytics': ['admin', 'manager'],
-  '/admin': ['admin'], // Admin only
-};
-
 export function ProtectedRoute() {
-  const { session, loading, role } = useAuth();
+  const { session, loading, can } = usePermissions();
   const location = useLocation();
 
 
@@ -32,9 +21,9 @@ export function ProtectedRoute() {
     return <Navigate to="/" replace />;
   }
 
-  const allowedRoles = routePermissions[location.pathname];
+  const requiredPermission = ROUTE_PERMISSIONS[location.pathname];
 
-  if (allowedRoles && !allowedRoles.includes(role || '')) {
+  if (requiredPermission && !can(requiredPermission)) {
     return <Navigate to="/" replace />;
   }
 
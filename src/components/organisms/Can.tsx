@@ -0,0 +1,15 @@
+import { ReactNode } from "react";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Permission } from "@/lib/permissions";
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export const Can = ({ permission, children, fallback = null }: CanProps) => {
+  const { can } = usePermissions();
+
+  return <>{can(permission) ? children : fallback}</>;
+};
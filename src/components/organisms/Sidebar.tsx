@@ -12,6 +12,8 @@ import {
   Trash2,
   LogOut,
   TrendingUp,
+  Truck,
+  ClipboardCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -20,20 +22,23 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Permission } from "@/lib/permissions";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 
-const allNavigation = [
-  { name: "Dashboard", href: "/", icon: LayoutDashboard, roles: ['admin', 'manager'] },
-  { name: "Billing", href: "/billing", icon: Receipt, roles: ['admin', 'manager'] },
-  { name: "Orders", href: "/orders", icon: ShoppingCart, roles: ['admin', 'manager', 'staff'] },
-  { name: "Inventory", href: "/inventory", icon: Package, roles: ['admin', 'manager'] },
-  { name: "Payments", href: "/payments", icon: CreditCard, roles: ['admin', 'manager'] },
-  { name: "Customers", href: "/customers", icon: Users, roles: ['admin', 'manager'] },
-  { name: "Damaged Stock", href: "/damaged-stock", icon: Trash2, roles: ['admin', 'manager'] },
-  { name: "Financial Analytics", href: "/financial-analytics", icon: TrendingUp, roles: ['admin', 'manager'] },
-  { name: "Admin", href: "/admin", icon: Home, roles: ['admin'] },
+const allNavigation: { name: string; href: string; icon: typeof Home; permission: Permission }[] = [
+  { name: "Dashboard", href: "/", icon: LayoutDashboard, permission: "dashboard.view" },
+  { name: "Billing", href: "/billing", icon: Receipt, permission: "billing.view" },
+  { name: "Orders", href: "/orders", icon: ShoppingCart, permission: "orders.view" },
+  { name: "Inventory", href: "/inventory", icon: Package, permission: "inventory.view" },
+  { name: "Stock Take", href: "/stock-take", icon: ClipboardCheck, permission: "stock_take.view" },
+  { name: "Purchases", href: "/purchases", icon: Truck, permission: "purchases.view" },
+  { name: "Payments", href: "/payments", icon: CreditCard, permission: "payments.view" },
+  { name: "Customers", href: "/customers", icon: Users, permission: "customers.view" },
+  { name: "Damaged Stock", href: "/damaged-stock", icon: Trash2, permission: "damaged_stock.view" },
+  { name: "Financial Analytics", href: "/financial-analytics", icon: TrendingUp, permission: "financial_analytics.view" },
+  { name: "Admin", href: "/admin", icon: Home, permission: "admin.view" },
 ];
 
 interface SidebarProps {
@@ -50,26 +55,11 @@ export const Sidebar = ({
   onClose,
 }: SidebarProps) => {
   const location = useLocation();
-  const { role } = useAuth();
+  const { can } = usePermissions();
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  // Debug: Log the current role and navigation
-  console.log('Sidebar - Current role:', role);
-  console.log('Sidebar - All navigation items:', allNavigation);
-
-  // If no role is assigned, show all navigation items (fallback)
-  let navigation = role ? allNavigation.filter(item => item.roles.includes(role)) : allNavigation;
-
-  // Fallback: if no navigation items are found, show at least basic items
-  if (navigation.length === 0) {
-    console.warn('No navigation items found for role:', role, 'showing fallback navigation');
-    navigation = [
-      { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard, roles: ['admin', 'manager'] },
-      { name: "Orders", href: "/orders", icon: ShoppingCart, roles: ['admin', 'manager', 'staff'] },
-      { name: "Customers", href: "/customers", icon: Users, roles: ['admin', 'manager'] },
-    ];
-  }
+  const navigation = allNavigation.filter((item) => can(item.permission));
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
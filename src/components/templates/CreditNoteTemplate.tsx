@@ -0,0 +1,386 @@
+import { BillItem } from '@/pages/Billing';
+import { Customer } from '@/pages/Customers';
+import React from 'react';
+import { numberToWords } from '@/lib/number-to-words';
+import { calculateLineTax, hasLineRates, summarizeByHsn } from '@/lib/gst-utils';
+
+interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  date_of_credit_note: string;
+  created_at: string;
+  total_amount: number;
+  reason?: string | null;
+}
+
+interface OriginalBill {
+  invoice_number: string;
+  date_of_bill: string;
+  is_gst_bill: boolean;
+  cgst_percentage?: number;
+  sgst_percentage?: number;
+  cess_percentage?: number;
+  igst_percentage?: number;
+  is_inter_state?: boolean;
+}
+
+interface SellerInfo {
+  id: string;
+  company_name: string;
+  email: string;
+  contact_number: string;
+  address?: string;
+  gst_number?: string;
+  state?: string;
+  state_code?: string;
+}
+
+interface CreditNoteTemplateProps {
+  creditNote: CreditNote;
+  originalBill: OriginalBill;
+  items: BillItem[];
+  customerDetails: Customer;
+  sellerInfo?: SellerInfo;
+}
+
+const CreditNoteTemplate: React.FC<CreditNoteTemplateProps> = ({ creditNote, originalBill, items, customerDetails, sellerInfo }) => {
+  // Same rates as the original invoice so the reversal mirrors what was charged
+  const cgstRate = originalBill.cgst_percentage || 9;
+  const sgstRate = originalBill.sgst_percentage || 9;
+  const cessRate = originalBill.cess_percentage || 0;
+  const igstRate = originalBill.igst_percentage || 0;
+  const interState = originalBill.is_gst_bill && Boolean(originalBill.is_inter_state);
+  const billRates = interState
+    ? { cgst: 0, sgst: 0, igst: igstRate, cess: cessRate }
+    : { cgst: cgstRate, sgst: sgstRate, igst: 0, cess: cessRate };
+  const lineRates = originalBill.is_gst_bill && hasLineRates(items);
+  const hsnSummary = originalBill.is_gst_bill ? summarizeByHsn(items, billRates, interState) : [];
+  const rateSummary = originalBill.is_gst_bill
+    ? summarizeByHsn(items.map((item) => ({ ...item, hsn_code: null })), billRates, interState)
+    : [];
+  const showCess = hsnSummary.some((row) => row.rates.cess > 0);
+
+  const total = items.reduce((sum, item) => sum + (item.quantity * item.price), 0);
+  // Share of the original bill discount, already netted off the credited amount
+  const discount = Math.max(total - creditNote.total_amount, 0);
+  const taxableValue = originalBill.is_gst_bill
+    ? hsnSummary.reduce((sum, row) => sum + row.taxableValue, 0)
+    : total;
+  const cgstAmount = hsnSummary.reduce((sum, row) => sum + row.cgst, 0);
+  const sgstAmount = hsnSummary.reduce((sum, row) => sum + row.sgst, 0);
+  const igstAmount = hsnSummary.reduce((sum, row) => sum + row.igst, 0);
+  const cessAmount = hsnSummary.reduce((sum, row) => sum + row.cess, 0);
+  const creditNoteDate = new Date(creditNote.date_of_credit_note || creditNote.created_at).toLocaleDateString('en-GB');
+
+  const tableStyle = {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    border: '1px solid #000',
+    fontSize: '11px'
+  };
+
+  const cellStyle = {
+    border: '1px solid #000',
+    padding: '4px 6px',
+    verticalAlign: 'top' as const
+  };
+
+  const headerCellStyle = {
+    ...cellStyle,
+    backgroundColor: '#f5f5f5',
+    fontWeight: 'bold' as const,
+    textAlign: 'center' as const
+  };
+
+  return (
+    <div style={{
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '12px',
+      color: '#000',
+      width: '210mm',
+      minWidth: '210mm',
+      maxWidth: '210mm',
+      minHeight: '297mm',
+      padding: '20px',
+      boxSizing: 'border-box',
+      backgroundColor: 'white',
+      margin: '0 auto',
+      overflow: 'hidden'
+    }}>
+      {/* Header */}
+      <div style={{ textAlign: 'center', marginBottom: '10px' }}>
+        <h1 style={{ margin: '0', fontSize: '16px', fontWeight: 'bold' }}>Credit Note</h1>
+        <div style={{ fontSize: '12px', fontStyle: 'italic', marginTop: '2px' }}>(ORIGINAL FOR RECIPIENT)</div>
+      </div>
+
+      {/* Company and Credit Note Details */}
+      <table style={tableStyle}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '60%', verticalAlign: 'top' }}>
+              <div style={{ fontWeight: 'bold', fontSize: '12px', marginBottom: '5px' }}>
+                {sellerInfo?.company_name || 'YOUR COMPANY NAME'}
+              </div>
+              {sellerInfo?.address && (
+                <div>{sellerInfo.address}</div>
+              )}
+              {sellerInfo?.gst_number && (
+                <div>GSTIN/UIN: {sellerInfo.gst_number}</div>
+              )}
+              {sellerInfo?.state && (
+                <div>State Name: {sellerInfo.state}, Code: {sellerInfo.state_code}</div>
+              )}
+              <div>E-Mail: {sellerInfo?.email || 'contact@yourcompany.com'}</div>
+              {sellerInfo?.contact_number && (
+                <div>Contact: {sellerInfo.contact_number}</div>
+              )}
+            </td>
+            <td style={{ ...cellStyle, width: '40%' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Credit Note No.</td>
+                    <td style={{ padding: '2px' }}>{creditNote.credit_note_number}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Dated</td>
+                    <td style={{ padding: '2px' }}>{creditNoteDate}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Original Invoice No.</td>
+                    <td style={{ padding: '2px' }}>{originalBill.invoice_number}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Original Invoice Date</td>
+                    <td style={{ padding: '2px' }}>{new Date(originalBill.date_of_bill).toLocaleDateString('en-GB')}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Buyer Details */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={cellStyle}>
+              <div style={{ fontWeight: 'bold', marginBottom: '3px' }}>Buyer (Bill to)</div>
+              <div style={{ fontWeight: 'bold' }}>{customerDetails.name}</div>
+              <div>{customerDetails.address}</div>
+              <div>GSTIN/UIN: {customerDetails.gst_number || 'N/A'}</div>
+              <div>
+                State Name: {customerDetails.state || 'TamilNadu'}
+                {customerDetails.state_code && `, Code: ${customerDetails.state_code}`}
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Returned Items Table */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...headerCellStyle, width: '8%' }}>Sl No</th>
+            <th style={{ ...headerCellStyle, width: lineRates ? '40%' : '50%' }}>Description of Goods Returned</th>
+            {lineRates && <th style={{ ...headerCellStyle, width: '10%' }}>HSN/SAC</th>}
+            <th style={{ ...headerCellStyle, width: '12%' }}>Quantity</th>
+            <th style={{ ...headerCellStyle, width: '10%' }}>Rate</th>
+            <th style={{ ...headerCellStyle, width: '8%' }}>per</th>
+            <th style={{ ...headerCellStyle, width: '12%' }}>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => {
+            const lineTax = calculateLineTax(item, billRates, interState);
+            const totalGstRate = originalBill.is_gst_bill
+              ? (lineTax.rates.cgst + lineTax.rates.sgst + lineTax.rates.igst + lineTax.rates.cess) / 100
+              : 0;
+            const basePrice = (item.quantity * item.price) / (1 + totalGstRate);
+            const unitBasePrice = item.price / (1 + totalGstRate);
+
+            return (
+              <tr key={`${item.product_id}-${index}`}>
+                <td style={{ ...cellStyle, textAlign: 'center' }}>{index + 1}</td>
+                <td style={cellStyle}>{item.product_name}</td>
+                {lineRates && <td style={{ ...cellStyle, textAlign: 'center' }}>{item.hsn_code || '-'}</td>}
+                <td style={{ ...cellStyle, textAlign: 'center' }}>{item.quantity} Nos.</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{unitBasePrice.toFixed(2)}</td>
+                <td style={{ ...cellStyle, textAlign: 'center' }}>Nos.</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{basePrice.toFixed(2)}</td>
+              </tr>
+            );
+          })}
+
+          {rateSummary.map((group) => (
+            <React.Fragment key={`${group.rates.cgst}-${group.rates.sgst}-${group.rates.igst}-${group.rates.cess}`}>
+              {interState && (
+                <tr>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}>IGST @ {group.rates.igst}%</td>
+                  {lineRates && <td style={cellStyle}></td>}
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.igst}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.igst.toFixed(2)}</td>
+                </tr>
+              )}
+              {!interState && (
+                <tr>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}>CGST @ {group.rates.cgst}%</td>
+                  {lineRates && <td style={cellStyle}></td>}
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.cgst}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.cgst.toFixed(2)}</td>
+                </tr>
+              )}
+              {!interState && (
+                <tr>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}>SGST @ {group.rates.sgst}%</td>
+                  {lineRates && <td style={cellStyle}></td>}
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.sgst}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.sgst.toFixed(2)}</td>
+                </tr>
+              )}
+              {group.rates.cess > 0 && (
+                <tr>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}>CESS @ {group.rates.cess}%</td>
+                  {lineRates && <td style={cellStyle}></td>}
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.cess}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.cess.toFixed(2)}</td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+
+          {discount >= 0.01 && (
+            <tr>
+              <td style={cellStyle} colSpan={lineRates ? 6 : 5} align='right'>Less: Share of Bill Discount</td>
+              <td style={{ ...cellStyle, textAlign: 'right' }}>-{discount.toFixed(2)}</td>
+            </tr>
+          )}
+
+          {/* Total row */}
+          <tr>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }} colSpan={lineRates ? 3 : 2}>Total Credit</td>
+            <td style={{ ...cellStyle, textAlign: 'center', fontWeight: 'bold' }}>
+              {items.reduce((sum, item) => sum + item.quantity, 0)} Nos.
+            </td>
+            <td style={cellStyle}></td>
+            <td style={cellStyle}></td>
+            <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>₹ {creditNote.total_amount.toFixed(2)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Amount in words */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }}>Amount Credited (in words)</td>
+          </tr>
+          <tr>
+            <td style={{ ...cellStyle, height: '30px' }}>
+              INR {numberToWords(Math.round(creditNote.total_amount))} Only
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Tax Summary Table - only show if the original bill was a GST bill */}
+      {originalBill.is_gst_bill && (
+        <table style={{ ...tableStyle, marginTop: '2px' }}>
+          <thead>
+            <tr>
+              {lineRates && <th style={headerCellStyle}>HSN/SAC</th>}
+              <th style={headerCellStyle}>Taxable Value</th>
+              {interState ? (
+                <th style={headerCellStyle}>IGST</th>
+              ) : (
+                <>
+                  <th style={headerCellStyle}>CGST</th>
+                  <th style={headerCellStyle}>SGST/UTGST</th>
+                </>
+              )}
+              {showCess && <th style={headerCellStyle}>Cess</th>}
+              <th style={headerCellStyle}>Total Tax Reversed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {hsnSummary.map((row) => (
+              <tr key={`${row.hsn_code}-${row.rates.cgst}-${row.rates.sgst}-${row.rates.cess}`}>
+                {lineRates && <td style={{ ...cellStyle, textAlign: 'center' }}>{row.hsn_code || '-'}</td>}
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{row.taxableValue.toFixed(2)}</td>
+                {interState ? (
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{row.igst.toFixed(2)}</td>
+                ) : (
+                  <>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.cgst.toFixed(2)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.sgst.toFixed(2)}</td>
+                  </>
+                )}
+                {showCess && <td style={{ ...cellStyle, textAlign: 'right' }}>{row.cess.toFixed(2)}</td>}
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{(row.cgst + row.sgst + row.igst + row.cess).toFixed(2)}</td>
+              </tr>
+            ))}
+            {hsnSummary.length > 1 && (
+              <tr>
+                {lineRates && <td style={{ ...cellStyle, fontWeight: 'bold' }}>Total</td>}
+                <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{taxableValue.toFixed(2)}</td>
+                {interState ? (
+                  <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{igstAmount.toFixed(2)}</td>
+                ) : (
+                  <>
+                    <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{cgstAmount.toFixed(2)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{sgstAmount.toFixed(2)}</td>
+                  </>
+                )}
+                {showCess && <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{cessAmount.toFixed(2)}</td>}
+                <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{(cgstAmount + sgstAmount + igstAmount + cessAmount).toFixed(2)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+
+      {/* Reason and Signature */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Reason for Issue</div>
+              <div>{creditNote.reason || 'Sales return'}</div>
+            </td>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Declaration</div>
+              <div style={{ fontSize: '10px', lineHeight: '1.3' }}>
+                This credit note is issued against the original invoice referenced
+                above for goods returned by the recipient.
+              </div>
+              <div style={{ textAlign: 'right', marginTop: '40px', fontWeight: 'bold' }}>
+                Authorised Signatory
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Footer */}
+      <div style={{ textAlign: 'center', marginTop: '10px', fontSize: '10px' }}>
+        This is a Computer Generated Credit Note
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteTemplate;
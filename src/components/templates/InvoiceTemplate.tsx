@@ -1,6 +1,9 @@
 import { BillItem } from '@/pages/Billing';
 import { Customer } from '@/pages/Customers';
 import React from 'react';
+import { numberToWords } from '@/lib/number-to-words';
+import { calculateLineTax, hasLineRates, summarizeByHsn } from '@/lib/gst-utils';
+import { getStateByCode } from '@/lib/indian-states';
 
 interface Bill {
   id: string;
@@ -14,6 +17,9 @@ interface Bill {
   cgst_percentage?: number;
   sgst_percentage?: number;
   cess_percentage?: number;
+  igst_percentage?: number;
+  place_of_supply?: string | null;
+  is_inter_state?: boolean;
   gst_amount?: number;
   discount?: number;
   comments?: string;
@@ -26,6 +32,8 @@ interface SellerInfo {
   contact_number: string;
   address?: string;
   gst_number?: string;
+  state?: string;
+  state_code?: string;
   bank_account_number?: string;
   account_holder_name?: string;
   account_no?: string;
@@ -37,6 +45,7 @@ interface InvoiceTemplateProps {
   billCalculations: {
     sgst: number;
     cgst: number;
+    igst?: number;
     cess: number;
     taxableValue: number;
     subtotal: number;
@@ -64,9 +73,32 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
   let cgstAmount = billCalculations.cgst;
   let sgstAmount = billCalculations.sgst;
   let cessAmount = billCalculations.cess;
+  let igstAmount = 0;
   
-  // If the tax amounts from billCalculations are 0 or undefined, calculate them manually
-  if (billDetails.is_gst_bill && (cgstAmount === 0 || sgstAmount === 0 || !cgstAmount || !sgstAmount)) {
+  // Inter-state bills charge IGST in place of CGST + SGST
+  const igstRate = billDetails.igst_percentage || 0;
+  const interState = billDetails.is_gst_bill && Boolean(billDetails.is_inter_state);
+
+  // Bills whose items carry their own GST rate (and all inter-state bills) are taxed
+  // per line and summarised by HSN; older bills keep the single bill-level rate
+  const billRates = interState
+    ? { cgst: 0, sgst: 0, igst: igstRate, cess: cessRate }
+    : { cgst: cgstRate, sgst: sgstRate, igst: 0, cess: cessRate };
+  const lineRates = billDetails.is_gst_bill && (interState || hasLineRates(items));
+  const hsnSummary = lineRates ? summarizeByHsn(items, billRates, interState) : [];
+  const rateSummary = lineRates
+    ? summarizeByHsn(items.map((item) => ({ ...item, hsn_code: null })), billRates, interState)
+    : [];
+  const showCess = lineRates ? hsnSummary.some((row) => row.rates.cess > 0) : cessRate > 0;
+
+  if (lineRates) {
+    taxableValue = hsnSummary.reduce((sum, row) => sum + row.taxableValue, 0);
+    cgstAmount = hsnSummary.reduce((sum, row) => sum + row.cgst, 0);
+    sgstAmount = hsnSummary.reduce((sum, row) => sum + row.sgst, 0);
+    igstAmount = hsnSummary.reduce((sum, row) => sum + row.igst, 0);
+    cessAmount = hsnSummary.reduce((sum, row) => sum + row.cess, 0);
+  } else if (billDetails.is_gst_bill && (cgstAmount === 0 || sgstAmount === 0 || !cgstAmount || !sgstAmount)) {
+    // If the tax amounts from billCalculations are 0 or undefined, calculate them manually
     const totalGstRate = (cgstRate + sgstRate + cessRate) / 100;
     taxableValue = subtotal / (1 + totalGstRate);
     cgstAmount = taxableValue * (cgstRate / 100);
@@ -74,6 +106,9 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
     cessAmount = taxableValue * (cessRate / 100);
   }
 
+  const totalTaxAmount = cgstAmount + sgstAmount + igstAmount + cessAmount;
+  const placeOfSupply = getStateByCode(billDetails.place_of_supply);
+
   const tableStyle = {
     width: '100%',
     borderCollapse: 'collapse' as const,
@@ -129,6 +164,9 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
               {sellerInfo?.gst_number && (
                 <div>GSTIN/UIN: {sellerInfo.gst_number}</div>
               )}
+              {sellerInfo?.state && (
+                <div>State Name: {sellerInfo.state}, Code: {sellerInfo.state_code}</div>
+              )}
               <div>E-Mail: {sellerInfo?.email || 'contact@yourcompany.com'}</div>
               {sellerInfo?.contact_number && (
                 <div>Contact: {sellerInfo.contact_number}</div>
@@ -157,6 +195,12 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
                     <td style={{ padding: '2px', fontWeight: 'bold' }}>Buyer's Order No.</td>
                     <td style={{ padding: '2px' }}>-</td>
                   </tr>
+                  {placeOfSupply && (
+                    <tr>
+                      <td style={{ padding: '2px', fontWeight: 'bold' }}>Place of Supply</td>
+                      <td style={{ padding: '2px' }}>{placeOfSupply.name} ({placeOfSupply.code})</td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </td>
@@ -173,14 +217,20 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
               <div style={{ fontWeight: 'bold' }}>{customerDetails.name}</div>
               <div>{customerDetails.address}</div>
               <div>GSTIN/UIN: {customerDetails.gst_number || 'N/A'}</div>
-              <div>State Name: TamilNadu</div>
+              <div>
+                State Name: {customerDetails.state || 'TamilNadu'}
+                {customerDetails.state_code && `, Code: ${customerDetails.state_code}`}
+              </div>
             </td>
             <td style={{ ...cellStyle, width: '50%' }}>
               <div style={{ fontWeight: 'bold', marginBottom: '3px' }}>Buyer (Bill to)</div>
               <div style={{ fontWeight: 'bold' }}>{customerDetails.name}</div>
               <div>{customerDetails.address}</div>
               <div>GSTIN/UIN: {customerDetails.gst_number || 'N/A'}</div>
-              <div>State Name: TamilNadu</div>
+              <div>
+                State Name: {customerDetails.state || 'TamilNadu'}
+                {customerDetails.state_code && `, Code: ${customerDetails.state_code}`}
+              </div>
             </td>
           </tr>
         </tbody>
@@ -191,7 +241,8 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
         <thead>
           <tr>
             <th style={{ ...headerCellStyle, width: '8%' }}>Sl No</th>
-            <th style={{ ...headerCellStyle, width: '50%' }}>Description of Goods</th>
+            <th style={{ ...headerCellStyle, width: lineRates ? '40%' : '50%' }}>Description of Goods</th>
+            {lineRates && <th style={{ ...headerCellStyle, width: '10%' }}>HSN/SAC</th>}
             <th style={{ ...headerCellStyle, width: '12%' }}>Quantity</th>
             <th style={{ ...headerCellStyle, width: '10%' }}>Rate</th>
             <th style={{ ...headerCellStyle, width: '8%' }}>per</th>
@@ -202,7 +253,10 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
           {items.map((item, index) => {
             // Calculate the base price and amount like in Billing.tsx
             const finalPrice = item.quantity * item.price;
-            const totalGstRate = billDetails.is_gst_bill ? (cgstRate + sgstRate + cessRate) / 100 : 0;
+            const lineTax = calculateLineTax(item, billRates, interState);
+            const totalGstRate = billDetails.is_gst_bill
+              ? (lineTax.rates.cgst + lineTax.rates.sgst + lineTax.rates.igst + lineTax.rates.cess) / 100
+              : 0;
             const basePrice = billDetails.is_gst_bill ? finalPrice / (1 + totalGstRate) : finalPrice;
             const unitBasePrice = billDetails.is_gst_bill ? item.price / (1 + totalGstRate) : item.price;
             
@@ -210,6 +264,7 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
               <tr key={item.product_id}>
                 <td style={{ ...cellStyle, textAlign: 'center' }}>{index + 1}</td>
                 <td style={cellStyle}>{item.product_name}</td>
+                {lineRates && <td style={{ ...cellStyle, textAlign: 'center' }}>{item.hsn_code || '-'}</td>}
                 <td style={{ ...cellStyle, textAlign: 'center' }}>
                   {item.quantity} Nos.
                 </td>
@@ -220,8 +275,57 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
             );
           })}
           
+          {/* Tax rows per rate for bills taxed per line */}
+          {lineRates && rateSummary.map((group) => (
+            <React.Fragment key={`${group.rates.cgst}-${group.rates.sgst}-${group.rates.igst}-${group.rates.cess}`}>
+              {interState ? (
+                <tr>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}>OUTPUT IGST @ {group.rates.igst}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.igst}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.igst.toFixed(2)}</td>
+                </tr>
+              ) : (
+                <>
+                  <tr>
+                    <td style={cellStyle}></td>
+                    <td style={cellStyle}>OUTPUT CGST @ {group.rates.cgst}%</td>
+                    <td style={cellStyle}></td>
+                    <td style={cellStyle}></td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.cgst}%</td>
+                    <td style={cellStyle}></td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{group.cgst.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td style={cellStyle}></td>
+                    <td style={cellStyle}>OUTPUT SGST @ {group.rates.sgst}%</td>
+                    <td style={cellStyle}></td>
+                    <td style={cellStyle}></td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.sgst}%</td>
+                    <td style={cellStyle}></td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{group.sgst.toFixed(2)}</td>
+                  </tr>
+                </>
+              )}
+              {group.rates.cess > 0 && (
+                <tr>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}>CESS @ {group.rates.cess}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.rates.cess}%</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{group.cess.toFixed(2)}</td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+
           {/* Tax rows - only show if it's a GST bill */}
-          {billDetails.is_gst_bill && (
+          {billDetails.is_gst_bill && !lineRates && (
             <>
               <tr>
                 <td style={cellStyle}></td>
@@ -254,14 +358,14 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
 
           {discount > 0 && (
             <tr>
-              <td style={cellStyle} colSpan={5} align='right'>Discount</td>
+              <td style={cellStyle} colSpan={lineRates ? 6 : 5} align='right'>Discount</td>
               <td style={{ ...cellStyle, textAlign: 'right' }}>-{discount.toFixed(2)}</td>
             </tr>
           )}
 
           {/* Total row */}
           <tr>
-            <td style={{...cellStyle, fontWeight: 'bold'}} colSpan={2}>Total</td>
+            <td style={{...cellStyle, fontWeight: 'bold'}} colSpan={lineRates ? 3 : 2}>Total</td>
             <td style={{ ...cellStyle, textAlign: 'center', fontWeight: 'bold' }}>
               {items.reduce((sum, item) => sum + item.quantity, 0)} Nos.
             </td>
@@ -286,8 +390,98 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
         </tbody>
       </table>
 
+      {/* HSN-wise Tax Summary Table - for bills taxed per line */}
+      {lineRates && (
+        <table style={{ ...tableStyle, marginTop: '2px' }}>
+          <thead>
+            <tr>
+              <th style={headerCellStyle} rowSpan={2}>HSN/SAC</th>
+              <th style={headerCellStyle} rowSpan={2}>Taxable Value</th>
+              {interState ? (
+                <th style={headerCellStyle} colSpan={2}>IGST</th>
+              ) : (
+                <>
+                  <th style={headerCellStyle} colSpan={2}>CGST</th>
+                  <th style={headerCellStyle} colSpan={2}>SGST/UTGST</th>
+                </>
+              )}
+              {showCess && <th style={headerCellStyle} colSpan={2}>Cess</th>}
+              <th style={headerCellStyle} rowSpan={2}>Total Tax Amount</th>
+            </tr>
+            <tr>
+              <th style={headerCellStyle}>Rate</th>
+              <th style={headerCellStyle}>Amount</th>
+              {!interState && (
+                <>
+                  <th style={headerCellStyle}>Rate</th>
+                  <th style={headerCellStyle}>Amount</th>
+                </>
+              )}
+              {showCess && (
+                <>
+                  <th style={headerCellStyle}>Rate</th>
+                  <th style={headerCellStyle}>Amount</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {hsnSummary.map((row) => (
+              <tr key={`${row.hsn_code}-${row.rates.cgst}-${row.rates.sgst}-${row.rates.igst}-${row.rates.cess}`}>
+                <td style={{ ...cellStyle, textAlign: 'center' }}>{row.hsn_code || '-'}</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{row.taxableValue.toFixed(2)}</td>
+                {interState ? (
+                  <>
+                    <td style={{ ...cellStyle, textAlign: 'center' }}>{row.rates.igst}%</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.igst.toFixed(2)}</td>
+                  </>
+                ) : (
+                  <>
+                    <td style={{ ...cellStyle, textAlign: 'center' }}>{row.rates.cgst}%</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.cgst.toFixed(2)}</td>
+                    <td style={{ ...cellStyle, textAlign: 'center' }}>{row.rates.sgst}%</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.sgst.toFixed(2)}</td>
+                  </>
+                )}
+                {showCess && (
+                  <>
+                    <td style={{ ...cellStyle, textAlign: 'center' }}>{row.rates.cess}%</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.cess.toFixed(2)}</td>
+                  </>
+                )}
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{(row.cgst + row.sgst + row.igst + row.cess).toFixed(2)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>Total</td>
+              <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{taxableValue.toFixed(2)}</td>
+              {interState ? (
+                <>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{igstAmount.toFixed(2)}</td>
+                </>
+              ) : (
+                <>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{cgstAmount.toFixed(2)}</td>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{sgstAmount.toFixed(2)}</td>
+                </>
+              )}
+              {showCess && (
+                <>
+                  <td style={cellStyle}></td>
+                  <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{cessAmount.toFixed(2)}</td>
+                </>
+              )}
+              <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>{totalTaxAmount.toFixed(2)}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+
       {/* Tax Summary Table - only show if it's a GST bill */}
-      {billDetails.is_gst_bill && (
+      {billDetails.is_gst_bill && !lineRates && (
         <table style={{ ...tableStyle, marginTop: '2px' }}>
           <thead>
             <tr>
@@ -349,7 +543,7 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
           <tbody>
             <tr>
               <td style={{ ...cellStyle, fontWeight: 'bold' }}>
-                Tax Amount (in words): INR {numberToWords(Math.round(cgstAmount + sgstAmount + cessAmount))} Only
+                Tax Amount (in words): INR {numberToWords(Math.round(totalTaxAmount))} Only
               </td>
             </tr>
           </tbody>
@@ -395,50 +589,4 @@ const InvoiceTemplate: React.FC<InvoiceTemplateProps> = ({ billCalculations, bil
   );
 };
 
-// Helper function to convert numbers to words (simplified version)
-const numberToWords = (num: number): string => {
-  if (num === 0) return 'Zero';
-  
-  const ones = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine'];
-  const teens = ['Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
-  const tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
-  const thousands = ['', 'Thousand', 'Lakh', 'Crore'];
-
-  const convertHundreds = (n: number): string => {
-    let result = '';
-    if (n >= 100) {
-      result += ones[Math.floor(n / 100)] + ' Hundred ';
-      n %= 100;
-    }
-    if (n >= 20) {
-      result += tens[Math.floor(n / 10)] + ' ';
-      n %= 10;
-    } else if (n >= 10) {
-      result += teens[n - 10] + ' ';
-      return result;
-    }
-    if (n > 0) {
-      result += ones[n] + ' ';
-    }
-    return result;
-  };
-
-  if (num < 1000) {
-    return convertHundreds(num).trim();
-  }
-
-  let result = '';
-  let thousandIndex = 0;
-  
-  while (num > 0) {
-    if (num % 1000 !== 0) {
-      result = convertHundreds(num % 1000) + thousands[thousandIndex] + ' ' + result;
-    }
-    num = Math.floor(num / 1000);
-    thousandIndex++;
-  }
-  
-  return result.trim();
-};
-
 export default InvoiceTemplate;
\ No newline at end of file
@@ -0,0 +1,172 @@
+import React from 'react';
+import { DraftPurchaseOrder } from '@/lib/reorder';
+
+interface SellerInfo {
+  company_name: string;
+  email: string;
+  contact_number: string;
+  address?: string;
+  gst_number?: string;
+}
+
+interface VendorDetails {
+  name: string;
+  address?: string | null;
+  gst_number?: string | null;
+  primary_phone_number?: string | null;
+}
+
+interface PurchaseOrderTemplateProps {
+  order: DraftPurchaseOrder;
+  reference: string;
+  vendor?: VendorDetails | null;
+  sellerInfo?: SellerInfo | null;
+  comments?: string;
+}
+
+const PurchaseOrderTemplate: React.FC<PurchaseOrderTemplateProps> = ({ order, reference, vendor, sellerInfo, comments }) => {
+  const tableStyle = {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    border: '1px solid #000',
+    fontSize: '11px'
+  };
+
+  const cellStyle = {
+    border: '1px solid #000',
+    padding: '4px 6px',
+    verticalAlign: 'top' as const
+  };
+
+  const headerCellStyle = {
+    ...cellStyle,
+    backgroundColor: '#f5f5f5',
+    fontWeight: 'bold' as const,
+    textAlign: 'center' as const
+  };
+
+  const amountCellStyle = { ...cellStyle, textAlign: 'right' as const };
+  const boldAmountCellStyle = { ...amountCellStyle, fontWeight: 'bold' as const };
+
+  return (
+    <div style={{
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '12px',
+      color: '#000',
+      width: '210mm',
+      minWidth: '210mm',
+      maxWidth: '210mm',
+      minHeight: '297mm',
+      padding: '20px',
+      boxSizing: 'border-box',
+      backgroundColor: 'white',
+      margin: '0 auto',
+      overflow: 'hidden'
+    }}>
+      {/* Header */}
+      <div style={{ textAlign: 'center', marginBottom: '10px' }}>
+        <h1 style={{ margin: '0', fontSize: '16px', fontWeight: 'bold' }}>Purchase Order</h1>
+      </div>
+
+      {/* Buyer, Vendor and Order Details */}
+      <table style={tableStyle}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '55%' }}>
+              <div style={{ fontWeight: 'bold', fontSize: '12px', marginBottom: '5px' }}>
+                {sellerInfo?.company_name || 'YOUR COMPANY NAME'}
+              </div>
+              {sellerInfo?.address && <div>{sellerInfo.address}</div>}
+              {sellerInfo?.gst_number && <div>GSTIN/UIN: {sellerInfo.gst_number}</div>}
+              <div>E-Mail: {sellerInfo?.email || 'contact@yourcompany.com'}</div>
+              {sellerInfo?.contact_number && <div>Contact: {sellerInfo.contact_number}</div>}
+            </td>
+            <td style={{ ...cellStyle, width: '45%' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>PO No.</td>
+                    <td style={{ padding: '2px' }}>{reference}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Date</td>
+                    <td style={{ padding: '2px' }}>{new Date().toLocaleDateString('en-GB')}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Status</td>
+                    <td style={{ padding: '2px' }}>Draft</td>
+                  </tr>
+                </tbody>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td style={cellStyle} colSpan={2}>
+              <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Vendor</div>
+              <div style={{ fontWeight: 'bold' }}>{vendor?.name || order.vendor_name}</div>
+              {vendor?.address && <div>{vendor.address}</div>}
+              {vendor?.gst_number && <div>GSTIN/UIN: {vendor.gst_number}</div>}
+              {vendor?.primary_phone_number && <div>Contact: {vendor.primary_phone_number}</div>}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Items */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...headerCellStyle, width: '6%' }}>Sl No</th>
+            <th style={{ ...headerCellStyle, width: '38%' }}>Product</th>
+            <th style={{ ...headerCellStyle, width: '10%' }}>Lots</th>
+            <th style={{ ...headerCellStyle, width: '10%' }}>Lot Size</th>
+            <th style={{ ...headerCellStyle, width: '12%' }}>Quantity</th>
+            <th style={{ ...headerCellStyle, width: '10%' }}>Rate</th>
+            <th style={{ ...headerCellStyle, width: '14%' }}>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.lines.map((line, index) => (
+            <tr key={line.product_id}>
+              <td style={{ ...cellStyle, textAlign: 'center' }}>{index + 1}</td>
+              <td style={cellStyle}>{line.product_name}</td>
+              <td style={amountCellStyle}>{line.lots}</td>
+              <td style={amountCellStyle}>{line.lot_size}</td>
+              <td style={amountCellStyle}>{line.quantity}</td>
+              <td style={amountCellStyle}>{line.unit_cost.toFixed(2)}</td>
+              <td style={amountCellStyle}>{(line.quantity * line.unit_cost).toFixed(2)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td style={{ ...cellStyle, fontWeight: 'bold', textAlign: 'right' }} colSpan={6}>Estimated Total</td>
+            <td style={boldAmountCellStyle}>₹ {order.total.toFixed(2)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Remarks and Signature */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Remarks</div>
+              <div>{comments || 'Rates are estimates from our last purchase. Please confirm prices before dispatch.'}</div>
+            </td>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ textAlign: 'right', marginTop: '40px', fontWeight: 'bold' }}>
+                Authorised Signatory
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Footer */}
+      <div style={{ textAlign: 'center', marginTop: '10px', fontSize: '10px' }}>
+        This is a Computer Generated Purchase Order
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderTemplate;
@@ -14,6 +14,8 @@ interface Bill {
   cgst_percentage?: number;
   sgst_percentage?: number;
   cess_percentage?: number;
+  igst_percentage?: number;
+  is_inter_state?: boolean;
   gst_amount?: number;
   discount?: number;
   comments?: string;
@@ -158,7 +160,9 @@ const ReceiptTemplate: React.FC<ReceiptTemplateProps> = ({ billDetails, items, c
           {/* Tax if GST bill */}
           {billDetails.is_gst_bill && billDetails.gst_amount && (
             <tr>
-              <td style={cellStyle} colSpan={4} align="right"><strong>Tax:</strong></td>
+              <td style={cellStyle} colSpan={4} align="right">
+                <strong>{billDetails.is_inter_state ? 'Tax (IGST):' : 'Tax (CGST + SGST):'}</strong>
+              </td>
               <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 'bold' }}>₹{billDetails.gst_amount.toFixed(2)}</td>
             </tr>
           )}
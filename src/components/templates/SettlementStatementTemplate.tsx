@@ -0,0 +1,261 @@
+import React from 'react';
+import { numberToWords } from '@/lib/number-to-words';
+import { getPaymentModeLabel, PaymentMode } from '@/lib/payment-modes';
+
+export interface SettledBill {
+  purchase_bill_id: string;
+  vendor_invoice_number: string | null;
+  from_credit: number;
+  from_payment: number;
+}
+
+export interface SettlementStatement {
+  id: string;
+  payment_amount: number;
+  credit_amount: number;
+  payment_mode: PaymentMode;
+  reference_number: string | null;
+  comments: string | null;
+  settled_bills: SettledBill[];
+  settlement_date: string;
+  customers: {
+    name: string;
+    address: string | null;
+    gst_number: string | null;
+    primary_phone_number: string | null;
+  } | null;
+  vendor_settlement_credits: {
+    amount: number;
+    credit: { date: string; amount: number; comments: string | null } | null;
+  }[];
+}
+
+interface SellerInfo {
+  company_name: string;
+  email: string;
+  contact_number: string;
+  address?: string;
+  gst_number?: string;
+}
+
+interface SettlementStatementTemplateProps {
+  settlement: SettlementStatement;
+  sellerInfo?: SellerInfo | null;
+}
+
+const SettlementStatementTemplate: React.FC<SettlementStatementTemplateProps> = ({ settlement, sellerInfo }) => {
+  const totalSettled = settlement.payment_amount + settlement.credit_amount;
+  const billsTotal = settlement.settled_bills.reduce((sum, bill) => sum + bill.from_credit + bill.from_payment, 0);
+  const unallocated = totalSettled - billsTotal;
+  const settlementDate = new Date(settlement.settlement_date).toLocaleDateString('en-GB');
+
+  const tableStyle = {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    border: '1px solid #000',
+    fontSize: '11px'
+  };
+
+  const cellStyle = {
+    border: '1px solid #000',
+    padding: '4px 6px',
+    verticalAlign: 'top' as const
+  };
+
+  const headerCellStyle = {
+    ...cellStyle,
+    backgroundColor: '#f5f5f5',
+    fontWeight: 'bold' as const,
+    textAlign: 'center' as const
+  };
+
+  const amountCellStyle = { ...cellStyle, textAlign: 'right' as const };
+
+  return (
+    <div style={{
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '12px',
+      color: '#000',
+      width: '210mm',
+      minWidth: '210mm',
+      maxWidth: '210mm',
+      minHeight: '297mm',
+      padding: '20px',
+      boxSizing: 'border-box',
+      backgroundColor: 'white',
+      margin: '0 auto',
+      overflow: 'hidden'
+    }}>
+      {/* Header */}
+      <div style={{ textAlign: 'center', marginBottom: '10px' }}>
+        <h1 style={{ margin: '0', fontSize: '16px', fontWeight: 'bold' }}>Vendor Settlement Statement</h1>
+      </div>
+
+      {/* Company and Settlement Details */}
+      <table style={tableStyle}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '60%' }}>
+              <div style={{ fontWeight: 'bold', fontSize: '12px', marginBottom: '5px' }}>
+                {sellerInfo?.company_name || 'YOUR COMPANY NAME'}
+              </div>
+              {sellerInfo?.address && <div>{sellerInfo.address}</div>}
+              {sellerInfo?.gst_number && <div>GSTIN/UIN: {sellerInfo.gst_number}</div>}
+              <div>E-Mail: {sellerInfo?.email || 'contact@yourcompany.com'}</div>
+              {sellerInfo?.contact_number && <div>Contact: {sellerInfo.contact_number}</div>}
+            </td>
+            <td style={{ ...cellStyle, width: '40%' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Settlement No.</td>
+                    <td style={{ padding: '2px' }}>{settlement.id.substring(0, 8).toUpperCase()}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Dated</td>
+                    <td style={{ padding: '2px' }}>{settlementDate}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Payment Mode</td>
+                    <td style={{ padding: '2px' }}>{getPaymentModeLabel(settlement.payment_mode)}</td>
+                  </tr>
+                  {settlement.reference_number && (
+                    <tr>
+                      <td style={{ padding: '2px', fontWeight: 'bold' }}>Reference</td>
+                      <td style={{ padding: '2px' }}>{settlement.reference_number}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Vendor Details */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={cellStyle}>
+              <div style={{ fontWeight: 'bold', marginBottom: '3px' }}>Vendor</div>
+              <div style={{ fontWeight: 'bold' }}>{settlement.customers?.name || 'N/A'}</div>
+              {settlement.customers?.address && <div>{settlement.customers.address}</div>}
+              {settlement.customers?.gst_number && <div>GSTIN/UIN: {settlement.customers.gst_number}</div>}
+              {settlement.customers?.primary_phone_number && <div>Contact: {settlement.customers.primary_phone_number}</div>}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Credits Netted Off */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...headerCellStyle, width: '8%' }}>Sl No</th>
+            <th style={{ ...headerCellStyle, width: '15%' }}>Credit Date</th>
+            <th style={{ ...headerCellStyle, width: '47%' }}>Credits Netted Off</th>
+            <th style={{ ...headerCellStyle, width: '15%' }}>Credit Amount</th>
+            <th style={{ ...headerCellStyle, width: '15%' }}>Used Now</th>
+          </tr>
+        </thead>
+        <tbody>
+          {settlement.vendor_settlement_credits.length === 0 ? (
+            <tr>
+              <td style={{ ...cellStyle, textAlign: 'center' }} colSpan={5}>No credits were netted off</td>
+            </tr>
+          ) : (
+            settlement.vendor_settlement_credits.map((entry, index) => (
+              <tr key={index}>
+                <td style={{ ...cellStyle, textAlign: 'center' }}>{index + 1}</td>
+                <td style={cellStyle}>{entry.credit ? new Date(entry.credit.date).toLocaleDateString('en-GB') : '-'}</td>
+                <td style={cellStyle}>{entry.credit?.comments || 'Vendor credit'}</td>
+                <td style={amountCellStyle}>{entry.credit ? entry.credit.amount.toFixed(2) : '-'}</td>
+                <td style={amountCellStyle}>{entry.amount.toFixed(2)}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+
+      {/* Purchase Bills Settled */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...headerCellStyle, width: '8%' }}>Sl No</th>
+            <th style={{ ...headerCellStyle, width: '47%' }}>Purchase Bill</th>
+            <th style={{ ...headerCellStyle, width: '15%' }}>From Credits</th>
+            <th style={{ ...headerCellStyle, width: '15%' }}>From Payment</th>
+            <th style={{ ...headerCellStyle, width: '15%' }}>Settled</th>
+          </tr>
+        </thead>
+        <tbody>
+          {settlement.settled_bills.map((bill, index) => (
+            <tr key={bill.purchase_bill_id}>
+              <td style={{ ...cellStyle, textAlign: 'center' }}>{index + 1}</td>
+              <td style={cellStyle}>{bill.vendor_invoice_number || `#${bill.purchase_bill_id.substring(0, 8)}`}</td>
+              <td style={amountCellStyle}>{bill.from_credit.toFixed(2)}</td>
+              <td style={amountCellStyle}>{bill.from_payment.toFixed(2)}</td>
+              <td style={amountCellStyle}>{(bill.from_credit + bill.from_payment).toFixed(2)}</td>
+            </tr>
+          ))}
+          {unallocated > 0 && (
+            <tr>
+              <td style={cellStyle}></td>
+              <td style={cellStyle}>On account (not against a purchase bill)</td>
+              <td style={cellStyle}></td>
+              <td style={cellStyle}></td>
+              <td style={amountCellStyle}>{unallocated.toFixed(2)}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {/* Summary */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '70%' }}>Credits netted off</td>
+            <td style={amountCellStyle}>₹ {settlement.credit_amount.toFixed(2)}</td>
+          </tr>
+          <tr>
+            <td style={cellStyle}>Paid ({getPaymentModeLabel(settlement.payment_mode)})</td>
+            <td style={amountCellStyle}>₹ {settlement.payment_amount.toFixed(2)}</td>
+          </tr>
+          <tr>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }}>Total Settled</td>
+            <td style={{ ...amountCellStyle, fontWeight: 'bold' }}>₹ {totalSettled.toFixed(2)}</td>
+          </tr>
+          <tr>
+            <td style={cellStyle} colSpan={2}>
+              Amount paid (in words): INR {numberToWords(Math.round(settlement.payment_amount))} Only
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Remarks and Signature */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Remarks</div>
+              <div>{settlement.comments || '-'}</div>
+            </td>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ textAlign: 'right', marginTop: '40px', fontWeight: 'bold' }}>
+                Authorised Signatory
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Footer */}
+      <div style={{ textAlign: 'center', marginTop: '10px', fontSize: '10px' }}>
+        This is a Computer Generated Statement
+      </div>
+    </div>
+  );
+};
+
+export default SettlementStatementTemplate;
@@ -0,0 +1,185 @@
+import { Customer } from '@/pages/Customers';
+import React from 'react';
+import { CustomerStatement, formatBalance } from '@/lib/customer-statement';
+
+interface SellerInfo {
+  company_name: string;
+  email: string;
+  contact_number: string;
+  address?: string;
+  gst_number?: string;
+  state?: string;
+  state_code?: string;
+}
+
+interface StatementTemplateProps {
+  statement: CustomerStatement;
+  customerDetails: Customer;
+  from: Date;
+  to: Date;
+  sellerInfo?: SellerInfo | null;
+}
+
+const StatementTemplate: React.FC<StatementTemplateProps> = ({ statement, customerDetails, from, to, sellerInfo }) => {
+  const tableStyle = {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    border: '1px solid #000',
+    fontSize: '11px'
+  };
+
+  const cellStyle = {
+    border: '1px solid #000',
+    padding: '4px 6px',
+    verticalAlign: 'top' as const
+  };
+
+  const headerCellStyle = {
+    ...cellStyle,
+    backgroundColor: '#f5f5f5',
+    fontWeight: 'bold' as const,
+    textAlign: 'center' as const
+  };
+
+  const amountCellStyle = { ...cellStyle, textAlign: 'right' as const };
+  const boldAmountCellStyle = { ...amountCellStyle, fontWeight: 'bold' as const };
+
+  return (
+    <div style={{
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '12px',
+      color: '#000',
+      width: '210mm',
+      minWidth: '210mm',
+      maxWidth: '210mm',
+      minHeight: '297mm',
+      padding: '20px',
+      boxSizing: 'border-box',
+      backgroundColor: 'white',
+      margin: '0 auto',
+      overflow: 'hidden'
+    }}>
+      {/* Header */}
+      <div style={{ textAlign: 'center', marginBottom: '10px' }}>
+        <h1 style={{ margin: '0', fontSize: '16px', fontWeight: 'bold' }}>Statement of Account</h1>
+        <div style={{ fontSize: '12px', marginTop: '2px' }}>
+          {from.toLocaleDateString('en-GB')} to {to.toLocaleDateString('en-GB')}
+        </div>
+      </div>
+
+      {/* Company and Customer Details */}
+      <table style={tableStyle}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', fontSize: '12px', marginBottom: '5px' }}>
+                {sellerInfo?.company_name || 'YOUR COMPANY NAME'}
+              </div>
+              {sellerInfo?.address && (
+                <div>{sellerInfo.address}</div>
+              )}
+              {sellerInfo?.gst_number && (
+                <div>GSTIN/UIN: {sellerInfo.gst_number}</div>
+              )}
+              {sellerInfo?.state && (
+                <div>State Name: {sellerInfo.state}, Code: {sellerInfo.state_code}</div>
+              )}
+              <div>E-Mail: {sellerInfo?.email || 'contact@yourcompany.com'}</div>
+              {sellerInfo?.contact_number && (
+                <div>Contact: {sellerInfo.contact_number}</div>
+              )}
+            </td>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '3px' }}>Customer</div>
+              <div style={{ fontWeight: 'bold' }}>{customerDetails.name}</div>
+              <div>{customerDetails.address}</div>
+              {customerDetails.gst_number && (
+                <div>GSTIN/UIN: {customerDetails.gst_number}</div>
+              )}
+              {customerDetails.primary_phone_number && (
+                <div>Contact: {customerDetails.primary_phone_number}</div>
+              )}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Ledger */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...headerCellStyle, width: '12%' }}>Date</th>
+            <th style={{ ...headerCellStyle, width: '16%' }}>Reference</th>
+            <th style={{ ...headerCellStyle, width: '30%' }}>Particulars</th>
+            <th style={{ ...headerCellStyle, width: '13%' }}>Debit</th>
+            <th style={{ ...headerCellStyle, width: '13%' }}>Credit</th>
+            <th style={{ ...headerCellStyle, width: '16%' }}>Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td style={cellStyle}>{from.toLocaleDateString('en-GB')}</td>
+            <td style={cellStyle}></td>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }}>Opening Balance</td>
+            <td style={cellStyle}></td>
+            <td style={cellStyle}></td>
+            <td style={boldAmountCellStyle}>{formatBalance(statement.openingBalance)}</td>
+          </tr>
+          {statement.lines.map((line, index) => (
+            <tr key={index}>
+              <td style={cellStyle}>{new Date(line.entry_date).toLocaleDateString('en-GB')}</td>
+              <td style={cellStyle}>{line.reference || '-'}</td>
+              <td style={cellStyle}>{line.description}</td>
+              <td style={amountCellStyle}>{line.debit > 0 ? line.debit.toFixed(2) : ''}</td>
+              <td style={amountCellStyle}>{line.credit > 0 ? line.credit.toFixed(2) : ''}</td>
+              <td style={amountCellStyle}>{formatBalance(line.balance)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }} colSpan={3}>Total</td>
+            <td style={boldAmountCellStyle}>{statement.totalDebit.toFixed(2)}</td>
+            <td style={boldAmountCellStyle}>{statement.totalCredit.toFixed(2)}</td>
+            <td style={cellStyle}></td>
+          </tr>
+          <tr>
+            <td style={cellStyle}>{to.toLocaleDateString('en-GB')}</td>
+            <td style={cellStyle}></td>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }}>Closing Balance</td>
+            <td style={cellStyle}></td>
+            <td style={cellStyle}></td>
+            <td style={boldAmountCellStyle}>₹ {formatBalance(statement.closingBalance)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Note */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontSize: '10px', lineHeight: '1.3' }}>
+                Dr balances are payable by the customer; Cr balances are held to the
+                customer's credit. Please report any discrepancy within 15 days.
+              </div>
+            </td>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', textAlign: 'right' }}>
+                for {sellerInfo?.company_name || 'YOUR COMPANY NAME'}
+              </div>
+              <div style={{ textAlign: 'right', marginTop: '40px', fontWeight: 'bold' }}>
+                Authorised Signatory
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Footer */}
+      <div style={{ textAlign: 'center', marginTop: '10px', fontSize: '10px' }}>
+        This is a Computer Generated Statement
+      </div>
+    </div>
+  );
+};
+
+export default StatementTemplate;
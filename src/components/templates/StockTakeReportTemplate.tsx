@@ -0,0 +1,207 @@
+import React from 'react';
+import { StockTake, getStockTakeReference, getVariance, getVarianceValue, summarizeStockTake } from '@/lib/stock-take';
+
+interface SellerInfo {
+  company_name: string;
+  email: string;
+  contact_number: string;
+  address?: string;
+  gst_number?: string;
+}
+
+interface StockTakeReportTemplateProps {
+  stockTake: StockTake;
+  sellerInfo?: SellerInfo | null;
+}
+
+const StockTakeReportTemplate: React.FC<StockTakeReportTemplateProps> = ({ stockTake, sellerInfo }) => {
+  const summary = summarizeStockTake(stockTake.stock_take_items);
+  const varianceItems = stockTake.stock_take_items
+    .filter((item) => getVariance(item) !== 0)
+    .sort((a, b) => getVarianceValue(a) - getVarianceValue(b));
+
+  const tableStyle = {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    border: '1px solid #000',
+    fontSize: '11px'
+  };
+
+  const cellStyle = {
+    border: '1px solid #000',
+    padding: '4px 6px',
+    verticalAlign: 'top' as const
+  };
+
+  const headerCellStyle = {
+    ...cellStyle,
+    backgroundColor: '#f5f5f5',
+    fontWeight: 'bold' as const,
+    textAlign: 'center' as const
+  };
+
+  const amountCellStyle = { ...cellStyle, textAlign: 'right' as const };
+  const boldAmountCellStyle = { ...amountCellStyle, fontWeight: 'bold' as const };
+
+  return (
+    <div style={{
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '12px',
+      color: '#000',
+      width: '210mm',
+      minWidth: '210mm',
+      maxWidth: '210mm',
+      minHeight: '297mm',
+      padding: '20px',
+      boxSizing: 'border-box',
+      backgroundColor: 'white',
+      margin: '0 auto',
+      overflow: 'hidden'
+    }}>
+      {/* Header */}
+      <div style={{ textAlign: 'center', marginBottom: '10px' }}>
+        <h1 style={{ margin: '0', fontSize: '16px', fontWeight: 'bold' }}>Stock Take Variance Report</h1>
+      </div>
+
+      {/* Company and Stock Take Details */}
+      <table style={tableStyle}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '55%' }}>
+              <div style={{ fontWeight: 'bold', fontSize: '12px', marginBottom: '5px' }}>
+                {sellerInfo?.company_name || 'YOUR COMPANY NAME'}
+              </div>
+              {sellerInfo?.address && <div>{sellerInfo.address}</div>}
+              {sellerInfo?.gst_number && <div>GSTIN/UIN: {sellerInfo.gst_number}</div>}
+              <div>E-Mail: {sellerInfo?.email || 'contact@yourcompany.com'}</div>
+              {sellerInfo?.contact_number && <div>Contact: {sellerInfo.contact_number}</div>}
+            </td>
+            <td style={{ ...cellStyle, width: '45%' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <tbody>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Reference</td>
+                    <td style={{ padding: '2px' }}>{getStockTakeReference(stockTake)}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Location</td>
+                    <td style={{ padding: '2px' }}>{stockTake.stock_locations?.name || '-'}</td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Started</td>
+                    <td style={{ padding: '2px' }}>
+                      {new Date(stockTake.started_at).toLocaleString('en-GB')} by {stockTake.started_by_username || '-'}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style={{ padding: '2px', fontWeight: 'bold' }}>Status</td>
+                    <td style={{ padding: '2px', textTransform: 'capitalize' }}>{stockTake.status}</td>
+                  </tr>
+                  {stockTake.closed_at && (
+                    <tr>
+                      <td style={{ padding: '2px', fontWeight: 'bold' }}>{stockTake.status === 'approved' ? 'Approved' : 'Closed'}</td>
+                      <td style={{ padding: '2px' }}>
+                        {new Date(stockTake.closed_at).toLocaleString('en-GB')} by {stockTake.closed_by_username || '-'}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Variances */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <thead>
+          <tr>
+            <th style={{ ...headerCellStyle, width: '6%' }}>Sl No</th>
+            <th style={{ ...headerCellStyle, width: '34%' }}>Product</th>
+            <th style={{ ...headerCellStyle, width: '12%' }}>Expected</th>
+            <th style={{ ...headerCellStyle, width: '12%' }}>Counted</th>
+            <th style={{ ...headerCellStyle, width: '11%' }}>Variance</th>
+            <th style={{ ...headerCellStyle, width: '11%' }}>Price</th>
+            <th style={{ ...headerCellStyle, width: '14%' }}>Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {varianceItems.length === 0 ? (
+            <tr>
+              <td style={{ ...cellStyle, textAlign: 'center' }} colSpan={7}>Counted stock matches the records</td>
+            </tr>
+          ) : (
+            varianceItems.map((item, index) => (
+              <tr key={item.id}>
+                <td style={{ ...cellStyle, textAlign: 'center' }}>{index + 1}</td>
+                <td style={cellStyle}>
+                  {item.products?.name || 'Unknown'}
+                  {item.lot_size > 1 && (
+                    <div style={{ fontSize: '9px' }}>
+                      {item.counted_lots || 0} lots of {item.lot_size} + {item.counted_units || 0} units
+                    </div>
+                  )}
+                </td>
+                <td style={amountCellStyle}>{item.expected_quantity}</td>
+                <td style={amountCellStyle}>{item.counted_quantity}</td>
+                <td style={amountCellStyle}>{getVariance(item) > 0 ? `+${getVariance(item)}` : getVariance(item)}</td>
+                <td style={amountCellStyle}>{item.unit_price.toFixed(2)}</td>
+                <td style={amountCellStyle}>{getVarianceValue(item).toFixed(2)}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+
+      {/* Summary */}
+      <table style={{ ...tableStyle, marginTop: '10px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '70%' }}>Products counted</td>
+            <td style={amountCellStyle}>{summary.counted} of {summary.total}</td>
+          </tr>
+          <tr>
+            <td style={cellStyle}>Products with a variance</td>
+            <td style={amountCellStyle}>{summary.withVariance}</td>
+          </tr>
+          <tr>
+            <td style={cellStyle}>Shortage value</td>
+            <td style={amountCellStyle}>₹ {summary.shortValue.toFixed(2)}</td>
+          </tr>
+          <tr>
+            <td style={cellStyle}>Excess value</td>
+            <td style={amountCellStyle}>₹ {summary.excessValue.toFixed(2)}</td>
+          </tr>
+          <tr>
+            <td style={{ ...cellStyle, fontWeight: 'bold' }}>Net Variance</td>
+            <td style={boldAmountCellStyle}>₹ {summary.netValue.toFixed(2)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Remarks and Signature */}
+      <table style={{ ...tableStyle, marginTop: '2px' }}>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>Remarks</div>
+              <div>{stockTake.comments || '-'}</div>
+            </td>
+            <td style={{ ...cellStyle, width: '50%' }}>
+              <div style={{ textAlign: 'right', marginTop: '40px', fontWeight: 'bold' }}>
+                Authorised Signatory
+              </div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Footer */}
+      <div style={{ textAlign: 'center', marginTop: '10px', fontSize: '10px' }}>
+        This is a Computer Generated Report
+      </div>
+    </div>
+  );
+};
+
+export default StockTakeReportTemplate;
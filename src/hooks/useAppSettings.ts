@@ -0,0 +1,19 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AppSettingKey, AppSettings, getSetting, saveSetting } from "@/lib/settings";
+
+export const useAppSetting = <K extends AppSettingKey>(key: K) =>
+  useQuery({
+    queryKey: ["app_settings", key],
+    queryFn: () => getSetting(key),
+  });
+
+export const useSaveAppSetting = <K extends AppSettingKey>(key: K) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (value: AppSettings[K]) => saveSetting(key, value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["app_settings", key] });
+    },
+  });
+};
@@ -0,0 +1,36 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { Permission } from "@/lib/permissions";
+import { useAuth } from "./useAuth";
+
+export const usePermissions = () => {
+  const { session, loading: authLoading, role } = useAuth();
+  const userId = session?.user.id;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["permissions", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_my_permissions");
+      if (error) throw error;
+      return (data || []) as string[];
+    },
+    enabled: !!userId,
+  });
+
+  const permissions = useMemo(() => new Set(data ?? []), [data]);
+
+  // Admins are granted every permission
+  const can = useCallback(
+    (permission: Permission) => role === "admin" || permissions.has(permission),
+    [role, permissions]
+  );
+
+  return {
+    session,
+    role,
+    permissions,
+    can,
+    loading: authLoading || (!!userId && isLoading),
+  };
+};
@@ -0,0 +1,40 @@
+/**
+ * Customer Advance Utilities
+ * Unapplied money received from customers and the bills it was later used for
+ */
+
+export interface AdvanceApplication {
+  amount: number;
+  bills?: { invoice_number: string | null } | null;
+}
+
+export interface CustomerAdvance {
+  id: string;
+  customer_id: string;
+  amount: number;
+  comments: string | null;
+  date_of_transaction: string;
+  customers?: { name: string } | null;
+  advance_applications: AdvanceApplication[];
+}
+
+/**
+ * Amount of an advance already used to pay bills
+ */
+export const getAppliedAmount = (advance: CustomerAdvance): number =>
+  (advance.advance_applications || []).reduce((sum, application) => sum + application.amount, 0);
+
+/**
+ * Amount of an advance still available for later bills
+ */
+export const getRemainingAdvance = (advance: CustomerAdvance): number =>
+  Math.max(advance.amount - getAppliedAmount(advance), 0);
+
+/**
+ * Unapplied advance balance per customer
+ */
+export const getAdvanceBalances = (advances: CustomerAdvance[]): Record<string, number> =>
+  advances.reduce<Record<string, number>>((balances, advance) => {
+    balances[advance.customer_id] = (balances[advance.customer_id] || 0) + getRemainingAdvance(advance);
+    return balances;
+  }, {});
@@ -0,0 +1,162 @@
+/**
+ * Receivables Aging Utilities
+ * Buckets unpaid bills by days past their due date and picks who to follow up with
+ */
+
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "90+";
+
+export const AGING_BUCKETS: { value: AgingBucket; label: string }[] = [
+  { value: "current", label: "Current" },
+  { value: "1-30", label: "1-30 Days" },
+  { value: "31-60", label: "31-60 Days" },
+  { value: "61-90", label: "61-90 Days" },
+  { value: "90+", label: "90+ Days" },
+];
+
+export interface ReceivableBill {
+  id: string;
+  invoice_number: string | null;
+  total_amount: number;
+  paid_amount: number;
+  credited_amount?: number | null;
+  date_of_bill: string;
+  due_date: string | null;
+  customers: {
+    id: string;
+    name: string;
+    primary_phone_number: string | null;
+  } | null;
+}
+
+export interface CustomerAging {
+  customer_id: string;
+  name: string;
+  phone: string | null;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  maxDaysPastDue: number;
+}
+
+export interface AgingReport {
+  customers: CustomerAging[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+}
+
+export interface PaymentReminder {
+  customer_id: string;
+  name: string;
+  phone: string | null;
+  overdueAmount: number;
+  dueTodayAmount: number;
+  overdueBills: number;
+  maxDaysPastDue: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  "1-30": 0,
+  "31-60": 0,
+  "61-90": 0,
+  "90+": 0,
+});
+
+/**
+ * Whole days between the due date and today; zero or negative means not yet overdue.
+ * Bills created before credit terms existed fall back to the bill date.
+ */
+export const getDaysPastDue = (bill: Pick<ReceivableBill, "due_date" | "date_of_bill">, today: Date = new Date()): number => {
+  const due = new Date(bill.due_date || bill.date_of_bill);
+  const dueDay = Date.UTC(due.getFullYear(), due.getMonth(), due.getDate());
+  const todayDay = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((todayDay - dueDay) / (1000 * 60 * 60 * 24));
+};
+
+export const getAgingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "1-30";
+  if (daysPastDue <= 60) return "31-60";
+  if (daysPastDue <= 90) return "61-90";
+  return "90+";
+};
+
+/**
+ * What is still owed on a bill: its total less credit notes and payments
+ */
+export const getBillBalance = (bill: Pick<ReceivableBill, "total_amount" | "paid_amount" | "credited_amount">): number =>
+  Math.max(bill.total_amount - (bill.credited_amount || 0) - (bill.paid_amount || 0), 0);
+
+/**
+ * Unpaid balances per customer split into aging buckets, largest total first
+ */
+export const buildAgingReport = (bills: ReceivableBill[], today: Date = new Date()): AgingReport => {
+  const byCustomer = new Map<string, CustomerAging>();
+  const totals = emptyBuckets();
+
+  bills.forEach((bill) => {
+    const balance = getBillBalance(bill);
+    if (balance <= 0 || !bill.customers) return;
+
+    const days = getDaysPastDue(bill, today);
+    const bucket = getAgingBucket(days);
+    const entry = byCustomer.get(bill.customers.id) || {
+      customer_id: bill.customers.id,
+      name: bill.customers.name,
+      phone: bill.customers.primary_phone_number,
+      buckets: emptyBuckets(),
+      total: 0,
+      maxDaysPastDue: 0,
+    };
+
+    entry.buckets[bucket] += balance;
+    entry.total += balance;
+    entry.maxDaysPastDue = Math.max(entry.maxDaysPastDue, days);
+    totals[bucket] += balance;
+    byCustomer.set(bill.customers.id, entry);
+  });
+
+  const customers = Array.from(byCustomer.values()).sort((a, b) => b.total - a.total);
+  return {
+    customers,
+    totals,
+    total: customers.reduce((sum, customer) => sum + customer.total, 0),
+  };
+};
+
+/**
+ * Customers with bills overdue or falling due today, oldest and largest first
+ */
+export const buildReminderList = (bills: ReceivableBill[], today: Date = new Date()): PaymentReminder[] => {
+  const byCustomer = new Map<string, PaymentReminder>();
+
+  bills.forEach((bill) => {
+    const balance = getBillBalance(bill);
+    const days = getDaysPastDue(bill, today);
+    if (balance <= 0 || days < 0 || !bill.customers) return;
+
+    const entry = byCustomer.get(bill.customers.id) || {
+      customer_id: bill.customers.id,
+      name: bill.customers.name,
+      phone: bill.customers.primary_phone_number,
+      overdueAmount: 0,
+      dueTodayAmount: 0,
+      overdueBills: 0,
+      maxDaysPastDue: 0,
+    };
+
+    if (days === 0) {
+      entry.dueTodayAmount += balance;
+    } else {
+      entry.overdueAmount += balance;
+      entry.overdueBills += 1;
+    }
+    entry.maxDaysPastDue = Math.max(entry.maxDaysPastDue, days);
+    byCustomer.set(bill.customers.id, entry);
+  });
+
+  return Array.from(byCustomer.values()).sort(
+    (a, b) =>
+      b.maxDaysPastDue - a.maxDaysPastDue ||
+      b.overdueAmount + b.dueTodayAmount - (a.overdueAmount + a.dueTodayAmount)
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * Inventory Batch Utilities
+ * Expiry checks and labels for batch-level stock of perishable products
+ */
+
+// Batches expiring within this many days are flagged as expiring soon
+export const EXPIRY_WARNING_DAYS = 30;
+
+export type ExpiryStatus = "expired" | "expiring" | "ok";
+
+export interface InventoryBatch {
+  id: string;
+  product_id: string;
+  location_id: string;
+  batch_code: string;
+  manufacture_date: string | null;
+  expiry_date: string | null;
+  quantity: number;
+  created_at: string;
+  products?: { name: string } | null;
+  stock_locations?: { name: string } | null;
+}
+
+/**
+ * Whole days from today until the expiry date; negative once expired
+ */
+export const getDaysToExpiry = (expiryDate: string, today: Date = new Date()): number => {
+  const [year, month, day] = expiryDate.substring(0, 10).split("-").map(Number);
+  const expiry = Date.UTC(year, month - 1, day);
+  const todayDay = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry - todayDay) / (1000 * 60 * 60 * 24));
+};
+
+export const getExpiryStatus = (expiryDate: string | null, today: Date = new Date()): ExpiryStatus => {
+  if (!expiryDate) return "ok";
+  const days = getDaysToExpiry(expiryDate, today);
+  if (days < 0) return "expired";
+  if (days <= EXPIRY_WARNING_DAYS) return "expiring";
+  return "ok";
+};
+
+export const getExpiryLabel = (expiryDate: string | null, today: Date = new Date()): string => {
+  if (!expiryDate) return "No expiry";
+  const days = getDaysToExpiry(expiryDate, today);
+  if (days < 0) return `Expired ${-days} day${days === -1 ? "" : "s"} ago`;
+  if (days === 0) return "Expires today";
+  return `Expires in ${days} day${days === 1 ? "" : "s"}`;
+};
+
+/**
+ * Short label for batch pickers, e.g. "B123 · Exp 12/05/2026 · 40 units"
+ */
+export const formatBatchLabel = (batch: Pick<InventoryBatch, "batch_code" | "expiry_date" | "quantity">): string =>
+  [
+    batch.batch_code,
+    batch.expiry_date ? `Exp ${new Date(batch.expiry_date).toLocaleDateString("en-GB")}` : null,
+    `${batch.quantity} units`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
@@ -0,0 +1,62 @@
+/**
+ * Customer Statement Utilities
+ * Builds a dated account statement with running balance from the customer ledger
+ */
+
+export type LedgerEntryType = "bill" | "collection" | "credit_note" | "cheque_bounce" | "adjustment";
+
+export interface LedgerEntry {
+  entry_date: string;
+  entry_type: LedgerEntryType;
+  reference: string | null;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+export interface StatementLine extends LedgerEntry {
+  balance: number;
+}
+
+export interface CustomerStatement {
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+/**
+ * Opening balance is everything before the start date; lines are the entries within
+ * the range, each carrying the balance after it. Positive balances are owed to us.
+ */
+export const buildStatement = (entries: LedgerEntry[], from: Date, to: Date): CustomerStatement => {
+  const openingBalance = entries
+    .filter((entry) => new Date(entry.entry_date) < from)
+    .reduce((sum, entry) => sum + entry.debit - entry.credit, 0);
+
+  let balance = openingBalance;
+  const lines = entries
+    .filter((entry) => {
+      const date = new Date(entry.entry_date);
+      return date >= from && date <= to;
+    })
+    .map((entry) => {
+      balance += entry.debit - entry.credit;
+      return { ...entry, balance };
+    });
+
+  return {
+    openingBalance,
+    lines,
+    totalDebit: lines.reduce((sum, line) => sum + line.debit, 0),
+    totalCredit: lines.reduce((sum, line) => sum + line.credit, 0),
+    closingBalance: balance,
+  };
+};
+
+/**
+ * Balance shown with Dr/Cr, Dr meaning the customer owes us
+ */
+export const formatBalance = (balance: number): string =>
+  `${Math.abs(balance).toFixed(2)} ${balance >= 0 ? "Dr" : "Cr"}`;
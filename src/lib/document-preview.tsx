@@ -0,0 +1,242 @@
+/**
+ * Document Preview Utility
+ * Opens an A4 preview modal for a printable template with a PDF download button
+ */
+
+import { ReactNode } from "react";
+import { createRoot } from "react-dom/client";
+import html2pdf from "html2pdf.js";
+
+export interface DocumentPreviewOptions {
+  content: ReactNode;
+  filename: string;
+  downloadLabel: string;
+  downloadIcon: string;
+  buttonColor: string;
+  buttonShadow: string;
+  onDownloaded?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+
+export const openDocumentPreview = ({
+  content: documentContent,
+  filename,
+  downloadLabel,
+  downloadIcon,
+  buttonColor,
+  buttonShadow,
+  onDownloaded,
+  onError,
+}: DocumentPreviewOptions) => {
+  // Create a modal container
+  const modal = document.createElement("div");
+  modal.style.cssText = `
+    position: fixed;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    background-color: rgba(0,0,0,0.8);
+    z-index: 10000;
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    overflow-y: auto;
+    padding: 20px;
+    box-sizing: border-box;
+  `;
+
+  // Create content container with responsive dimensions
+  const content = document.createElement("div");
+  const isMobile = window.innerWidth < 768;
+
+  content.style.cssText = `
+    background-color: white;
+    width: ${isMobile ? '100vw' : `${A4_WIDTH_MM}mm`};
+    min-width: ${isMobile ? '100vw' : `${A4_WIDTH_MM}mm`};
+    max-width: ${isMobile ? '100vw' : `${A4_WIDTH_MM}mm`};
+    min-height: ${isMobile ? '100vh' : `${A4_HEIGHT_MM}mm`};
+    position: relative;
+    border-radius: ${isMobile ? '0' : '8px'};
+    box-shadow: ${isMobile ? 'none' : '0 10px 30px rgba(0,0,0,0.3)'};
+    margin: auto;
+    overflow: ${isMobile ? 'auto' : 'visible'};
+  `;
+
+  modal.appendChild(content);
+  document.body.appendChild(modal);
+
+  // Control panel (buttons) - positioned outside React root
+  const controlPanel = document.createElement("div");
+  controlPanel.style.cssText = `
+    position: fixed;
+    top: ${isMobile ? '20px' : '10px'};
+    right: ${isMobile ? '20px' : '10px'};
+    display: flex;
+    gap: ${isMobile ? '12px' : '10px'};
+    z-index: 10002;
+    background: rgba(255, 255, 255, 0.95);
+    padding: ${isMobile ? '12px' : '8px'};
+    border-radius: 8px;
+    box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+    backdrop-filter: blur(10px);
+  `;
+
+  // Download button
+  const downloadButton = document.createElement("button");
+  downloadButton.innerHTML = isMobile ? downloadIcon : `${downloadIcon} ${downloadLabel}`;
+  downloadButton.style.cssText = `
+    background: ${buttonColor};
+    color: white;
+    border: none;
+    padding: ${isMobile ? '10px 12px' : '6px 12px'};
+    border-radius: 6px;
+    cursor: pointer;
+    font-size: ${isMobile ? '16px' : '12px'};
+    font-weight: bold;
+    box-shadow: 0 2px 8px ${buttonShadow};
+    min-width: ${isMobile ? '44px' : 'auto'};
+    min-height: ${isMobile ? '44px' : 'auto'};
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    transition: all 0.2s ease;
+  `;
+
+  // Close button
+  const closeButton = document.createElement("button");
+  closeButton.innerHTML = "✕";
+  closeButton.style.cssText = `
+    background: #dc3545;
+    color: white;
+    border: none;
+    padding: ${isMobile ? '10px 12px' : '6px 10px'};
+    border-radius: 6px;
+    cursor: pointer;
+    font-size: ${isMobile ? '18px' : '12px'};
+    font-weight: bold;
+    box-shadow: 0 2px 8px rgba(220,53,69,0.3);
+    min-width: ${isMobile ? '44px' : 'auto'};
+    min-height: ${isMobile ? '44px' : 'auto'};
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    transition: all 0.2s ease;
+  `;
+
+  const handleEscKey = (e: KeyboardEvent) => {
+    if (e.key === "Escape") {
+      cleanup();
+    }
+  };
+
+  const cleanup = () => {
+    document.removeEventListener("keydown", handleEscKey);
+    root.unmount();
+    document.body.removeChild(modal);
+  };
+
+  downloadButton.onclick = async () => {
+    try {
+      downloadButton.innerHTML = "⏳...";
+      downloadButton.disabled = true;
+
+      const pdfOptions = {
+        margin: 0.4,
+        filename,
+        image: {
+          type: "jpeg",
+          quality: 0.98,
+        },
+        html2canvas: {
+          scale: 2,
+          useCORS: true,
+          allowTaint: false,
+          backgroundColor: "#ffffff",
+          logging: false,
+          width: 794, // Fixed A4 width in pixels (210mm at 96 DPI)
+          height: 1123, // Fixed A4 height in pixels (297mm at 96 DPI)
+          scrollX: 0,
+          scrollY: 0,
+          windowWidth: 794,
+          windowHeight: 1123,
+        },
+        jsPDF: {
+          unit: "mm",
+          format: "a4",
+          orientation: "portrait",
+          compress: true,
+        },
+      };
+
+      // Temporarily remove mobile scaling for PDF generation
+      const originalTransform = content.style.transform;
+      const originalWidth = content.style.width;
+      const originalMinWidth = content.style.minWidth;
+      const originalMaxWidth = content.style.maxWidth;
+      const originalPadding = content.style.padding;
+
+      content.style.transform = 'none';
+      content.style.width = '210mm';
+      content.style.minWidth = '210mm';
+      content.style.maxWidth = '210mm';
+      content.style.padding = '0';
+
+      await html2pdf().from(content).set(pdfOptions).save();
+
+      content.style.transform = originalTransform;
+      content.style.width = originalWidth;
+      content.style.minWidth = originalMinWidth;
+      content.style.maxWidth = originalMaxWidth;
+      content.style.padding = originalPadding;
+
+      onDownloaded?.();
+    } catch (error: unknown) {
+      console.error("PDF generation error:", error);
+      onError?.(error);
+    } finally {
+      downloadButton.innerHTML = `${downloadIcon} ${downloadLabel}`;
+      downloadButton.disabled = false;
+    }
+  };
+
+  closeButton.onclick = cleanup;
+
+  controlPanel.appendChild(downloadButton);
+  controlPanel.appendChild(closeButton);
+  modal.appendChild(controlPanel);
+
+  // Render the document with responsive dimensions
+  const root = createRoot(content);
+  root.render(
+    <div
+      style={{
+        width: isMobile ? '100vw' : `${A4_WIDTH_MM}mm`,
+        minWidth: isMobile ? '100vw' : `${A4_WIDTH_MM}mm`,
+        maxWidth: isMobile ? '100vw' : `${A4_WIDTH_MM}mm`,
+        minHeight: isMobile ? '100vh' : `${A4_HEIGHT_MM}mm`,
+        backgroundColor: "white",
+        margin: 0,
+        padding: isMobile ? '10px' : 0,
+        boxSizing: "border-box",
+        overflow: isMobile ? 'auto' : 'hidden',
+        transform: isMobile ? 'scale(0.8)' : 'none',
+        transformOrigin: 'top left',
+      }}
+    >
+      {documentContent}
+    </div>
+  );
+
+  // Close modal when clicking outside (but not on buttons)
+  modal.onclick = (e) => {
+    if (e.target === modal) {
+      cleanup();
+    }
+  };
+
+  document.addEventListener("keydown", handleEscKey);
+};
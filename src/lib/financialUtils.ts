@@ -1,5 +1,7 @@
 // Financial Analytics Utility Functions
 
+import { calculateLineTax } from './gst-utils';
+
 export interface Transaction {
     id: string;
     amount: number;
@@ -194,6 +196,126 @@ export const getExpensesByCategory = (
     return expensesByCategory;
 };
 
+export interface BilledItem {
+    product_id: string | null;
+    quantity: number;
+    price: number;
+    unit_cost: number | null;
+    gst_rate: number | null;
+    cess_rate: number | null;
+    bills: {
+        date_of_bill: string;
+        customer_id: string | null;
+        total_amount: number;
+        discount: number | null;
+        is_gst_bill: boolean;
+        is_inter_state: boolean;
+        cgst_percentage: number | null;
+        sgst_percentage: number | null;
+        cess_percentage: number | null;
+        igst_percentage: number | null;
+    } | null;
+    credit_note_items: { quantity: number }[] | null;
+}
+
+/**
+ * Net sales of a billed line: units returned on credit notes are taken off,
+ * the line's share of the bill discount is deducted and, on GST bills, the
+ * tax included in the price is left out
+ */
+const getNetLineSales = (item: BilledItem, quantity: number): number => {
+    const bill = item.bills;
+    const gross = quantity * item.price;
+    const discount = bill?.discount || 0;
+    // Bill totals are the sum of the tax-inclusive lines less the discount
+    const billGross = (bill?.total_amount || 0) + discount;
+    const discountShare = billGross > 0 ? discount / billGross : 0;
+
+    if (!bill?.is_gst_bill) return gross * (1 - discountShare);
+
+    const billRates = {
+        cgst: bill.cgst_percentage || 0,
+        sgst: bill.sgst_percentage || 0,
+        igst: bill.igst_percentage || 0,
+        cess: bill.cess_percentage || 0,
+    };
+    const { taxableValue } = calculateLineTax({ ...item, quantity }, billRates, bill.is_inter_state);
+    return taxableValue * (1 - discountShare);
+};
+
+export type MarginGrouping = 'product' | 'customer' | 'month';
+
+export interface MarginRow {
+    key: string;
+    label: string;
+    quantity: number;
+    sales: number;
+    cost: number;
+    margin: number;
+    marginPercent: number;
+    uncostedSales: number;
+}
+
+/**
+ * Gross margin (net line sales minus cost of goods sold) grouped by product,
+ * customer or month. Returned units are netted off the line they were billed
+ * on. Lines billed before the product had a cost are kept out of the margin
+ * and reported as uncosted sales instead.
+ */
+export const getMarginBreakdown = (
+    items: BilledItem[],
+    groupBy: MarginGrouping,
+    names: { id: string; name: string }[]
+): MarginRow[] => {
+    const rows = new Map<string, MarginRow & { costedSales: number }>();
+
+    items.forEach((item) => {
+        let key: string;
+        let label: string;
+        if (groupBy === 'month') {
+            const date = new Date(item.bills?.date_of_bill || '');
+            key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+            label = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+        } else {
+            const id = groupBy === 'product' ? item.product_id : item.bills?.customer_id;
+            key = id || 'none';
+            label = names.find((n) => n.id === id)?.name || (groupBy === 'product' ? 'Deleted Product' : 'Walk-in Customer');
+        }
+
+        const row = rows.get(key) ?? {
+            key,
+            label,
+            quantity: 0,
+            sales: 0,
+            cost: 0,
+            margin: 0,
+            marginPercent: 0,
+            uncostedSales: 0,
+            costedSales: 0,
+        };
+        const returned = (item.credit_note_items || []).reduce((sum, cni) => sum + cni.quantity, 0);
+        const quantity = Math.max(item.quantity - returned, 0);
+        const lineSales = getNetLineSales(item, quantity);
+        row.quantity += quantity;
+        row.sales += lineSales;
+        if (item.unit_cost === null || item.unit_cost === undefined) {
+            row.uncostedSales += lineSales;
+        } else {
+            row.costedSales += lineSales;
+            row.cost += quantity * item.unit_cost;
+        }
+        rows.set(key, row);
+    });
+
+    return Array.from(rows.values())
+        .map(({ costedSales, ...row }) => ({
+            ...row,
+            margin: costedSales - row.cost,
+            marginPercent: costedSales > 0 ? ((costedSales - row.cost) / costedSales) * 100 : 0,
+        }))
+        .sort((a, b) => (groupBy === 'month' ? a.key.localeCompare(b.key) : b.margin - a.margin));
+};
+
 /**
  * Get date range presets
  */
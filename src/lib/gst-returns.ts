@@ -0,0 +1,487 @@
+/**
+ * GST Return Utilities
+ * Aggregates a month's GST bills and credit notes into GSTR-1 sections and
+ * GSTR-3B totals, and shapes them like the GST portal's offline tool JSON
+ */
+
+import { calculateLineTax, TaxableLine, TaxRates } from "./gst-utils";
+
+// Inter-state invoices to unregistered buyers above this value are reported individually (B2CL)
+export const B2CL_INVOICE_LIMIT = 100000;
+
+export interface GstReturnBill {
+  id: string;
+  invoice_number: string;
+  date_of_bill: string;
+  total_amount: number;
+  cgst_percentage: number | null;
+  sgst_percentage: number | null;
+  cess_percentage: number | null;
+  igst_percentage: number | null;
+  place_of_supply: string | null;
+  is_inter_state: boolean;
+  customers: {
+    name: string;
+    gst_number: string | null;
+    state_code: string | null;
+  } | null;
+  bill_items: TaxableLine[];
+}
+
+export interface GstReturnCreditNote {
+  id: string;
+  credit_note_number: string;
+  date_of_credit_note: string;
+  total_amount: number;
+  bills: Omit<GstReturnBill, "bill_items">;
+  credit_note_items: {
+    quantity: number;
+    price: number;
+    bill_items: Pick<TaxableLine, "hsn_code" | "gst_rate" | "cess_rate"> | null;
+  }[];
+}
+
+export interface TaxAmounts {
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface RateLine extends TaxAmounts {
+  rate: number;
+}
+
+export interface ReturnInvoice extends TaxAmounts {
+  invoice_number: string;
+  date: string;
+  value: number;
+  placeOfSupply: string;
+  interState: boolean;
+  customerName: string;
+  gstin: string | null;
+  rateLines: RateLine[];
+}
+
+export interface ReturnCreditNote extends ReturnInvoice {
+  note_number: string;
+  invoiceDate: string;
+  // Credit notes against large inter-state B2C invoices are reported in CDNUR
+  unregisteredType: "B2CL" | null;
+}
+
+export interface B2CSummaryRow extends RateLine {
+  placeOfSupply: string;
+  interState: boolean;
+}
+
+export interface HsnReturnRow extends TaxAmounts {
+  hsn_code: string;
+  rate: number;
+  quantity: number;
+  value: number;
+}
+
+export interface GstReturnReport {
+  period: string;
+  b2b: ReturnInvoice[];
+  b2cl: ReturnInvoice[];
+  b2cs: B2CSummaryRow[];
+  hsn: HsnReturnRow[];
+  cdnr: ReturnCreditNote[];
+  cdnur: ReturnCreditNote[];
+  totals: TaxAmounts & { value: number; invoiceCount: number };
+  creditNoteTotals: TaxAmounts & { value: number; creditNoteCount: number };
+  // Invoices less credit notes, as reported in GSTR-3B
+  netTotals: TaxAmounts;
+  missingHsnCount: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const emptyAmounts = (): TaxAmounts => ({ taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+
+const addAmounts = (target: TaxAmounts, source: TaxAmounts) => {
+  target.taxableValue += source.taxableValue;
+  target.igst += source.igst;
+  target.cgst += source.cgst;
+  target.sgst += source.sgst;
+  target.cess += source.cess;
+};
+
+const subtractAmounts = (target: TaxAmounts, source: TaxAmounts) => {
+  target.taxableValue -= source.taxableValue;
+  target.igst -= source.igst;
+  target.cgst -= source.cgst;
+  target.sgst -= source.sgst;
+  target.cess -= source.cess;
+};
+
+const combinedRate = (rates: TaxRates) => round(rates.cgst + rates.sgst + rates.igst);
+
+const getBillTaxRates = (bill: Omit<GstReturnBill, "bill_items">): TaxRates => ({
+  cgst: bill.cgst_percentage || 0,
+  sgst: bill.sgst_percentage || 0,
+  igst: bill.igst_percentage || 0,
+  cess: bill.cess_percentage || 0,
+});
+
+const getPlaceOfSupply = (bill: Omit<GstReturnBill, "bill_items">, sellerStateCode: string | null) =>
+  bill.place_of_supply || bill.customers?.state_code || sellerStateCode || "";
+
+/**
+ * Return period in the portal's MMYYYY form from a "yyyy-MM" month value
+ */
+export const toReturnPeriod = (month: string): string => {
+  const [year, monthNumber] = month.split("-");
+  return `${monthNumber}${year}`;
+};
+
+/**
+ * Build the GSTR-1 sections and totals for the bills and credit notes of one month
+ */
+export const buildGstReturn = (
+  bills: GstReturnBill[],
+  creditNotes: GstReturnCreditNote[],
+  month: string,
+  sellerStateCode: string | null
+): GstReturnReport => {
+  const b2b: ReturnInvoice[] = [];
+  const b2cl: ReturnInvoice[] = [];
+  const b2csRows = new Map<string, B2CSummaryRow>();
+  const hsnRows = new Map<string, HsnReturnRow>();
+  const cdnr: ReturnCreditNote[] = [];
+  const cdnur: ReturnCreditNote[] = [];
+  const totals = { ...emptyAmounts(), value: 0, invoiceCount: 0 };
+  const creditNoteTotals = { ...emptyAmounts(), value: 0, creditNoteCount: 0 };
+  let missingHsnCount = 0;
+
+  const getHsnRow = (hsnCode: string, rate: number) => {
+    const hsnKey = `${hsnCode}|${rate}`;
+    const hsnRow = hsnRows.get(hsnKey) ?? {
+      ...emptyAmounts(),
+      hsn_code: hsnCode,
+      rate,
+      quantity: 0,
+      value: 0,
+    };
+    hsnRows.set(hsnKey, hsnRow);
+    return hsnRow;
+  };
+
+  const getB2csRow = (placeOfSupply: string, interState: boolean, rate: number) => {
+    const key = `${placeOfSupply}|${interState}|${rate}`;
+    const row = b2csRows.get(key) ?? {
+      ...emptyAmounts(),
+      rate,
+      placeOfSupply,
+      interState,
+    };
+    b2csRows.set(key, row);
+    return row;
+  };
+
+  bills.forEach((bill) => {
+    const billRates = getBillTaxRates(bill);
+    const interState = bill.is_inter_state;
+    const placeOfSupply = getPlaceOfSupply(bill, sellerStateCode);
+    const gstin = bill.customers?.gst_number?.trim() || null;
+
+    const invoice: ReturnInvoice = {
+      ...emptyAmounts(),
+      invoice_number: bill.invoice_number,
+      date: bill.date_of_bill,
+      value: bill.total_amount,
+      placeOfSupply,
+      interState,
+      customerName: bill.customers?.name || "Walk-in Customer",
+      gstin,
+      rateLines: [],
+    };
+    const rateLines = new Map<number, RateLine>();
+
+    bill.bill_items.forEach((item) => {
+      const lineTax = calculateLineTax(item, billRates, interState);
+      const rate = combinedRate(lineTax.rates);
+      const rateLine = rateLines.get(rate) ?? { ...emptyAmounts(), rate };
+      addAmounts(rateLine, lineTax);
+      rateLines.set(rate, rateLine);
+      addAmounts(invoice, lineTax);
+
+      if (!item.hsn_code) missingHsnCount += 1;
+      const hsnRow = getHsnRow(item.hsn_code || "", rate);
+      addAmounts(hsnRow, lineTax);
+      hsnRow.quantity += item.quantity;
+      hsnRow.value += item.quantity * item.price;
+    });
+
+    invoice.rateLines = Array.from(rateLines.values());
+    addAmounts(totals, invoice);
+    totals.value += invoice.value;
+    totals.invoiceCount += 1;
+
+    if (gstin) {
+      b2b.push(invoice);
+    } else if (interState && invoice.value > B2CL_INVOICE_LIMIT) {
+      b2cl.push(invoice);
+    } else {
+      // Small B2C supplies are reported in aggregate per place of supply and rate
+      invoice.rateLines.forEach((rateLine) => {
+        addAmounts(getB2csRow(placeOfSupply, interState, rateLine.rate), rateLine);
+      });
+    }
+  });
+
+  // Returned goods are taxed at the rates of the original invoice and reduce
+  // the same sections and HSN rows that invoice was reported in
+  creditNotes.forEach((creditNote) => {
+    const bill = creditNote.bills;
+    const billRates = getBillTaxRates(bill);
+    const interState = bill.is_inter_state;
+    const placeOfSupply = getPlaceOfSupply(bill, sellerStateCode);
+    const gstin = bill.customers?.gst_number?.trim() || null;
+
+    const note: ReturnCreditNote = {
+      ...emptyAmounts(),
+      note_number: creditNote.credit_note_number,
+      date: creditNote.date_of_credit_note,
+      value: creditNote.total_amount,
+      invoice_number: bill.invoice_number,
+      invoiceDate: bill.date_of_bill,
+      placeOfSupply,
+      interState,
+      customerName: bill.customers?.name || "Walk-in Customer",
+      gstin,
+      rateLines: [],
+      unregisteredType: null,
+    };
+    const rateLines = new Map<number, RateLine>();
+
+    creditNote.credit_note_items.forEach((item) => {
+      const line: TaxableLine = { ...item.bill_items, quantity: item.quantity, price: item.price };
+      const lineTax = calculateLineTax(line, billRates, interState);
+      const rate = combinedRate(lineTax.rates);
+      const rateLine = rateLines.get(rate) ?? { ...emptyAmounts(), rate };
+      addAmounts(rateLine, lineTax);
+      rateLines.set(rate, rateLine);
+      addAmounts(note, lineTax);
+
+      const hsnRow = getHsnRow(line.hsn_code || "", rate);
+      subtractAmounts(hsnRow, lineTax);
+      hsnRow.quantity -= item.quantity;
+      hsnRow.value -= item.quantity * item.price;
+    });
+
+    note.rateLines = Array.from(rateLines.values());
+    addAmounts(creditNoteTotals, note);
+    creditNoteTotals.value += note.value;
+    creditNoteTotals.creditNoteCount += 1;
+
+    if (gstin) {
+      cdnr.push(note);
+    } else if (interState && bill.total_amount > B2CL_INVOICE_LIMIT) {
+      note.unregisteredType = "B2CL";
+      cdnur.push(note);
+    } else {
+      // Returns against small B2C supplies are netted off the B2CS summary
+      note.rateLines.forEach((rateLine) => {
+        subtractAmounts(getB2csRow(placeOfSupply, interState, rateLine.rate), rateLine);
+      });
+    }
+  });
+
+  const netTotals = emptyAmounts();
+  addAmounts(netTotals, totals);
+  subtractAmounts(netTotals, creditNoteTotals);
+
+  return {
+    period: toReturnPeriod(month),
+    b2b,
+    b2cl,
+    b2cs: Array.from(b2csRows.values()),
+    hsn: Array.from(hsnRows.values()),
+    cdnr,
+    cdnur,
+    totals,
+    creditNoteTotals,
+    netTotals,
+    missingHsnCount,
+  };
+};
+
+// Invoice date as dd-mm-yyyy, the format the portal expects
+const toPortalDate = (date: string) => {
+  const d = new Date(date);
+  const day = String(d.getDate()).padStart(2, "0");
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  return `${day}-${month}-${d.getFullYear()}`;
+};
+
+const toItemDetails = (line: RateLine) => ({
+  txval: round(line.taxableValue),
+  rt: line.rate,
+  iamt: round(line.igst),
+  camt: round(line.cgst),
+  samt: round(line.sgst),
+  csamt: round(line.cess),
+});
+
+/**
+ * GSTR-1 in the offline tool JSON shape
+ */
+export const toGstr1Json = (report: GstReturnReport, gstin: string) => {
+  const b2bByGstin = new Map<string, ReturnInvoice[]>();
+  report.b2b.forEach((invoice) => {
+    const ctin = invoice.gstin as string;
+    b2bByGstin.set(ctin, [...(b2bByGstin.get(ctin) ?? []), invoice]);
+  });
+
+  const b2clByPos = new Map<string, ReturnInvoice[]>();
+  report.b2cl.forEach((invoice) => {
+    b2clByPos.set(invoice.placeOfSupply, [
+      ...(b2clByPos.get(invoice.placeOfSupply) ?? []),
+      invoice,
+    ]);
+  });
+
+  const cdnrByGstin = new Map<string, ReturnCreditNote[]>();
+  report.cdnr.forEach((note) => {
+    const ctin = note.gstin as string;
+    cdnrByGstin.set(ctin, [...(cdnrByGstin.get(ctin) ?? []), note]);
+  });
+
+  return {
+    gstin,
+    fp: report.period,
+    b2b: Array.from(b2bByGstin.entries()).map(([ctin, invoices]) => ({
+      ctin,
+      inv: invoices.map((invoice) => ({
+        inum: invoice.invoice_number,
+        idt: toPortalDate(invoice.date),
+        val: round(invoice.value),
+        pos: invoice.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: invoice.rateLines.map((line, index) => ({
+          num: index + 1,
+          itm_det: toItemDetails(line),
+        })),
+      })),
+    })),
+    b2cl: Array.from(b2clByPos.entries()).map(([pos, invoices]) => ({
+      pos,
+      inv: invoices.map((invoice) => ({
+        inum: invoice.invoice_number,
+        idt: toPortalDate(invoice.date),
+        val: round(invoice.value),
+        itms: invoice.rateLines.map((line, index) => ({
+          num: index + 1,
+          itm_det: {
+            txval: round(line.taxableValue),
+            rt: line.rate,
+            iamt: round(line.igst),
+            csamt: round(line.cess),
+          },
+        })),
+      })),
+    })),
+    cdnr: Array.from(cdnrByGstin.entries()).map(([ctin, notes]) => ({
+      ctin,
+      nt: notes.map((note) => ({
+        ntty: "C",
+        nt_num: note.note_number,
+        nt_dt: toPortalDate(note.date),
+        val: round(note.value),
+        pos: note.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: note.rateLines.map((line, index) => ({
+          num: index + 1,
+          itm_det: toItemDetails(line),
+        })),
+      })),
+    })),
+    cdnur: report.cdnur.map((note) => ({
+      typ: note.unregisteredType,
+      ntty: "C",
+      nt_num: note.note_number,
+      nt_dt: toPortalDate(note.date),
+      val: round(note.value),
+      pos: note.placeOfSupply,
+      itms: note.rateLines.map((line, index) => ({
+        num: index + 1,
+        itm_det: {
+          txval: round(line.taxableValue),
+          rt: line.rate,
+          iamt: round(line.igst),
+          csamt: round(line.cess),
+        },
+      })),
+    })),
+    b2cs: report.b2cs.map((row) => ({
+      sply_ty: row.interState ? "INTER" : "INTRA",
+      pos: row.placeOfSupply,
+      typ: "OE",
+      ...toItemDetails(row),
+    })),
+    hsn: {
+      data: report.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsn_code,
+        uqc: "NOS",
+        qty: row.quantity,
+        rt: row.rate,
+        txval: round(row.taxableValue),
+        iamt: round(row.igst),
+        camt: round(row.cgst),
+        samt: round(row.sgst),
+        csamt: round(row.cess),
+      })),
+    },
+  };
+};
+
+/**
+ * GSTR-3B outward supply totals (table 3.1(a)) and inter-state supplies to
+ * unregistered persons (table 3.2) in the offline tool JSON shape, both net
+ * of the month's credit notes
+ */
+export const toGstr3bJson = (report: GstReturnReport, gstin: string) => {
+  const unregistered = new Map<string, { txval: number; iamt: number }>();
+  [...report.b2cl, ...report.b2cs].forEach((row) => {
+    if (!row.interState) return;
+    const entry = unregistered.get(row.placeOfSupply) ?? { txval: 0, iamt: 0 };
+    entry.txval += row.taxableValue;
+    entry.iamt += row.igst;
+    unregistered.set(row.placeOfSupply, entry);
+  });
+  // B2CS returns are already netted into the summary rows above
+  report.cdnur.forEach((note) => {
+    const entry = unregistered.get(note.placeOfSupply) ?? { txval: 0, iamt: 0 };
+    entry.txval -= note.taxableValue;
+    entry.iamt -= note.igst;
+    unregistered.set(note.placeOfSupply, entry);
+  });
+
+  return {
+    gstin,
+    ret_period: report.period,
+    sup_details: {
+      osup_det: {
+        txval: round(report.netTotals.taxableValue),
+        iamt: round(report.netTotals.igst),
+        camt: round(report.netTotals.cgst),
+        samt: round(report.netTotals.sgst),
+        csamt: round(report.netTotals.cess),
+      },
+    },
+    inter_sup: {
+      unreg_details: Array.from(unregistered.entries()).map(([pos, entry]) => ({
+        pos,
+        txval: round(entry.txval),
+        iamt: round(entry.iamt),
+      })),
+    },
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * GST Utility Functions
+ * Per-line tax calculation and HSN-wise summaries for tax-inclusive prices
+ */
+
+export interface TaxRates {
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+export interface TaxableLine {
+  quantity: number;
+  price: number;
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+  cess_rate?: number | null;
+}
+
+export interface LineTax {
+  rates: TaxRates;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+export interface HsnSummaryRow {
+  hsn_code: string | null;
+  rates: TaxRates;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+/**
+ * Rates for a line: its own GST rate, charged as IGST on inter-state bills and
+ * split equally into CGST and SGST otherwise, or the bill-level rates for lines
+ * without one (older bills). Inter-state comes from the bill's place of supply,
+ * not its rates, since the default rates may all be zero.
+ */
+export const getLineRates = (line: TaxableLine, billRates: TaxRates, interState: boolean): TaxRates => {
+  if (line.gst_rate === null || line.gst_rate === undefined) return billRates;
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: line.gst_rate, cess: line.cess_rate ?? 0 };
+  }
+  return {
+    cgst: line.gst_rate / 2,
+    sgst: line.gst_rate / 2,
+    igst: 0,
+    cess: line.cess_rate ?? 0,
+  };
+};
+
+/**
+ * Bill-level rates from the default GST percentages, moving the combined
+ * CGST + SGST rate into IGST for inter-state supplies
+ */
+export const getBillRates = (
+  rates: { cgst: number; sgst: number; cess: number },
+  interState: boolean
+): TaxRates =>
+  interState
+    ? { cgst: 0, sgst: 0, igst: rates.cgst + rates.sgst, cess: rates.cess }
+    : { cgst: rates.cgst, sgst: rates.sgst, igst: 0, cess: rates.cess };
+
+/**
+ * Split a tax-inclusive line amount into taxable value and tax components
+ */
+export const calculateLineTax = (line: TaxableLine, billRates: TaxRates, interState: boolean): LineTax => {
+  const rates = getLineRates(line, billRates, interState);
+  const amount = line.quantity * line.price;
+  const taxableValue = amount / (1 + (rates.cgst + rates.sgst + rates.igst + rates.cess) / 100);
+
+  return {
+    rates,
+    taxableValue,
+    cgst: taxableValue * (rates.cgst / 100),
+    sgst: taxableValue * (rates.sgst / 100),
+    igst: taxableValue * (rates.igst / 100),
+    cess: taxableValue * (rates.cess / 100),
+  };
+};
+
+/**
+ * Group lines by HSN code and rate for the invoice tax summary
+ */
+export const summarizeByHsn = (lines: TaxableLine[], billRates: TaxRates, interState: boolean): HsnSummaryRow[] => {
+  const rows = new Map<string, HsnSummaryRow>();
+
+  lines.forEach((line) => {
+    const tax = calculateLineTax(line, billRates, interState);
+    const hsnCode = line.hsn_code || null;
+    const key = `${hsnCode ?? ''}|${tax.rates.cgst}|${tax.rates.sgst}|${tax.rates.igst}|${tax.rates.cess}`;
+    const row = rows.get(key) ?? {
+      hsn_code: hsnCode,
+      rates: tax.rates,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      cess: 0,
+    };
+
+    row.taxableValue += tax.taxableValue;
+    row.cgst += tax.cgst;
+    row.sgst += tax.sgst;
+    row.igst += tax.igst;
+    row.cess += tax.cess;
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values());
+};
+
+/**
+ * Whether any line carries its own GST rate rather than the bill-level one
+ */
+export const hasLineRates = (lines: TaxableLine[]): boolean =>
+  lines.some((line) => line.gst_rate !== null && line.gst_rate !== undefined);
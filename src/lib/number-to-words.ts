@@ -0,0 +1,45 @@
+// Helper function to convert numbers to words (simplified version)
+export const numberToWords = (num: number): string => {
+  if (num === 0) return 'Zero';
+  
+  const ones = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine'];
+  const teens = ['Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+  const tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+  const thousands = ['', 'Thousand', 'Lakh', 'Crore'];
+
+  const convertHundreds = (n: number): string => {
+    let result = '';
+    if (n >= 100) {
+      result += ones[Math.floor(n / 100)] + ' Hundred ';
+      n %= 100;
+    }
+    if (n >= 20) {
+      result += tens[Math.floor(n / 10)] + ' ';
+      n %= 10;
+    } else if (n >= 10) {
+      result += teens[n - 10] + ' ';
+      return result;
+    }
+    if (n > 0) {
+      result += ones[n] + ' ';
+    }
+    return result;
+  };
+
+  if (num < 1000) {
+    return convertHundreds(num).trim();
+  }
+
+  let result = '';
+  let thousandIndex = 0;
+  
+  while (num > 0) {
+    if (num % 1000 !== 0) {
+      result = convertHundreds(num % 1000) + thousands[thousandIndex] + ' ' + result;
+    }
+    num = Math.floor(num / 1000);
+    thousandIndex++;
+  }
+  
+  return result.trim();
+};
@@ -0,0 +1,65 @@
+/**
+ * Payment Mode Utilities
+ * Labels and helpers for how money was received or paid
+ */
+
+export type PaymentMode = "cash" | "upi" | "cheque" | "bank_transfer" | "card";
+
+export type ClearanceStatus = "pending" | "cleared" | "bounced";
+
+export const PAYMENT_MODES: { value: PaymentMode; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "cheque", label: "Cheque" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "card", label: "Card" },
+];
+
+export const CLEARANCE_STATUSES: { value: ClearanceStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "cleared", label: "Cleared" },
+  { value: "bounced", label: "Bounced" },
+];
+
+export const getPaymentModeLabel = (mode: PaymentMode | null | undefined): string =>
+  PAYMENT_MODES.find((m) => m.value === mode)?.label || "Cash";
+
+export const getClearanceStatusLabel = (status: ClearanceStatus | null | undefined): string =>
+  CLEARANCE_STATUSES.find((s) => s.value === status)?.label || "Cleared";
+
+/**
+ * Whether a mode carries a transaction or UTR reference number
+ */
+export const usesReferenceNumber = (mode: PaymentMode): boolean =>
+  mode === "upi" || mode === "bank_transfer" || mode === "card";
+
+/**
+ * Revenue and expense totals per payment mode, skipping bounced entries
+ */
+export const getTotalsByMode = (
+  transactions: { amount: number; type: "revenue" | "expense"; payment_mode: PaymentMode; clearance_status: ClearanceStatus }[]
+): Record<PaymentMode, { revenue: number; expense: number }> => {
+  const totals = Object.fromEntries(
+    PAYMENT_MODES.map((mode) => [mode.value, { revenue: 0, expense: 0 }])
+  ) as Record<PaymentMode, { revenue: number; expense: number }>;
+
+  transactions.forEach((transaction) => {
+    if (transaction.clearance_status === "bounced") return;
+    const entry = totals[transaction.payment_mode || "cash"];
+    entry[transaction.type] += transaction.amount;
+  });
+
+  return totals;
+};
+
+export type ChequeStatus = "received" | "deposited" | "cleared" | "bounced";
+
+export const CHEQUE_STATUSES: { value: ChequeStatus; label: string }[] = [
+  { value: "received", label: "Received" },
+  { value: "deposited", label: "Deposited" },
+  { value: "cleared", label: "Cleared" },
+  { value: "bounced", label: "Bounced" },
+];
+
+export const getChequeStatusLabel = (status: ChequeStatus): string =>
+  CHEQUE_STATUSES.find((s) => s.value === status)?.label || status;
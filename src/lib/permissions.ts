@@ -0,0 +1,57 @@
+/**
+ * Permissions
+ * Permission keys granted to roles through the role_permissions table
+ */
+
+export type Permission =
+  | "dashboard.view"
+  | "billing.view"
+  | "orders.view"
+  | "inventory.view"
+  | "stock_take.view"
+  | "purchases.view"
+  | "payments.view"
+  | "customers.view"
+  | "damaged_stock.view"
+  | "financial_analytics.view"
+  | "admin.view"
+  | "bills.create"
+  | "bills.edit"
+  | "bills.delete"
+  | "credit_notes.create"
+  | "orders.create"
+  | "orders.edit"
+  | "stock.add"
+  | "stock.edit"
+  | "stock.transfer"
+  | "stock_locations.manage"
+  | "damaged_stock.record"
+  | "payments.record"
+  | "expenses.record"
+  | "credits.record"
+  | "cheques.manage"
+  | "payments.void"
+  | "purchases.create"
+  | "stock_take.count"
+  | "stock_take.approve";
+
+// Permission needed to open each page, in sidebar order
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  "/dashboard": "dashboard.view",
+  "/billing": "billing.view",
+  "/orders": "orders.view",
+  "/inventory": "inventory.view",
+  "/stock-take": "stock_take.view",
+  "/purchases": "purchases.view",
+  "/payments": "payments.view",
+  "/customers": "customers.view",
+  "/damaged-stock": "damaged_stock.view",
+  "/financial-analytics": "financial_analytics.view",
+  "/admin": "admin.view",
+};
+
+/**
+ * First page the user is allowed to open, used as their landing page
+ */
+export const getHomeRoute = (can: (permission: Permission) => boolean): string | null =>
+  Object.keys(ROUTE_PERMISSIONS).find((path) => can(ROUTE_PERMISSIONS[path])) ?? null;
@@ -0,0 +1,156 @@
+/**
+ * Reorder Utilities
+ * Suggests what to order from sales velocity and minimum stock, and groups the
+ * suggestions into draft purchase orders per vendor
+ */
+
+export interface ReorderSettings {
+  salesDays: number; // Days of sales used to measure velocity
+  leadDays: number; // Days a vendor takes to deliver
+  coverDays: number; // Days of sales an order should last once it arrives
+}
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  salesDays: 30,
+  leadDays: 7,
+  coverDays: 14,
+};
+
+export interface ReorderProduct {
+  product_id: string;
+  product_name: string;
+  current_stock: number;
+  min_stock: number;
+  lot_size: number;
+  average_cost: number | null;
+  units_sold: number;
+  last_vendor_id: string | null;
+  last_unit_cost: number | null;
+}
+
+export interface ProductVendor {
+  product_id: string;
+  vendor_id: string;
+}
+
+export interface ReorderVendor {
+  id: string;
+  name: string;
+}
+
+export interface ReorderSuggestion {
+  product_id: string;
+  product_name: string;
+  vendor_id: string | null;
+  current_stock: number;
+  min_stock: number;
+  daily_velocity: number;
+  lot_size: number;
+  lots: number;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface DraftPurchaseOrder {
+  vendor_id: string;
+  vendor_name: string;
+  lines: ReorderSuggestion[];
+  total: number;
+}
+
+export const getDailyVelocity = (unitsSold: number, salesDays: number): number =>
+  salesDays > 0 ? unitsSold / salesDays : 0;
+
+/**
+ * Whole lots to order, or 0 when stock will not fall to the minimum before a
+ * new order could arrive. Orders top stock up to the minimum plus enough to
+ * cover sales over the lead time and the cover period.
+ */
+export const getSuggestedLots = (product: ReorderProduct, settings: ReorderSettings): number => {
+  const velocity = getDailyVelocity(product.units_sold, settings.salesDays);
+  const stockAtArrival = product.current_stock - velocity * settings.leadDays;
+  if (stockAtArrival > product.min_stock) return 0;
+
+  const target = product.min_stock + velocity * (settings.leadDays + settings.coverDays);
+  const shortfall = target - product.current_stock;
+  if (shortfall <= 0) return 0;
+  return Math.ceil(shortfall / Math.max(product.lot_size, 1));
+};
+
+/**
+ * Vendor of the last purchase if they still supply the product, otherwise the
+ * first linked vendor by name
+ */
+export const pickVendor = (
+  product: ReorderProduct,
+  productVendors: ProductVendor[],
+  vendors: ReorderVendor[]
+): string | null => {
+  const linked = productVendors
+    .filter((link) => link.product_id === product.product_id)
+    .map((link) => vendors.find((vendor) => vendor.id === link.vendor_id))
+    .filter((vendor): vendor is ReorderVendor => Boolean(vendor))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (product.last_vendor_id && linked.some((vendor) => vendor.id === product.last_vendor_id)) {
+    return product.last_vendor_id;
+  }
+  return linked[0]?.id ?? null;
+};
+
+export const buildReorderSuggestions = (
+  products: ReorderProduct[],
+  productVendors: ProductVendor[],
+  vendors: ReorderVendor[],
+  settings: ReorderSettings
+): ReorderSuggestion[] =>
+  products.reduce<ReorderSuggestion[]>((suggestions, product) => {
+    const lots = getSuggestedLots(product, settings);
+    if (lots <= 0) return suggestions;
+
+    const lotSize = Math.max(product.lot_size, 1);
+    suggestions.push({
+      product_id: product.product_id,
+      product_name: product.product_name,
+      vendor_id: pickVendor(product, productVendors, vendors),
+      current_stock: product.current_stock,
+      min_stock: product.min_stock,
+      daily_velocity: getDailyVelocity(product.units_sold, settings.salesDays),
+      lot_size: lotSize,
+      lots,
+      quantity: lots * lotSize,
+      unit_cost: product.last_unit_cost ?? product.average_cost ?? 0,
+    });
+    return suggestions;
+  }, []);
+
+/**
+ * One draft order per vendor; suggestions without a vendor are left out
+ */
+export const groupIntoPurchaseOrders = (
+  suggestions: ReorderSuggestion[],
+  vendors: ReorderVendor[]
+): DraftPurchaseOrder[] => {
+  const orders = new Map<string, DraftPurchaseOrder>();
+  suggestions.forEach((suggestion) => {
+    if (!suggestion.vendor_id) return;
+    const order = orders.get(suggestion.vendor_id) ?? {
+      vendor_id: suggestion.vendor_id,
+      vendor_name: vendors.find((vendor) => vendor.id === suggestion.vendor_id)?.name || "Unknown Vendor",
+      lines: [],
+      total: 0,
+    };
+    order.lines.push(suggestion);
+    order.total += suggestion.quantity * suggestion.unit_cost;
+    orders.set(suggestion.vendor_id, order);
+  });
+  return Array.from(orders.values()).sort((a, b) => a.vendor_name.localeCompare(b.vendor_name));
+};
+
+/**
+ * Reference printed on a draft order, e.g. PO-20261018-1A2B3C4D
+ */
+export const getPurchaseOrderReference = (vendorId: string, date: Date = new Date()): string =>
+  `PO-${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, "0")}${String(date.getDate()).padStart(2, "0")}-${vendorId
+    .substring(0, 8)
+    .toUpperCase()}`;
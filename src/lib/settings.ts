@@ -0,0 +1,51 @@
+/**
+ * Application Settings
+ * Typed access to the business settings stored in the app_settings table
+ */
+
+import { supabase } from "./supabase";
+
+export interface GstDefaults {
+  sgst: number;
+  cgst: number;
+  cess: number;
+}
+
+export interface AppSettings {
+  gst_defaults: GstDefaults;
+}
+
+export type AppSettingKey = keyof AppSettings;
+
+// Used when a setting has not been saved yet
+export const DEFAULT_SETTINGS: AppSettings = {
+  gst_defaults: { sgst: 14, cgst: 14, cess: 0 },
+};
+
+/**
+ * Read a setting, falling back to its default for missing values
+ */
+export const getSetting = async <K extends AppSettingKey>(key: K): Promise<AppSettings[K]> => {
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("value")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_SETTINGS[key], ...(data?.value as Partial<AppSettings[K]> | undefined) };
+};
+
+/**
+ * Save a setting. Only admins are allowed to write settings.
+ */
+export const saveSetting = async <K extends AppSettingKey>(
+  key: K,
+  value: AppSettings[K]
+): Promise<void> => {
+  const { error } = await supabase
+    .from("app_settings")
+    .upsert({ key, value, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
@@ -0,0 +1,39 @@
+/**
+ * Stock Location Utilities
+ * The godown and delivery vans stock is held in, and per-location quantities
+ */
+
+export type StockLocationType = "warehouse" | "van";
+
+export const STOCK_LOCATION_TYPES: { value: StockLocationType; label: string }[] = [
+  { value: "warehouse", label: "Warehouse" },
+  { value: "van", label: "Van" },
+];
+
+export interface StockLocation {
+  id: string;
+  name: string;
+  location_type: StockLocationType;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export interface LocationQuantity {
+  location_id: string;
+  quantity: number;
+}
+
+export const getStockLocationTypeLabel = (type: StockLocationType): string =>
+  STOCK_LOCATION_TYPES.find((t) => t.value === type)?.label || "Warehouse";
+
+/**
+ * Location stock is booked to when none is chosen
+ */
+export const getDefaultLocation = (locations: StockLocation[]): StockLocation | undefined =>
+  locations.find((location) => location.is_default);
+
+/**
+ * Quantity of a product held at one location; zero if it has never been stocked there
+ */
+export const getLocationQuantity = (stock: LocationQuantity[] | null | undefined, locationId: string): number =>
+  stock?.find((entry) => entry.location_id === locationId)?.quantity ?? 0;
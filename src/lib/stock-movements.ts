@@ -0,0 +1,24 @@
+/**
+ * Stock Movement Utilities
+ * Reason codes for the inventory ledger and their labels
+ */
+
+export type StockMovementReason = "sale" | "purchase" | "damage" | "correction" | "return" | "transfer";
+
+export const STOCK_MOVEMENT_REASONS: { value: StockMovementReason; label: string }[] = [
+  { value: "sale", label: "Sale" },
+  { value: "purchase", label: "Purchase" },
+  { value: "damage", label: "Damage" },
+  { value: "correction", label: "Correction" },
+  { value: "return", label: "Return" },
+  { value: "transfer", label: "Transfer" },
+];
+
+export const getStockMovementLabel = (reason: StockMovementReason | null | undefined): string =>
+  STOCK_MOVEMENT_REASONS.find((r) => r.value === reason)?.label || "Purchase";
+
+/**
+ * Signed quantity for display, e.g. +12 or -3
+ */
+export const formatQuantityChange = (change: number): string =>
+  change > 0 ? `+${change}` : `${change}`;
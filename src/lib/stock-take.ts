@@ -0,0 +1,74 @@
+/**
+ * Stock Take Utilities
+ * Counted quantities, variances and their value for physical stock counts
+ */
+
+export type StockTakeStatus = "open" | "approved" | "cancelled";
+
+export interface StockTakeItem {
+  id: string;
+  product_id: string;
+  expected_quantity: number;
+  lot_size: number;
+  unit_price: number;
+  counted_lots: number | null;
+  counted_units: number | null;
+  counted_quantity: number | null;
+  counted_by_username: string | null;
+  counted_at: string | null;
+  products: { name: string } | null;
+}
+
+export interface StockTake {
+  id: string;
+  status: StockTakeStatus;
+  location_id: string | null;
+  stock_locations: { name: string } | null;
+  comments: string | null;
+  started_by_username: string | null;
+  started_at: string;
+  closed_by_username: string | null;
+  closed_at: string | null;
+  stock_take_items: StockTakeItem[];
+}
+
+export interface StockTakeSummary {
+  counted: number;
+  total: number;
+  withVariance: number;
+  shortValue: number;
+  excessValue: number;
+  netValue: number;
+}
+
+export const getStockTakeReference = (stockTake: Pick<StockTake, "id">): string =>
+  `ST-${stockTake.id.substring(0, 8).toUpperCase()}`;
+
+/**
+ * Units in full lots plus loose units, or null when nothing was entered
+ */
+export const getCountedQuantity = (lots: number | null, units: number | null, lotSize: number): number | null =>
+  lots === null && units === null ? null : (lots || 0) * Math.max(lotSize, 1) + (units || 0);
+
+/**
+ * Counted minus expected; positive means more stock was found than recorded
+ */
+export const getVariance = (item: Pick<StockTakeItem, "counted_quantity" | "expected_quantity">): number =>
+  item.counted_quantity === null ? 0 : item.counted_quantity - item.expected_quantity;
+
+export const getVarianceValue = (item: Pick<StockTakeItem, "counted_quantity" | "expected_quantity" | "unit_price">): number =>
+  getVariance(item) * item.unit_price;
+
+export const summarizeStockTake = (items: StockTakeItem[]): StockTakeSummary =>
+  items.reduce<StockTakeSummary>(
+    (summary, item) => {
+      const value = getVarianceValue(item);
+      if (item.counted_quantity !== null) summary.counted += 1;
+      if (getVariance(item) !== 0) summary.withVariance += 1;
+      if (value < 0) summary.shortValue += -value;
+      if (value > 0) summary.excessValue += value;
+      summary.netValue += value;
+      return summary;
+    },
+    { counted: 0, total: items.length, withVariance: 0, shortValue: 0, excessValue: 0, netValue: 0 }
+  );
@@ -11,6 +11,15 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
 import { Edit, Trash2, Plus, Building, Download, AlertTriangle, Clock, DollarSign, User, TrendingUp, TrendingDown } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import * as XLSX from 'exceljs';
@@ -18,7 +27,20 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
 import { Products } from "./Products"; // Import the Products component
 import UserManagement from "./UserManagement";
+import { GSTReturns } from "./GSTReturns";
 import { useState, useEffect, useCallback } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { INDIAN_STATES, getStateByCode } from "@/lib/indian-states";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { useAppSetting, useSaveAppSetting } from "@/hooks/useAppSettings";
+import { exportToCSV, formatCurrency, formatDateTime } from "@/lib/csv-export";
+import { AGING_BUCKETS, ReceivableBill, buildAgingReport, buildReminderList, getBillBalance, getDaysPastDue } from "@/lib/aging";
 
 interface ExpenseCategory {
   id: string;
@@ -31,6 +53,8 @@ interface SellerInfo {
   address: string;
   contact_number: string;
   gst_number: string;
+  state: string;
+  state_code: string;
   email: string;
   bank_account_number: string;
   account_holder_name: string;
@@ -41,35 +65,81 @@ interface SellerInfo {
   updated_at: string;
 }
 
+interface BalanceReconciliation {
+  customer_id: string;
+  name: string;
+  recorded_balance: number;
+  unpaid_bills: number;
+  credit_notes: number;
+  unapplied_advances: number;
+  bounce_charges: number;
+  expected_balance: number;
+  drift: number;
+}
+
+interface BalanceAdjustment {
+  id: string;
+  previous_balance: number;
+  new_balance: number;
+  amount: number;
+  reason: string;
+  adjusted_by_username: string | null;
+  adjusted_at: string;
+  customers: { name: string } | null;
+}
+
+interface NumberSeries {
+  document_type: "invoice" | "order";
+  prefix: string;
+  fy_format: "none" | "YYYY-YY" | "YY-YY" | "YYYY";
+  separator: string;
+  padding: number;
+  reset_rule: "never" | "financial_year";
+  updated_at: string;
+}
+
+interface SeriesForm {
+  prefix: string;
+  fy_format: string;
+  separator: string;
+  padding: string;
+  reset_rule: string;
+  next_number: string;
+}
+
 const GSTSettingsManager = () => {
   const { toast } = useToast();
-  const [sgstPercent, setSgstPercent] = useState(14);
-  const [cgstPercent, setCgstPercent] = useState(14);
-  const [cessPercent, setCessPercent] = useState(0);
+  const { data: gstDefaults, isLoading } = useAppSetting("gst_defaults");
+  const saveGstDefaults = useSaveAppSetting("gst_defaults");
+  const [sgstPercent, setSgstPercent] = useState(DEFAULT_SETTINGS.gst_defaults.sgst);
+  const [cgstPercent, setCgstPercent] = useState(DEFAULT_SETTINGS.gst_defaults.cgst);
+  const [cessPercent, setCessPercent] = useState(DEFAULT_SETTINGS.gst_defaults.cess);
 
   useEffect(() => {
-    // Load from localStorage on mount
-    const savedSgst = localStorage.getItem('default_sgst_percentage');
-    const savedCgst = localStorage.getItem('default_cgst_percentage');
-    const savedCess = localStorage.getItem('default_cess_percentage');
-
-    if (savedSgst) setSgstPercent(parseFloat(savedSgst));
-    if (savedCgst) setCgstPercent(parseFloat(savedCgst));
-    if (savedCess) setCessPercent(parseFloat(savedCess));
-  }, []);
-
-  const saveSettings = () => {
-    localStorage.setItem('default_sgst_percentage', sgstPercent.toString());
-    localStorage.setItem('default_cgst_percentage', cgstPercent.toString());
-    localStorage.setItem('default_cess_percentage', cessPercent.toString());
-    toast({ title: "Success", description: "Default GST rates saved successfully." });
+    if (!gstDefaults) return;
+    setSgstPercent(gstDefaults.sgst);
+    setCgstPercent(gstDefaults.cgst);
+    setCessPercent(gstDefaults.cess);
+  }, [gstDefaults]);
+
+  const saveSettings = async () => {
+    try {
+      await saveGstDefaults.mutateAsync({ sgst: sgstPercent, cgst: cgstPercent, cess: cessPercent });
+      toast({ title: "Success", description: "Default GST rates saved successfully." });
+    } catch (error) {
+      toast({
+        title: "Error saving GST rates",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
   };
 
   return (
     <div className="space-y-4 sm:space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0">
         <p className="text-muted-foreground text-sm sm:text-base">
-          Set default GST rates that will be used when creating new bills. You can still override them per bill.
+          Set default GST rates that will be used by everyone when creating new bills. You can still override them per bill.
         </p>
       </div>
 
@@ -121,8 +191,8 @@ const GSTSettingsManager = () => {
               </div>
             </div>
             <div className="flex justify-end pt-4">
-              <Button onClick={saveSettings} size="sm">
-                Save Settings
+              <Button onClick={saveSettings} size="sm" disabled={isLoading || saveGstDefaults.isPending}>
+                {saveGstDefaults.isPending ? "Saving..." : "Save Settings"}
               </Button>
             </div>
             <div className="mt-4 p-4 bg-muted rounded-lg">
@@ -314,6 +384,8 @@ const SellerInfoManager = () => {
     address: "",
     contact_number: "",
     gst_number: "",
+    state: "",
+    state_code: "",
     email: "",
     bank_account_number: "",
     account_holder_name: "",
@@ -335,6 +407,8 @@ const SellerInfoManager = () => {
           address: data.address,
           contact_number: data.contact_number,
           gst_number: data.gst_number || "",
+          state: data.state || "",
+          state_code: data.state_code || "",
           email: data.email || "",
           bank_account_number: data.bank_account_number,
           account_holder_name: data.account_holder_name,
@@ -493,6 +567,34 @@ const SellerInfoManager = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="seller_state" className="text-sm font-medium">State</Label>
+                <Select
+                  value={formData.state_code}
+                  onValueChange={(code) =>
+                    setFormData(prev => ({
+                      ...prev,
+                      state_code: code,
+                      state: getStateByCode(code)?.name || "",
+                    }))
+                  }
+                >
+                  <SelectTrigger id="seller_state">
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INDIAN_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>
+                        {state.code} - {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Bills to customers in other states are charged IGST instead of CGST + SGST.
+                </p>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="bank_account_number" className="text-sm font-medium">Bank Account Number</Label>
@@ -612,6 +714,13 @@ const SellerInfoManager = () => {
                 </div>
               </div>
 
+              <div>
+                <h3 className="font-semibold text-sm text-muted-foreground">State</h3>
+                <p className="text-sm">
+                  {sellerInfo.state ? `${sellerInfo.state} (${sellerInfo.state_code})` : "N/A"}
+                </p>
+              </div>
+
               <div className="border-t pt-4">
                 <h3 className="font-semibold text-sm text-muted-foreground mb-3">Bank Details</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -648,6 +757,236 @@ const SellerInfoManager = () => {
   );
 };
 
+const DOCUMENT_TYPE_LABELS: Record<NumberSeries["document_type"], string> = {
+  invoice: "Invoice Numbers",
+  order: "Order Numbers",
+};
+
+// Financial year (April to March) label such as 2026-27, matching financial_year_label() in the database
+const getFinancialYearLabel = (date: Date) => {
+  const startYear = date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+const formatSeriesNumber = (series: SeriesForm, nextNumber: number) => {
+  const fy = getFinancialYearLabel(new Date());
+  const parts: string[] = [];
+  if (series.prefix.trim()) parts.push(series.prefix.trim());
+  if (series.fy_format === "YYYY-YY") parts.push(fy);
+  if (series.fy_format === "YY-YY") parts.push(fy.slice(2));
+  if (series.fy_format === "YYYY") parts.push(fy.slice(0, 4));
+  parts.push(String(nextNumber).padStart(parseInt(series.padding) || 1, "0"));
+  return parts.join(series.separator);
+};
+
+const NumberSeriesManager = () => {
+  const { toast } = useToast();
+  const [forms, setForms] = useState<Record<string, SeriesForm>>({});
+  const [counters, setCounters] = useState<{ document_type: string; period: string; last_number: number }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingType, setSavingType] = useState<string | null>(null);
+
+  const fetchSeries = useCallback(async () => {
+    setLoading(true);
+    const [seriesRes, countersRes] = await Promise.all([
+      supabase.from("number_series").select("*").order("document_type"),
+      supabase.from("number_series_counters").select("*"),
+    ]);
+    if (seriesRes.error || countersRes.error) {
+      toast({
+        title: "Error fetching numbering settings",
+        description: (seriesRes.error || countersRes.error)?.message,
+        variant: "destructive",
+      });
+    } else {
+      const nextForms: Record<string, SeriesForm> = {};
+      (seriesRes.data as NumberSeries[]).forEach((series) => {
+        nextForms[series.document_type] = {
+          prefix: series.prefix,
+          fy_format: series.fy_format,
+          separator: series.separator,
+          padding: series.padding.toString(),
+          reset_rule: series.reset_rule,
+          next_number: "",
+        };
+      });
+      setForms(nextForms);
+      setCounters(countersRes.data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  const updateForm = (documentType: string, field: keyof SeriesForm, value: string) => {
+    setForms((prev) => ({ ...prev, [documentType]: { ...prev[documentType], [field]: value } }));
+  };
+
+  const getNextNumber = (documentType: string, form: SeriesForm) => {
+    if (form.next_number) return parseInt(form.next_number) || 1;
+    const period = form.reset_rule === "financial_year" ? getFinancialYearLabel(new Date()) : "all";
+    const counter = counters.find((c) => c.document_type === documentType && c.period === period);
+    return (counter?.last_number || 0) + 1;
+  };
+
+  const saveSeries = async (documentType: string) => {
+    const form = forms[documentType];
+    const padding = parseInt(form.padding);
+    if (!padding || padding < 1 || padding > 10) {
+      toast({ title: "Error", description: "Padding must be between 1 and 10 digits.", variant: "destructive" });
+      return;
+    }
+    if (form.reset_rule === "financial_year" && form.fy_format === "none") {
+      toast({
+        title: "Error",
+        description: "Include the financial year in the format when numbering resets every financial year.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.next_number && !(parseInt(form.next_number) >= 1)) {
+      toast({ title: "Error", description: "Next number must be at least 1.", variant: "destructive" });
+      return;
+    }
+
+    setSavingType(documentType);
+    const { error } = await supabase.rpc("update_number_series", {
+      p_document_type: documentType,
+      p_prefix: form.prefix,
+      p_fy_format: form.fy_format,
+      p_separator: form.separator,
+      p_padding: padding,
+      p_reset_rule: form.reset_rule,
+      p_next_number: form.next_number ? parseInt(form.next_number) : null,
+    });
+    setSavingType(null);
+
+    if (error) {
+      toast({ title: "Error saving numbering", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Success", description: `${DOCUMENT_TYPE_LABELS[documentType as NumberSeries["document_type"]]} updated.` });
+      fetchSeries();
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0">
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Configure how invoice and order numbers are generated. Series set to reset each financial year start again from 1 on 1 April.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        Object.entries(forms).map(([documentType, form]) => (
+          <Card key={documentType}>
+            <CardHeader className="pb-3 sm:pb-6">
+              <CardTitle className="text-lg sm:text-xl">
+                {DOCUMENT_TYPE_LABELS[documentType as NumberSeries["document_type"]]}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${documentType}-prefix`} className="text-sm font-medium">Prefix</Label>
+                    <Input
+                      id={`${documentType}-prefix`}
+                      value={form.prefix}
+                      onChange={(e) => updateForm(documentType, "prefix", e.target.value)}
+                      placeholder="INV"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Financial Year</Label>
+                    <Select value={form.fy_format} onValueChange={(value) => updateForm(documentType, "fy_format", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not included</SelectItem>
+                        <SelectItem value="YYYY-YY">2026-27</SelectItem>
+                        <SelectItem value="YY-YY">26-27</SelectItem>
+                        <SelectItem value="YYYY">2026</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Separator</Label>
+                    <Select
+                      value={form.separator || "none"}
+                      onValueChange={(value) => updateForm(documentType, "separator", value === "none" ? "" : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="/">Slash (/)</SelectItem>
+                        <SelectItem value="-">Hyphen (-)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${documentType}-padding`} className="text-sm font-medium">Number Digits</Label>
+                    <Input
+                      id={`${documentType}-padding`}
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={form.padding}
+                      onChange={(e) => updateForm(documentType, "padding", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Reset Numbering</Label>
+                    <Select value={form.reset_rule} onValueChange={(value) => updateForm(documentType, "reset_rule", value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="never">Never</SelectItem>
+                        <SelectItem value="financial_year">Every financial year</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${documentType}-next`} className="text-sm font-medium">Next Number</Label>
+                    <Input
+                      id={`${documentType}-next`}
+                      type="number"
+                      min="1"
+                      value={form.next_number}
+                      onChange={(e) => updateForm(documentType, "next_number", e.target.value)}
+                      placeholder={`${getNextNumber(documentType, { ...form, next_number: "" })} (leave blank to continue)`}
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 pt-4">
+                  <div className="p-3 bg-muted rounded-lg">
+                    <p className="text-sm text-muted-foreground">
+                      <strong>Next number:</strong> {formatSeriesNumber(form, getNextNumber(documentType, form))}
+                    </p>
+                  </div>
+                  <Button onClick={() => saveSeries(documentType)} size="sm" disabled={savingType === documentType}>
+                    {savingType === documentType ? "Saving..." : "Save Numbering"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
 const DatabaseExportManager = () => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
@@ -668,21 +1007,42 @@ SET session_replication_role = replica;
       // Define all tables to export (in order to respect foreign key constraints)
       const tables = [
         'roles',
+        'permissions',
+        'role_permissions',
         'users',
         'user_roles',
         'expense_categories',
         'seller_info',
+        'app_settings',
+        'number_series',
+        'number_series_counters',
         'customers',
         'products',
         'inventory',
+        'inventory_batches',
+        'stock_locations',
+        'location_stock',
         'bills',
         'bill_items',
+        'credit_notes',
+        'credit_note_items',
         'orders',
         'order_items',
+        'purchase_bills',
+        'purchase_bill_items',
         'inventory_transactions',
+        'stock_takes',
+        'stock_take_items',
+        'cheques',
+        'vendor_settlements',
         'transactions',
         'damaged_stock_log',
-        'credit'
+        'credit',
+        'vendor_settlement_credits',
+        'customer_advances',
+        'advance_applications',
+        'payment_reversals',
+        'balance_adjustments'
       ];
 
       // Export each table
@@ -777,17 +1137,38 @@ SET session_replication_role = replica;
         'customers',
         'products',
         'inventory',
+        'inventory_batches',
+        'stock_locations',
+        'location_stock',
         'bills',
         'bill_items',
+        'credit_notes',
+        'credit_note_items',
         'orders',
         'order_items',
+        'purchase_bills',
+        'purchase_bill_items',
         'inventory_transactions',
+        'stock_takes',
+        'stock_take_items',
         'expense_categories',
+        'cheques',
+        'vendor_settlements',
         'transactions',
         'damaged_stock_log',
         'credit',
+        'vendor_settlement_credits',
+        'customer_advances',
+        'advance_applications',
+        'payment_reversals',
+        'balance_adjustments',
         'seller_info',
+        'app_settings',
+        'number_series',
+        'number_series_counters',
         'roles',
+        'permissions',
+        'role_permissions',
         'user_roles'
       ];
 
@@ -1023,10 +1404,7 @@ const InsightsManager = () => {
 
   const fetchOutstandingBills = useCallback(async () => {
     try {
-      // Get bills that are outstanding for more than 15 days
-      const fifteenDaysAgo = new Date();
-      fifteenDaysAgo.setDate(fifteenDaysAgo.getDate() - 15);
-
+      // Get every unpaid bill; aging and overdue checks use the due date
       const { data, error } = await supabase
         .from('bills')
         .select(`
@@ -1034,8 +1412,10 @@ const InsightsManager = () => {
           invoice_number,
           total_amount,
           paid_amount,
+          credited_amount,
           status,
           date_of_bill,
+          due_date,
           created_at,
           customers (
             id,
@@ -1045,8 +1425,7 @@ const InsightsManager = () => {
           )
         `)
         .in('status', ['outstanding', 'partial'])
-        .lt('date_of_bill', fifteenDaysAgo.toISOString())
-        .order('date_of_bill', { ascending: true });
+        .order('due_date', { ascending: true });
 
       if (error) {
         toast({
@@ -1078,32 +1457,24 @@ const InsightsManager = () => {
     fetchData();
   }, [fetchOutstandingBills, fetchProductOrderData]);
 
-  const getDaysOverdue = (billDate: string) => {
-    const billDateObj = new Date(billDate);
-    const today = new Date();
-    const diffTime = Math.abs(today.getTime() - billDateObj.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
-  };
-
-  const getOutstandingAmount = (total: number, paid: number) => {
-    return total - paid;
-  };
+  const overdueBills = outstandingBills.filter(bill => getDaysPastDue(bill) > 0);
+  const agingReport = buildAgingReport(outstandingBills as ReceivableBill[]);
+  const reminders = buildReminderList(outstandingBills as ReceivableBill[]);
 
   const getTotalOutstandingAmount = () => {
-    return outstandingBills.reduce((total, bill) => {
-      return total + getOutstandingAmount(bill.total_amount, bill.paid_amount);
+    return overdueBills.reduce((total, bill) => {
+      return total + getBillBalance(bill);
     }, 0);
   };
 
   const getTotalOutstandingBills = () => {
-    return outstandingBills.length;
+    return overdueBills.length;
   };
 
   const getCustomersWithOutstandingBills = () => {
     const customerMap = new Map();
 
-    outstandingBills.forEach(bill => {
+    overdueBills.forEach(bill => {
       if (bill.customers) {
         const customerId = bill.customers.id;
         if (!customerMap.has(customerId)) {
@@ -1119,16 +1490,17 @@ const InsightsManager = () => {
         }
 
         const customer = customerMap.get(customerId);
-        const outstandingAmount = getOutstandingAmount(bill.total_amount, bill.paid_amount);
+        const outstandingAmount = getBillBalance(bill);
 
         customer.bills.push({
           id: bill.id,
           invoice_number: bill.invoice_number,
           date_of_bill: bill.date_of_bill,
+          due_date: bill.due_date,
           total_amount: bill.total_amount,
           paid_amount: bill.paid_amount,
           outstanding_amount: outstandingAmount,
-          days_overdue: getDaysOverdue(bill.date_of_bill)
+          days_overdue: getDaysPastDue(bill)
         });
 
         customer.total_outstanding += outstandingAmount;
@@ -1195,7 +1567,7 @@ const InsightsManager = () => {
           <CardContent>
             <div className="text-2xl font-bold">{getTotalOutstandingBills()}</div>
             <p className="text-xs text-muted-foreground">
-              Bills older than 15 days
+              Bills past their due date
             </p>
           </CardContent>
         </Card>
@@ -1383,6 +1755,154 @@ const InsightsManager = () => {
         </Card>
       </div>
 
+      {/* Receivables Aging */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg sm:text-xl">Receivables Aging</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={agingReport.customers.length === 0}
+            onClick={() =>
+              exportToCSV({
+                filename: 'receivables-aging',
+                headers: ['Customer', 'Phone', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total'],
+                data: agingReport.customers,
+                transformData: (row) => ({
+                  'Customer': row.name,
+                  'Phone': row.phone || '',
+                  ...Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket.label, formatCurrency(row.buckets[bucket.value])])),
+                  'Total': formatCurrency(row.total)
+                })
+              })
+            }
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            </div>
+          ) : agingReport.customers.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-muted-foreground">No unpaid bills.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableHead key={bucket.value} className="text-right">{bucket.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agingReport.customers.map(row => (
+                    <TableRow key={row.customer_id}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      {AGING_BUCKETS.map(bucket => (
+                        <TableCell
+                          key={bucket.value}
+                          className={`text-right ${bucket.value === '90+' && row.buckets[bucket.value] > 0 ? 'text-red-600 font-medium' : ''}`}
+                        >
+                          {row.buckets[bucket.value] > 0 ? `₹${row.buckets[bucket.value].toLocaleString()}` : '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">₹{row.total.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-muted/50">
+                    <TableCell className="font-semibold">Total</TableCell>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket.value} className="text-right font-semibold">
+                        ₹{agingReport.totals[bucket.value].toLocaleString()}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-semibold">₹{agingReport.total.toLocaleString()}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payment Reminders */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg sm:text-xl">Call Today</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={reminders.length === 0}
+            onClick={() =>
+              exportToCSV({
+                filename: 'payment-reminders',
+                headers: ['Customer', 'Phone', 'Overdue Amount', 'Due Today', 'Overdue Bills', 'Days Past Due'],
+                data: reminders,
+                transformData: (row) => ({
+                  'Customer': row.name,
+                  'Phone': row.phone || '',
+                  'Overdue Amount': formatCurrency(row.overdueAmount),
+                  'Due Today': formatCurrency(row.dueTodayAmount),
+                  'Overdue Bills': row.overdueBills,
+                  'Days Past Due': row.maxDaysPastDue
+                })
+              })
+            }
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            </div>
+          ) : reminders.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-muted-foreground">Nobody to follow up with today.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead className="text-right">Overdue</TableHead>
+                    <TableHead className="text-right">Due Today</TableHead>
+                    <TableHead className="text-right">Days Past Due</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reminders.map(row => (
+                    <TableRow key={row.customer_id}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell>{row.phone || '-'}</TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {row.overdueAmount > 0 ? `₹${row.overdueAmount.toLocaleString()} (${row.overdueBills})` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right text-orange-600">
+                        {row.dueTodayAmount > 0 ? `₹${row.dueTodayAmount.toLocaleString()}` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{row.maxDaysPastDue}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Customer Cards */}
       <Card>
         <CardHeader>
@@ -1393,11 +1913,11 @@ const InsightsManager = () => {
             <div className="flex justify-center py-8">
               <p className="text-sm text-muted-foreground">Loading outstanding bills...</p>
             </div>
-          ) : outstandingBills.length === 0 ? (
+          ) : overdueBills.length === 0 ? (
             <div className="text-center py-8">
               <AlertTriangle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <p className="text-sm text-muted-foreground">No outstanding bills found.</p>
-              <p className="text-xs text-muted-foreground mt-1">All bills are either paid or less than 15 days old.</p>
+              <p className="text-sm text-muted-foreground">No overdue bills found.</p>
+              <p className="text-xs text-muted-foreground mt-1">All bills are either paid or not yet due.</p>
             </div>
           ) : (
             <div className="space-y-4">
@@ -1443,7 +1963,7 @@ const InsightsManager = () => {
                               <div>
                                 <p className="font-medium">{bill.invoice_number}</p>
                                 <p className="text-xs text-muted-foreground">
-                                  {new Date(bill.date_of_bill).toLocaleDateString()}
+                                  Due {new Date(bill.due_date || bill.date_of_bill).toLocaleDateString()}
                                 </p>
                               </div>
                               <div className="text-right">
@@ -1470,6 +1990,257 @@ const InsightsManager = () => {
   );
 };
 
+// Differences below a paisa are rounding, not drift
+const hasDrift = (row: BalanceReconciliation) => Math.abs(row.drift) >= 0.01;
+
+const BalanceReconciliationManager = () => {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<BalanceReconciliation[]>([]);
+  const [adjustments, setAdjustments] = useState<BalanceAdjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showMismatchesOnly, setShowMismatchesOnly] = useState(true);
+  const [rowToFix, setRowToFix] = useState<BalanceReconciliation | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchReconciliation = useCallback(async () => {
+    setLoading(true);
+    const [reconciliationRes, adjustmentsRes] = await Promise.all([
+      supabase.rpc("get_balance_reconciliation"),
+      supabase.from("balance_adjustments").select("*, customers(name)").order("adjusted_at", { ascending: false }).limit(50),
+    ]);
+    if (reconciliationRes.error) {
+      toast({ title: "Error reconciling balances", description: reconciliationRes.error.message, variant: "destructive" });
+    } else {
+      setRows((reconciliationRes.data as BalanceReconciliation[]) || []);
+    }
+    if (adjustmentsRes.error) {
+      toast({ title: "Error fetching adjustments", description: adjustmentsRes.error.message, variant: "destructive" });
+    } else {
+      setAdjustments(adjustmentsRes.data as unknown as BalanceAdjustment[]);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchReconciliation();
+  }, [fetchReconciliation]);
+
+  const mismatches = rows.filter(hasDrift);
+  const visibleRows = showMismatchesOnly ? mismatches : rows;
+  const totalDrift = mismatches.reduce((sum, row) => sum + row.drift, 0);
+
+  const openFixDialog = (row: BalanceReconciliation) => {
+    setRowToFix(row);
+    setReason("");
+  };
+
+  const fixBalance = async () => {
+    if (!rowToFix) return;
+    if (!reason.trim()) {
+      toast({ title: "Error", description: "Please enter why this balance is being adjusted.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase.rpc("reconcile_customer_balance", { p_customer_id: rowToFix.customer_id, p_reason: reason.trim() });
+    if (error) {
+      toast({ title: "Error adjusting balance", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Success", description: `Balance of ${rowToFix.name} set to Rs. ${rowToFix.expected_balance.toFixed(2)}.` });
+      setRowToFix(null);
+      fetchReconciliation();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Compare each customer's outstanding balance with unpaid bills, less credit notes and unused advances, plus cheque bounce charges.
+        </p>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <Button variant="outline" size="sm" onClick={fetchReconciliation} disabled={loading} className="w-full sm:w-auto">
+            Recheck
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={mismatches.length === 0}
+            onClick={() => {
+              try {
+                exportToCSV({
+                  filename: 'balance-drift',
+                  headers: ['Customer', 'Recorded', 'Unpaid Bills', 'Credit Notes', 'Unused Advances', 'Bounce Charges', 'Expected', 'Drift'],
+                  data: mismatches,
+                  transformData: (row) => ({
+                    'Customer': row.name,
+                    'Recorded': formatCurrency(row.recorded_balance),
+                    'Unpaid Bills': formatCurrency(row.unpaid_bills),
+                    'Credit Notes': formatCurrency(row.credit_notes),
+                    'Unused Advances': formatCurrency(row.unapplied_advances),
+                    'Bounce Charges': formatCurrency(row.bounce_charges),
+                    'Expected': formatCurrency(row.expected_balance),
+                    'Drift': formatCurrency(row.drift)
+                  })
+                });
+                toast({ title: "Success", description: "Drift report exported to CSV successfully" });
+              } catch (error) {
+                toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+              }
+            }}
+            className="gap-2 w-full sm:w-auto"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3 sm:pb-6">
+          <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+            <CardTitle className="text-lg sm:text-xl">Balance Drift</CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch id="mismatches-only" checked={showMismatchesOnly} onCheckedChange={setShowMismatchesOnly} />
+              <Label htmlFor="mismatches-only" className="text-sm">Mismatches only</Label>
+            </div>
+          </div>
+          {!loading && (
+            <p className="text-sm text-muted-foreground">
+              {mismatches.length === 0
+                ? `All ${rows.length} customer balances match.`
+                : `${mismatches.length} of ${rows.length} customers drift by a net Rs. ${totalDrift.toFixed(2)}.`}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            </div>
+          ) : visibleRows.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-sm text-muted-foreground">No balance mismatches found.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead className="text-right">Recorded</TableHead>
+                    <TableHead className="text-right hidden md:table-cell">Unpaid Bills</TableHead>
+                    <TableHead className="text-right hidden lg:table-cell">Credit Notes</TableHead>
+                    <TableHead className="text-right hidden lg:table-cell">Unused Advances</TableHead>
+                    <TableHead className="text-right hidden lg:table-cell">Bounce Charges</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Drift</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <TableRow key={row.customer_id}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">Rs. {row.recorded_balance.toFixed(2)}</TableCell>
+                      <TableCell className="text-right hidden md:table-cell">Rs. {row.unpaid_bills.toFixed(2)}</TableCell>
+                      <TableCell className="text-right hidden lg:table-cell">Rs. {row.credit_notes.toFixed(2)}</TableCell>
+                      <TableCell className="text-right hidden lg:table-cell">Rs. {row.unapplied_advances.toFixed(2)}</TableCell>
+                      <TableCell className="text-right hidden lg:table-cell">Rs. {row.bounce_charges.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">Rs. {row.expected_balance.toFixed(2)}</TableCell>
+                      <TableCell className={`text-right font-semibold ${hasDrift(row) ? "text-red-600" : "text-green-600"}`}>
+                        {row.drift > 0 ? "+" : ""}{row.drift.toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {hasDrift(row) && (
+                          <Button variant="outline" size="sm" onClick={() => openFixDialog(row)}>
+                            Fix
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3 sm:pb-6">
+          <CardTitle className="text-lg sm:text-xl">Recent Adjustments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {adjustments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No balance adjustments recorded.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead className="text-right">From</TableHead>
+                    <TableHead className="text-right">To</TableHead>
+                    <TableHead className="text-right">Adjustment</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="hidden md:table-cell">By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {adjustments.map((adjustment) => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell className="text-xs">{formatDateTime(adjustment.adjusted_at)}</TableCell>
+                      <TableCell>{adjustment.customers?.name || 'N/A'}</TableCell>
+                      <TableCell className="text-right">Rs. {adjustment.previous_balance.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">Rs. {adjustment.new_balance.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{adjustment.amount > 0 ? "+" : ""}{adjustment.amount.toFixed(2)}</TableCell>
+                      <TableCell className="max-w-xs truncate">{adjustment.reason}</TableCell>
+                      <TableCell className="hidden md:table-cell">{adjustment.adjusted_by_username || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!rowToFix} onOpenChange={(open) => !open && setRowToFix(null)}>
+        <DialogContent className="w-[95vw] max-w-md mx-auto">
+          <DialogHeader>
+            <DialogTitle className="text-lg sm:text-xl">Adjust Balance</DialogTitle>
+          </DialogHeader>
+          {rowToFix && (
+            <div className="py-2 space-y-3">
+              <p className="text-sm">
+                Set the balance of <span className="font-medium">{rowToFix.name}</span> from Rs. {rowToFix.recorded_balance.toFixed(2)} to Rs. {rowToFix.expected_balance.toFixed(2)}. The change of Rs. {(rowToFix.expected_balance - rowToFix.recorded_balance).toFixed(2)} is kept as an adjustment entry and shows on the customer's statement.
+              </p>
+              <Label htmlFor="adjustmentReason" className="text-sm font-medium">Reason</Label>
+              <Textarea
+                id="adjustmentReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Why does this balance need correcting?"
+              />
+            </div>
+          )}
+          <div className="flex flex-col sm:flex-row justify-end gap-2">
+            <Button variant="outline" onClick={() => setRowToFix(null)} className="w-full sm:w-auto text-sm" size="sm">
+              Cancel
+            </Button>
+            <Button onClick={fixBalance} disabled={saving} className="w-full sm:w-auto text-sm" size="sm">
+              {saving ? "Saving..." : "Record Adjustment"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
 export const Admin = () => {
   // The ProtectedRoute component already ensures that only admins can access this page.
   // No need for a separate loading or access check here.
@@ -1503,7 +2274,7 @@ export const Admin = () => {
 
         <TabsContent value="seller" className="mt-4 sm:mt-6">
           <Tabs defaultValue="products" className="w-full">
-            <TabsList className="grid w-full grid-cols-4 h-auto p-1">
+            <TabsList className="grid w-full grid-cols-5 h-auto p-1">
               <TabsTrigger
                 value="products"
                 className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
@@ -1518,6 +2289,13 @@ export const Admin = () => {
                 <span className="hidden sm:inline">Seller Info</span>
                 <span className="sm:hidden">Seller</span>
               </TabsTrigger>
+              <TabsTrigger
+                value="numbering"
+                className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
+              >
+                <span className="hidden sm:inline">Numbering</span>
+                <span className="sm:hidden">Numbers</span>
+              </TabsTrigger>
               <TabsTrigger
                 value="gst-settings"
                 className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
@@ -1540,6 +2318,9 @@ export const Admin = () => {
             <TabsContent value="seller-info" className="mt-4 sm:mt-6">
               <SellerInfoManager />
             </TabsContent>
+            <TabsContent value="numbering" className="mt-4 sm:mt-6">
+              <NumberSeriesManager />
+            </TabsContent>
             <TabsContent value="gst-settings" className="mt-4 sm:mt-6">
               <GSTSettingsManager />
             </TabsContent>
@@ -1551,7 +2332,7 @@ export const Admin = () => {
 
         <TabsContent value="admin-tools" className="mt-4 sm:mt-6">
           <Tabs defaultValue="insights" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 h-auto p-1">
+            <TabsList className="grid w-full grid-cols-5 h-auto p-1">
               <TabsTrigger
                 value="insights"
                 className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
@@ -1566,6 +2347,20 @@ export const Admin = () => {
                 <span className="hidden sm:inline">User Management</span>
                 <span className="sm:hidden">Users</span>
               </TabsTrigger>
+              <TabsTrigger
+                value="gst-returns"
+                className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
+              >
+                <span className="hidden sm:inline">GST Returns</span>
+                <span className="sm:hidden">Returns</span>
+              </TabsTrigger>
+              <TabsTrigger
+                value="reconciliation"
+                className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
+              >
+                <span className="hidden sm:inline">Reconciliation</span>
+                <span className="sm:hidden">Balances</span>
+              </TabsTrigger>
               <TabsTrigger
                 value="export"
                 className="text-xs sm:text-sm px-2 sm:px-4 py-2 data-[state=active]:bg-background"
@@ -1581,6 +2376,12 @@ export const Admin = () => {
             <TabsContent value="user-management" className="mt-4 sm:mt-6">
               <UserManagement />
             </TabsContent>
+            <TabsContent value="gst-returns" className="mt-4 sm:mt-6">
+              <GSTReturns />
+            </TabsContent>
+            <TabsContent value="reconciliation" className="mt-4 sm:mt-6">
+              <BalanceReconciliationManager />
+            </TabsContent>
             <TabsContent value="export" className="mt-4 sm:mt-6">
               <DatabaseExportManager />
             </TabsContent>
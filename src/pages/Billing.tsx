@@ -33,7 +33,7 @@ import {
   TableCell,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Trash2, Plus, Download, ChevronsUpDown, Check } from "lucide-react";
+import { Trash2, Plus, Download, ChevronsUpDown, Check, Pencil, X } from "lucide-react";
 import {
   Command,
   CommandEmpty,
@@ -52,12 +52,18 @@ import {
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
 import { Checkbox } from "@/components/ui/checkbox";
-import html2pdf from "html2pdf.js";
 import InvoiceTemplate from "@/components/templates/InvoiceTemplate";
 import ReceiptTemplate from "@/components/templates/ReceiptTemplate";
-import { createRoot } from "react-dom/client";
+import CreditNoteTemplate from "@/components/templates/CreditNoteTemplate";
+import { openDocumentPreview } from "@/lib/document-preview";
+import { calculateLineTax, getBillRates, hasLineRates } from "@/lib/gst-utils";
 import { Customer } from "./Customers";
 import { exportToCSV, formatCurrency, formatDate } from "@/lib/csv-export";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+import { CustomerAdvance, getAdvanceBalances } from "@/lib/advances";
+import { useAppSetting } from "@/hooks/useAppSettings";
+import { usePermissions } from "@/hooks/usePermissions";
+import { LocationQuantity, StockLocation, getDefaultLocation, getLocationQuantity } from "@/lib/stock-locations";
 
 // Interfaces
 export interface BillItem {
@@ -68,6 +74,9 @@ export interface BillItem {
   quantity: number;
   price: number;
   lot_price: number;
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+  cess_rate?: number | null;
 }
 
 interface Product {
@@ -76,7 +85,11 @@ interface Product {
   price: number;
   lot_size: number;
   lot_price: number;
+  hsn_code: string | null;
+  gst_rate: number | null;
+  cess_rate: number | null;
   inventory: { quantity: number };
+  location_stock: LocationQuantity[];
 }
 
 interface Bill {
@@ -85,8 +98,33 @@ interface Bill {
   created_at: string;
   date_of_bill: string;
   total_amount: number;
+  discount: number | null;
   status: "outstanding" | "paid" | "partial";
   is_gst_bill: boolean;
+  igst_percentage?: number;
+  is_inter_state?: boolean;
+  customer_id: string | null;
+  customers: { name: string } | null;
+}
+
+interface ReturnItem {
+  bill_item_id: string;
+  product_id: string;
+  product_name: string;
+  billed_quantity: number;
+  returned_quantity: number;
+  price: number;
+  quantity: string;
+}
+
+interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  created_at: string;
+  date_of_credit_note: string;
+  total_amount: number;
+  reason: string | null;
+  bills: { invoice_number: string } | null;
   customers: { name: string } | null;
 }
 
@@ -97,6 +135,8 @@ interface SellerInfo {
   contact_number: string;
   address?: string;
   gst_number?: string;
+  state?: string;
+  state_code?: string;
   bank_account_number?: string;
   account_holder_name?: string;
   account_no?: string;
@@ -106,6 +146,7 @@ interface SellerInfo {
 
 export const Billing = () => {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const location = useLocation();
   const navigate = useNavigate();
   const orderState = location.state?.order;
@@ -119,22 +160,27 @@ export const Billing = () => {
   const [orderId, setOrderId] = useState<string | null>(null);
   const [billDate, setBillDate] = useState<Date | undefined>(new Date());
   const [isGstBill, setIsGstBill] = useState(false);
-  const [sgstPercent, setSgstPercent] = useState(() => {
-    const saved = localStorage.getItem('default_sgst_percentage');
-    return saved ? parseFloat(saved) : 14;
-  });
-  const [cgstPercent, setCgstPercent] = useState(() => {
-    const saved = localStorage.getItem('default_cgst_percentage');
-    return saved ? parseFloat(saved) : 14;
-  });
-  const [cessPercent, setCessPercent] = useState(() => {
-    const saved = localStorage.getItem('default_cess_percentage');
-    return saved ? parseFloat(saved) : 0;
-  });
+  const [applyAdvance, setApplyAdvance] = useState(true);
+  const [billLocation, setBillLocation] = useState("");
+  const [activeTab, setActiveTab] = useState("create-bill");
+
+  // Edit Bill states
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  // Quantities already on the bill being edited, per product. They are
+  // returned to stock when the bill is saved, so they count as available.
+  const [originalQuantities, setOriginalQuantities] = useState<
+    Record<string, number>
+  >({});
+  const [originalLocationId, setOriginalLocationId] = useState("");
+  const { data: gstDefaults } = useAppSetting("gst_defaults");
+  const [sgstPercent, setSgstPercent] = useState(DEFAULT_SETTINGS.gst_defaults.sgst);
+  const [cgstPercent, setCgstPercent] = useState(DEFAULT_SETTINGS.gst_defaults.cgst);
+  const [cessPercent, setCessPercent] = useState(DEFAULT_SETTINGS.gst_defaults.cess);
 
   // Shared states
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [sellerInfo, setSellerInfo] = useState<SellerInfo | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -145,12 +191,21 @@ export const Billing = () => {
   const [statusFilter, setStatusFilter] = useState("all");
   const [gstFilter, setGstFilter] = useState("all");
   const [billToDelete, setBillToDelete] = useState<string | null>(null);
+  const [advances, setAdvances] = useState<CustomerAdvance[]>([]);
+
+  // Returns states
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [returnBillId, setReturnBillId] = useState("");
+  const [returnItems, setReturnItems] = useState<ReturnItem[]>([]);
+  const [returnReason, setReturnReason] = useState("");
+  const [returnDate, setReturnDate] = useState<Date | undefined>(new Date());
 
   // Searchable dropdown states
   const [customerSearchOpen, setCustomerSearchOpen] = useState(false);
   const [productSearchOpen, setProductSearchOpen] = useState(false);
   const [customerFilterSearchOpen, setCustomerFilterSearchOpen] =
     useState(false);
+  const [returnBillSearchOpen, setReturnBillSearchOpen] = useState(false);
 
   const handleDeleteBill = async () => {
     if (!billToDelete) return;
@@ -184,11 +239,15 @@ export const Billing = () => {
       .eq("type", "customer");
     const productPromise = supabase
       .from("products")
-      .select("*, inventory(quantity)");
+      .select("*, inventory(quantity), location_stock(location_id, quantity)");
+    const locationsPromise = supabase
+      .from("stock_locations")
+      .select("*")
+      .order("name");
     const billsPromise = supabase
       .from("bills")
       .select(
-        "id, invoice_number, created_at, date_of_bill, total_amount, status, is_gst_bill, customers ( name )"
+        "id, invoice_number, created_at, date_of_bill, total_amount, discount, status, is_gst_bill, igst_percentage, is_inter_state, customer_id, customers ( name )"
       )
       .order("date_of_bill", { ascending: false });
     const sellerInfoPromise = supabase
@@ -196,12 +255,32 @@ export const Billing = () => {
       .select("*")
       .limit(1)
       .maybeSingle();
-
-    const [customerRes, productRes, billsRes, sellerInfoRes] = await Promise.all([
+    const creditNotesPromise = supabase
+      .from("credit_notes")
+      .select(
+        "id, credit_note_number, created_at, date_of_credit_note, total_amount, reason, bills ( invoice_number ), customers ( name )"
+      )
+      .order("date_of_credit_note", { ascending: false });
+    const advancesPromise = supabase
+      .from("customer_advances")
+      .select("*, advance_applications(amount)");
+
+    const [
+      customerRes,
+      productRes,
+      locationsRes,
+      billsRes,
+      sellerInfoRes,
+      creditNotesRes,
+      advancesRes,
+    ] = await Promise.all([
       customerPromise,
       productPromise,
+      locationsPromise,
       billsPromise,
       sellerInfoPromise,
+      creditNotesPromise,
+      advancesPromise,
     ]);
 
     if (customerRes.error)
@@ -220,6 +299,14 @@ export const Billing = () => {
       });
     else setProducts(productRes.data || []);
 
+    if (locationsRes.error)
+      toast({
+        title: "Error fetching stock locations",
+        description: locationsRes.error.message,
+        variant: "destructive",
+      });
+    else setLocations(locationsRes.data || []);
+
     if (billsRes.error)
       toast({
         title: "Error fetching bills",
@@ -245,13 +332,81 @@ export const Billing = () => {
       });
     else setSellerInfo(sellerInfoRes.data);
 
+    if (creditNotesRes.error)
+      toast({
+        title: "Error fetching credit notes",
+        description: creditNotesRes.error.message,
+        variant: "destructive",
+      });
+    else {
+      const transformedNotes = (creditNotesRes.data || []).map((note) => ({
+        ...note,
+        bills: Array.isArray(note.bills) ? note.bills[0] || null : note.bills,
+        customers: Array.isArray(note.customers)
+          ? note.customers[0] || null
+          : note.customers,
+      }));
+      setCreditNotes(transformedNotes as unknown as CreditNote[]);
+    }
+
+    if (advancesRes.error)
+      toast({
+        title: "Error fetching advances",
+        description: advancesRes.error.message,
+        variant: "destructive",
+      });
+    else setAdvances(advancesRes.data || []);
+
     setLoading(false);
   }, [toast]);
 
+  const advanceBalances = useMemo(() => getAdvanceBalances(advances), [advances]);
+
+  // New bills draw from the default location unless another one is picked
+  useEffect(() => {
+    if (!billLocation) setBillLocation(getDefaultLocation(locations)?.id || "");
+  }, [locations, billLocation]);
+  const selectedCustomerAdvance = advanceBalances[selectedCustomer] || 0;
+
+  const handleApplyAdvance = async (billId: string) => {
+    setLoading(true);
+    const { data: applied, error } = await supabase.rpc("apply_customer_advance", {
+      p_bill_id: billId,
+    });
+    setLoading(false);
+
+    if (error) {
+      toast({
+        title: "Error applying advance",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Advance applied",
+      description: `Rs. ${Number(applied || 0).toFixed(2)} of the customer's advance was applied to this bill`,
+    });
+    fetchData();
+  };
+
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // New bills start from the shared default GST rates
+  const applyGstDefaults = useCallback(() => {
+    const defaults = gstDefaults ?? DEFAULT_SETTINGS.gst_defaults;
+    setSgstPercent(defaults.sgst);
+    setCgstPercent(defaults.cgst);
+    setCessPercent(defaults.cess);
+  }, [gstDefaults]);
+
+  useEffect(() => {
+    applyGstDefaults();
+  }, [applyGstDefaults]);
+
   useEffect(() => {
     if (orderState && products.length > 0 && customers.length > 0) {
       setSelectedCustomer(orderState.customer_id);
@@ -267,6 +422,9 @@ export const Billing = () => {
             quantity: item.quantity,
             price: product?.price || 0,
             lot_price: product?.lot_price || 0,
+            hsn_code: product?.hsn_code ?? null,
+            gst_rate: product?.gst_rate ?? null,
+            cess_rate: product?.cess_rate ?? null,
           };
         }
       );
@@ -292,12 +450,20 @@ export const Billing = () => {
     setFilteredBills(result);
   }, [customerFilter, statusFilter, gstFilter, bills, customers]);
 
+  const getAvailableStock = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return (
+      getLocationQuantity(product?.location_stock, billLocation) +
+      (billLocation === originalLocationId ? originalQuantities[productId] ?? 0 : 0)
+    );
+  };
+
   const addItem = () => {
     if (!selectedProduct) return;
     const product = products.find((p) => p.id === selectedProduct);
     if (!product) return;
 
-    const availableStock = product.inventory?.quantity ?? 0;
+    const availableStock = getAvailableStock(product.id);
     const quantityInBill = billItems
       .filter((item) => item.product_id === selectedProduct)
       .reduce((sum, item) => sum + item.quantity, 0);
@@ -323,6 +489,9 @@ export const Billing = () => {
         quantity: product.lot_size,
         price: product.price,
         lot_price: product.lot_price,
+        hsn_code: product.hsn_code,
+        gst_rate: product.gst_rate,
+        cess_rate: product.cess_rate,
       },
     ]);
     setSelectedProduct("");
@@ -342,7 +511,7 @@ export const Billing = () => {
     const product = products.find((p) => p.id === item.product_id);
     if (!product) return;
 
-    const availableStock = product.inventory?.quantity ?? 0;
+    const availableStock = getAvailableStock(product.id);
     let newQuantity = item.quantity;
 
     switch (field) {
@@ -388,6 +557,16 @@ export const Billing = () => {
     setBillItems(updatedItems);
   };
 
+  // Supplies to customers registered in another state are charged IGST
+  const selectedCustomerState = customers.find(
+    (c) => c.id === selectedCustomer
+  )?.state_code;
+  const isInterState =
+    isGstBill &&
+    Boolean(sellerInfo?.state_code) &&
+    Boolean(selectedCustomerState) &&
+    sellerInfo?.state_code !== selectedCustomerState;
+
   const billCalculations = useMemo(() => {
     const subtotal = billItems.reduce(
       (sum, item) => sum + item.quantity * item.price,
@@ -397,36 +576,46 @@ export const Billing = () => {
     let taxDetails = {
       sgst: 0,
       cgst: 0,
+      igst: 0,
       cess: 0,
       taxableValue: subtotal,
     };
 
     if (isGstBill) {
-      const totalGstRate = (sgstPercent + cgstPercent + cessPercent) / 100;
+      // Products with their own GST rate use it; others fall back to the bill rates
+      const billRates = getBillRates(
+        { cgst: cgstPercent, sgst: sgstPercent, cess: cessPercent },
+        isInterState
+      );
       let totalTaxableValue = 0;
       let totalSgst = 0;
       let totalCgst = 0;
+      let totalIgst = 0;
       let totalCess = 0;
 
       billItems.forEach((item) => {
-        const finalPrice = item.price * item.quantity;
-        const basePrice = finalPrice / (1 + totalGstRate);
-        totalTaxableValue += basePrice;
-        if (totalGstRate > 0) {
-          totalSgst += basePrice * (sgstPercent / 100);
-          totalCgst += basePrice * (cgstPercent / 100);
-          totalCess += basePrice * (cessPercent / 100);
-        }
+        const lineTax = calculateLineTax(item, billRates, isInterState);
+        totalTaxableValue += lineTax.taxableValue;
+        totalSgst += lineTax.sgst;
+        totalCgst += lineTax.cgst;
+        totalIgst += lineTax.igst;
+        totalCess += lineTax.cess;
       });
 
       taxDetails = {
         sgst: totalSgst,
         cgst: totalCgst,
+        igst: totalIgst,
         cess: totalCess,
         taxableValue: totalTaxableValue,
       };
       grandTotal =
-        totalTaxableValue + totalSgst + totalCgst + totalCess - discount;
+        totalTaxableValue +
+        totalSgst +
+        totalCgst +
+        totalIgst +
+        totalCess -
+        discount;
     }
 
     return {
@@ -434,223 +623,25 @@ export const Billing = () => {
       grandTotal,
       ...taxDetails,
     };
-  }, [billItems, discount, isGstBill, sgstPercent, cgstPercent, cessPercent]);
+  }, [
+    billItems,
+    discount,
+    isGstBill,
+    isInterState,
+    sgstPercent,
+    cgstPercent,
+    cessPercent,
+  ]);
+
+  const usesLineRates = hasLineRates(billItems);
 
   const previewInvoice = (
     billDetails: Bill,
     items: BillItem[],
     customerDetails: Customer
   ) => {
-    // Create a modal container
-    const modal = document.createElement("div");
-    modal.style.cssText = `
-    position: fixed;
-    top: 0;
-    left: 0;
-    width: 100%;
-    height: 100%;
-    background-color: rgba(0,0,0,0.8);
-    z-index: 10000;
-    display: flex;
-    justify-content: center;
-    align-items: center;
-    overflow-y: auto;
-    padding: 20px;
-    box-sizing: border-box;
-  `;
-
-    // Create content container with responsive dimensions
-    const content = document.createElement("div");
-    const A4_WIDTH_MM = 210;
-    const A4_HEIGHT_MM = 297;
-    const isMobileView = window.innerWidth < 768;
-
-    content.style.cssText = `
-    background-color: white;
-    width: ${isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`};
-    min-width: ${isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`};
-    max-width: ${isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`};
-    min-height: ${isMobileView ? '100vh' : `${A4_HEIGHT_MM}mm`};
-    position: relative;
-    border-radius: ${isMobileView ? '0' : '8px'};
-    box-shadow: ${isMobileView ? 'none' : '0 10px 30px rgba(0,0,0,0.3)'};
-    margin: auto;
-    overflow: ${isMobileView ? 'auto' : 'visible'};
-  `;
-
-    modal.appendChild(content);
-    document.body.appendChild(modal);
-
-    // Control panel (buttons) - positioned outside React root
-    const controlPanel = document.createElement("div");
-    const isMobile = window.innerWidth < 768;
-    
-    controlPanel.style.cssText = `
-    position: fixed;
-    top: ${isMobile ? '20px' : '10px'};
-    right: ${isMobile ? '20px' : '10px'};
-    display: flex;
-    gap: ${isMobile ? '12px' : '10px'};
-    z-index: 10002;
-    background: rgba(255, 255, 255, 0.95);
-    padding: ${isMobile ? '12px' : '8px'};
-    border-radius: 8px;
-    box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-    backdrop-filter: blur(10px);
-  `;
-
-    // Download button
-    const downloadButton = document.createElement("button");
-    downloadButton.innerHTML = isMobile ? "📥" : "📥 PDF";
-    downloadButton.style.cssText = `
-    background: #007bff;
-    color: white;
-    border: none;
-    padding: ${isMobile ? '10px 12px' : '6px 12px'};
-    border-radius: 6px;
-    cursor: pointer;
-    font-size: ${isMobile ? '16px' : '12px'};
-    font-weight: bold;
-    box-shadow: 0 2px 8px rgba(0,123,255,0.3);
-    min-width: ${isMobile ? '44px' : 'auto'};
-    min-height: ${isMobile ? '44px' : 'auto'};
-    display: flex;
-    align-items: center;
-    justify-content: center;
-    transition: all 0.2s ease;
-  `;
-
-    // Close button
-    const closeButton = document.createElement("button");
-    closeButton.innerHTML = "✕";
-    closeButton.style.cssText = `
-    background: #dc3545;
-    color: white;
-    border: none;
-    padding: ${isMobile ? '10px 12px' : '6px 10px'};
-    border-radius: 6px;
-    cursor: pointer;
-    font-size: ${isMobile ? '18px' : '12px'};
-    font-weight: bold;
-    box-shadow: 0 2px 8px rgba(220,53,69,0.3);
-    min-width: ${isMobile ? '44px' : 'auto'};
-    min-height: ${isMobile ? '44px' : 'auto'};
-    display: flex;
-    align-items: center;
-    justify-content: center;
-    transition: all 0.2s ease;
-  `;
-
-    const cleanup = () => {
-      root.unmount();
-      document.body.removeChild(modal);
-    };
-
-    downloadButton.onclick = async () => {
-      try {
-        downloadButton.innerHTML = "⏳...";
-        downloadButton.disabled = true;
-
-        // Use the visible content for PDF generation
-        const pdfOptions = {
-          margin: 0.4,
-          filename: `invoice_${billDetails.id.substring(0, 8)}.pdf`,
-          image: {
-            type: "jpeg",
-            quality: 0.98,
-          },
-          html2canvas: {
-            scale: 2,
-            useCORS: true,
-            allowTaint: false,
-            backgroundColor: "#ffffff",
-            logging: false,
-            width: 794, // Fixed A4 width in pixels (210mm at 96 DPI)
-            height: 1123, // Fixed A4 height in pixels (297mm at 96 DPI)
-            scrollX: 0,
-            scrollY: 0,
-            windowWidth: 794,
-            windowHeight: 1123,
-          },
-          jsPDF: {
-            unit: "mm",
-            format: "a4",
-            orientation: "portrait",
-            compress: true,
-          },
-        };
-
-        // Temporarily remove mobile scaling for PDF generation
-        const originalTransform = content.style.transform;
-        const originalWidth = content.style.width;
-        const originalMinWidth = content.style.minWidth;
-        const originalMaxWidth = content.style.maxWidth;
-        const originalPadding = content.style.padding;
-        
-        // Force desktop dimensions temporarily
-        content.style.transform = 'none';
-        content.style.width = '210mm';
-        content.style.minWidth = '210mm';
-        content.style.maxWidth = '210mm';
-        content.style.padding = '0';
-        
-        // Generate PDF from the visible modal content
-        await html2pdf().from(content).set(pdfOptions).save();
-        
-        // Restore original mobile styling
-        content.style.transform = originalTransform;
-        content.style.width = originalWidth;
-        content.style.minWidth = originalMinWidth;
-        content.style.maxWidth = originalMaxWidth;
-        content.style.padding = originalPadding;
-
-        toast({
-          title: "PDF Downloaded Successfully",
-          description: "Your invoice has been downloaded.",
-          variant: "default",
-        });
-      } catch (error: unknown) {
-        console.error("PDF generation error:", error);
-        toast({
-          title: "PDF Generation Failed",
-          description:
-            error instanceof Error ? error.message : 
-            "There was an error generating the PDF. Please try again.",
-          variant: "destructive",
-        });
-      } finally {
-        downloadButton.innerHTML = "📥 PDF";
-        downloadButton.disabled = false;
-      }
-    };
-
-    closeButton.onclick = cleanup;
-
-    // Add buttons to control panel
-    controlPanel.appendChild(downloadButton);
-    controlPanel.appendChild(closeButton);
-    
-    // Add control panel to modal (not content)
-    modal.appendChild(controlPanel);
-
-    // Render the invoice with responsive dimensions
-    const root = createRoot(content);
-    root.render(
-      <div
-        style={{
-          width: isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`,
-          minWidth: isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`,
-          maxWidth: isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`,
-          minHeight: isMobileView ? '100vh' : `${A4_HEIGHT_MM}mm`,
-          backgroundColor: "white",
-          margin: 0,
-          padding: isMobileView ? '10px' : 0,
-          boxSizing: "border-box",
-          overflow: isMobileView ? 'auto' : 'hidden',
-          transform: isMobileView ? 'scale(0.8)' : 'none',
-          transformOrigin: 'top left',
-        }}
-      >
+    openDocumentPreview({
+      content: (
         <InvoiceTemplate
           billCalculations={billCalculations}
           billDetails={billDetails}
@@ -658,24 +649,20 @@ export const Billing = () => {
           customerDetails={customerDetails}
           sellerInfo={sellerInfo}
         />
-      </div>
-    );
-
-    // Close modal when clicking outside (but not on buttons)
-    modal.onclick = (e) => {
-      if (e.target === modal) {
-        cleanup();
-      }
-    };
-
-    // Handle ESC key to close modal
-    const handleEscKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
-        cleanup();
-        document.removeEventListener("keydown", handleEscKey);
-      }
-    };
-    document.addEventListener("keydown", handleEscKey);
+      ),
+      filename: `invoice_${billDetails.id.substring(0, 8)}.pdf`,
+      downloadLabel: "PDF",
+      downloadIcon: "📥",
+      buttonColor: "#007bff",
+      buttonShadow: "rgba(0,123,255,0.3)",
+      onDownloaded: () =>
+        toast({
+          title: "PDF Downloaded Successfully",
+          description: "Your invoice has been downloaded.",
+          variant: "default",
+        }),
+      onError: showPdfError,
+    });
   };
 
   const previewReceipt = (
@@ -683,240 +670,38 @@ export const Billing = () => {
     items: BillItem[],
     customerDetails: Customer
   ) => {
-    // Create a modal container
-    const modal = document.createElement("div");
-    modal.style.cssText = `
-    position: fixed;
-    top: 0;
-    left: 0;
-    width: 100%;
-    height: 100%;
-    background-color: rgba(0,0,0,0.8);
-    z-index: 10000;
-    display: flex;
-    justify-content: center;
-    align-items: center;
-    overflow-y: auto;
-    padding: 20px;
-    box-sizing: border-box;
-  `;
-
-    // Create content container with responsive dimensions
-    const content = document.createElement("div");
-    const A4_WIDTH_MM = 210;
-    const A4_HEIGHT_MM = 297;
-    const isMobileView = window.innerWidth < 768;
-
-    content.style.cssText = `
-    background-color: white;
-    width: ${isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`};
-    min-width: ${isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`};
-    max-width: ${isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`};
-    min-height: ${isMobileView ? '100vh' : `${A4_HEIGHT_MM}mm`};
-    position: relative;
-    border-radius: ${isMobileView ? '0' : '8px'};
-    box-shadow: ${isMobileView ? 'none' : '0 10px 30px rgba(0,0,0,0.3)'};
-    margin: auto;
-    overflow: ${isMobileView ? 'auto' : 'visible'};
-  `;
-
-    modal.appendChild(content);
-    document.body.appendChild(modal);
-
-    // Control panel (buttons) - positioned outside React root
-    const controlPanel = document.createElement("div");
-    const isMobile = window.innerWidth < 768;
-    
-    controlPanel.style.cssText = `
-    position: fixed;
-    top: ${isMobile ? '20px' : '10px'};
-    right: ${isMobile ? '20px' : '10px'};
-    display: flex;
-    gap: ${isMobile ? '12px' : '10px'};
-    z-index: 10002;
-    background: rgba(255, 255, 255, 0.95);
-    padding: ${isMobile ? '12px' : '8px'};
-    border-radius: 8px;
-    box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-    backdrop-filter: blur(10px);
-  `;
-
-    // Download button
-    const downloadButton = document.createElement("button");
-    downloadButton.innerHTML = isMobile ? "📄" : "📄 Receipt";
-    downloadButton.style.cssText = `
-    background: #28a745;
-    color: white;
-    border: none;
-    padding: ${isMobile ? '10px 12px' : '6px 12px'};
-    border-radius: 6px;
-    cursor: pointer;
-    font-size: ${isMobile ? '16px' : '12px'};
-    font-weight: bold;
-    box-shadow: 0 2px 8px rgba(40,167,69,0.3);
-    min-width: ${isMobile ? '44px' : 'auto'};
-    min-height: ${isMobile ? '44px' : 'auto'};
-    display: flex;
-    align-items: center;
-    justify-content: center;
-    transition: all 0.2s ease;
-  `;
-
-    // Close button
-    const closeButton = document.createElement("button");
-    closeButton.innerHTML = "✕";
-    closeButton.style.cssText = `
-    background: #dc3545;
-    color: white;
-    border: none;
-    padding: ${isMobile ? '10px 12px' : '6px 10px'};
-    border-radius: 6px;
-    cursor: pointer;
-    font-size: ${isMobile ? '18px' : '12px'};
-    font-weight: bold;
-    box-shadow: 0 2px 8px rgba(220,53,69,0.3);
-    min-width: ${isMobile ? '44px' : 'auto'};
-    min-height: ${isMobile ? '44px' : 'auto'};
-    display: flex;
-    align-items: center;
-    justify-content: center;
-    transition: all 0.2s ease;
-  `;
-
-    const cleanup = () => {
-      root.unmount();
-      document.body.removeChild(modal);
-    };
-
-    downloadButton.onclick = async () => {
-      try {
-        downloadButton.innerHTML = "⏳...";
-        downloadButton.disabled = true;
-
-        // Use the visible content for PDF generation
-        const pdfOptions = {
-          margin: 0.4,
-          filename: `receipt_${billDetails.id.substring(0, 8)}.pdf`,
-          image: {
-            type: "jpeg",
-            quality: 0.98,
-          },
-          html2canvas: {
-            scale: 2,
-            useCORS: true,
-            allowTaint: false,
-            backgroundColor: "#ffffff",
-            logging: false,
-            width: 794, // Fixed A4 width in pixels (210mm at 96 DPI)
-            height: 1123, // Fixed A4 height in pixels (297mm at 96 DPI)
-            scrollX: 0,
-            scrollY: 0,
-            windowWidth: 794,
-            windowHeight: 1123,
-          },
-          jsPDF: {
-            unit: "mm",
-            format: "a4",
-            orientation: "portrait",
-            compress: true,
-          },
-        };
-
-        // Temporarily remove mobile scaling for PDF generation
-        const originalTransform = content.style.transform;
-        const originalWidth = content.style.width;
-        const originalMinWidth = content.style.minWidth;
-        const originalMaxWidth = content.style.maxWidth;
-        const originalPadding = content.style.padding;
-        
-        // Force desktop dimensions temporarily
-        content.style.transform = 'none';
-        content.style.width = '210mm';
-        content.style.minWidth = '210mm';
-        content.style.maxWidth = '210mm';
-        content.style.padding = '0';
-        
-        // Generate PDF from the visible modal content
-        await html2pdf().from(content).set(pdfOptions).save();
-        
-        // Restore original mobile styling
-        content.style.transform = originalTransform;
-        content.style.width = originalWidth;
-        content.style.minWidth = originalMinWidth;
-        content.style.maxWidth = originalMaxWidth;
-        content.style.padding = originalPadding;
-
-        toast({
-          title: "Receipt Downloaded Successfully",
-          description: "Your receipt has been downloaded.",
-          variant: "default",
-        });
-      } catch (error: unknown) {
-        console.error("PDF generation error:", error);
-        toast({
-          title: "PDF Generation Failed",
-          description:
-            error instanceof Error ? error.message : 
-            "There was an error generating the PDF. Please try again.",
-          variant: "destructive",
-        });
-      } finally {
-        downloadButton.innerHTML = "📄 Receipt";
-        downloadButton.disabled = false;
-      }
-    };
-
-    closeButton.onclick = cleanup;
-
-    // Add buttons to control panel
-    controlPanel.appendChild(downloadButton);
-    controlPanel.appendChild(closeButton);
-    
-    // Add control panel to modal (not content)
-    modal.appendChild(controlPanel);
-
-    // Render the receipt with responsive dimensions
-    const root = createRoot(content);
-    root.render(
-      <div
-        style={{
-          width: isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`,
-          minWidth: isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`,
-          maxWidth: isMobileView ? '100vw' : `${A4_WIDTH_MM}mm`,
-          minHeight: isMobileView ? '100vh' : `${A4_HEIGHT_MM}mm`,
-          backgroundColor: "white",
-          margin: 0,
-          padding: isMobileView ? '10px' : 0,
-          boxSizing: "border-box",
-          overflow: isMobileView ? 'auto' : 'hidden',
-          transform: isMobileView ? 'scale(0.8)' : 'none',
-          transformOrigin: 'top left',
-        }}
-      >
+    openDocumentPreview({
+      content: (
         <ReceiptTemplate
           billDetails={billDetails}
           items={items}
           customerDetails={customerDetails}
           sellerInfo={sellerInfo}
         />
-      </div>
-    );
-
-    // Close modal when clicking outside (but not on buttons)
-    modal.onclick = (e) => {
-      if (e.target === modal) {
-        cleanup();
-      }
-    };
+      ),
+      filename: `receipt_${billDetails.id.substring(0, 8)}.pdf`,
+      downloadLabel: "Receipt",
+      downloadIcon: "📄",
+      buttonColor: "#28a745",
+      buttonShadow: "rgba(40,167,69,0.3)",
+      onDownloaded: () =>
+        toast({
+          title: "Receipt Downloaded Successfully",
+          description: "Your receipt has been downloaded.",
+          variant: "default",
+        }),
+      onError: showPdfError,
+    });
+  };
 
-    // Handle ESC key to close modal
-    const handleEscKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
-        cleanup();
-        document.removeEventListener("keydown", handleEscKey);
-      }
-    };
-    document.addEventListener("keydown", handleEscKey);
+  const showPdfError = (error: unknown) => {
+    toast({
+      title: "PDF Generation Failed",
+      description:
+        error instanceof Error ? error.message :
+        "There was an error generating the PDF. Please try again.",
+      variant: "destructive",
+    });
   };
 
   // Simplified generatePdf function that just calls previewInvoice
@@ -981,6 +766,9 @@ export const Billing = () => {
         products: { name: string };
         quantity: number;
         price: number;
+        hsn_code: string | null;
+        gst_rate: number | null;
+        cess_rate: number | null;
       }) => ({
         product_id: item.product_id,
         product_name: item.products?.name || "Unknown Product",
@@ -989,6 +777,9 @@ export const Billing = () => {
         master_lot_size: 0,
         lots: "",
         lot_price: 0,
+        hsn_code: item.hsn_code,
+        gst_rate: item.gst_rate,
+        cess_rate: item.cess_rate,
       })
     );
 
@@ -1050,6 +841,9 @@ export const Billing = () => {
         products: { name: string };
         quantity: number;
         price: number;
+        hsn_code: string | null;
+        gst_rate: number | null;
+        cess_rate: number | null;
       }) => ({
         product_id: item.product_id,
         product_name: item.products?.name || "Unknown Product",
@@ -1058,6 +852,9 @@ export const Billing = () => {
         master_lot_size: 0,
         lots: "",
         lot_price: 0,
+        hsn_code: item.hsn_code,
+        gst_rate: item.gst_rate,
+        cess_rate: item.cess_rate,
       })
     );
 
@@ -1065,116 +862,322 @@ export const Billing = () => {
     setLoading(false);
   };
 
-  const submitBill = async () => {
-    if (!selectedCustomer || billItems.length === 0) {
+  const resetReturnForm = () => {
+    setReturnBillId("");
+    setReturnItems([]);
+    setReturnReason("");
+    setReturnDate(new Date());
+  };
+
+  const loadReturnBill = async (billId: string) => {
+    setReturnBillId(billId);
+    setReturnItems([]);
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("bill_items")
+      .select(
+        "id, product_id, quantity, price, products ( name ), credit_note_items ( quantity )"
+      )
+      .eq("bill_id", billId);
+
+    if (error || !data) {
       toast({
-        title: "Error",
-        description: "Please select a customer and add at least one item",
+        title: "Error fetching bill items",
+        description: error?.message,
         variant: "destructive",
       });
+      setLoading(false);
       return;
     }
 
-    // Final stock validation before submission
-    for (const item of billItems) {
-      const product = products.find((p) => p.id === item.product_id);
-      const availableStock = product?.inventory?.quantity ?? 0;
-      if (item.quantity > availableStock) {
-        toast({
-          title: "Error: Stock Limit Exceeded",
-          description: `The quantity for ${item.product_name} (${item.quantity}) exceeds the available stock (${availableStock}). Please remove it or reduce the quantity.`,
-          variant: "destructive",
-        });
-        return;
-      }
-    }
+    setReturnItems(
+      data.map(
+        (item: {
+          id: string;
+          product_id: string;
+          quantity: number;
+          price: number;
+          products: { name: string } | { name: string }[] | null;
+          credit_note_items: { quantity: number }[] | null;
+        }) => {
+          const product = Array.isArray(item.products)
+            ? item.products[0]
+            : item.products;
+          return {
+            bill_item_id: item.id,
+            product_id: item.product_id,
+            product_name: product?.name || "Unknown Product",
+            billed_quantity: item.quantity,
+            returned_quantity: (item.credit_note_items || []).reduce(
+              (sum, returned) => sum + returned.quantity,
+              0
+            ),
+            price: item.price,
+            quantity: "",
+          };
+        }
+      )
+    );
+    setLoading(false);
+  };
 
-    const { grandTotal, sgst, cgst, cess } = billCalculations;
+  const updateReturnQuantity = (billItemId: string, value: string) => {
+    setReturnItems((items) =>
+      items.map((item) =>
+        item.bill_item_id === billItemId ? { ...item, quantity: value } : item
+      )
+    );
+  };
 
-    const { data: bill, error: billError } = await supabase
-      .from("bills")
-      .insert({
-        customer_id: selectedCustomer,
-        total_amount: grandTotal,
-        status: "outstanding",
-        discount: discount,
-        comments: comments,
-        date_of_bill: billDate?.toISOString(),
-        is_gst_bill: isGstBill,
-        sgst_percentage: isGstBill ? sgstPercent : null,
-        cgst_percentage: isGstBill ? cgstPercent : null,
-        cess_percentage: isGstBill ? cessPercent : null,
-        gst_amount: sgst + cgst + cess,
-      })
-      .select()
+  const returnGross = returnItems.reduce(
+    (sum, item) => sum + (parseInt(item.quantity) || 0) * item.price,
+    0
+  );
+  // Returns carry their share of the bill discount, as create_credit_note credits them
+  const returnBillGross = returnItems.reduce(
+    (sum, item) => sum + item.billed_quantity * item.price,
+    0
+  );
+  const returnBillDiscount =
+    bills.find((bill) => bill.id === returnBillId)?.discount || 0;
+  const returnDiscount =
+    returnBillGross > 0 ? (returnGross * returnBillDiscount) / returnBillGross : 0;
+  const returnTotal = returnGross - returnDiscount;
+
+  const handleDownloadCreditNote = async (creditNoteId: string) => {
+    setLoading(true);
+    const { data: creditNote, error } = await supabase
+      .from("credit_notes")
+      .select(
+        "*, customers(*), bills(invoice_number, date_of_bill, is_gst_bill, cgst_percentage, sgst_percentage, cess_percentage, igst_percentage, is_inter_state), credit_note_items(product_id, quantity, price, products(name), bill_items(hsn_code, gst_rate, cess_rate))"
+      )
+      .eq("id", creditNoteId)
       .single();
 
-    if (billError || !bill) {
+    if (error || !creditNote) {
       toast({
-        title: "Error creating bill",
-        description: billError?.message,
+        title: "Error fetching credit note",
+        description: error?.message,
         variant: "destructive",
       });
+      setLoading(false);
       return;
     }
 
-    const itemsToInsert = billItems.map((item) => ({
-      bill_id: bill.id,
-      product_id: item.product_id,
-      quantity: item.quantity,
-      price: item.price,
-    }));
+    const customer = Array.isArray(creditNote.customers)
+      ? creditNote.customers[0]
+      : creditNote.customers;
+    const originalBill = Array.isArray(creditNote.bills)
+      ? creditNote.bills[0]
+      : creditNote.bills;
 
-    const { error: itemsError } = await supabase
-      .from("bill_items")
-      .insert(itemsToInsert);
-    if (itemsError) {
+    if (!customer || !originalBill) {
       toast({
-        title: "Error adding bill items",
-        description: itemsError.message,
+        title: "Error",
+        description: "Customer or invoice details not found for this credit note.",
         variant: "destructive",
       });
+      setLoading(false);
       return;
     }
 
-    for (const item of billItems) {
-      const { error: stockError } = await supabase.rpc("decrement_stock", {
-        p_product_id: item.product_id,
-        p_quantity: item.quantity,
+    const itemsForPdf: BillItem[] = (creditNote.credit_note_items || []).map(
+      (item: {
+        product_id: string;
+        products: { name: string };
+        quantity: number;
+        price: number;
+        bill_items: {
+          hsn_code: string | null;
+          gst_rate: number | null;
+          cess_rate: number | null;
+        } | null;
+      }) => ({
+        product_id: item.product_id,
+        product_name: item.products?.name || "Unknown Product",
+        quantity: item.quantity,
+        price: item.price,
+        master_lot_size: 0,
+        lots: "",
+        lot_price: 0,
+        // Returned goods are credited at the rates of the original invoice line
+        hsn_code: item.bill_items?.hsn_code ?? null,
+        gst_rate: item.bill_items?.gst_rate ?? null,
+        cess_rate: item.bill_items?.cess_rate ?? null,
+      })
+    );
+
+    openDocumentPreview({
+      content: (
+        <CreditNoteTemplate
+          creditNote={creditNote}
+          originalBill={originalBill}
+          items={itemsForPdf}
+          customerDetails={customer}
+          sellerInfo={sellerInfo}
+        />
+      ),
+      filename: `credit_note_${creditNote.credit_note_number}.pdf`,
+      downloadLabel: "PDF",
+      downloadIcon: "📥",
+      buttonColor: "#007bff",
+      buttonShadow: "rgba(0,123,255,0.3)",
+      onDownloaded: () =>
+        toast({
+          title: "PDF Downloaded Successfully",
+          description: "Your credit note has been downloaded.",
+          variant: "default",
+        }),
+      onError: showPdfError,
+    });
+    setLoading(false);
+  };
+
+  const submitCreditNote = async () => {
+    const itemsToReturn = returnItems.filter(
+      (item) => (parseInt(item.quantity) || 0) > 0
+    );
+
+    if (!returnBillId || itemsToReturn.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select a bill and enter at least one return quantity",
+        variant: "destructive",
       });
-      if (stockError)
+      return;
+    }
+
+    for (const item of itemsToReturn) {
+      const returnable = item.billed_quantity - item.returned_quantity;
+      if (parseInt(item.quantity) > returnable) {
         toast({
-          title: "Error updating stock",
-          description: stockError.message,
+          title: "Error: Return Limit Exceeded",
+          description: `Cannot return ${item.quantity} of ${item.product_name}. Only ${returnable} can still be returned on this bill.`,
           variant: "destructive",
         });
+        return;
+      }
     }
 
-    const { error: customerError } = await supabase.rpc(
-      "update_customer_balance",
-      { p_customer_id: selectedCustomer, p_amount: grandTotal }
+    setLoading(true);
+    const { data: creditNote, error } = await supabase.rpc(
+      "create_credit_note",
+      {
+        p_bill_id: returnBillId,
+        p_items: itemsToReturn.map((item) => ({
+          bill_item_id: item.bill_item_id,
+          quantity: parseInt(item.quantity),
+        })),
+        p_reason: returnReason || null,
+        p_date_of_credit_note: returnDate?.toISOString(),
+      }
     );
-    if (customerError)
+    setLoading(false);
+
+    if (error || !creditNote) {
+      toast({
+        title: "Error creating credit note",
+        description: error?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Credit note ${creditNote.credit_note_number} created successfully`,
+    });
+    resetReturnForm();
+    await fetchData();
+    handleDownloadCreditNote(creditNote.id);
+  };
+
+  const submitBill = async () => {
+    if (!selectedCustomer || billItems.length === 0) {
       toast({
-        title: "Error updating customer balance",
-        description: customerError.message,
+        title: "Error",
+        description: "Please select a customer and add at least one item",
         variant: "destructive",
       });
+      return;
+    }
 
-    if (orderId) {
-      const { error: orderUpdateError } = await supabase
-        .from("orders")
-        .update({ status: "fulfilled" })
-        .eq("id", orderId);
-      if (orderUpdateError)
+    // Final stock validation before submission
+    const quantitiesByProduct = billItems.reduce<Record<string, number>>(
+      (acc, item) => {
+        acc[item.product_id] = (acc[item.product_id] ?? 0) + item.quantity;
+        return acc;
+      },
+      {}
+    );
+    for (const item of billItems) {
+      const availableStock = getAvailableStock(item.product_id);
+      if (quantitiesByProduct[item.product_id] > availableStock) {
         toast({
-          title: "Error updating order status",
-          description: orderUpdateError.message,
+          title: "Error: Stock Limit Exceeded",
+          description: `The quantity for ${item.product_name} (${item.quantity}) exceeds the available stock (${availableStock}). Please remove it or reduce the quantity.`,
           variant: "destructive",
         });
+        return;
+      }
     }
 
-    toast({ title: "Success", description: "Bill created successfully" });
+    const { grandTotal, sgst, cgst, igst, cess } = billCalculations;
+
+    const billPayload = {
+      p_customer_id: selectedCustomer,
+      p_items: billItems.map((item) => ({
+        product_id: item.product_id,
+        quantity: item.quantity,
+        price: item.price,
+        hsn_code: item.hsn_code ?? null,
+        gst_rate: item.gst_rate ?? null,
+        cess_rate: item.cess_rate ?? null,
+      })),
+      p_total_amount: grandTotal,
+      p_discount: discount,
+      p_comments: comments,
+      p_date_of_bill: billDate?.toISOString(),
+      p_is_gst_bill: isGstBill,
+      p_sgst_percentage: isGstBill && !isInterState ? sgstPercent : null,
+      p_cgst_percentage: isGstBill && !isInterState ? cgstPercent : null,
+      p_cess_percentage: isGstBill ? cessPercent : null,
+      p_igst_percentage: isInterState ? sgstPercent + cgstPercent : null,
+      p_place_of_supply: selectedCustomerState || null,
+      p_gst_amount: sgst + cgst + igst + cess,
+      p_location_id: billLocation || null,
+    };
+
+    setLoading(true);
+    const { data: bill, error: billError } = editingBill
+      ? await supabase.rpc("update_bill", {
+          p_bill_id: editingBill.id,
+          ...billPayload,
+        })
+      : await supabase.rpc("create_bill", {
+          ...billPayload,
+          p_order_id: orderId,
+          p_apply_advance:
+            applyAdvance && selectedCustomerAdvance > 0 && can("payments.record"),
+        });
+    setLoading(false);
+
+    if (billError || !bill) {
+      toast({
+        title: editingBill ? "Error updating bill" : "Error creating bill",
+        description: billError?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: editingBill
+        ? "Bill updated successfully"
+        : "Bill created successfully",
+    });
     const customerDetails = customers.find((c) => c.id === selectedCustomer);
     if (customerDetails)
       generatePdf(
@@ -1183,30 +1186,151 @@ export const Billing = () => {
         customerDetails
       );
 
+    resetBillForm();
+    fetchData();
+  };
+
+  const resetBillForm = () => {
     setSelectedCustomer("");
     setBillItems([]);
     setDiscount(0);
     setComments("");
     setOrderId(null);
     setBillDate(new Date());
-    fetchData();
+    setEditingBill(null);
+    setOriginalQuantities({});
+    setOriginalLocationId("");
+    setBillLocation(getDefaultLocation(locations)?.id || "");
+    setApplyAdvance(true);
+    applyGstDefaults();
+  };
+
+  const handleEditBill = async (billId: string) => {
+    setLoading(true);
+    const { data: billDetails, error: billError } = await supabase
+      .from("bills")
+      .select("*")
+      .eq("id", billId)
+      .single();
+
+    if (billError || !billDetails) {
+      toast({
+        title: "Error fetching bill details",
+        description: billError?.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    const { data: billItemsData, error: itemsError } = await supabase
+      .from("bill_items")
+      .select(
+        "product_id, quantity, price, hsn_code, gst_rate, cess_rate, products(name, lot_size)"
+      )
+      .eq("bill_id", billId);
+
+    if (itemsError || !billItemsData) {
+      toast({
+        title: "Error fetching bill items",
+        description: itemsError?.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    const items: BillItem[] = (
+      billItemsData as unknown as {
+        product_id: string;
+        quantity: number;
+        price: number;
+        hsn_code: string | null;
+        gst_rate: number | null;
+        cess_rate: number | null;
+        products: { name: string; lot_size: number } | null;
+      }[]
+    ).map((item) => {
+      const lotSize = item.products?.lot_size || 1;
+      return {
+        product_id: item.product_id,
+        product_name: item.products?.name || "Unknown Product",
+        master_lot_size: lotSize,
+        lots: item.quantity / lotSize + "",
+        quantity: item.quantity,
+        price: item.price,
+        lot_price: item.price * lotSize,
+        // Keep the rates the bill was issued with
+        hsn_code: item.hsn_code,
+        gst_rate: item.gst_rate,
+        cess_rate: item.cess_rate,
+      };
+    });
+
+    setOriginalQuantities(
+      items.reduce<Record<string, number>>((acc, item) => {
+        acc[item.product_id] = (acc[item.product_id] ?? 0) + item.quantity;
+        return acc;
+      }, {})
+    );
+    const locationId = billDetails.location_id || getDefaultLocation(locations)?.id || "";
+    setOriginalLocationId(locationId);
+    setBillLocation(locationId);
+    setEditingBill(billDetails);
+    setOrderId(null);
+    setSelectedCustomer(billDetails.customer_id || "");
+    setBillItems(items);
+    setDiscount(billDetails.discount || 0);
+    setComments(billDetails.comments || "");
+    setBillDate(new Date(billDetails.date_of_bill));
+    setIsGstBill(Boolean(billDetails.is_gst_bill));
+    if (billDetails.is_gst_bill && billDetails.is_inter_state) {
+      // Inter-state bills store the combined rate as IGST
+      setSgstPercent((billDetails.igst_percentage ?? 0) / 2);
+      setCgstPercent((billDetails.igst_percentage ?? 0) / 2);
+      setCessPercent(billDetails.cess_percentage ?? 0);
+    } else if (billDetails.is_gst_bill) {
+      setSgstPercent(billDetails.sgst_percentage ?? 0);
+      setCgstPercent(billDetails.cgst_percentage ?? 0);
+      setCessPercent(billDetails.cess_percentage ?? 0);
+    }
+    setActiveTab("create-bill");
+    setLoading(false);
   };
 
   return (
     <AlertDialog>
       <div className="space-y-6">
-        <Tabs defaultValue="create-bill">
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="create-bill">Create Bill</TabsTrigger>
             <TabsTrigger value="all-bills">All Bills</TabsTrigger>
+            <TabsTrigger value="returns">Returns</TabsTrigger>
           </TabsList>
           <TabsContent value="create-bill">
             <Card>
               <CardHeader>
-                <CardTitle>Create a New Bill</CardTitle>
+                <div className="flex justify-between items-center">
+                  <CardTitle>
+                    {editingBill
+                      ? `Edit Bill ${editingBill.invoice_number || ""}`
+                      : "Create a New Bill"}
+                  </CardTitle>
+                  {editingBill && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={resetBillForm}
+                      className="gap-2"
+                    >
+                      <X className="h-4 w-4" />
+                      Cancel Edit
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div className="md:col-span-2">
                     <Label htmlFor="customer">Customer</Label>
                     <Popover
@@ -1298,6 +1422,26 @@ export const Billing = () => {
                       </PopoverContent>
                     </Popover>
                   </div>
+                  <div>
+                    <Label htmlFor="billLocation">Stock From</Label>
+                    <Select value={billLocation} onValueChange={setBillLocation}>
+                      <SelectTrigger id="billLocation">
+                        <SelectValue placeholder="Select location" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {locations
+                          .filter(
+                            (location) =>
+                              location.is_active || location.id === originalLocationId
+                          )
+                          .map((location) => (
+                            <SelectItem key={location.id} value={location.id}>
+                              {location.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 {/* Customer Comments Display */}
@@ -1371,7 +1515,7 @@ export const Billing = () => {
                                       {product.name}
                                     </span>
                                     <span className="text-xs text-muted-foreground">
-                                      Stock: {product.inventory?.quantity ?? 0}{" "}
+                                      Stock: {getLocationQuantity(product.location_stock, billLocation)}{" "}
                                       | Price: ₹{product.price.toFixed(2)}
                                     </span>
                                   </div>
@@ -1485,7 +1629,16 @@ export const Billing = () => {
                         <TableBody>
                           {billItems.map((item, index) => (
                             <TableRow key={index}>
-                              <TableCell>{item.product_name}</TableCell>
+                              <TableCell>
+                                {item.product_name}
+                                {isGstBill && item.gst_rate != null && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {item.hsn_code ? `HSN ${item.hsn_code} | ` : ""}
+                                    GST {item.gst_rate}%
+                                    {item.cess_rate ? ` + Cess ${item.cess_rate}%` : ""}
+                                  </div>
+                                )}
+                              </TableCell>
                               <TableCell>
                                 <Input
                                   type="number"
@@ -1575,6 +1728,24 @@ export const Billing = () => {
                   </Label>
                 </div>
 
+                {!editingBill &&
+                  selectedCustomerAdvance > 0 &&
+                  can("payments.record") && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="apply-advance"
+                        checked={applyAdvance}
+                        onCheckedChange={(checked) =>
+                          setApplyAdvance(Boolean(checked))
+                        }
+                      />
+                      <Label htmlFor="apply-advance" className="font-medium">
+                        Apply unapplied advance (Rs.{" "}
+                        {selectedCustomerAdvance.toFixed(2)} available)
+                      </Label>
+                    </div>
+                  )}
+
                 {isGstBill && (
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 border rounded-lg">
                     <div>
@@ -1604,6 +1775,11 @@ export const Billing = () => {
                         onChange={(e) => setCessPercent(Number(e.target.value))}
                       />
                     </div>
+                    <p className="md:col-span-3 text-xs text-muted-foreground">
+                      These rates apply to products without their own GST rate.
+                      {isInterState &&
+                        " This customer is in another state, so the combined SGST + CGST rate is charged as IGST."}
+                    </p>
                   </div>
                 )}
 
@@ -1619,19 +1795,36 @@ export const Billing = () => {
                   </div>
                   <div className="text-right space-y-1">
                     <p>Subtotal: ₹{billCalculations.taxableValue.toFixed(2)}</p>
-                    {isGstBill && (
+                    {isGstBill && isInterState && (
                       <>
                         <p>
-                          SGST ({sgstPercent}%): ₹
+                          IGST
+                          {usesLineRates
+                            ? ""
+                            : ` (${sgstPercent + cgstPercent}%)`}
+                          : ₹{billCalculations.igst.toFixed(2)}
+                        </p>
+                        {billCalculations.cess > 0 && (
+                          <p>
+                            CESS{usesLineRates ? "" : ` (${cessPercent}%)`}: ₹
+                            {billCalculations.cess.toFixed(2)}
+                          </p>
+                        )}
+                      </>
+                    )}
+                    {isGstBill && !isInterState && (
+                      <>
+                        <p>
+                          SGST{usesLineRates ? "" : ` (${sgstPercent}%)`}: ₹
                           {billCalculations.sgst.toFixed(2)}
                         </p>
                         <p>
-                          CGST ({cgstPercent}%): ₹
+                          CGST{usesLineRates ? "" : ` (${cgstPercent}%)`}: ₹
                           {billCalculations.cgst.toFixed(2)}
                         </p>
-                        {cessPercent > 0 && (
+                        {billCalculations.cess > 0 && (
                           <p>
-                            CESS ({cessPercent}%): ₹
+                            CESS{usesLineRates ? "" : ` (${cessPercent}%)`}: ₹
                             {billCalculations.cess.toFixed(2)}
                           </p>
                         )}
@@ -1656,10 +1849,12 @@ export const Billing = () => {
 
                 <Button
                   onClick={submitBill}
-                  disabled={loading}
+                  disabled={loading || !can(editingBill ? "bills.edit" : "bills.create")}
                   className="w-full sm:w-auto"
                 >
-                  Create Bill & Download PDF
+                  {editingBill
+                    ? "Update Bill & Download PDF"
+                    : "Create Bill & Download PDF"}
                 </Button>
               </CardContent>
             </Card>
@@ -1676,7 +1871,7 @@ export const Billing = () => {
                       try {
                         exportToCSV({
                           filename: 'all-bills',
-                          headers: ['Invoice Number', 'Customer', 'Date', 'Amount', 'Status', 'GST Bill', 'Created At'],
+                          headers: ['Invoice Number', 'Customer', 'Date', 'Amount', 'Status', 'GST Bill', 'Tax Type', 'Created At'],
                           data: filteredBills,
                           transformData: (bill) => ({
                             'Invoice Number': bill.invoice_number || bill.id,
@@ -1685,6 +1880,7 @@ export const Billing = () => {
                             'Amount': formatCurrency(bill.total_amount),
                             'Status': bill.status,
                             'GST Bill': bill.is_gst_bill ? 'Yes' : 'No',
+                            'Tax Type': !bill.is_gst_bill ? '' : bill.is_inter_state ? 'IGST' : 'CGST + SGST',
                             'Created At': formatDate(bill.created_at)
                           })
                         });
@@ -1858,16 +2054,41 @@ export const Billing = () => {
                               <Download className="mr-2 h-4 w-4" />
                               Receipt
                             </Button>
-                            <AlertDialogTrigger asChild>
+                            {bill.status !== "paid" &&
+                              bill.customer_id &&
+                              (advanceBalances[bill.customer_id] || 0) > 0 &&
+                              can("payments.record") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleApplyAdvance(bill.id)}
+                                  disabled={loading}
+                                >
+                                  Apply Advance
+                                </Button>
+                              )}
+                            {can("bills.edit") && (
                               <Button
-                                variant="destructive"
+                                variant="outline"
                                 size="sm"
-                                onClick={() => setBillToDelete(bill.id)}
+                                onClick={() => handleEditBill(bill.id)}
                               >
-                                <Trash2 className="mr-2 h-4 w-4" />
-                                Delete
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Edit
                               </Button>
-                            </AlertDialogTrigger>
+                            )}
+                            {can("bills.delete") && (
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => setBillToDelete(bill.id)}
+                                >
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Delete
+                                </Button>
+                              </AlertDialogTrigger>
+                            )}
                           </div>
                         </div>
                       </CardContent>
@@ -1933,16 +2154,41 @@ export const Billing = () => {
                                 <Download className="mr-2 h-4 w-4" />
                                 Receipt
                               </Button>
-                              <AlertDialogTrigger asChild>
+                              {bill.status !== "paid" &&
+                                bill.customer_id &&
+                                (advanceBalances[bill.customer_id] || 0) > 0 &&
+                                can("payments.record") && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleApplyAdvance(bill.id)}
+                                    disabled={loading}
+                                  >
+                                    Apply Advance
+                                  </Button>
+                                )}
+                              {can("bills.edit") && (
                                 <Button
-                                  variant="destructive"
+                                  variant="outline"
                                   size="sm"
-                                  onClick={() => setBillToDelete(bill.id)}
+                                  onClick={() => handleEditBill(bill.id)}
                                 >
-                                  <Trash2 className="mr-2 h-4 w-4" />
-                                  Delete
+                                  <Pencil className="mr-2 h-4 w-4" />
+                                  Edit
                                 </Button>
-                              </AlertDialogTrigger>
+                              )}
+                              {can("bills.delete") && (
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    variant="destructive"
+                                    size="sm"
+                                    onClick={() => setBillToDelete(bill.id)}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </Button>
+                                </AlertDialogTrigger>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1953,6 +2199,260 @@ export const Billing = () => {
               </CardContent>
             </Card>
           </TabsContent>
+          <TabsContent value="returns">
+            <div className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Record Sales Return</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label>Original Invoice</Label>
+                      <Popover
+                        open={returnBillSearchOpen}
+                        onOpenChange={setReturnBillSearchOpen}
+                      >
+                        <PopoverTrigger asChild>
+                          <Button
+                            variant="outline"
+                            role="combobox"
+                            aria-expanded={returnBillSearchOpen}
+                            className="w-full justify-between"
+                          >
+                            <span className="truncate">
+                              {returnBillId
+                                ? (() => {
+                                    const bill = bills.find(
+                                      (b) => b.id === returnBillId
+                                    );
+                                    return bill
+                                      ? `${bill.invoice_number} - ${bill.customers?.name || "N/A"}`
+                                      : "Select invoice...";
+                                  })()
+                                : "Select invoice..."}
+                            </span>
+                            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+                          <Command>
+                            <CommandInput
+                              placeholder="Search invoices..."
+                              className="h-9"
+                            />
+                            <CommandList className="max-h-[200px]">
+                              <CommandEmpty>No invoice found.</CommandEmpty>
+                              <CommandGroup>
+                                {bills.map((bill) => (
+                                  <CommandItem
+                                    key={bill.id}
+                                    value={`${bill.invoice_number} ${bill.customers?.name || ""}`}
+                                    onSelect={() => {
+                                      loadReturnBill(bill.id);
+                                      setReturnBillSearchOpen(false);
+                                    }}
+                                    className="cursor-pointer"
+                                  >
+                                    <Check
+                                      className={`mr-2 h-4 w-4 ${
+                                        returnBillId === bill.id
+                                          ? "opacity-100"
+                                          : "opacity-0"
+                                      }`}
+                                    />
+                                    <span className="truncate">
+                                      {bill.invoice_number} -{" "}
+                                      {bill.customers?.name || "N/A"}
+                                    </span>
+                                  </CommandItem>
+                                ))}
+                              </CommandGroup>
+                            </CommandList>
+                          </Command>
+                        </PopoverContent>
+                      </Popover>
+                    </div>
+                    <div>
+                      <Label>Credit Note Date</Label>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button
+                            variant={"outline"}
+                            className="w-full justify-start text-left font-normal"
+                          >
+                            {returnDate ? (
+                              format(returnDate, "PPP")
+                            ) : (
+                              <span>Pick a date</span>
+                            )}
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0">
+                          <Calendar
+                            mode="single"
+                            selected={returnDate}
+                            onSelect={setReturnDate}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                    </div>
+                  </div>
+
+                  {returnItems.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead>Billed</TableHead>
+                            <TableHead>Already Returned</TableHead>
+                            <TableHead>Price</TableHead>
+                            <TableHead>Return Qty</TableHead>
+                            <TableHead>Credit</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {returnItems.map((item) => {
+                            const returnable =
+                              item.billed_quantity - item.returned_quantity;
+                            return (
+                              <TableRow key={item.bill_item_id}>
+                                <TableCell>{item.product_name}</TableCell>
+                                <TableCell>{item.billed_quantity}</TableCell>
+                                <TableCell>{item.returned_quantity}</TableCell>
+                                <TableCell>₹{item.price.toFixed(2)}</TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    max={returnable}
+                                    value={item.quantity}
+                                    onChange={(e) =>
+                                      updateReturnQuantity(
+                                        item.bill_item_id,
+                                        e.target.value
+                                      )
+                                    }
+                                    disabled={returnable <= 0}
+                                    className="w-24"
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  ₹
+                                  {(
+                                    (parseInt(item.quantity) || 0) * item.price
+                                  ).toFixed(2)}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  <div>
+                    <Label htmlFor="returnReason">Reason</Label>
+                    <Textarea
+                      id="returnReason"
+                      value={returnReason}
+                      onChange={(e) => setReturnReason(e.target.value)}
+                      placeholder="e.g. Damaged in transit, expired stock"
+                    />
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+                    <div>
+                      {returnDiscount > 0 && (
+                        <p className="text-sm text-muted-foreground">
+                          Less bill discount: ₹{returnDiscount.toFixed(2)}
+                        </p>
+                      )}
+                      <div className="text-lg font-semibold">
+                        Total Credit: ₹{returnTotal.toFixed(2)}
+                      </div>
+                    </div>
+                    <Button
+                      onClick={submitCreditNote}
+                      disabled={loading || !returnBillId || !can("credit_notes.create")}
+                    >
+                      {loading ? "Processing..." : "Create Credit Note"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Credit Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Credit Note No</TableHead>
+                          <TableHead>Invoice No</TableHead>
+                          <TableHead>Customer</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Reason</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {creditNotes.length === 0 ? (
+                          <TableRow>
+                            <TableCell
+                              colSpan={7}
+                              className="text-center text-muted-foreground"
+                            >
+                              No credit notes recorded yet.
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          creditNotes.map((note) => (
+                            <TableRow key={note.id}>
+                              <TableCell>{note.credit_note_number}</TableCell>
+                              <TableCell>
+                                {note.bills?.invoice_number || "N/A"}
+                              </TableCell>
+                              <TableCell>
+                                {note.customers?.name || "N/A"}
+                              </TableCell>
+                              <TableCell>
+                                {new Date(
+                                  note.date_of_credit_note
+                                ).toLocaleDateString()}
+                              </TableCell>
+                              <TableCell>
+                                ₹{note.total_amount.toFixed(2)}
+                              </TableCell>
+                              <TableCell>{note.reason || "-"}</TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    handleDownloadCreditNote(note.id)
+                                  }
+                                >
+                                  <Download className="mr-2 h-4 w-4" />
+                                  PDF
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
         </Tabs>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -1960,6 +2460,7 @@ export const Billing = () => {
             <AlertDialogDescription>
               This action cannot be undone. This will permanently delete the
               bill, revert the stock levels, and update the customer's balance.
+              Payments already received against the bill are kept as an advance.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
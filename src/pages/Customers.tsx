@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Table,
   TableBody,
@@ -34,9 +34,19 @@ import {
 } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
-import { Plus, Edit, Filter, X, Download } from "lucide-react";
+import { Plus, Edit, Filter, X, Download, FileText } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Can } from "@/components/organisms/Can";
+import { format, startOfMonth, endOfDay, startOfDay } from "date-fns";
+import { DateRange } from "react-day-picker";
+import * as XLSX from "exceljs";
 import { exportToCSV } from "@/lib/csv-export";
+import { INDIAN_STATES, getStateByCode } from "@/lib/indian-states";
+import { openDocumentPreview } from "@/lib/document-preview";
+import { buildStatement, formatBalance, LedgerEntry } from "@/lib/customer-statement";
+import StatementTemplate from "@/components/templates/StatementTemplate";
 
 export interface Customer {
   id: string;
@@ -44,6 +54,8 @@ export interface Customer {
   primary_phone_number: string;
   address: string;
   gst_number: string;
+  state?: string | null;
+  state_code?: string | null;
   manager_name: string;
   manager_phone_number: string;
   comments: string;
@@ -51,6 +63,7 @@ export interface Customer {
   is_active: boolean;
   is_cooler: boolean;
   is_cooler_details: string;
+  credit_days?: number;
 }
 
 const MandatoryLabel = ({ children }: { children: React.ReactNode }) => (
@@ -81,11 +94,22 @@ export const Customers = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [showFilters, setShowFilters] = useState(false);
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
+
+  // Account statement
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
+  const [statementRange, setStatementRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [statementLoading, setStatementLoading] = useState(false);
   const [formData, setFormData] = useState<Omit<Customer, "id">>({
     name: "",
     primary_phone_number: "",
     address: "",
     gst_number: "",
+    state: "",
+    state_code: "",
     manager_name: "",
     manager_phone_number: "",
     comments: "",
@@ -93,6 +117,7 @@ export const Customers = () => {
     is_active: true,
     is_cooler: false,
     is_cooler_details: "",
+    credit_days: 30,
   });
 
   const fetchCustomers = useCallback(async () => {
@@ -164,6 +189,8 @@ export const Customers = () => {
         primary_phone_number: "",
         address: "",
         gst_number: "",
+        state: "",
+        state_code: "",
         manager_name: "",
         manager_phone_number: "",
         comments: "",
@@ -171,6 +198,7 @@ export const Customers = () => {
         is_active: true,
         is_cooler: false,
         is_cooler_details: "",
+        credit_days: 30,
       });
     }
     setIsDialogOpen(true);
@@ -225,6 +253,129 @@ export const Customers = () => {
     setEditingCustomer(null);
   };
 
+  const statementFrom = useMemo(
+    () => (statementRange?.from ? startOfDay(statementRange.from) : null),
+    [statementRange]
+  );
+  const statementTo = useMemo(
+    () => (statementRange?.from ? endOfDay(statementRange.to || statementRange.from) : null),
+    [statementRange]
+  );
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      if (!statementCustomer || !statementTo) {
+        setLedgerEntries([]);
+        return;
+      }
+      setStatementLoading(true);
+      const { data, error } = await supabase.rpc("get_customer_ledger", {
+        p_customer_id: statementCustomer.id,
+        p_end_date: statementTo.toISOString(),
+      });
+      if (error) {
+        toast({
+          title: "Error fetching statement",
+          description: error.message,
+          variant: "destructive",
+        });
+        setLedgerEntries([]);
+      } else {
+        setLedgerEntries((data as LedgerEntry[]) || []);
+      }
+      setStatementLoading(false);
+    };
+    fetchLedger();
+  }, [statementCustomer, statementTo, toast]);
+
+  const statement = useMemo(
+    () => (statementFrom && statementTo ? buildStatement(ledgerEntries, statementFrom, statementTo) : null),
+    [ledgerEntries, statementFrom, statementTo]
+  );
+
+  const statementFilename = () =>
+    `statement_${statementCustomer?.name.replace(/\s+/g, "_")}_${format(statementFrom!, "yyyyMMdd")}_${format(statementTo!, "yyyyMMdd")}`;
+
+  const previewStatementPdf = async () => {
+    if (!statementCustomer || !statement || !statementFrom || !statementTo) return;
+    const { data: sellerInfo } = await supabase
+      .from("seller_info")
+      .select("*")
+      .limit(1)
+      .maybeSingle();
+
+    openDocumentPreview({
+      content: (
+        <StatementTemplate
+          statement={statement}
+          customerDetails={statementCustomer}
+          from={statementFrom}
+          to={statementTo}
+          sellerInfo={sellerInfo}
+        />
+      ),
+      filename: `${statementFilename()}.pdf`,
+      downloadLabel: "PDF",
+      downloadIcon: "📥",
+      buttonColor: "#007bff",
+      buttonShadow: "rgba(0,123,255,0.3)",
+      onError: (error) =>
+        toast({
+          title: "PDF Generation Failed",
+          description:
+            error instanceof Error ? error.message :
+            "There was an error generating the PDF. Please try again.",
+          variant: "destructive",
+        }),
+    });
+  };
+
+  const exportStatementExcel = async () => {
+    if (!statementCustomer || !statement || !statementFrom || !statementTo) return;
+    try {
+      const workbook = new XLSX.Workbook();
+      const worksheet = workbook.addWorksheet("Statement");
+
+      worksheet.addRow([`Statement of Account - ${statementCustomer.name}`]).font = { bold: true };
+      worksheet.addRow([`${format(statementFrom, "dd/MM/yyyy")} to ${format(statementTo, "dd/MM/yyyy")}`]);
+      worksheet.addRow([]);
+      worksheet.addRow(["Date", "Reference", "Particulars", "Debit", "Credit", "Balance"]).font = { bold: true };
+      worksheet.addRow([format(statementFrom, "dd/MM/yyyy"), "", "Opening Balance", null, null, statement.openingBalance]);
+      statement.lines.forEach((line) => {
+        worksheet.addRow([
+          format(new Date(line.entry_date), "dd/MM/yyyy"),
+          line.reference || "",
+          line.description,
+          line.debit || null,
+          line.credit || null,
+          line.balance,
+        ]);
+      });
+      worksheet.addRow(["", "", "Total", statement.totalDebit, statement.totalCredit, null]).font = { bold: true };
+      worksheet.addRow([format(statementTo, "dd/MM/yyyy"), "", "Closing Balance", null, null, statement.closingBalance]).font = { bold: true };
+
+      worksheet.columns.forEach((column, index) => {
+        column.width = index === 2 ? 40 : 15;
+        if (index >= 3) column.numFmt = "#,##0.00";
+      });
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      const blob = new Blob([buffer], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${statementFilename()}.xlsx`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+
+      toast({ title: "Success", description: "Statement exported to Excel successfully" });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to export Excel", variant: "destructive" });
+    }
+  };
+
   const clearFilters = () => {
     setTypeFilter("all");
     setStatusFilter("all");
@@ -249,7 +400,7 @@ export const Customers = () => {
               try {
                 exportToCSV({
                   filename: 'customers',
-                  headers: ['Name', 'Type', 'Phone', 'Address', 'GST Number', 'Manager Name', 'Manager Phone', 'Comments', 'Has Cooler', 'Cooler Details', 'Status'],
+                  headers: ['Name', 'Type', 'Phone', 'Address', 'GST Number', 'State', 'State Code', 'Manager Name', 'Manager Phone', 'Credit Days', 'Comments', 'Has Cooler', 'Cooler Details', 'Status'],
                   data: filteredCustomers,
                   transformData: (customer) => ({
                     'Name': customer.name,
@@ -257,8 +408,11 @@ export const Customers = () => {
                     'Phone': customer.primary_phone_number || '',
                     'Address': customer.address || '',
                     'GST Number': customer.gst_number || '',
+                    'State': customer.state || '',
+                    'State Code': customer.state_code || '',
                     'Manager Name': customer.manager_name || '',
                     'Manager Phone': customer.manager_phone_number || '',
+                    'Credit Days': customer.type === 'customer' ? customer.credit_days ?? 30 : '',
                     'Comments': customer.comments || '',
                     'Has Cooler': customer.is_cooler ? 'Yes' : 'No',
                     'Cooler Details': customer.is_cooler_details || '',
@@ -333,6 +487,30 @@ export const Customers = () => {
                   }
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="state">State</Label>
+                <Select
+                  value={formData.state_code || ""}
+                  onValueChange={(code) =>
+                    setFormData({
+                      ...formData,
+                      state_code: code,
+                      state: getStateByCode(code)?.name || "",
+                    })
+                  }
+                >
+                  <SelectTrigger id="state">
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INDIAN_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>
+                        {state.code} - {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="manager_name">Manager Name</Label>
                 <Input
@@ -373,6 +551,26 @@ export const Customers = () => {
                   </SelectContent>
                 </Select>
               </div>
+              {formData.type === "customer" && (
+                <div className="space-y-2">
+                  <Label htmlFor="credit_days">Credit Days</Label>
+                  <Input
+                    id="credit_days"
+                    type="number"
+                    min="0"
+                    value={formData.credit_days ?? 30}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        credit_days: Math.max(parseInt(e.target.value) || 0, 0),
+                      })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    New bills fall due this many days after the bill date.
+                  </p>
+                </div>
+              )}
               <div className="col-span-2 space-y-2">
                 <Label htmlFor="comments">Comments</Label>
                 <Textarea
@@ -586,13 +784,27 @@ export const Customers = () => {
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => openDialog(customer)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDialog(customer)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {customer.type === "customer" && (
+                          <Can permission="payments.view">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Account statement"
+                              onClick={() => setStatementCustomer(customer)}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          </Can>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))
@@ -693,6 +905,19 @@ export const Customers = () => {
                       <Edit className="h-4 w-4 mr-2" />
                       Edit Customer
                     </Button>
+                    {customer.type === "customer" && (
+                      <Can permission="payments.view">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setStatementCustomer(customer)}
+                          className="w-full mt-2"
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          Account Statement
+                        </Button>
+                      </Can>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -700,6 +925,95 @@ export const Customers = () => {
           )}
         </div>
       </Card>
+
+      {/* Account Statement Dialog */}
+      <Dialog open={!!statementCustomer} onOpenChange={(open) => !open && setStatementCustomer(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Account Statement - {statementCustomer?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-between">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full sm:w-auto justify-start text-left font-normal">
+                  {statementRange?.from
+                    ? statementRange.to
+                      ? `${format(statementRange.from, "LLL dd, y")} - ${format(statementRange.to, "LLL dd, y")}`
+                      : format(statementRange.from, "LLL dd, y")
+                    : <span>Pick a date range</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar initialFocus mode="range" defaultMonth={statementRange?.from} selected={statementRange} onSelect={setStatementRange} numberOfMonths={2} />
+              </PopoverContent>
+            </Popover>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={previewStatementPdf} disabled={!statement || statementLoading} className="gap-2">
+                <FileText className="h-4 w-4" />
+                PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={exportStatementExcel} disabled={!statement || statementLoading} className="gap-2">
+                <Download className="h-4 w-4" />
+                Excel
+              </Button>
+            </div>
+          </div>
+          {statementLoading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading...</p>
+          ) : !statement ? (
+            <p className="text-center py-8 text-muted-foreground">Pick a date range to see the statement.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Particulars</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>{format(statementFrom!, "dd/MM/yyyy")}</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="font-medium">Opening Balance</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="text-right font-medium">{formatBalance(statement.openingBalance)}</TableCell>
+                  </TableRow>
+                  {statement.lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{format(new Date(line.entry_date), "dd/MM/yyyy")}</TableCell>
+                      <TableCell>{line.reference || "-"}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{line.debit > 0 ? line.debit.toFixed(2) : ""}</TableCell>
+                      <TableCell className="text-right">{line.credit > 0 ? line.credit.toFixed(2) : ""}</TableCell>
+                      <TableCell className="text-right">{formatBalance(line.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={3} className="font-medium">Total</TableCell>
+                    <TableCell className="text-right font-medium">{statement.totalDebit.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-medium">{statement.totalCredit.toFixed(2)}</TableCell>
+                    <TableCell></TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>{format(statementTo!, "dd/MM/yyyy")}</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="font-semibold">Closing Balance</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="text-right font-semibold">Rs. {formatBalance(statement.closingBalance)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
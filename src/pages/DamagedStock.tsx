@@ -26,6 +26,7 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/lib/supabase";
 import { Plus, Calendar as CalendarIcon, Filter, X, Edit, Check, ChevronsUpDown, Download } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
@@ -43,6 +44,8 @@ import {
   CommandList,
 } from "@/components/ui/command";
 import { exportToCSV, formatCurrency, formatDateTime } from "@/lib/csv-export";
+import { InventoryBatch, formatBatchLabel, getExpiryStatus } from "@/lib/batches";
+import { StockLocation, getDefaultLocation } from "@/lib/stock-locations";
 
 interface Product {
   id: string;
@@ -64,16 +67,23 @@ interface DamagedStockLog {
   total_value: number;
   reason: string;
   status: 'PENDING_ADJUSTMENT' | 'ADJUSTED';
+  batch_id: string | null;
+  location_id: string | null;
   products: { name: string };
   customers: { name: string };
+  inventory_batches: { batch_code: string; expiry_date: string | null } | null;
+  stock_locations: { name: string } | null;
 }
 
 export const DamagedStock = () => {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [logs, setLogs] = useState<DamagedStockLog[]>([]);
   const [filteredLogs, setFilteredLogs] = useState<DamagedStockLog[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [batches, setBatches] = useState<InventoryBatch[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -95,6 +105,8 @@ export const DamagedStock = () => {
     quantity: 0,
     unit_cost: 0,
     reason: "",
+    batch_id: "",
+    location_id: "",
   });
 
   const [editFormData, setEditFormData] = useState({
@@ -103,13 +115,14 @@ export const DamagedStock = () => {
     quantity: 0,
     unit_cost: 0,
     reason: "",
+    location_id: "",
   });
 
   const fetchLogs = useCallback(async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from("damaged_stock_log")
-      .select("*, products(name), customers(name)")
+      .select("*, products(name), customers(name), inventory_batches(batch_code, expiry_date), stock_locations(name)")
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -144,11 +157,49 @@ export const DamagedStock = () => {
     }
   }, [toast]);
 
+  const fetchLocations = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("stock_locations")
+      .select("*")
+      .eq("is_active", true)
+      .order("name", { ascending: true });
+    if (error) {
+      toast({ title: "Error fetching locations", description: error.message, variant: "destructive" });
+    } else {
+      const activeLocations = (data || []) as StockLocation[];
+      setLocations(activeLocations);
+      setFormData((current) => current.location_id ? current : { ...current, location_id: getDefaultLocation(activeLocations)?.id || "" });
+    }
+  }, [toast]);
+
   useEffect(() => {
     fetchLogs();
     fetchProducts();
     fetchVendors();
-  }, [fetchLogs, fetchProducts, fetchVendors]);
+    fetchLocations();
+  }, [fetchLogs, fetchProducts, fetchVendors, fetchLocations]);
+
+  useEffect(() => {
+    if (!formData.product_id || !formData.location_id) {
+      setBatches([]);
+      return;
+    }
+    const fetchBatches = async () => {
+      const { data, error } = await supabase
+        .from("inventory_batches")
+        .select("*")
+        .eq("product_id", formData.product_id)
+        .eq("location_id", formData.location_id)
+        .gt("quantity", 0)
+        .order("expiry_date", { ascending: true, nullsFirst: false });
+      if (error) {
+        toast({ title: "Error fetching batches", description: error.message, variant: "destructive" });
+      } else {
+        setBatches((data || []) as InventoryBatch[]);
+      }
+    };
+    fetchBatches();
+  }, [formData.product_id, formData.location_id, toast]);
 
   useEffect(() => {
     let result = logs;
@@ -173,54 +224,24 @@ export const DamagedStock = () => {
       return;
     }
 
-    const totalValue = formData.quantity * formData.unit_cost;
-    
-    const { error: logError } = await supabase.from("damaged_stock_log").insert([
-      {
-        product_id: formData.product_id,
-        vendor_id: formData.vendor_id,
-        quantity: formData.quantity,
-        unit_cost: formData.unit_cost,
-        reason: formData.reason,
-      },
-    ]);
-
-    if (logError) {
-      toast({ title: "Error creating log", description: logError.message, variant: "destructive" });
-      return;
-    }
-
-    // Create credit record for the damaged stock
-    const productName = products.find(p => p.id === formData.product_id)?.name || 'Unknown Product';
-    const creditComments = `Credit for damaged stock: ${productName} (Qty: ${formData.quantity}, Reason: ${formData.reason || 'Not specified'})`;
-    
-    const { error: creditError } = await supabase.from("credit").insert([
-      {
-        vendor_id: formData.vendor_id,
-        amount: totalValue,
-        date: new Date().toISOString(),
-        comments: creditComments,
-        status: 'pending'
-      },
-    ]);
-
-    if (creditError) {
-      toast({ title: "Warning", description: "Damaged stock logged but failed to create credit record.", variant: "destructive" });
-    }
-
-    const { error: stockError } = await supabase.rpc("decrement_stock_from_damage", {
+    // The stock movement, the log entry and the vendor credit are saved together
+    const { error } = await supabase.rpc("record_damaged_stock", {
       p_product_id: formData.product_id,
+      p_vendor_id: formData.vendor_id,
       p_quantity: formData.quantity,
+      p_unit_cost: formData.unit_cost,
+      p_reason: formData.reason,
+      p_batch_id: formData.batch_id || null,
+      p_location_id: formData.location_id || null,
     });
 
-    if (stockError) {
-      toast({ title: "Error updating stock", description: stockError.message, variant: "destructive" });
+    if (error) {
+      toast({ title: "Error logging damaged stock", description: error.message, variant: "destructive" });
     } else {
-      const creditMessage = creditError ? " Credit record creation failed." : " Credit record created automatically.";
-      toast({ title: "Success", description: `Damaged stock logged successfully.${creditMessage}` });
+      toast({ title: "Success", description: "Damaged stock logged successfully. Credit record created automatically." });
       fetchLogs();
       setIsDialogOpen(false);
-      setFormData({ product_id: "", vendor_id: "", quantity: 0, unit_cost: 0, reason: "" });
+      setFormData({ product_id: "", vendor_id: "", quantity: 0, unit_cost: 0, reason: "", batch_id: "", location_id: getDefaultLocation(locations)?.id || "" });
       setVendorSearchOpen(false);
       setProductSearchOpen(false);
     }
@@ -234,6 +255,7 @@ export const DamagedStock = () => {
       quantity: log.quantity,
       unit_cost: log.unit_cost,
       reason: log.reason,
+      location_id: log.location_id || "",
     });
     setIsEditDialogOpen(true);
   };
@@ -246,37 +268,21 @@ export const DamagedStock = () => {
 
     if (!editingLog) return;
 
-    // Calculate stock difference
-    const quantityDiff = editFormData.quantity - editingLog.quantity;
+    const { error } = await supabase.rpc("update_damaged_stock", {
+      p_log_id: editingLog.id,
+      p_product_id: editFormData.product_id,
+      p_vendor_id: editFormData.vendor_id,
+      p_quantity: editFormData.quantity,
+      p_unit_cost: editFormData.unit_cost,
+      p_reason: editFormData.reason,
+      p_location_id: editFormData.location_id || null,
+    });
 
-    const { error: updateError } = await supabase
-      .from("damaged_stock_log")
-      .update({
-        product_id: editFormData.product_id,
-        vendor_id: editFormData.vendor_id,
-        quantity: editFormData.quantity,
-        unit_cost: editFormData.unit_cost,
-        reason: editFormData.reason,
-      })
-      .eq("id", editingLog.id);
-
-    if (updateError) {
-      toast({ title: "Error updating log", description: updateError.message, variant: "destructive" });
+    if (error) {
+      toast({ title: "Error updating log", description: error.message, variant: "destructive" });
       return;
     }
 
-    // Adjust stock if quantity changed
-    if (quantityDiff !== 0) {
-      const { error: stockError } = await supabase.rpc("decrement_stock_from_damage", {
-        p_product_id: editFormData.product_id,
-        p_quantity: quantityDiff,
-      });
-
-      if (stockError) {
-        toast({ title: "Error updating stock", description: stockError.message, variant: "destructive" });
-      }
-    }
-
     toast({ title: "Success", description: "Damaged stock log updated successfully." });
     fetchLogs();
     setIsEditDialogOpen(false);
@@ -404,6 +410,16 @@ export const DamagedStock = () => {
               <p className="text-muted-foreground">Vendor</p>
               <p className="font-medium">{log.customers?.name || 'Unknown'}</p>
             </div>
+            <div>
+              <p className="text-muted-foreground">Location</p>
+              <p className="font-medium">{log.stock_locations?.name || '-'}</p>
+            </div>
+            {log.inventory_batches && (
+              <div>
+                <p className="text-muted-foreground">Batch</p>
+                <p className="font-medium">{log.inventory_batches.batch_code}</p>
+              </div>
+            )}
           </div>
           
           {log.reason && (
@@ -413,6 +429,7 @@ export const DamagedStock = () => {
             </div>
           )}
           
+          {can("damaged_stock.record") && (
           <div className="flex gap-2">
             <Button 
               size="sm" 
@@ -433,6 +450,7 @@ export const DamagedStock = () => {
               </Button>
             )}
           </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -456,11 +474,13 @@ export const DamagedStock = () => {
               try {
                 exportToCSV({
                   filename: 'damaged-stock-log',
-                  headers: ['Date', 'Product', 'Vendor', 'Quantity', 'Unit Cost', 'Total Value', 'Reason', 'Status'],
+                  headers: ['Date', 'Product', 'Location', 'Batch', 'Vendor', 'Quantity', 'Unit Cost', 'Total Value', 'Reason', 'Status'],
                   data: filteredLogs,
                   transformData: (log) => ({
                     'Date': formatDateTime(log.created_at),
                     'Product': log.products?.name || 'N/A',
+                    'Location': log.stock_locations?.name || '',
+                    'Batch': log.inventory_batches?.batch_code || '',
                     'Vendor': log.customers?.name || 'N/A',
                     'Quantity': log.quantity.toString(),
                     'Unit Cost': formatCurrency(log.unit_cost),
@@ -483,7 +503,7 @@ export const DamagedStock = () => {
           
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button disabled={!can("damaged_stock.record")}>
                 <Plus className="h-4 w-4 mr-2" />
                 <span className="hidden sm:inline">Log Damaged Stock</span>
                 <span className="sm:hidden">Log Damage</span>
@@ -529,7 +549,7 @@ export const DamagedStock = () => {
                               key={product.id}
                               value={product.name}
                               onSelect={() => {
-                                setFormData({ ...formData, product_id: product.id });
+                                setFormData({ ...formData, product_id: product.id, batch_id: "" });
                                 setProductSearchOpen(false);
                               }}
                               className="cursor-pointer"
@@ -544,6 +564,43 @@ export const DamagedStock = () => {
                   </PopoverContent>
                 </Popover>
               </div>
+              <div>
+                <Label className="text-sm font-medium">Location</Label>
+                <Select
+                  value={formData.location_id}
+                  onValueChange={(value) => setFormData({ ...formData, location_id: value, batch_id: "" })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {batches.length > 0 && (
+                <div>
+                  <Label className="text-sm font-medium">Batch</Label>
+                  <Select
+                    value={formData.batch_id || "any"}
+                    onValueChange={(value) => setFormData({ ...formData, batch_id: value === "any" ? "" : value })}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Any batch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any batch (earliest expiry first)</SelectItem>
+                      {batches.map((batch) => (
+                        <SelectItem key={batch.id} value={batch.id}>
+                          {formatBatchLabel(batch)}{getExpiryStatus(batch.expiry_date) === 'expired' ? ' (Expired)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div>
                 <Label className="text-sm font-medium">Vendor *</Label>
                 <VendorDropdown
@@ -660,6 +717,22 @@ export const DamagedStock = () => {
                   </PopoverContent>
                 </Popover>
               </div>
+              <div>
+                <Label className="text-sm font-medium">Location</Label>
+                <Select
+                  value={editFormData.location_id}
+                  onValueChange={(value) => setEditFormData({ ...editFormData, location_id: value })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div>
                 <Label className="text-sm font-medium">Vendor *</Label>
                 <VendorDropdown
@@ -832,6 +905,8 @@ export const DamagedStock = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead>Product</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Batch</TableHead>
                   <TableHead>Vendor</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Quantity</TableHead>
@@ -845,13 +920,13 @@ export const DamagedStock = () => {
               <TableBody>
                 {loading ? (
                   <TableRow>
-                    <TableCell colSpan={9} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       Loading...
                     </TableCell>
                   </TableRow>
                 ) : filteredLogs.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={11} className="text-center py-8 text-muted-foreground">
                       No damaged stock logs found.
                     </TableCell>
                   </TableRow>
@@ -859,6 +934,8 @@ export const DamagedStock = () => {
                   filteredLogs.map((log) => (
                     <TableRow key={log.id}>
                       <TableCell className="font-medium">{log.products.name}</TableCell>
+                      <TableCell>{log.stock_locations?.name || '-'}</TableCell>
+                      <TableCell>{log.inventory_batches?.batch_code || '-'}</TableCell>
                       <TableCell className="font-medium">{log.customers?.name || 'Unknown Vendor'}</TableCell>
                       <TableCell>{new Date(log.created_at).toLocaleDateString()}</TableCell>
                       <TableCell>{log.quantity}</TableCell>
@@ -871,6 +948,7 @@ export const DamagedStock = () => {
                         </Badge>
                       </TableCell>
                       <TableCell>
+                        {can("damaged_stock.record") && (
                         <div className="flex gap-2">
                           <Button 
                             size="sm" 
@@ -888,6 +966,7 @@ export const DamagedStock = () => {
                             </Button>
                           )}
                         </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -19,9 +19,12 @@ import {
   TrendingDown,
   CalendarDays,
   CalendarIcon,
-  DollarSign
+  DollarSign,
+  Clock
 } from "lucide-react";
+import { addDays, format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { EXPIRY_WARNING_DAYS, InventoryBatch, getExpiryLabel, getExpiryStatus } from "@/lib/batches";
 import { supabase } from "@/lib/supabase";
 
 interface Product {
@@ -55,6 +58,7 @@ export const Dashboard = () => {
   const { toast } = useToast();
   const [products, setProducts] = useState<Product[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [expiringBatches, setExpiringBatches] = useState<InventoryBatch[]>([]);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -70,13 +74,20 @@ export const Dashboard = () => {
       .select("id, name, outstanding_balance")
       .gt("outstanding_balance", 0)
       .order("outstanding_balance", { ascending: false });
+    const batchesPromise = supabase
+      .from("inventory_batches")
+      .select("*, products(name), stock_locations(name)")
+      .gt("quantity", 0)
+      .lte("expiry_date", format(addDays(new Date(), EXPIRY_WARNING_DAYS), "yyyy-MM-dd"))
+      .order("expiry_date", { ascending: true });
 
-    const [statsRes, extendedStatsRes, productRes, inventoryRes, customerRes] = await Promise.all([
+    const [statsRes, extendedStatsRes, productRes, inventoryRes, customerRes, batchesRes] = await Promise.all([
       statsPromise,
       extendedStatsPromise,
       productPromise,
       inventoryPromise,
       customerPromise,
+      batchesPromise,
     ]);
 
     if (statsRes.error || extendedStatsRes.error) {
@@ -105,6 +116,12 @@ export const Dashboard = () => {
       setCustomers(customerRes.data || []);
     }
 
+    if (batchesRes.error) {
+      toast({ title: "Error fetching expiring batches", description: batchesRes.error.message, variant: "destructive" });
+    } else {
+      setExpiringBatches((batchesRes.data || []) as InventoryBatch[]);
+    }
+
     setLoading(false);
   }, [toast]);
 
@@ -286,6 +303,55 @@ export const Dashboard = () => {
         </div>
       </div>
 
+      {/* Expiring Batches */}
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold text-foreground">Expiring Soon</h2>
+        <Card>
+          {expiringBatches.length === 0 ? (
+            <CardContent className="p-6 text-center text-sm text-muted-foreground">
+              No batches expire in the next {EXPIRY_WARNING_DAYS} days.
+            </CardContent>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Expiry Date</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expiringBatches.map(batch => {
+                  const status = getExpiryStatus(batch.expiry_date);
+                  return (
+                    <TableRow key={batch.id}>
+                      <TableCell>{batch.products?.name || 'Unknown'}</TableCell>
+                      <TableCell>{batch.batch_code}</TableCell>
+                      <TableCell>{batch.stock_locations?.name || '-'}</TableCell>
+                      <TableCell>{batch.expiry_date ? new Date(batch.expiry_date).toLocaleDateString() : '-'}</TableCell>
+                      <TableCell className="text-right">{batch.quantity}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={status === 'expired' ? 'destructive' : 'secondary'} className="gap-1">
+                          <Clock className="h-3 w-3" />
+                          {getExpiryLabel(batch.expiry_date)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+        {expiringBatches.some(batch => getExpiryStatus(batch.expiry_date) === 'expired') && (
+          <p className="text-xs text-muted-foreground">
+            Expired batches are not used for sales. Write them off from the Damaged Stock page.
+          </p>
+        )}
+      </div>
 
       {/* Product Scorecards */}
       <div className="space-y-4">
@@ -45,6 +45,7 @@ import {
     Tag,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getBillBalance } from "@/lib/aging";
 import { supabase } from "@/lib/supabase";
 import {
     formatCurrency,
@@ -53,8 +54,11 @@ import {
     getTopCustomers,
     getExpensesByCategory,
     getDateRangePreset,
+    getMarginBreakdown,
     type Transaction,
     type MonthlyData,
+    type BilledItem,
+    type MarginGrouping,
 } from "@/lib/financialUtils";
 import * as XLSX from "exceljs";
 
@@ -105,6 +109,8 @@ export const FinancialAnalytics = () => {
     const [vendors, setVendors] = useState<Customer[]>([]);
     const [products, setProducts] = useState<Product[]>([]);
     const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+    const [billedItems, setBilledItems] = useState<BilledItem[]>([]);
+    const [marginGrouping, setMarginGrouping] = useState<MarginGrouping>("product");
 
     // Pagination
     const [currentPage, setCurrentPage] = useState(1);
@@ -152,6 +158,26 @@ export const FinancialAnalytics = () => {
                 end = range.end;
             }
 
+            // Fetch billed items with their cost, bill tax and discount and returns for the margin report
+            let marginQuery = supabase
+                .from("bill_items")
+                .select(
+                    "product_id, quantity, price, unit_cost, gst_rate, cess_rate, bills!inner(date_of_bill, customer_id, total_amount, discount, is_gst_bill, is_inter_state, cgst_percentage, sgst_percentage, cess_percentage, igst_percentage), credit_note_items(quantity)"
+                )
+                .gte("bills.date_of_bill", start.toISOString())
+                .lte("bills.date_of_bill", end.toISOString());
+
+            if (selectedCustomers.length > 0) {
+                marginQuery = marginQuery.in("bills.customer_id", selectedCustomers);
+            }
+            if (selectedProducts.length > 0) {
+                marginQuery = marginQuery.in("product_id", selectedProducts);
+            }
+
+            const { data: billedItemsData, error: billedItemsError } = await marginQuery;
+            if (billedItemsError) throw billedItemsError;
+            setBilledItems((billedItemsData || []) as unknown as BilledItem[]);
+
             // If product filter is selected, first get bill_ids that contain those products
             let billIdsWithProducts: string[] | null = null;
             if (selectedProducts.length > 0) {
@@ -171,6 +197,7 @@ export const FinancialAnalytics = () => {
                 .select("*")
                 .gte("date_of_transaction", start.toISOString())
                 .lte("date_of_transaction", end.toISOString())
+                .neq("clearance_status", "bounced")
                 .order("date_of_transaction", { ascending: false });
 
             if (selectedVendors.length > 0) {
@@ -222,11 +249,11 @@ export const FinancialAnalytics = () => {
             // Get outstanding receivables
             const { data: billsData } = await supabase
                 .from("bills")
-                .select("total_amount, paid_amount")
+                .select("total_amount, paid_amount, credited_amount")
                 .in("status", ["outstanding", "partial"]);
 
             const outstandingReceivables = (billsData || []).reduce(
-                (sum, bill) => sum + (bill.total_amount - bill.paid_amount),
+                (sum, bill) => sum + getBillBalance(bill),
                 0
             );
 
@@ -295,6 +322,20 @@ export const FinancialAnalytics = () => {
                 });
             });
 
+            const marginSheet = workbook.addWorksheet("Margins");
+            marginSheet.columns = [
+                { header: "Product", key: "label", width: 30 },
+                { header: "Quantity", key: "quantity", width: 12 },
+                { header: "Sales", key: "sales", width: 15 },
+                { header: "Cost", key: "cost", width: 15 },
+                { header: "Margin", key: "margin", width: 15 },
+                { header: "Margin %", key: "marginPercent", width: 12 },
+                { header: "Uncosted Sales", key: "uncostedSales", width: 15 },
+            ];
+            getMarginBreakdown(billedItems, "product", products).forEach((row) => {
+                marginSheet.addRow({ ...row, marginPercent: Number(row.marginPercent.toFixed(2)) });
+            });
+
             // Generate file
             const buffer = await workbook.xlsx.writeBuffer();
             const blob = new Blob([buffer], {
@@ -322,6 +363,20 @@ export const FinancialAnalytics = () => {
     };
 
     const topCustomers = getTopCustomers(transactions, customers, 5);
+    const marginRows = getMarginBreakdown(
+        billedItems,
+        marginGrouping,
+        marginGrouping === "product" ? products : customers
+    );
+    const marginTotals = marginRows.reduce(
+        (totals, row) => ({
+            sales: totals.sales + row.sales,
+            cost: totals.cost + row.cost,
+            margin: totals.margin + row.margin,
+            uncostedSales: totals.uncostedSales + row.uncostedSales,
+        }),
+        { sales: 0, cost: 0, margin: 0, uncostedSales: 0 }
+    );
     const expensesByCategory = getExpensesByCategory(transactions, categories);
 
     // Pagination
@@ -661,6 +716,78 @@ export const FinancialAnalytics = () => {
                 </CardContent>
             </Card>
 
+            {/* Gross Margin */}
+            <Card>
+                <CardHeader>
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+                        <CardTitle>Gross Margin</CardTitle>
+                        <Select value={marginGrouping} onValueChange={(value) => setMarginGrouping(value as MarginGrouping)}>
+                            <SelectTrigger className="w-full sm:w-[180px]">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="product">Per Product</SelectItem>
+                                <SelectItem value="customer">Per Customer</SelectItem>
+                                <SelectItem value="month">Per Month</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>{marginGrouping === "product" ? "Product" : marginGrouping === "customer" ? "Customer" : "Month"}</TableHead>
+                                <TableHead className="text-right">Qty</TableHead>
+                                <TableHead className="text-right">Sales</TableHead>
+                                <TableHead className="text-right">Cost</TableHead>
+                                <TableHead className="text-right">Margin</TableHead>
+                                <TableHead className="text-right">Margin %</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {marginRows.length > 0 ? (
+                                marginRows.map((row) => (
+                                    <TableRow key={row.key}>
+                                        <TableCell className="font-medium">{row.label}</TableCell>
+                                        <TableCell className="text-right">{row.quantity}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(row.sales)}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(row.cost)}</TableCell>
+                                        <TableCell
+                                            className={`text-right font-semibold ${row.margin >= 0 ? "text-green-600" : "text-red-600"}`}
+                                        >
+                                            {formatCurrency(row.margin)}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {formatPercentage(row.marginPercent, false)}
+                                        </TableCell>
+                                    </TableRow>
+                                ))
+                            ) : (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                                        No billed items in this period
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                        </TableBody>
+                    </Table>
+                    <div className="flex flex-wrap justify-between gap-2 mt-4 text-sm">
+                        <span>
+                            Total margin: <span className="font-semibold">{formatCurrency(marginTotals.margin)}</span> on {formatCurrency(marginTotals.sales - marginTotals.uncostedSales)} of costed sales
+                        </span>
+                        {marginTotals.uncostedSales > 0 && (
+                            <span className="text-muted-foreground">
+                                {formatCurrency(marginTotals.uncostedSales)} of sales had no cost recorded and is left out
+                            </span>
+                        )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                        Sales are line values before bill discounts and GST. Cost is the product's average cost when the bill was made.
+                    </p>
+                </CardContent>
+            </Card>
+
             {/* Additional Insights */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Top Customers */}
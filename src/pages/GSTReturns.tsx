@@ -0,0 +1,580 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, FileText, AlertTriangle } from "lucide-react";
+import * as XLSX from "exceljs";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabase";
+import { downloadFile } from "@/lib/utils";
+import { getStateByCode } from "@/lib/indian-states";
+import {
+  buildGstReturn,
+  toGstr1Json,
+  toGstr3bJson,
+  GstReturnBill,
+  GstReturnCreditNote,
+  GstReturnReport,
+} from "@/lib/gst-returns";
+
+const formatAmount = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPlaceOfSupply = (code: string) => {
+  const state = getStateByCode(code);
+  return state ? `${code}-${state.name}` : code || "-";
+};
+
+const downloadJSON = (content: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(content, null, 2)], { type: "application/json" });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+export const GSTReturns = () => {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [report, setReport] = useState<GstReturnReport | null>(null);
+  const [sellerGstin, setSellerGstin] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!month) return;
+    setLoading(true);
+    try {
+      const [year, monthNumber] = month.split("-").map(Number);
+      const start = new Date(year, monthNumber - 1, 1);
+      const end = new Date(year, monthNumber, 1);
+
+      const [billsRes, creditNotesRes, sellerRes] = await Promise.all([
+        supabase
+          .from("bills")
+          .select(
+            "id, invoice_number, date_of_bill, total_amount, cgst_percentage, sgst_percentage, cess_percentage, igst_percentage, place_of_supply, is_inter_state, customers(name, gst_number, state_code), bill_items(quantity, price, hsn_code, gst_rate, cess_rate)"
+          )
+          .eq("is_gst_bill", true)
+          .gte("date_of_bill", start.toISOString())
+          .lt("date_of_bill", end.toISOString())
+          .order("date_of_bill", { ascending: true }),
+        supabase
+          .from("credit_notes")
+          .select(
+            "id, credit_note_number, date_of_credit_note, total_amount, bills!inner(id, invoice_number, date_of_bill, total_amount, cgst_percentage, sgst_percentage, cess_percentage, igst_percentage, place_of_supply, is_inter_state, customers(name, gst_number, state_code)), credit_note_items(quantity, price, bill_items(hsn_code, gst_rate, cess_rate))"
+          )
+          .eq("bills.is_gst_bill", true)
+          .gte("date_of_credit_note", start.toISOString())
+          .lt("date_of_credit_note", end.toISOString())
+          .order("date_of_credit_note", { ascending: true }),
+        supabase.from("seller_info").select("gst_number, state_code").limit(1).maybeSingle(),
+      ]);
+
+      if (billsRes.error) throw billsRes.error;
+      if (creditNotesRes.error) throw creditNotesRes.error;
+      if (sellerRes.error) throw sellerRes.error;
+
+      setSellerGstin(sellerRes.data?.gst_number || "");
+      setReport(
+        buildGstReturn(
+          (billsRes.data || []) as unknown as GstReturnBill[],
+          (creditNotesRes.data || []) as unknown as GstReturnCreditNote[],
+          month,
+          sellerRes.data?.state_code || null
+        )
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to load GST bills: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [month, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const ensureGstin = () => {
+    if (sellerGstin) return true;
+    toast({
+      title: "Seller GSTIN Missing",
+      description: "Add your GST number under Seller Info before exporting returns.",
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  const handleExportGstr1 = () => {
+    if (!report || !ensureGstin()) return;
+    downloadJSON(toGstr1Json(report, sellerGstin), `GSTR1_${report.period}.json`);
+  };
+
+  const handleExportGstr3b = () => {
+    if (!report || !ensureGstin()) return;
+    downloadJSON(toGstr3bJson(report, sellerGstin), `GSTR3B_${report.period}.json`);
+  };
+
+  const handleExportExcel = async () => {
+    if (!report) return;
+    try {
+      const workbook = new XLSX.Workbook();
+
+      const addSheet = (name: string, headers: string[], rows: (string | number)[][]) => {
+        const worksheet = workbook.addWorksheet(name);
+        worksheet.addRow(headers);
+        rows.forEach((row) => worksheet.addRow(row));
+        const headerRow = worksheet.getRow(1);
+        headerRow.font = { bold: true };
+        headerRow.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: "FFE6E6FA" },
+        };
+        worksheet.columns.forEach((column) => {
+          column.width = 18;
+        });
+      };
+
+      const invoiceRows = (invoices: GstReturnReport["b2b"]) =>
+        invoices.flatMap((invoice) =>
+          invoice.rateLines.map((line) => [
+            invoice.gstin || "",
+            invoice.customerName,
+            invoice.invoice_number,
+            format(new Date(invoice.date), "dd-MM-yyyy"),
+            invoice.value,
+            formatPlaceOfSupply(invoice.placeOfSupply),
+            line.rate,
+            line.taxableValue,
+            line.igst,
+            line.cgst,
+            line.sgst,
+            line.cess,
+          ])
+        );
+      const invoiceHeaders = [
+        "GSTIN",
+        "Receiver Name",
+        "Invoice Number",
+        "Invoice Date",
+        "Invoice Value",
+        "Place Of Supply",
+        "Rate",
+        "Taxable Value",
+        "IGST",
+        "CGST",
+        "SGST",
+        "Cess",
+      ];
+
+      const creditNoteRows = (notes: GstReturnReport["cdnr"]) =>
+        notes.flatMap((note) =>
+          note.rateLines.map((line) => [
+            note.gstin || "",
+            note.customerName,
+            note.note_number,
+            format(new Date(note.date), "dd-MM-yyyy"),
+            note.invoice_number,
+            note.value,
+            formatPlaceOfSupply(note.placeOfSupply),
+            line.rate,
+            line.taxableValue,
+            line.igst,
+            line.cgst,
+            line.sgst,
+            line.cess,
+          ])
+        );
+      const creditNoteHeaders = [
+        "GSTIN",
+        "Receiver Name",
+        "Note Number",
+        "Note Date",
+        "Original Invoice",
+        "Note Value",
+        "Place Of Supply",
+        "Rate",
+        "Taxable Value",
+        "IGST",
+        "CGST",
+        "SGST",
+        "Cess",
+      ];
+
+      addSheet("b2b", invoiceHeaders, invoiceRows(report.b2b));
+      addSheet("b2cl", invoiceHeaders, invoiceRows(report.b2cl));
+      addSheet(
+        "b2cs",
+        ["Type", "Place Of Supply", "Rate", "Taxable Value", "IGST", "CGST", "SGST", "Cess"],
+        report.b2cs.map((row) => [
+          row.interState ? "INTER" : "INTRA",
+          formatPlaceOfSupply(row.placeOfSupply),
+          row.rate,
+          row.taxableValue,
+          row.igst,
+          row.cgst,
+          row.sgst,
+          row.cess,
+        ])
+      );
+      addSheet(
+        "hsn",
+        ["HSN", "UQC", "Total Quantity", "Total Value", "Rate", "Taxable Value", "IGST", "CGST", "SGST", "Cess"],
+        report.hsn.map((row) => [
+          row.hsn_code,
+          "NOS",
+          row.quantity,
+          row.value,
+          row.rate,
+          row.taxableValue,
+          row.igst,
+          row.cgst,
+          row.sgst,
+          row.cess,
+        ])
+      );
+      addSheet("cdnr", creditNoteHeaders, creditNoteRows(report.cdnr));
+      addSheet("cdnur", creditNoteHeaders, creditNoteRows(report.cdnur));
+      addSheet(
+        "gstr3b",
+        ["Nature of Supplies", "Taxable Value", "IGST", "CGST", "SGST", "Cess"],
+        [[
+          "3.1(a) Outward taxable supplies (net of credit notes)",
+          report.netTotals.taxableValue,
+          report.netTotals.igst,
+          report.netTotals.cgst,
+          report.netTotals.sgst,
+          report.netTotals.cess,
+        ]]
+      );
+
+      const buffer = await workbook.xlsx.writeBuffer();
+      downloadFile(buffer, `GST_Returns_${report.period}.xlsx`);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: `Failed to export GST returns: ${(error as Error).message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const b2cTotal = report
+    ? [...report.b2cl, ...report.b2cs].reduce((sum, row) => sum + row.taxableValue, 0)
+    : 0;
+  const b2bTotal = report ? report.b2b.reduce((sum, row) => sum + row.taxableValue, 0) : 0;
+  const creditNotes = report ? [...report.cdnr, ...report.cdnur] : [];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="gst-return-month">Return Period</Label>
+          <Input
+            id="gst-return-month"
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleExportGstr1} disabled={loading || !report} className="gap-2">
+            <FileText className="h-4 w-4" />
+            GSTR-1 JSON
+          </Button>
+          <Button variant="outline" onClick={handleExportGstr3b} disabled={loading || !report} className="gap-2">
+            <FileText className="h-4 w-4" />
+            GSTR-3B JSON
+          </Button>
+          <Button onClick={handleExportExcel} disabled={loading || !report} className="gap-2">
+            <Download className="h-4 w-4" />
+            Export Excel
+          </Button>
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <div className="text-center py-8 text-muted-foreground">Loading GST bills...</div>
+      ) : (
+        <>
+          {report.missingHsnCount > 0 && (
+            <div className="flex items-center gap-2 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4" />
+              {report.missingHsnCount} billed line(s) have no HSN code. Add HSN codes to the products before filing.
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">GST Invoices</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{report.totals.invoiceCount}</div>
+                <p className="text-xs text-muted-foreground">{formatAmount(report.totals.value)} invoiced</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">B2B Taxable Value</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatAmount(b2bTotal)}</div>
+                <p className="text-xs text-muted-foreground">{report.b2b.length} invoice(s)</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">B2C Taxable Value</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatAmount(b2cTotal)}</div>
+                <p className="text-xs text-muted-foreground">{report.b2cl.length} large invoice(s)</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Net Tax</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {formatAmount(
+                    report.netTotals.igst + report.netTotals.cgst + report.netTotals.sgst + report.netTotals.cess
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  IGST {formatAmount(report.netTotals.igst)} · CGST {formatAmount(report.netTotals.cgst)} · SGST{" "}
+                  {formatAmount(report.netTotals.sgst)}
+                </p>
+                {report.creditNoteTotals.creditNoteCount > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    After {report.creditNoteTotals.creditNoteCount} credit note(s) of{" "}
+                    {formatAmount(report.creditNoteTotals.value)}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">B2B Invoices</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>GSTIN</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Place Of Supply</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                    <TableHead className="text-right">Invoice Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.b2b.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No B2B invoices for this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    report.b2b.map((invoice) => (
+                      <TableRow key={invoice.invoice_number}>
+                        <TableCell className="font-mono text-xs">{invoice.gstin}</TableCell>
+                        <TableCell>{invoice.customerName}</TableCell>
+                        <TableCell>{invoice.invoice_number}</TableCell>
+                        <TableCell>{format(new Date(invoice.date), "dd/MM/yyyy")}</TableCell>
+                        <TableCell>{formatPlaceOfSupply(invoice.placeOfSupply)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(invoice.taxableValue)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(invoice.igst + invoice.cgst + invoice.sgst + invoice.cess)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(invoice.value)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">B2C Supplies</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead>Place Of Supply</TableHead>
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">IGST</TableHead>
+                    <TableHead className="text-right">CGST</TableHead>
+                    <TableHead className="text-right">SGST</TableHead>
+                    <TableHead className="text-right">Cess</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.b2cl.length === 0 && report.b2cs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No B2C supplies for this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    <>
+                      {report.b2cl.map((invoice) =>
+                        invoice.rateLines.map((line) => (
+                          <TableRow key={`${invoice.invoice_number}-${line.rate}`}>
+                            <TableCell>B2CL · {invoice.invoice_number}</TableCell>
+                            <TableCell>{formatPlaceOfSupply(invoice.placeOfSupply)}</TableCell>
+                            <TableCell>{line.rate}%</TableCell>
+                            <TableCell className="text-right">{formatAmount(line.taxableValue)}</TableCell>
+                            <TableCell className="text-right">{formatAmount(line.igst)}</TableCell>
+                            <TableCell className="text-right">{formatAmount(line.cgst)}</TableCell>
+                            <TableCell className="text-right">{formatAmount(line.sgst)}</TableCell>
+                            <TableCell className="text-right">{formatAmount(line.cess)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                      {report.b2cs.map((row) => (
+                        <TableRow key={`${row.placeOfSupply}-${row.interState}-${row.rate}`}>
+                          <TableCell>B2CS · {row.interState ? "Inter-state" : "Intra-state"}</TableCell>
+                          <TableCell>{formatPlaceOfSupply(row.placeOfSupply)}</TableCell>
+                          <TableCell>{row.rate}%</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.taxableValue)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.igst)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.cgst)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.sgst)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(row.cess)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Credit Notes</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Original Invoice</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                    <TableHead className="text-right">Note Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {creditNotes.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No credit notes for this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    creditNotes.map((note) => (
+                      <TableRow key={note.note_number}>
+                        <TableCell>{note.gstin ? "CDNR" : "CDNUR"}</TableCell>
+                        <TableCell>{note.note_number}</TableCell>
+                        <TableCell>{format(new Date(note.date), "dd/MM/yyyy")}</TableCell>
+                        <TableCell>{note.invoice_number}</TableCell>
+                        <TableCell>{note.gstin ? `${note.customerName} (${note.gstin})` : note.customerName}</TableCell>
+                        <TableCell className="text-right">{formatAmount(note.taxableValue)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(note.igst + note.cgst + note.sgst + note.cess)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(note.value)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Returns against small B2C invoices are netted into the B2CS rows above.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">HSN Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>HSN</TableHead>
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">IGST</TableHead>
+                    <TableHead className="text-right">CGST</TableHead>
+                    <TableHead className="text-right">SGST</TableHead>
+                    <TableHead className="text-right">Cess</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.hsn.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No items billed in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    report.hsn.map((row) => (
+                      <TableRow key={`${row.hsn_code}-${row.rate}`}>
+                        <TableCell>{row.hsn_code || "Not set"}</TableCell>
+                        <TableCell>{row.rate}%</TableCell>
+                        <TableCell className="text-right">{row.quantity}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.taxableValue)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.igst)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.cgst)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.sgst)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.cess)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
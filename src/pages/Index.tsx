@@ -1,9 +1,10 @@
-import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getHomeRoute } from "@/lib/permissions";
 import { Loader2 } from "lucide-react";
 import { Navigate } from "react-router-dom";
 
 export const Index = () => {
-  const { session, loading, role } = useAuth();
+  const { session, loading, can } = usePermissions();
 
   if (loading) {
     return (
@@ -14,10 +15,17 @@ export const Index = () => {
   }
 
   if (session) {
-    if (role === 'staff') {
-      return <Navigate to="/orders" replace />;
+    const homeRoute = getHomeRoute(can);
+    if (!homeRoute) {
+      return (
+        <div className="flex items-center justify-center h-screen p-6 text-center">
+          <p className="text-muted-foreground">
+            Your account has no pages assigned yet. Ask an administrator to grant you access.
+          </p>
+        </div>
+      );
     }
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={homeRoute} replace />;
   }
 
   return <Navigate to="/auth" replace />;
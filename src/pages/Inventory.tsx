@@ -6,6 +6,7 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -17,11 +18,21 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { exportToCSV, formatCurrency } from "@/lib/csv-export";
+import { StockMovementReason, STOCK_MOVEMENT_REASONS, formatQuantityChange, getStockMovementLabel } from "@/lib/stock-movements";
+import {
+  LocationQuantity,
+  StockLocation,
+  StockLocationType,
+  STOCK_LOCATION_TYPES,
+  getDefaultLocation,
+  getLocationQuantity,
+  getStockLocationTypeLabel,
+} from "@/lib/stock-locations";
 import { supabase } from "@/lib/supabase";
 import { endOfMonth, format, startOfMonth } from "date-fns";
-import { AlertTriangle, Check, ChevronsUpDown, Download, Package, Plus } from "lucide-react";
+import { AlertTriangle, ArrowRightLeft, Check, ChevronsUpDown, Download, Package, Plus, Trash2 } from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
 import { DateRange } from "react-day-picker";
 
@@ -32,6 +43,7 @@ interface InventoryItem {
   min_stock: number;
   price: number;
   lot_size: number;
+  locations: LocationQuantity[];
 }
 
 interface Product {
@@ -49,20 +61,35 @@ interface Transaction {
   id: string;
   created_at: string;
   quantity_change: number;
+  reason: StockMovementReason;
+  balance_after: number | null;
   comments: string;
+  created_by_username: string | null;
   products: { name: string };
   customers: { name: string };
+  inventory_batches: { batch_code: string } | null;
+  stock_locations: { name: string } | null;
+}
+
+interface TransferItem {
+  product_id: string;
+  quantity: number;
 }
 
 export const Inventory = () => {
   const { toast } = useToast();
-  const { role } = useAuth();
+  const { can } = usePermissions();
   const [selectedProduct, setSelectedProduct] = useState("");
   const [selectedVendor, setSelectedVendor] = useState("");
   const [quantity, setQuantity] = useState(1);
   const [cases, setCases] = useState(0);
   const [selectedProductLotSize, setSelectedProductLotSize] = useState(1);
   const [comments, setComments] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+  const [batchCode, setBatchCode] = useState("");
+  const [manufactureDate, setManufactureDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [stockLocation, setStockLocation] = useState("");
 
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
   const [filteredInventory, setFilteredInventory] = useState<InventoryItem[]>([]);
@@ -74,10 +101,26 @@ export const Inventory = () => {
   const [loadingProducts, setLoadingProducts] = useState(false);
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [newQuantity, setNewQuantity] = useState(0);
+  const [adjustmentNote, setAdjustmentNote] = useState("");
+
+  // Locations and transfers
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [inventoryLocation, setInventoryLocation] = useState("all");
+  const [transferFrom, setTransferFrom] = useState("");
+  const [transferTo, setTransferTo] = useState("");
+  const [transferItems, setTransferItems] = useState<TransferItem[]>([]);
+  const [transferProduct, setTransferProduct] = useState("");
+  const [transferQuantity, setTransferQuantity] = useState(1);
+  const [transferComments, setTransferComments] = useState("");
+  const [transferProductSearchOpen, setTransferProductSearchOpen] = useState(false);
+  const [newLocationName, setNewLocationName] = useState("");
+  const [newLocationType, setNewLocationType] = useState<StockLocationType>("van");
 
   // Filters
   const [productFilter, setProductFilter] = useState("all");
   const [vendorFilter, setVendorFilter] = useState("all");
+  const [reasonFilter, setReasonFilter] = useState("all");
+  const [locationFilter, setLocationFilter] = useState("all");
   const [vendorSearchOpen, setVendorSearchOpen] = useState(false);
   const [productSearchOpen, setProductSearchOpen] = useState(false);
   const [addStockVendorSearchOpen, setAddStockVendorSearchOpen] = useState(false);
@@ -92,19 +135,24 @@ export const Inventory = () => {
     setLoading(true);
     const inventoryPromise = supabase.from("inventory").select(`
       quantity,
-      products (id, name, price, min_stock, lot_size)
+      products (id, name, price, min_stock, lot_size, location_stock (location_id, quantity))
     `);
+    const locationsPromise = supabase.from("stock_locations").select("*").order("name", { ascending: true });
     const vendorsPromise = supabase.from("customers").select("id, name").eq("type", "vendor").order("name", { ascending: true });
     const allProductsPromise = supabase.from("products").select("id, name").order("name", { ascending: true });
     
     let transactionsQuery = supabase.from("inventory_transactions").select(`
-      id, created_at, quantity_change, comments,
+      id, created_at, quantity_change, reason, balance_after, comments, created_by_username,
       products (name),
-      customers (name)
+      customers (name),
+      inventory_batches (batch_code),
+      stock_locations (name)
     `);
 
     if (productFilter !== "all") transactionsQuery = transactionsQuery.eq('product_id', productFilter);
     if (vendorFilter !== "all") transactionsQuery = transactionsQuery.eq('vendor_id', vendorFilter);
+    if (reasonFilter !== "all") transactionsQuery = transactionsQuery.eq('reason', reasonFilter);
+    if (locationFilter !== "all") transactionsQuery = transactionsQuery.eq('location_id', locationFilter);
     if (dateRange?.from) transactionsQuery = transactionsQuery.gte('created_at', dateRange.from.toISOString());
     if (dateRange?.to) transactionsQuery = transactionsQuery.lte('created_at', dateRange.to.toISOString());
 
@@ -114,8 +162,9 @@ export const Inventory = () => {
       inventoryRes,
       vendorsRes,
       transactionsRes,
-      allProductsRes
-    ] = await Promise.all([inventoryPromise, vendorsPromise, transactionsPromise, allProductsPromise]);
+      allProductsRes,
+      locationsRes
+    ] = await Promise.all([inventoryPromise, vendorsPromise, transactionsPromise, allProductsPromise, locationsPromise]);
 
     if (inventoryRes.error) toast({ title: "Error fetching inventory", description: inventoryRes.error.message, variant: "destructive" });
     else {
@@ -126,6 +175,7 @@ export const Inventory = () => {
         min_stock: item.products.min_stock,
         price: item.products.price,
         lot_size: item.products.lot_size || 1,
+        locations: item.products.location_stock || [],
       }));
       setInventory(formattedData as InventoryItem[]);
     }
@@ -139,13 +189,23 @@ export const Inventory = () => {
     if (allProductsRes.error) toast({ title: "Error fetching all products", description: allProductsRes.error.message, variant: "destructive" });
     else setAllProducts(allProductsRes.data || []);
 
+    if (locationsRes.error) toast({ title: "Error fetching stock locations", description: locationsRes.error.message, variant: "destructive" });
+    else setLocations(locationsRes.data || []);
+
     setLoading(false);
-  }, [toast, productFilter, vendorFilter, dateRange]);
+  }, [toast, productFilter, vendorFilter, reasonFilter, locationFilter, dateRange]);
 
   useEffect(() => {
     fetchInitialData();
   }, [fetchInitialData]);
 
+  // Stock is received into and transferred out of the default location unless another one is picked
+  useEffect(() => {
+    const defaultLocationId = getDefaultLocation(locations)?.id || "";
+    if (!stockLocation) setStockLocation(defaultLocationId);
+    if (!transferFrom) setTransferFrom(defaultLocationId);
+  }, [locations, stockLocation, transferFrom]);
+
   // Filter inventory based on search term
   useEffect(() => {
     if (!inventorySearchTerm.trim()) {
@@ -200,12 +260,34 @@ export const Inventory = () => {
   };
 
   const submitStock = async () => {
+    if (unitCost !== "" && (isNaN(parseFloat(unitCost)) || parseFloat(unitCost) < 0)) {
+      toast({ title: "Error", description: "Unit cost cannot be negative.", variant: "destructive" });
+      return;
+    }
     if (!selectedProduct || !selectedVendor || quantity <= 0) {
       toast({ title: "Error", description: "Please select a vendor, a product, and enter a valid quantity.", variant: "destructive" });
       return;
     }
+    if (!batchCode.trim() && (manufactureDate || expiryDate)) {
+      toast({ title: "Error", description: "Enter a batch code for stock with manufacture or expiry dates.", variant: "destructive" });
+      return;
+    }
+    if (manufactureDate && expiryDate && expiryDate < manufactureDate) {
+      toast({ title: "Error", description: "Expiry date cannot be before the manufacture date.", variant: "destructive" });
+      return;
+    }
 
-    const { error } = await supabase.rpc("increment_stock", { p_product_id: selectedProduct, p_quantity: quantity, p_vendor_id: selectedVendor, p_comments: comments });
+    const { error } = await supabase.rpc("increment_stock", {
+      p_product_id: selectedProduct,
+      p_quantity: quantity,
+      p_vendor_id: selectedVendor,
+      p_comments: comments,
+      p_unit_cost: unitCost === "" ? null : parseFloat(unitCost),
+      p_batch_code: batchCode.trim() || null,
+      p_manufacture_date: manufactureDate || null,
+      p_expiry_date: expiryDate || null,
+      p_location_id: stockLocation || null,
+    });
     if (error) toast({ title: "Error updating stock", description: error.message, variant: "destructive" });
     else {
       toast({ title: "Success", description: "Stock updated successfully." });
@@ -215,24 +297,125 @@ export const Inventory = () => {
       setCases(0);
       setSelectedProductLotSize(1);
       setComments("");
+      setUnitCost("");
+      setBatchCode("");
+      setManufactureDate("");
+      setExpiryDate("");
       fetchInitialData();
     }
   };
 
+  // Stock corrections are counted at one location; the total view only allows
+  // them when there is a single location
+  const adjustLocationId =
+    inventoryLocation === "all" ? (locations.length === 1 ? locations[0].id : null) : inventoryLocation;
+
   const handleUpdateStock = async (productId: string) => {
+    if (!adjustLocationId) {
+      toast({ title: "Error", description: "Select the location whose stock you counted.", variant: "destructive" });
+      return;
+    }
     if (newQuantity < 0) {
       toast({ title: "Error", description: "Quantity cannot be negative.", variant: "destructive" });
       return;
     }
-    const { error } = await supabase.from("inventory").update({ quantity: newQuantity }).eq("product_id", productId);
+    const { error } = await supabase.rpc("adjust_stock", {
+      p_product_id: productId,
+      p_new_quantity: newQuantity,
+      p_comments: adjustmentNote,
+      p_location_id: adjustLocationId,
+    });
     if (error) toast({ title: "Error updating stock", description: error.message, variant: "destructive" });
     else {
-      toast({ title: "Success", description: "Stock updated successfully." });
+      toast({ title: "Success", description: "Stock corrected and logged." });
       fetchInitialData();
       setEditingItemId(null);
+      setAdjustmentNote("");
     }
   };
 
+  const addTransferItem = () => {
+    if (!transferProduct || transferQuantity <= 0) {
+      toast({ title: "Error", description: "Select a product and enter a valid quantity.", variant: "destructive" });
+      return;
+    }
+    const existing = transferItems.find((item) => item.product_id === transferProduct);
+    const requested = (existing?.quantity ?? 0) + transferQuantity;
+    const available = getLocationQuantity(inventory.find((item) => item.id === transferProduct)?.locations, transferFrom);
+    if (requested > available) {
+      toast({ title: "Error", description: `Only ${available} units are available at the source location.`, variant: "destructive" });
+      return;
+    }
+    setTransferItems(existing
+      ? transferItems.map((item) => item.product_id === transferProduct ? { ...item, quantity: requested } : item)
+      : [...transferItems, { product_id: transferProduct, quantity: transferQuantity }]);
+    setTransferProduct("");
+    setTransferQuantity(1);
+  };
+
+  const submitTransfer = async () => {
+    if (!transferFrom || !transferTo || transferFrom === transferTo) {
+      toast({ title: "Error", description: "Select two different locations.", variant: "destructive" });
+      return;
+    }
+    if (transferItems.length === 0) {
+      toast({ title: "Error", description: "Add at least one product to transfer.", variant: "destructive" });
+      return;
+    }
+
+    const { error } = await supabase.rpc("transfer_stock", {
+      p_from_location_id: transferFrom,
+      p_to_location_id: transferTo,
+      p_items: transferItems,
+      p_comments: transferComments,
+    });
+    if (error) toast({ title: "Error transferring stock", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: `${transferItems.length} product${transferItems.length === 1 ? "" : "s"} transferred.` });
+      setTransferItems([]);
+      setTransferComments("");
+      fetchInitialData();
+    }
+  };
+
+  const addLocation = async () => {
+    if (!newLocationName.trim()) {
+      toast({ title: "Error", description: "Enter a location name.", variant: "destructive" });
+      return;
+    }
+    const { error } = await supabase.from("stock_locations").insert([{ name: newLocationName.trim(), location_type: newLocationType }]);
+    if (error) toast({ title: "Error adding location", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: "Location added." });
+      setNewLocationName("");
+      fetchInitialData();
+    }
+  };
+
+  const toggleLocationActive = async (location: StockLocation) => {
+    const { error } = await supabase.from("stock_locations").update({ is_active: !location.is_active }).eq("id", location.id);
+    if (error) toast({ title: "Error updating location", description: error.message, variant: "destructive" });
+    else fetchInitialData();
+  };
+
+  const makeDefaultLocation = async (locationId: string) => {
+    const { error } = await supabase.rpc("set_default_stock_location", { p_location_id: locationId });
+    if (error) toast({ title: "Error updating location", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: "Default location updated." });
+      fetchInitialData();
+    }
+  };
+
+  // Stock shown on the Current Inventory tab: the total, or one location's quantity
+  const getItemStock = (item: InventoryItem) =>
+    inventoryLocation === "all" ? item.current_stock : getLocationQuantity(item.locations, inventoryLocation);
+
+  const getLocationStockTotal = (locationId: string) =>
+    inventory.reduce((sum, item) => sum + getLocationQuantity(item.locations, locationId), 0);
+
+  const activeLocations = locations.filter((location) => location.is_active);
+
   const getStockStatus = (current: number, min: number) => {
     if (current === 0) return { label: "Out of Stock", variant: "destructive" as const };
     if (current <= min) return { label: "Low Stock", variant: "destructive" as const };
@@ -263,6 +446,7 @@ export const Inventory = () => {
         <TabsList>
           <TabsTrigger value="add-stock">Add Stock</TabsTrigger>
           <TabsTrigger value="current-inventory">Current Inventory</TabsTrigger>
+          <TabsTrigger value="transfers">Transfers</TabsTrigger>
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
         </TabsList>
         <TabsContent value="add-stock">
@@ -390,11 +574,56 @@ export const Inventory = () => {
                   </p>
                 )}
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="unitCost">Unit Cost (Optional)</Label>
+                <Input
+                  id="unitCost"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={unitCost}
+                  onChange={(e) => setUnitCost(e.target.value)}
+                  placeholder="Purchase price per unit"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Used to keep the product's average cost up to date. Record vendor invoices on the Purchases page to also track what is owed.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="batchCode">Batch Code (Optional)</Label>
+                  <Input id="batchCode" value={batchCode} onChange={(e) => setBatchCode(e.target.value)} placeholder="e.g. B2406" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manufactureDate">Manufacture Date</Label>
+                  <Input id="manufactureDate" type="date" value={manufactureDate} onChange={(e) => setManufactureDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expiryDate">Expiry Date</Label>
+                  <Input id="expiryDate" type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                Batches with the earliest expiry are sold first. Adding to an existing batch code tops that batch up.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="stockLocation">Receive Into</Label>
+                <Select value={stockLocation} onValueChange={setStockLocation}>
+                  <SelectTrigger id="stockLocation">
+                    <SelectValue placeholder="Select location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeLocations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="comments">Comments</Label>
                 <Textarea id="comments" value={comments} onChange={(e) => setComments(e.target.value)} placeholder="Optional comments..." />
               </div>
-              <Button onClick={submitStock} className="w-full">Submit Stock</Button>
+              <Button onClick={submitStock} className="w-full" disabled={!can("stock.add")}>Submit Stock</Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -408,16 +637,32 @@ export const Inventory = () => {
                   size="sm"
                   onClick={() => {
                     try {
+                      // All locations export a column per location next to the total
+                      const locationColumns = inventoryLocation === "all" ? locations : [];
+                      const locationName = locations.find((location) => location.id === inventoryLocation)?.name;
                       exportToCSV({
-                        filename: 'current-inventory',
-                        headers: ['Product Name', 'Current Stock (Units)', 'Cases', 'Lot Size', 'Minimum Stock', 'Price', 'Stock Status'],
+                        filename: locationName ? `current-inventory-${locationName}` : 'current-inventory',
+                        headers: [
+                          'Product Name',
+                          'Current Stock (Units)',
+                          ...locationColumns.map((location) => location.name),
+                          'Cases',
+                          'Lot Size',
+                          'Minimum Stock',
+                          'Price',
+                          'Stock Status'
+                        ],
                         data: filteredInventory,
                         transformData: (item) => {
-                          const stockStatus = item.current_stock === 0 ? 'Out of Stock' : item.current_stock <= item.min_stock ? 'Low Stock' : 'In Stock';
-                          const cases = item.lot_size > 1 ? Math.floor(item.current_stock / item.lot_size) : 0;
+                          const stock = getItemStock(item);
+                          const stockStatus = stock === 0 ? 'Out of Stock' : stock <= item.min_stock ? 'Low Stock' : 'In Stock';
+                          const cases = item.lot_size > 1 ? Math.floor(stock / item.lot_size) : 0;
                           return {
                             'Product Name': item.name,
-                            'Current Stock (Units)': item.current_stock.toString(),
+                            'Current Stock (Units)': stock.toString(),
+                            ...Object.fromEntries(
+                              locationColumns.map((location) => [location.name, getLocationQuantity(item.locations, location.id).toString()])
+                            ),
                             'Cases': cases.toString(),
                             'Lot Size': item.lot_size.toString(),
                             'Minimum Stock': item.min_stock.toString(),
@@ -448,6 +693,17 @@ export const Inventory = () => {
                     onChange={(e) => setInventorySearchTerm(e.target.value)}
                     className="max-w-md"
                   />
+                  <Select value={inventoryLocation} onValueChange={(value) => { setInventoryLocation(value); setEditingItemId(null); }}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="All locations" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Locations</SelectItem>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   {inventorySearchTerm && (
                     <span className="text-sm text-muted-foreground">
                       Showing {filteredInventory.length} of {inventory.length} products
@@ -466,7 +722,8 @@ export const Inventory = () => {
               {loading ? (<p>Loading inventory...</p>) : (
                 <div className="space-y-3">
                   {filteredInventory.map((item) => {
-                    const status = getStockStatus(item.current_stock, item.min_stock);
+                    const stock = getItemStock(item);
+                    const status = getStockStatus(stock, item.min_stock);
                     const isEditing = editingItemId === item.id;
                     return (
                       <div key={item.id} className="flex flex-col sm:flex-row items-start sm:items-center justify-between p-4 bg-muted rounded-lg">
@@ -477,30 +734,38 @@ export const Inventory = () => {
                               <div className="flex items-center gap-2">
                                 <Label htmlFor={`quantity-${item.id}`} className="text-xs">Current:</Label>
                                 <Input id={`quantity-${item.id}`} type="number" value={newQuantity} onChange={(e) => setNewQuantity(parseInt(e.target.value, 10) || 0)} className="h-8 w-24" />
+                                <Input value={adjustmentNote} onChange={(e) => setAdjustmentNote(e.target.value)} placeholder="Reason for correction" className="h-8 w-48" />
                               </div>
                             ) : (
                               <div className="flex items-center gap-4">
-                                <span>Current: {item.current_stock} units</span>
+                                <span>Current: {stock} units</span>
                                 {item.lot_size > 1 && (
                                   <span className="text-blue-600 font-medium">
-                                    ({Math.floor(item.current_stock / item.lot_size)} cases)
+                                    ({Math.floor(stock / item.lot_size)} cases)
                                   </span>
                                 )}
                               </div>
                             )}
                             <span>Min: {item.min_stock}</span>
-                            <span>Value: Rs. {(item.current_stock * item.price).toFixed(2)}</span>
+                            <span>Value: Rs. {(stock * item.price).toFixed(2)}</span>
                             {item.lot_size > 1 && (
                               <span className="text-green-600">
                                 Lot Size: {item.lot_size}
                               </span>
                             )}
                           </div>
+                          {inventoryLocation === "all" && locations.length > 1 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {locations
+                                .map((location) => `${location.name}: ${getLocationQuantity(item.locations, location.id)}`)
+                                .join(" · ")}
+                            </p>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 mt-2 sm:mt-0">
                           <Badge variant={status.variant}>{status.label}</Badge>
-                          {role === 'admin' && (
-                            isEditing ? (<Button size="sm" onClick={() => handleUpdateStock(item.id)}>Save</Button>) : (<Button variant="outline" size="sm" onClick={() => { setEditingItemId(item.id); setNewQuantity(item.current_stock); }}>Edit</Button>)
+                          {can("stock.edit") && adjustLocationId && (
+                            isEditing ? (<Button size="sm" onClick={() => handleUpdateStock(item.id)}>Save</Button>) : (<Button variant="outline" size="sm" onClick={() => { setEditingItemId(item.id); setNewQuantity(stock); setAdjustmentNote(""); }}>Edit</Button>)
                           )}
                         </div>
                       </div>
@@ -511,9 +776,216 @@ export const Inventory = () => {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="transfers">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
+            <Card>
+              <CardHeader><CardTitle className="flex items-center gap-2"><ArrowRightLeft className="h-5 w-5" />Transfer Stock</CardTitle></CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="transferFrom">From</Label>
+                    <Select value={transferFrom} onValueChange={(value) => { setTransferFrom(value); setTransferItems([]); }}>
+                      <SelectTrigger id="transferFrom">
+                        <SelectValue placeholder="Select location" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {locations.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="transferTo">To</Label>
+                    <Select value={transferTo} onValueChange={setTransferTo}>
+                      <SelectTrigger id="transferTo">
+                        <SelectValue placeholder="Select location" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeLocations
+                          .filter((location) => location.id !== transferFrom)
+                          .map((location) => (
+                            <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Products</Label>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Popover open={transferProductSearchOpen} onOpenChange={setTransferProductSearchOpen}>
+                      <PopoverTrigger asChild>
+                        <Button
+                          variant="outline"
+                          role="combobox"
+                          aria-expanded={transferProductSearchOpen}
+                          className="w-full justify-between"
+                          disabled={!transferFrom}
+                        >
+                          <span className="truncate">
+                            {transferProduct
+                              ? inventory.find((item) => item.id === transferProduct)?.name
+                              : "Select product"}
+                          </span>
+                          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0">
+                        <Command>
+                          <CommandInput placeholder="Search products..." className="h-9" />
+                          <CommandList className="max-h-[200px]">
+                            <CommandEmpty>No product found.</CommandEmpty>
+                            <CommandGroup>
+                              {inventory
+                                .filter((item) => getLocationQuantity(item.locations, transferFrom) > 0)
+                                .map((item) => (
+                                  <CommandItem
+                                    key={item.id}
+                                    value={item.name}
+                                    onSelect={() => {
+                                      setTransferProduct(item.id);
+                                      setTransferProductSearchOpen(false);
+                                    }}
+                                    className="cursor-pointer"
+                                  >
+                                    <Check className={`mr-2 h-4 w-4 ${transferProduct === item.id ? "opacity-100" : "opacity-0"}`} />
+                                    <div className="flex flex-col">
+                                      <span className="truncate">{item.name}</span>
+                                      <span className="text-xs text-muted-foreground">
+                                        Available: {getLocationQuantity(item.locations, transferFrom)}
+                                      </span>
+                                    </div>
+                                  </CommandItem>
+                                ))}
+                            </CommandGroup>
+                          </CommandList>
+                        </Command>
+                      </PopoverContent>
+                    </Popover>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={transferQuantity}
+                      onChange={(e) => setTransferQuantity(parseInt(e.target.value) || 1)}
+                      className="sm:w-24"
+                    />
+                    <Button onClick={addTransferItem} variant="outline">
+                      <Plus className="h-4 w-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Add</span>
+                    </Button>
+                  </div>
+                </div>
+                {transferItems.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead className="w-10"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transferItems.map((transferItem) => (
+                        <TableRow key={transferItem.product_id}>
+                          <TableCell>{inventory.find((item) => item.id === transferItem.product_id)?.name || 'Unknown'}</TableCell>
+                          <TableCell className="text-right">{transferItem.quantity}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setTransferItems(transferItems.filter((item) => item.product_id !== transferItem.product_id))}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="transferComments">Comments</Label>
+                  <Textarea id="transferComments" value={transferComments} onChange={(e) => setTransferComments(e.target.value)} placeholder="e.g. Morning van loading" />
+                </div>
+                <Button onClick={submitTransfer} className="w-full" disabled={!can("stock.transfer") || transferItems.length === 0}>
+                  Transfer Stock
+                </Button>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle>Stock Locations</CardTitle></CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {locations.map((location) => (
+                      <TableRow key={location.id} className={location.is_active ? "" : "opacity-60"}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {location.name}
+                            {location.is_default && <Badge variant="secondary">Default</Badge>}
+                            {!location.is_active && <Badge variant="outline">Inactive</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{getStockLocationTypeLabel(location.location_type)}</TableCell>
+                        <TableCell className="text-right">{getLocationStockTotal(location.id)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(inventory.reduce((sum, item) => sum + getLocationQuantity(item.locations, location.id) * item.price, 0))}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {can("stock_locations.manage") && !location.is_default && (
+                            <div className="flex justify-end gap-2">
+                              {location.is_active && (
+                                <Button variant="outline" size="sm" onClick={() => makeDefaultLocation(location.id)}>Make Default</Button>
+                              )}
+                              <Button variant="outline" size="sm" onClick={() => toggleLocationActive(location)}>
+                                {location.is_active ? "Deactivate" : "Activate"}
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {can("stock_locations.manage") && (
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input value={newLocationName} onChange={(e) => setNewLocationName(e.target.value)} placeholder="New location, e.g. Van 3" />
+                    <Select value={newLocationType} onValueChange={(value) => setNewLocationType(value as StockLocationType)}>
+                      <SelectTrigger className="sm:w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STOCK_LOCATION_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button onClick={addLocation}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add
+                    </Button>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Stock is received into and billed from the default location unless another one is picked.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
         <TabsContent value="transactions">
           <Card className="mt-4">
-            <CardHeader><CardTitle>Inventory Transactions</CardTitle></CardHeader>
+            <CardHeader><CardTitle>Stock Movements</CardTitle></CardHeader>
             <CardContent>
               <div className="flex flex-col sm:flex-row gap-4 mb-4">
                 <Popover open={productSearchOpen} onOpenChange={setProductSearchOpen}>
@@ -592,6 +1064,28 @@ export const Inventory = () => {
                         </Command>
                     </PopoverContent>
                 </Popover>
+                <Select value={locationFilter} onValueChange={setLocationFilter}>
+                  <SelectTrigger className="w-full sm:w-[160px]">
+                    <SelectValue placeholder="Filter by location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Locations</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={reasonFilter} onValueChange={setReasonFilter}>
+                  <SelectTrigger className="w-full sm:w-[160px]">
+                    <SelectValue placeholder="Filter by reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Reasons</SelectItem>
+                    {STOCK_MOVEMENT_REASONS.map((reason) => (
+                      <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full sm:w-auto justify-start text-left font-normal">{dateRange?.from ? (dateRange.to ? `${format(dateRange.from, "LLL dd, y")} - ${format(dateRange.to, "LLL dd, y")}` : format(dateRange.from, "LLL dd, y")) : <span>Pick a date range</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0" align="start"><Calendar initialFocus mode="range" defaultMonth={dateRange?.from} selected={dateRange} onSelect={setDateRange} numberOfMonths={2} /></PopoverContent></Popover>
               </div>
               <div className="overflow-x-auto">
@@ -599,22 +1093,32 @@ export const Inventory = () => {
                   <TableHeader>
                     <TableRow>
                       <TableHead>Product</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Batch</TableHead>
                       <TableHead>Vendor</TableHead>
                       <TableHead>Quantity</TableHead>
+                      <TableHead>Balance</TableHead>
                       <TableHead>Date</TableHead>
+                      <TableHead>By</TableHead>
                       <TableHead>Comments</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {loading ? (
-                      <TableRow><TableCell colSpan={5} className="text-center">Loading...</TableCell></TableRow>
+                      <TableRow><TableCell colSpan={10} className="text-center">Loading...</TableCell></TableRow>
                     ) : (
                       transactions.map(tx => (
                         <TableRow key={tx.id}>
                           <TableCell>{tx.products?.name || 'N/A'}</TableCell>
-                          <TableCell>{tx.customers?.name || 'N/A'}</TableCell>
-                          <TableCell>{tx.quantity_change}</TableCell>
+                          <TableCell><Badge variant="outline">{getStockMovementLabel(tx.reason)}</Badge></TableCell>
+                          <TableCell>{tx.stock_locations?.name || '-'}</TableCell>
+                          <TableCell>{tx.inventory_batches?.batch_code || '-'}</TableCell>
+                          <TableCell>{tx.customers?.name || '-'}</TableCell>
+                          <TableCell className={tx.quantity_change < 0 ? "text-red-600" : "text-green-600"}>{formatQuantityChange(tx.quantity_change)}</TableCell>
+                          <TableCell>{tx.balance_after ?? '-'}</TableCell>
                           <TableCell>{new Date(tx.created_at).toLocaleString()}</TableCell>
+                          <TableCell>{tx.created_by_username || '-'}</TableCell>
                           <TableCell>{tx.comments || '-'}</TableCell>
                         </TableRow>
                       ))
@@ -24,7 +24,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Trash2, Plus, FileText, Edit, ChevronsUpDown, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { supabase } from "@/lib/supabase";
 import {
   Dialog,
@@ -73,7 +73,7 @@ interface Order {
 
 export const Orders = () => {
   const { toast } = useToast();
-  const { role } = useAuth();
+  const { can } = usePermissions();
   
   // Create Order states
   const [selectedCustomer, setSelectedCustomer] = useState("");
@@ -242,9 +242,9 @@ export const Orders = () => {
     return (lots * lot_size) + units;
   }
 
-  // Check if user can generate bills (admin and manager only)
+  // Generating a bill from an order needs the bill creation permission
   const canGenerateBill = () => {
-    return role === 'admin' || role === 'manager';
+    return can("bills.create");
   }
 
   const openEditModal = (order: Order) => {
@@ -318,9 +318,9 @@ export const Orders = () => {
              <div>
          <h1 className="text-3xl font-bold text-foreground">Orders</h1>
          <p className="text-muted-foreground">Capture and manage customer orders</p>
-         {role === 'staff' && (
+         {!can("orders.edit") && !can("bills.create") && (
            <p className="text-sm text-amber-600 bg-amber-50 px-3 py-2 rounded-md mt-2">
-             ⚠️ Staff Role: You can create and view orders but cannot edit or generate bills
+             ⚠️ You can create and view orders but cannot edit them or generate bills
            </p>
          )}
        </div>
@@ -517,14 +517,14 @@ export const Orders = () => {
                        onClick={submitOrder}
                        className="w-full"
                        disabled={
-                         !selectedCustomer || orderItems.length === 0 || loading
+                         !selectedCustomer || orderItems.length === 0 || loading || !can("orders.create")
                        }
                      >
                        Create Order
                      </Button>
-                                          {role === 'staff' && (
+                                          {!can("orders.edit") && (
                        <p className="text-xs text-muted-foreground text-center">
-                         Note: Staff can create orders but cannot generate bills or edit existing orders
+                         Note: You can create orders but cannot edit existing orders
                        </p>
                      )}
                    </div>
@@ -636,10 +636,10 @@ export const Orders = () => {
                                 </Button>
                               ) : (
                                 <span className="text-xs text-muted-foreground px-2 py-1 bg-muted rounded">
-                                  Admin/Manager only
+                                  Billing not permitted
                                 </span>
                               )}
-                              {(role === 'admin' || role === 'manager') ? (
+                              {can("orders.edit") ? (
                                 <Button variant="ghost" size="icon" onClick={() => openEditModal(order)}>
                                   <Edit className="h-4 w-4" />
                                 </Button>
@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/table";
 import { CreditCard, ArrowDownCircle, CalendarIcon, ChevronsUpDown, Check, Download, Receipt } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { Can } from "@/components/organisms/Can";
 import { supabase } from "@/lib/supabase";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
@@ -39,6 +40,23 @@ import { Calendar } from "@/components/ui/calendar";
 import { format, startOfMonth, endOfMonth } from "date-fns";
 import { DateRange } from "react-day-picker";
 import { exportToCSV, formatCurrency, formatDateTime } from "@/lib/csv-export";
+import { openDocumentPreview } from "@/lib/document-preview";
+import SettlementStatementTemplate, { SettlementStatement } from "@/components/templates/SettlementStatementTemplate";
+import { CustomerAdvance, getAdvanceBalances, getAppliedAmount, getRemainingAdvance } from "@/lib/advances";
+import { getBillBalance } from "@/lib/aging";
+import {
+  CHEQUE_STATUSES,
+  ChequeStatus,
+  CLEARANCE_STATUSES,
+  ClearanceStatus,
+  getChequeStatusLabel,
+  getClearanceStatusLabel,
+  getPaymentModeLabel,
+  getTotalsByMode,
+  PAYMENT_MODES,
+  PaymentMode,
+  usesReferenceNumber,
+} from "@/lib/payment-modes";
 
 // Interfaces
 interface Bill {
@@ -48,6 +66,7 @@ interface Bill {
   due_date: string;
   status: "outstanding" | "partial" | "paid";
   paid_amount: number;
+  credited_amount: number;
 }
 
 interface Customer {
@@ -72,11 +91,62 @@ interface Transaction {
   date_of_transaction: string;
   type: "revenue" | "expense";
   description: string | null;
+  payment_mode: PaymentMode;
+  reference_number: string | null;
+  bank_name: string | null;
+  cheque_number: string | null;
+  cheque_date: string | null;
+  clearance_status: ClearanceStatus;
+  customer_id: string | null;
+  collection_id: string | null;
   customer: { name: string } | null;
   vendor: { name: string } | null;
   expense_categories: { name: string } | null;
 }
 
+interface Cheque {
+  id: string;
+  customer_id: string;
+  cheque_number: string;
+  bank_name: string | null;
+  cheque_date: string | null;
+  amount: number;
+  status: ChequeStatus;
+  received_at: string;
+  deposited_at: string | null;
+  cleared_at: string | null;
+  bounced_at: string | null;
+  bounce_reason: string | null;
+  bounce_fee: number;
+  customers: { name: string } | null;
+}
+
+interface PaymentReversal {
+  id: string;
+  amount: number;
+  reason: string;
+  reversed_by_username: string | null;
+  reversed_at: string;
+  reversed_transactions: { description: string | null; amount: number }[];
+  customers: { name: string } | null;
+}
+
+interface CashSummary {
+  opening_balance: number;
+  cash_in: number;
+  cash_out: number;
+  closing_balance: number;
+}
+
+interface PurchaseBill {
+  id: string;
+  vendor_invoice_number: string | null;
+  bill_date: string;
+  total_amount: number;
+  paid_amount: number;
+  status: "outstanding" | "partial" | "paid";
+}
+
 interface ExpenseCategory {
   id: string;
   name: string;
@@ -89,10 +159,26 @@ interface Credit {
   date: string;
   comments: string | null;
   status: "pending" | "redeemed";
+  redeemed_amount: number;
   created_at: string;
   customers: { name: string } | null;
 }
 
+interface VendorSettlement {
+  id: string;
+  vendor_id: string;
+  payment_amount: number;
+  credit_amount: number;
+  payment_mode: PaymentMode;
+  reference_number: string | null;
+  comments: string | null;
+  settlement_date: string;
+  customers: { name: string } | null;
+}
+
+// Part of a credit not yet netted off against a vendor payment
+const getCreditRemaining = (credit: Credit) => credit.amount - (credit.redeemed_amount || 0);
+
 export const Payments = () => {
   const { toast } = useToast();
   // Form States
@@ -101,11 +187,21 @@ export const Payments = () => {
   const [selectedBills, setSelectedBills] = useState<string[]>([]);
   const [customerBills, setCustomerBills] = useState<Bill[]>([]);
   const [collectionDate, setCollectionDate] = useState<Date | undefined>(new Date());
+  const [paymentMode, setPaymentMode] = useState<PaymentMode>("cash");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [chequeNumber, setChequeNumber] = useState("");
+  const [chequeDate, setChequeDate] = useState<Date | undefined>(new Date());
   const [expenseAmount, setExpenseAmount] = useState(0);
   const [selectedVendor, setSelectedVendor] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [expenseComments, setExpenseComments] = useState("");
   const [expenseDate, setExpenseDate] = useState<Date | undefined>(new Date());
+  const [expensePaymentMode, setExpensePaymentMode] = useState<PaymentMode>("cash");
+  const [expenseReference, setExpenseReference] = useState("");
+  const [vendorPurchaseBills, setVendorPurchaseBills] = useState<PurchaseBill[]>([]);
+  const [selectedPurchaseBills, setSelectedPurchaseBills] = useState<string[]>([]);
+  const [creditsToNet, setCreditsToNet] = useState<Record<string, number>>({});
   const [creditAmount, setCreditAmount] = useState(0);
   const [selectedCreditVendor, setSelectedCreditVendor] = useState("");
   const [creditComments, setCreditComments] = useState("");
@@ -122,11 +218,23 @@ export const Payments = () => {
   // Filter State
   const [typeFilter, setTypeFilter] = useState("all");
   const [partyFilter, setPartyFilter] = useState("all");
+  const [modeFilter, setModeFilter] = useState("all");
+  const [clearanceFilter, setClearanceFilter] = useState("all");
   const [partySearchOpen, setPartySearchOpen] = useState(false);
   const [customerSearchOpen, setCustomerSearchOpen] = useState(false);
   const [vendorSearchOpen, setVendorSearchOpen] = useState(false);
   const [creditVendorSearchOpen, setCreditVendorSearchOpen] = useState(false);
   const [credits, setCredits] = useState<Credit[]>([]);
+  const [advances, setAdvances] = useState<CustomerAdvance[]>([]);
+  const [cheques, setCheques] = useState<Cheque[]>([]);
+  const [chequeStatusFilter, setChequeStatusFilter] = useState("all");
+  const [chequeToBounce, setChequeToBounce] = useState<Cheque | null>(null);
+  const [bounceReason, setBounceReason] = useState("");
+  const [bounceFee, setBounceFee] = useState(0);
+  const [reversals, setReversals] = useState<PaymentReversal[]>([]);
+  const [settlements, setSettlements] = useState<VendorSettlement[]>([]);
+  const [transactionToVoid, setTransactionToVoid] = useState<Transaction | null>(null);
+  const [voidReason, setVoidReason] = useState("");
   const [filteredCredits, setFilteredCredits] = useState<Credit[]>([]);
   const [editingCredit, setEditingCredit] = useState<Credit | null>(null);
   const [isEditCreditDialogOpen, setIsEditCreditDialogOpen] = useState(false);
@@ -146,6 +254,10 @@ export const Payments = () => {
     to: endOfMonth(new Date()),
   });
 
+  // Day-end cash summary
+  const [cashSummaryDate, setCashSummaryDate] = useState<Date | undefined>(new Date());
+  const [cashSummary, setCashSummary] = useState<CashSummary | null>(null);
+
   const combinedParties = useMemo(() => [...customers, ...vendors], [customers, vendors]);
   const combinedPartiesRef = useRef(combinedParties);
 
@@ -176,12 +288,16 @@ export const Payments = () => {
     
     let query = supabase.from("transactions").select(`
       id, amount, created_at, date_of_transaction, type, description,
+      payment_mode, reference_number, bank_name, cheque_number, cheque_date, clearance_status,
+      customer_id, collection_id,
       customer:customers!customer_id(name),
       vendor:customers!vendor_id(name),
       expense_categories(name)
     `);
 
     if (typeFilter !== "all") query = query.eq("type", typeFilter);
+    if (modeFilter !== "all") query = query.eq("payment_mode", modeFilter);
+    if (clearanceFilter !== "all") query = query.eq("clearance_status", clearanceFilter);
     if (partyFilter !== "all") {
         const party = combinedPartiesRef.current.find(p => p.id === partyFilter);
         if (party?.type === 'customer') query = query.eq('customer_id', partyFilter);
@@ -192,8 +308,12 @@ export const Payments = () => {
 
     const transactionsPromise = query.order("date_of_transaction", { ascending: false });
     const creditsPromise = supabase.from("credit").select("*, customers(name)").order("created_at", { ascending: false });
+    const advancesPromise = supabase.from("customer_advances").select("*, customers(name), advance_applications(amount, bills(invoice_number))").order("date_of_transaction", { ascending: false });
+    const chequesPromise = supabase.from("cheques").select("*, customers(name)").order("received_at", { ascending: false });
+    const reversalsPromise = supabase.from("payment_reversals").select("*, customers(name)").order("reversed_at", { ascending: false });
+    const settlementsPromise = supabase.from("vendor_settlements").select("*, customers(name)").order("settlement_date", { ascending: false });
 
-    const [customersRes, vendorsRes, categoriesRes, transactionsRes, creditsRes] = await Promise.all([customersPromise, vendorsPromise, categoriesPromise, transactionsPromise, creditsPromise]);
+    const [customersRes, vendorsRes, categoriesRes, transactionsRes, creditsRes, advancesRes, chequesRes, reversalsRes, settlementsRes] = await Promise.all([customersPromise, vendorsPromise, categoriesPromise, transactionsPromise, creditsPromise, advancesPromise, chequesPromise, reversalsPromise, settlementsPromise]);
 
     if (customersRes.error) toast({ title: "Error fetching customers", description: customersRes.error.message, variant: "destructive" });
     else setCustomers(customersRes.data || []);
@@ -207,6 +327,18 @@ export const Payments = () => {
     if (creditsRes.error) toast({ title: "Error fetching credits", description: creditsRes.error.message, variant: "destructive" });
     else setCredits(creditsRes.data as unknown as Credit[]);
 
+    if (advancesRes.error) toast({ title: "Error fetching advances", description: advancesRes.error.message, variant: "destructive" });
+    else setAdvances(advancesRes.data as unknown as CustomerAdvance[]);
+
+    if (chequesRes.error) toast({ title: "Error fetching cheques", description: chequesRes.error.message, variant: "destructive" });
+    else setCheques(chequesRes.data as unknown as Cheque[]);
+
+    if (reversalsRes.error) toast({ title: "Error fetching voided payments", description: reversalsRes.error.message, variant: "destructive" });
+    else setReversals(reversalsRes.data as unknown as PaymentReversal[]);
+
+    if (settlementsRes.error) toast({ title: "Error fetching vendor settlements", description: settlementsRes.error.message, variant: "destructive" });
+    else setSettlements(settlementsRes.data as unknown as VendorSettlement[]);
+
     // Calculate vendor credit balances after credits are loaded
     if (vendorsRes.error) toast({ title: "Error fetching vendors", description: vendorsRes.error.message, variant: "destructive" });
     else {
@@ -214,7 +346,7 @@ export const Payments = () => {
       const vendorsWithCredits = vendorsRes.data?.map(vendor => {
         const pendingCredits = creditsData.filter(credit => 
           credit.vendor_id === vendor.id && credit.status === 'pending'
-        ).reduce((sum, credit) => sum + credit.amount, 0);
+        ).reduce((sum, credit) => sum + getCreditRemaining(credit), 0);
         
         return {
           ...vendor,
@@ -225,12 +357,28 @@ export const Payments = () => {
     }
 
     setLoading(false);
-  }, [toast, typeFilter, partyFilter, dateRange]);
+  }, [toast, typeFilter, partyFilter, modeFilter, clearanceFilter, dateRange]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Refresh the cash summary whenever the day changes or new transactions are loaded
+  useEffect(() => {
+    const fetchCashSummary = async () => {
+      if (!cashSummaryDate) {
+        setCashSummary(null);
+        return;
+      }
+      const { data, error } = await supabase.rpc("get_day_end_cash_summary", { p_date: format(cashSummaryDate, "yyyy-MM-dd") });
+      if (error) toast({ title: "Error fetching cash summary", description: error.message, variant: "destructive" });
+      else setCashSummary((data as CashSummary[])?.[0] || null);
+    };
+    fetchCashSummary();
+  }, [cashSummaryDate, transactions, toast]);
+
+  const totalsByMode = useMemo(() => getTotalsByMode(transactions), [transactions]);
+
   // Filter credits based on active filters
   useEffect(() => {
     let result = credits;
@@ -269,45 +417,169 @@ export const Payments = () => {
     fetchCustomerBills();
   }, [selectedCustomer, toast]);
 
+  useEffect(() => {
+    const fetchVendorPurchaseBills = async () => {
+      setSelectedPurchaseBills([]);
+      setCreditsToNet({});
+      if (!selectedVendor) {
+        setVendorPurchaseBills([]);
+        return;
+      }
+      const { data, error } = await supabase.from("purchase_bills").select("id, vendor_invoice_number, bill_date, total_amount, paid_amount, status").eq("vendor_id", selectedVendor).in("status", ["outstanding", "partial"]).order("bill_date");
+      if (error) toast({ title: "Error fetching purchase bills", description: error.message, variant: "destructive" });
+      else setVendorPurchaseBills(data || []);
+    };
+    fetchVendorPurchaseBills();
+  }, [selectedVendor, toast]);
+
+  const advanceBalances = useMemo(() => getAdvanceBalances(advances), [advances]);
+
+  const vendorPendingCredits = useMemo(
+    () => credits.filter((credit) => credit.vendor_id === selectedVendor && credit.status === 'pending' && getCreditRemaining(credit) > 0),
+    [credits, selectedVendor]
+  );
+
+  const netCreditTotal = Object.values(creditsToNet).reduce((sum, amount) => sum + amount, 0);
+
+  // Anything collected beyond the selected bills is kept as an advance
+  const collectionExcess = useMemo(() => {
+    const selectedDue = customerBills
+      .filter((bill) => selectedBills.includes(bill.id))
+      .reduce((sum, bill) => sum + getBillBalance(bill), 0);
+    return Math.max(paymentAmount - selectedDue, 0);
+  }, [customerBills, selectedBills, paymentAmount]);
+
   const processCollection = async () => {
-    if (!selectedCustomer || selectedBills.length === 0 || paymentAmount <= 0) {
-      toast({ title: "Error", description: "Please select a customer, bills, and enter a valid payment amount.", variant: "destructive" });
+    if (!selectedCustomer || paymentAmount <= 0) {
+      toast({ title: "Error", description: "Please select a customer and enter a valid payment amount.", variant: "destructive" });
+      return;
+    }
+    if (paymentMode === "cheque" && !chequeNumber.trim()) {
+      toast({ title: "Error", description: "Please enter the cheque number.", variant: "destructive" });
       return;
     }
     setIsSubmitting(true);
-    const { error } = await supabase.rpc('process_payment', { p_customer_id: selectedCustomer, p_payment_amount: paymentAmount, p_bill_ids: selectedBills, p_date_of_transaction: collectionDate?.toISOString() });
+    const { error } = await supabase.rpc('process_payment', {
+      p_customer_id: selectedCustomer,
+      p_payment_amount: paymentAmount,
+      p_bill_ids: selectedBills,
+      p_date_of_transaction: collectionDate?.toISOString(),
+      p_payment_mode: paymentMode,
+      p_reference_number: usesReferenceNumber(paymentMode) ? referenceNumber.trim() || null : null,
+      p_bank_name: paymentMode === "cheque" || paymentMode === "bank_transfer" ? bankName.trim() || null : null,
+      p_cheque_number: paymentMode === "cheque" ? chequeNumber.trim() : null,
+      p_cheque_date: paymentMode === "cheque" && chequeDate ? format(chequeDate, "yyyy-MM-dd") : null,
+    });
     if (error) toast({ title: "Error processing collection", description: error.message, variant: "destructive" });
     else {
-      toast({ title: "Success", description: `Collection of Rs. ${paymentAmount} processed successfully.` });
+      toast({
+        title: "Success",
+        description: collectionExcess > 0
+          ? `Collection of Rs. ${paymentAmount} processed. Rs. ${collectionExcess.toFixed(2)} kept as an advance.`
+          : `Collection of Rs. ${paymentAmount} processed successfully.`,
+      });
       setSelectedCustomer("");
       setSelectedBills([]);
       setPaymentAmount(0);
       setCollectionDate(new Date());
+      setPaymentMode("cash");
+      setReferenceNumber("");
+      setBankName("");
+      setChequeNumber("");
+      setChequeDate(new Date());
       fetchData();
     }
     setIsSubmitting(false);
   };
 
   const recordExpense = async () => {
+    if (selectedVendor && netCreditTotal > 0) {
+      settleVendorPayment();
+      return;
+    }
     if (expenseAmount <= 0 || (!selectedVendor && !selectedCategory)) {
       toast({ title: "Error", description: "Please enter an amount and select a vendor or category.", variant: "destructive" });
       return;
     }
     setIsSubmitting(true);
-    const { error } = await supabase.rpc('record_expense', { p_amount: expenseAmount, p_vendor_id: selectedVendor || null, p_category_id: selectedCategory || null, p_comments: expenseComments, p_date_of_transaction: expenseDate?.toISOString() });
+    const { error } = await supabase.rpc('record_expense', { p_amount: expenseAmount, p_vendor_id: selectedVendor || null, p_category_id: selectedCategory || null, p_comments: expenseComments, p_date_of_transaction: expenseDate?.toISOString(), p_payment_mode: expensePaymentMode, p_reference_number: expensePaymentMode === "cash" ? null : expenseReference.trim() || null, p_purchase_bill_ids: selectedVendor ? selectedPurchaseBills : null });
     if (error) toast({ title: "Error recording expense", description: error.message, variant: "destructive" });
     else {
       toast({ title: "Success", description: "Expense recorded successfully." });
-      setExpenseAmount(0);
-      setSelectedVendor("");
-      setSelectedCategory("");
-      setExpenseComments("");
-      setExpenseDate(new Date());
+      resetExpenseForm();
       fetchData();
     }
     setIsSubmitting(false);
   };
 
+  const resetExpenseForm = () => {
+    setExpenseAmount(0);
+    setSelectedVendor("");
+    setSelectedCategory("");
+    setExpenseComments("");
+    setExpenseDate(new Date());
+    setExpensePaymentMode("cash");
+    setExpenseReference("");
+    setSelectedPurchaseBills([]);
+    setCreditsToNet({});
+  };
+
+  // Pay the vendor with the selected credits netted off, then show the settlement statement
+  const settleVendorPayment = async () => {
+    const invalidCredit = vendorPendingCredits.find((credit) => (creditsToNet[credit.id] || 0) > getCreditRemaining(credit));
+    if (invalidCredit) {
+      toast({ title: "Error", description: `Only Rs. ${getCreditRemaining(invalidCredit).toFixed(2)} is left on one of the selected credits.`, variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('settle_vendor_payment', {
+      p_vendor_id: selectedVendor,
+      p_payment_amount: expenseAmount,
+      p_credits: Object.entries(creditsToNet)
+        .filter(([, amount]) => amount > 0)
+        .map(([creditId, amount]) => ({ credit_id: creditId, amount })),
+      p_purchase_bill_ids: selectedPurchaseBills,
+      p_category_id: selectedCategory || null,
+      p_comments: expenseComments,
+      p_date_of_transaction: expenseDate?.toISOString(),
+      p_payment_mode: expensePaymentMode,
+      p_reference_number: expensePaymentMode === "cash" ? null : expenseReference.trim() || null,
+    });
+    if (error) toast({ title: "Error settling vendor payment", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: `Paid Rs. ${expenseAmount.toFixed(2)} with Rs. ${netCreditTotal.toFixed(2)} of credits netted off.` });
+      resetExpenseForm();
+      fetchData();
+      previewSettlementStatement((data as { id: string }).id);
+    }
+    setIsSubmitting(false);
+  };
+
+  const previewSettlementStatement = async (settlementId: string) => {
+    const [settlementRes, sellerInfoRes] = await Promise.all([
+      supabase
+        .from("vendor_settlements")
+        .select("*, customers(name, address, gst_number, primary_phone_number), vendor_settlement_credits(amount, credit(date, amount, comments))")
+        .eq("id", settlementId)
+        .single(),
+      supabase.from("seller_info").select("*").limit(1).maybeSingle(),
+    ]);
+    if (settlementRes.error) {
+      toast({ title: "Error loading settlement", description: settlementRes.error.message, variant: "destructive" });
+      return;
+    }
+    const settlement = settlementRes.data as unknown as SettlementStatement;
+    openDocumentPreview({
+      content: <SettlementStatementTemplate settlement={settlement} sellerInfo={sellerInfoRes.data} />,
+      filename: `settlement_${settlement.id.substring(0, 8)}.pdf`,
+      downloadLabel: "PDF",
+      downloadIcon: "📥",
+      buttonColor: "#007bff",
+      buttonShadow: "rgba(0,123,255,0.3)",
+      onError: (error) => toast({ title: "PDF Generation Failed", description: error instanceof Error ? error.message : "There was an error generating the PDF. Please try again.", variant: "destructive" }),
+    });
+  };
+
   const recordCredit = async () => {
     if (creditAmount <= 0 || !selectedCreditVendor) {
       toast({ title: "Error", description: "Please enter an amount and select a vendor.", variant: "destructive" });
@@ -319,7 +591,6 @@ export const Payments = () => {
       amount: creditAmount,
       date: creditDate?.toISOString(),
       comments: creditComments,
-      status: 'pending'
     }]);
     if (error) toast({ title: "Error recording credit", description: error.message, variant: "destructive" });
     else {
@@ -342,25 +613,15 @@ export const Payments = () => {
     setIsEditCreditDialogOpen(true);
   };
 
-  const updateCreditStatus = async (creditId: string, newStatus: 'pending' | 'redeemed') => {
-    const { error } = await supabase
-      .from('credit')
-      .update({ status: newStatus })
-      .eq('id', creditId);
-
-    if (error) {
-      toast({ title: "Error updating credit status", description: error.message, variant: "destructive" });
-    } else {
-      toast({ title: "Success", description: `Credit marked as ${newStatus}.` });
-      fetchData(); // This will refresh both credits and vendor balances
-    }
-  };
-
   const updateCredit = async () => {
     if (creditAmount <= 0 || !selectedCreditVendor || !editingCredit) {
       toast({ title: "Error", description: "Please enter valid data.", variant: "destructive" });
       return;
     }
+    if (creditAmount < (editingCredit.redeemed_amount || 0)) {
+      toast({ title: "Error", description: `Rs. ${editingCredit.redeemed_amount.toFixed(2)} of this credit is already netted off; the amount cannot be lower.`, variant: "destructive" });
+      return;
+    }
     setIsSubmitting(true);
     const { error } = await supabase
       .from('credit')
@@ -387,6 +648,65 @@ export const Payments = () => {
     setIsSubmitting(false);
   };
 
+  const updateChequeStatus = async (cheque: Cheque, status: "deposited" | "cleared") => {
+    const { error } = await supabase.rpc('update_cheque_status', { p_cheque_id: cheque.id, p_status: status });
+    if (error) toast({ title: "Error updating cheque", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: `Cheque ${cheque.cheque_number} marked as ${status}.` });
+      fetchData();
+    }
+  };
+
+  const openBounceDialog = (cheque: Cheque) => {
+    setChequeToBounce(cheque);
+    setBounceReason("");
+    setBounceFee(0);
+  };
+
+  const bounceCheque = async () => {
+    if (!chequeToBounce) return;
+    if (bounceFee < 0) {
+      toast({ title: "Error", description: "Bounce fee cannot be negative.", variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc('bounce_cheque', { p_cheque_id: chequeToBounce.id, p_reason: bounceReason.trim() || null, p_bounce_fee: bounceFee });
+    if (error) toast({ title: "Error bouncing cheque", description: error.message, variant: "destructive" });
+    else {
+      toast({
+        title: "Cheque bounced",
+        description: `Payments from cheque ${chequeToBounce.cheque_number} were reversed${bounceFee > 0 ? ` and a bounce fee of Rs. ${bounceFee.toFixed(2)} was charged` : ''}.`,
+      });
+      setChequeToBounce(null);
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const openVoidDialog = (transaction: Transaction) => {
+    setTransactionToVoid(transaction);
+    setVoidReason("");
+  };
+
+  const voidPayment = async () => {
+    if (!transactionToVoid) return;
+    if (!voidReason.trim()) {
+      toast({ title: "Error", description: "Please enter why this payment is being voided.", variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    const { data: reversedAmount, error } = await supabase.rpc('reverse_payment', { p_transaction_id: transactionToVoid.id, p_reason: voidReason.trim() });
+    if (error) toast({ title: "Error voiding payment", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Payment voided", description: `Rs. ${Number(reversedAmount || 0).toFixed(2)} was reversed and added back to ${transactionToVoid.customer?.name || 'the customer'}'s balance.` });
+      setTransactionToVoid(null);
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const filteredCheques = chequeStatusFilter === "all" ? cheques : cheques.filter((cheque) => cheque.status === chequeStatusFilter);
+
   const getPartyName = (transaction: Transaction) => {
     if (transaction.type === 'revenue') return transaction.customer?.name || 'N/A';
     return transaction.vendor?.name || transaction.expense_categories?.name || 'General Expense';
@@ -397,6 +717,11 @@ export const Payments = () => {
     return transaction.description || transaction.expense_categories?.name || 'N/A';
   }
 
+  const getReference = (transaction: Transaction) =>
+    transaction.payment_mode === 'cheque'
+      ? transaction.cheque_number || transaction.reference_number || ''
+      : transaction.reference_number || '';
+
   const clearCreditFilters = () => {
     setCreditStatusFilter("all");
     setCreditVendorFilter("all");
@@ -414,240 +739,362 @@ export const Payments = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Record Collection Card */}
-        <Card>
-          <CardHeader><CardTitle className="flex items-center gap-2"><CreditCard className="h-5 w-5" />Record Collection</CardTitle></CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="customer">Customer</Label>
-              <Popover open={customerSearchOpen} onOpenChange={setCustomerSearchOpen}>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    role="combobox"
-                    aria-expanded={customerSearchOpen}
-                    className="w-full justify-between"
-                  >
-                    <span className="truncate">
-                      {selectedCustomer
-                        ? customers.find((customer) => customer.id === selectedCustomer)?.name
-                        : "Select a customer"}
-                    </span>
-                    <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0" side="bottom" align="start" avoidCollisions={true}>
-                  <Command>
-                    <CommandInput placeholder="Search customers..." className="h-9" />
-                    <CommandList className="max-h-[200px]">
-                      <CommandEmpty>No customer found.</CommandEmpty>
-                      <CommandGroup>
-                        {customers.map((customer) => (
-                          <CommandItem
-                            key={customer.id}
-                            value={customer.name}
-                            onSelect={() => {
-                              setSelectedCustomer(customer.id);
-                              setCustomerSearchOpen(false);
-                            }}
-                            className="cursor-pointer"
-                          >
-                            <Check className={`mr-2 h-4 w-4 ${selectedCustomer === customer.id ? "opacity-100" : "opacity-0"}`} />
-                            <div className="flex flex-col">
-                              <span className="truncate">{customer.name}</span>
-                              <span className="text-xs text-muted-foreground">
-                                Balance: ₹{customer.outstanding_balance?.toFixed(2) || '0.00'}
-                              </span>
-                            </div>
-                          </CommandItem>
-                        ))}
-                      </CommandGroup>
-                    </CommandList>
-                  </Command>
-                </PopoverContent>
-              </Popover>
-            </div>
-
-            {selectedCustomer && (
+        <Can permission="payments.record">
+          <Card>
+            <CardHeader><CardTitle className="flex items-center gap-2"><CreditCard className="h-5 w-5" />Record Collection</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label>Outstanding Bills</Label>
-                {customerBills.length > 0 ? (
-                  <div className="space-y-2 rounded-md border p-4 max-h-48 overflow-y-auto">{customerBills.map((bill) => (<div key={bill.id} className="flex items-center justify-between"><div className="flex items-center gap-2"><Checkbox id={`bill-${bill.id}`} checked={selectedBills.includes(bill.id)} onCheckedChange={(checked) => {setSelectedBills(checked ? [...selectedBills, bill.id] : selectedBills.filter((id) => id !== bill.id));}} /><Label htmlFor={`bill-${bill.id}`} className="font-normal">{bill.invoice_number || `#${bill.id.substring(0, 6)}`} - Due: {new Date(bill.due_date).toLocaleDateString()}</Label></div><Badge variant={bill.status === 'partial' ? 'secondary' : 'outline'}>Rs. {(bill.total_amount - bill.paid_amount).toFixed(2)}</Badge></div>))}</div>
-                ) : (
-                  <div className="rounded-md border p-4 text-center"><p className="text-sm text-muted-foreground">No outstanding bills for this customer.</p></div>
-                )}
+                <Label htmlFor="customer">Customer</Label>
+                <Popover open={customerSearchOpen} onOpenChange={setCustomerSearchOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      role="combobox"
+                      aria-expanded={customerSearchOpen}
+                      className="w-full justify-between"
+                    >
+                      <span className="truncate">
+                        {selectedCustomer
+                          ? customers.find((customer) => customer.id === selectedCustomer)?.name
+                          : "Select a customer"}
+                      </span>
+                      <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0" side="bottom" align="start" avoidCollisions={true}>
+                    <Command>
+                      <CommandInput placeholder="Search customers..." className="h-9" />
+                      <CommandList className="max-h-[200px]">
+                        <CommandEmpty>No customer found.</CommandEmpty>
+                        <CommandGroup>
+                          {customers.map((customer) => (
+                            <CommandItem
+                              key={customer.id}
+                              value={customer.name}
+                              onSelect={() => {
+                                setSelectedCustomer(customer.id);
+                                setCustomerSearchOpen(false);
+                              }}
+                              className="cursor-pointer"
+                            >
+                              <Check className={`mr-2 h-4 w-4 ${selectedCustomer === customer.id ? "opacity-100" : "opacity-0"}`} />
+                              <div className="flex flex-col">
+                                <span className="truncate">{customer.name}</span>
+                                <span className="text-xs text-muted-foreground">
+                                  Balance: ₹{customer.outstanding_balance?.toFixed(2) || '0.00'}
+                                </span>
+                              </div>
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
               </div>
-            )}
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                    <Label htmlFor="paymentAmount">Payment Amount</Label>
-                    <Input id="paymentAmount" type="number" min="0" step="0.01" value={paymentAmount} onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)} placeholder="0.00" disabled={selectedBills.length === 0} />
+              {selectedCustomer && (advanceBalances[selectedCustomer] || 0) > 0 && (
+                <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+                  Unapplied advance: Rs. {advanceBalances[selectedCustomer].toFixed(2)}. It can be applied to bills from the Billing page.
                 </div>
+              )}
+
+              {selectedCustomer && (
                 <div className="space-y-2">
-                    <Label htmlFor="collectionDate">Date</Label>
-                    <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{collectionDate ? format(collectionDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={collectionDate} onSelect={setCollectionDate} initialFocus /></PopoverContent></Popover>
+                  <Label>Outstanding Bills</Label>
+                  {customerBills.length > 0 ? (
+                    <div className="space-y-2 rounded-md border p-4 max-h-48 overflow-y-auto">{customerBills.map((bill) => (<div key={bill.id} className="flex items-center justify-between"><div className="flex items-center gap-2"><Checkbox id={`bill-${bill.id}`} checked={selectedBills.includes(bill.id)} onCheckedChange={(checked) => {setSelectedBills(checked ? [...selectedBills, bill.id] : selectedBills.filter((id) => id !== bill.id));}} /><Label htmlFor={`bill-${bill.id}`} className="font-normal">{bill.invoice_number || `#${bill.id.substring(0, 6)}`} - Due: {new Date(bill.due_date).toLocaleDateString()}</Label></div><Badge variant={bill.status === 'partial' ? 'secondary' : 'outline'}>Rs. {getBillBalance(bill).toFixed(2)}</Badge></div>))}</div>
+                  ) : (
+                    <div className="rounded-md border p-4 text-center"><p className="text-sm text-muted-foreground">No outstanding bills for this customer.</p></div>
+                  )}
                 </div>
-            </div>
+              )}
 
-            <Button onClick={processCollection} className="w-full" disabled={isSubmitting || selectedBills.length === 0 || paymentAmount <= 0}>
-                {isSubmitting ? 'Processing...' : 'Record Collection'}
-            </Button>
-          </CardContent>
-        </Card>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                      <Label htmlFor="paymentAmount">Payment Amount</Label>
+                      <Input id="paymentAmount" type="number" min="0" step="0.01" value={paymentAmount} onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)} placeholder="0.00" disabled={!selectedCustomer} />
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="collectionDate">Date</Label>
+                      <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{collectionDate ? format(collectionDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={collectionDate} onSelect={setCollectionDate} initialFocus /></PopoverContent></Popover>
+                  </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                      <Label htmlFor="paymentMode">Payment Mode</Label>
+                      <Select value={paymentMode} onValueChange={(value) => setPaymentMode(value as PaymentMode)}><SelectTrigger id="paymentMode"><SelectValue /></SelectTrigger><SelectContent>{PAYMENT_MODES.map((mode) => (<SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>))}</SelectContent></Select>
+                  </div>
+                  {usesReferenceNumber(paymentMode) && (
+                    <div className="space-y-2">
+                        <Label htmlFor="referenceNumber">{paymentMode === "upi" ? "UPI Reference" : paymentMode === "card" ? "Card Approval Code" : "UTR / Reference"}</Label>
+                        <Input id="referenceNumber" value={referenceNumber} onChange={(e) => setReferenceNumber(e.target.value)} placeholder="Reference number" />
+                    </div>
+                  )}
+                  {paymentMode === "cheque" && (
+                    <div className="space-y-2">
+                        <Label htmlFor="chequeNumber">Cheque Number</Label>
+                        <Input id="chequeNumber" value={chequeNumber} onChange={(e) => setChequeNumber(e.target.value)} placeholder="Cheque number" />
+                    </div>
+                  )}
+                  {(paymentMode === "cheque" || paymentMode === "bank_transfer") && (
+                    <div className="space-y-2">
+                        <Label htmlFor="bankName">Bank Name</Label>
+                        <Input id="bankName" value={bankName} onChange={(e) => setBankName(e.target.value)} placeholder="Bank name" />
+                    </div>
+                  )}
+                  {paymentMode === "cheque" && (
+                    <div className="space-y-2">
+                        <Label htmlFor="chequeDate">Cheque Date</Label>
+                        <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{chequeDate ? format(chequeDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={chequeDate} onSelect={setChequeDate} initialFocus /></PopoverContent></Popover>
+                    </div>
+                  )}
+              </div>
+
+              {paymentMode === "cheque" && (
+                <p className="text-sm text-muted-foreground">
+                  The cheque is recorded as pending until it is cleared.
+                </p>
+              )}
+
+              {selectedCustomer && collectionExcess > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Rs. {collectionExcess.toFixed(2)} is more than the selected bills and will be kept as an advance for later bills.
+                </p>
+              )}
+
+              <Button onClick={processCollection} className="w-full" disabled={isSubmitting || !selectedCustomer || paymentAmount <= 0}>
+                  {isSubmitting ? 'Processing...' : 'Record Collection'}
+              </Button>
+            </CardContent>
+          </Card>
+        </Can>
         {/* Record Expense Card */}
-        <Card>
-          <CardHeader><CardTitle className="flex items-center gap-2"><ArrowDownCircle className="h-5 w-5" />Record Expense</CardTitle></CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                    <Label htmlFor="expenseAmount">Expense Amount</Label>
-                    <Input type="number" min="0" step="0.01" value={expenseAmount} onChange={(e) => setExpenseAmount(parseFloat(e.target.value) || 0)} placeholder="0.00" />
-                </div>
-                <div className="space-y-2">
-                    <Label htmlFor="expenseDate">Date</Label>
-                    <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{expenseDate ? format(expenseDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={expenseDate} onSelect={setExpenseDate} initialFocus /></PopoverContent></Popover>
-                </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="vendor">Vendor (Optional)</Label>
-              <Popover open={vendorSearchOpen} onOpenChange={setVendorSearchOpen}>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    role="combobox"
-                    aria-expanded={vendorSearchOpen}
-                    className="w-full justify-between"
-                  >
-                    <span className="truncate">
-                      {selectedVendor
-                        ? vendors.find((vendor) => vendor.id === selectedVendor)?.name
-                        : "Select a vendor"}
-                    </span>
-                    <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0" side="bottom" align="start" avoidCollisions={true}>
-                  <Command>
-                    <CommandInput placeholder="Search vendors..." className="h-9" />
-                    <CommandList className="max-h-[200px]">
-                      <CommandEmpty>No vendor found.</CommandEmpty>
-                      <CommandGroup>
-                        <CommandItem
-                          value="none"
-                          onSelect={() => {
-                            setSelectedVendor("");
-                            setVendorSearchOpen(false);
-                          }}
-                          className="cursor-pointer"
-                        >
-                          <Check className={`mr-2 h-4 w-4 ${selectedVendor === "" ? "opacity-100" : "opacity-0"}`} />
-                          <span className="text-muted-foreground">None (Clear selection)</span>
-                        </CommandItem>
-                        {vendors.map((vendor) => (
+        <Can permission="expenses.record">
+          <Card>
+            <CardHeader><CardTitle className="flex items-center gap-2"><ArrowDownCircle className="h-5 w-5" />Record Expense</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                      <Label htmlFor="expenseAmount">Expense Amount</Label>
+                      <Input type="number" min="0" step="0.01" value={expenseAmount} onChange={(e) => setExpenseAmount(parseFloat(e.target.value) || 0)} placeholder="0.00" />
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="expenseDate">Date</Label>
+                      <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{expenseDate ? format(expenseDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={expenseDate} onSelect={setExpenseDate} initialFocus /></PopoverContent></Popover>
+                  </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor">Vendor (Optional)</Label>
+                <Popover open={vendorSearchOpen} onOpenChange={setVendorSearchOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      role="combobox"
+                      aria-expanded={vendorSearchOpen}
+                      className="w-full justify-between"
+                    >
+                      <span className="truncate">
+                        {selectedVendor
+                          ? vendors.find((vendor) => vendor.id === selectedVendor)?.name
+                          : "Select a vendor"}
+                      </span>
+                      <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0" side="bottom" align="start" avoidCollisions={true}>
+                    <Command>
+                      <CommandInput placeholder="Search vendors..." className="h-9" />
+                      <CommandList className="max-h-[200px]">
+                        <CommandEmpty>No vendor found.</CommandEmpty>
+                        <CommandGroup>
                           <CommandItem
-                            key={vendor.id}
-                            value={vendor.name}
+                            value="none"
                             onSelect={() => {
-                              setSelectedVendor(vendor.id);
+                              setSelectedVendor("");
                               setVendorSearchOpen(false);
                             }}
                             className="cursor-pointer"
                           >
-                            <Check className={`mr-2 h-4 w-4 ${selectedVendor === vendor.id ? "opacity-100" : "opacity-0"}`} />
-                            <span className="truncate">{vendor.name}</span>
+                            <Check className={`mr-2 h-4 w-4 ${selectedVendor === "" ? "opacity-100" : "opacity-0"}`} />
+                            <span className="text-muted-foreground">None (Clear selection)</span>
                           </CommandItem>
-                        ))}
-                      </CommandGroup>
-                    </CommandList>
-                  </Command>
-                </PopoverContent>
-              </Popover>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="category">Category (Optional)</Label>
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}><SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger><SelectContent>{expenseCategories.map((c) => (<SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>))}</SelectContent></Select>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="expenseComments">Comments</Label>
-              <Textarea value={expenseComments} onChange={(e) => setExpenseComments(e.target.value)} placeholder="Add a note..." />
-            </div>
-            <Button onClick={recordExpense} className="w-full" disabled={isSubmitting}>
-                {isSubmitting ? 'Recording...' : 'Record Expense'}
-            </Button>
-          </CardContent>
-        </Card>
-        
-        {/* Record Credit Card */}
-        <Card>
-          <CardHeader><CardTitle className="flex items-center gap-2"><Receipt className="h-5 w-5" />Record Credit</CardTitle></CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                          {vendors.map((vendor) => (
+                            <CommandItem
+                              key={vendor.id}
+                              value={vendor.name}
+                              onSelect={() => {
+                                setSelectedVendor(vendor.id);
+                                setVendorSearchOpen(false);
+                              }}
+                              className="cursor-pointer"
+                            >
+                              <Check className={`mr-2 h-4 w-4 ${selectedVendor === vendor.id ? "opacity-100" : "opacity-0"}`} />
+                              <span className="truncate">{vendor.name}</span>
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
+              </div>
+              {selectedVendor && vendorPurchaseBills.length > 0 && (
                 <div className="space-y-2">
-                    <Label htmlFor="creditAmount">Credit Amount</Label>
-                    <Input type="number" min="0" step="0.01" value={creditAmount} onChange={(e) => setCreditAmount(parseFloat(e.target.value) || 0)} placeholder="0.00" />
+                  <Label>Unpaid Purchase Bills</Label>
+                  <div className="space-y-2 rounded-md border p-4 max-h-48 overflow-y-auto">{vendorPurchaseBills.map((bill) => (<div key={bill.id} className="flex items-center justify-between"><div className="flex items-center gap-2"><Checkbox id={`purchase-bill-${bill.id}`} checked={selectedPurchaseBills.includes(bill.id)} onCheckedChange={(checked) => {setSelectedPurchaseBills(checked ? [...selectedPurchaseBills, bill.id] : selectedPurchaseBills.filter((id) => id !== bill.id));}} /><Label htmlFor={`purchase-bill-${bill.id}`} className="font-normal">{bill.vendor_invoice_number || `#${bill.id.substring(0, 6)}`} - {new Date(bill.bill_date).toLocaleDateString()}</Label></div><Badge variant={bill.status === 'partial' ? 'secondary' : 'outline'}>Rs. {(bill.total_amount - bill.paid_amount).toFixed(2)}</Badge></div>))}</div>
+                  <p className="text-xs text-muted-foreground">The amount settles the selected bills oldest first and reduces what we owe the vendor.</p>
                 </div>
+              )}
+              {selectedVendor && vendorPendingCredits.length > 0 && (
                 <div className="space-y-2">
-                    <Label htmlFor="creditDate">Date</Label>
-                    <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{creditDate ? format(creditDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={creditDate} onSelect={setCreditDate} initialFocus /></PopoverContent></Popover>
+                  <Label>Net Off Pending Credits</Label>
+                  <div className="space-y-2 rounded-md border p-4 max-h-48 overflow-y-auto">
+                    {vendorPendingCredits.map((credit) => {
+                      const remaining = getCreditRemaining(credit);
+                      const selected = credit.id in creditsToNet;
+                      return (
+                        <div key={credit.id} className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <Checkbox
+                              id={`net-credit-${credit.id}`}
+                              checked={selected}
+                              onCheckedChange={(checked) => {
+                                const next = { ...creditsToNet };
+                                if (checked) next[credit.id] = remaining;
+                                else delete next[credit.id];
+                                setCreditsToNet(next);
+                              }}
+                            />
+                            <Label htmlFor={`net-credit-${credit.id}`} className="font-normal truncate">
+                              {new Date(credit.date).toLocaleDateString()} - {credit.comments || 'Credit'}
+                            </Label>
+                          </div>
+                          {selected ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              max={remaining}
+                              step="0.01"
+                              className="w-28"
+                              value={creditsToNet[credit.id]}
+                              onChange={(e) => setCreditsToNet({ ...creditsToNet, [credit.id]: parseFloat(e.target.value) || 0 })}
+                            />
+                          ) : (
+                            <Badge variant="outline">Rs. {remaining.toFixed(2)}</Badge>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {netCreditTotal > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Rs. {netCreditTotal.toFixed(2)} of credits will be netted off, settling Rs. {(netCreditTotal + expenseAmount).toFixed(2)} in total. A settlement statement opens once it is recorded.
+                    </p>
+                  )}
                 </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="creditVendor">Vendor</Label>
-              <Popover open={creditVendorSearchOpen} onOpenChange={setCreditVendorSearchOpen}>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    role="combobox"
-                    aria-expanded={creditVendorSearchOpen}
-                    className="w-full justify-between"
-                  >
-                    <span className="truncate">
-                      {selectedCreditVendor
-                        ? vendors.find((vendor) => vendor.id === selectedCreditVendor)?.name
-                        : "Select a vendor"}
-                    </span>
-                    <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0" side="bottom" align="start" avoidCollisions={true}>
-                  <Command>
-                    <CommandInput placeholder="Search vendors..." className="h-9" />
-                    <CommandList className="max-h-[200px]">
-                      <CommandEmpty>No vendor found.</CommandEmpty>
-                      <CommandGroup>
-                        {vendors.map((vendor) => (
-                          <CommandItem
-                            key={vendor.id}
-                            value={vendor.name}
-                            onSelect={() => {
-                              setSelectedCreditVendor(vendor.id);
-                              setCreditVendorSearchOpen(false);
-                            }}
-                            className="cursor-pointer"
-                          >
-                            <Check className={`mr-2 h-4 w-4 ${selectedCreditVendor === vendor.id ? "opacity-100" : "opacity-0"}`} />
-                            <span className="truncate">{vendor.name}</span>
-                          </CommandItem>
-                        ))}
-                      </CommandGroup>
-                    </CommandList>
-                  </Command>
-                </PopoverContent>
-              </Popover>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="creditComments">Comments</Label>
-              <Textarea value={creditComments} onChange={(e) => setCreditComments(e.target.value)} placeholder="Add a note..." />
-            </div>
-            <Button onClick={recordCredit} className="w-full" disabled={isSubmitting}>
-                {isSubmitting ? 'Recording...' : 'Record Credit'}
-            </Button>
-          </CardContent>
-        </Card>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="category">Category (Optional)</Label>
+                <Select value={selectedCategory} onValueChange={setSelectedCategory}><SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger><SelectContent>{expenseCategories.map((c) => (<SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>))}</SelectContent></Select>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                      <Label htmlFor="expensePaymentMode">Payment Mode</Label>
+                      <Select value={expensePaymentMode} onValueChange={(value) => setExpensePaymentMode(value as PaymentMode)}><SelectTrigger id="expensePaymentMode"><SelectValue /></SelectTrigger><SelectContent>{PAYMENT_MODES.map((mode) => (<SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>))}</SelectContent></Select>
+                  </div>
+                  {expensePaymentMode !== "cash" && (
+                    <div className="space-y-2">
+                        <Label htmlFor="expenseReference">{expensePaymentMode === "cheque" ? "Cheque Number" : "Reference"}</Label>
+                        <Input id="expenseReference" value={expenseReference} onChange={(e) => setExpenseReference(e.target.value)} placeholder="Reference number" />
+                    </div>
+                  )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expenseComments">Comments</Label>
+                <Textarea value={expenseComments} onChange={(e) => setExpenseComments(e.target.value)} placeholder="Add a note..." />
+              </div>
+              <Button onClick={recordExpense} className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Recording...' : netCreditTotal > 0 ? 'Settle Vendor Payment' : 'Record Expense'}
+              </Button>
+            </CardContent>
+          </Card>
+        </Can>
+        
+        {/* Record Credit Card */}
+        <Can permission="credits.record">
+          <Card>
+            <CardHeader><CardTitle className="flex items-center gap-2"><Receipt className="h-5 w-5" />Record Credit</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                      <Label htmlFor="creditAmount">Credit Amount</Label>
+                      <Input type="number" min="0" step="0.01" value={creditAmount} onChange={(e) => setCreditAmount(parseFloat(e.target.value) || 0)} placeholder="0.00" />
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="creditDate">Date</Label>
+                      <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{creditDate ? format(creditDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={creditDate} onSelect={setCreditDate} initialFocus /></PopoverContent></Popover>
+                  </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="creditVendor">Vendor</Label>
+                <Popover open={creditVendorSearchOpen} onOpenChange={setCreditVendorSearchOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      role="combobox"
+                      aria-expanded={creditVendorSearchOpen}
+                      className="w-full justify-between"
+                    >
+                      <span className="truncate">
+                        {selectedCreditVendor
+                          ? vendors.find((vendor) => vendor.id === selectedCreditVendor)?.name
+                          : "Select a vendor"}
+                      </span>
+                      <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0" side="bottom" align="start" avoidCollisions={true}>
+                    <Command>
+                      <CommandInput placeholder="Search vendors..." className="h-9" />
+                      <CommandList className="max-h-[200px]">
+                        <CommandEmpty>No vendor found.</CommandEmpty>
+                        <CommandGroup>
+                          {vendors.map((vendor) => (
+                            <CommandItem
+                              key={vendor.id}
+                              value={vendor.name}
+                              onSelect={() => {
+                                setSelectedCreditVendor(vendor.id);
+                                setCreditVendorSearchOpen(false);
+                              }}
+                              className="cursor-pointer"
+                            >
+                              <Check className={`mr-2 h-4 w-4 ${selectedCreditVendor === vendor.id ? "opacity-100" : "opacity-0"}`} />
+                              <span className="truncate">{vendor.name}</span>
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="creditComments">Comments</Label>
+                <Textarea value={creditComments} onChange={(e) => setCreditComments(e.target.value)} placeholder="Add a note..." />
+              </div>
+              <Button onClick={recordCredit} className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Recording...' : 'Record Credit'}
+              </Button>
+            </CardContent>
+          </Card>
+        </Can>
       </div>
 
       <Tabs defaultValue="transactions">
-        <TabsList><TabsTrigger value="transactions">Recent Transactions</TabsTrigger><TabsTrigger value="balances">Balances</TabsTrigger><TabsTrigger value="credits">Credits</TabsTrigger></TabsList>
+        <TabsList><TabsTrigger value="transactions">Recent Transactions</TabsTrigger><TabsTrigger value="balances">Balances</TabsTrigger><TabsTrigger value="credits">Credits</TabsTrigger><TabsTrigger value="settlements">Settlements</TabsTrigger><TabsTrigger value="advances">Advances</TabsTrigger><TabsTrigger value="cheques">Cheques</TabsTrigger><TabsTrigger value="cash-summary">Day-End Cash</TabsTrigger><TabsTrigger value="voided">Voided</TabsTrigger></TabsList>
         <TabsContent value="transactions">
           <Card className="mt-4">
             <CardHeader>
@@ -660,13 +1107,18 @@ export const Payments = () => {
                     try {
                       exportToCSV({
                         filename: 'recent-transactions',
-                        headers: ['Date', 'Type', 'Party', 'Amount', 'Details'],
+                        headers: ['Date', 'Type', 'Party', 'Amount', 'Mode', 'Reference', 'Bank', 'Cheque Date', 'Status', 'Details'],
                         data: transactions,
                         transformData: (transaction) => ({
                           'Date': formatDateTime(transaction.date_of_transaction),
                           'Type': transaction.type === 'revenue' ? 'Revenue' : 'Expense',
                           'Party': getPartyName(transaction),
                           'Amount': formatCurrency(transaction.amount),
+                          'Mode': getPaymentModeLabel(transaction.payment_mode),
+                          'Reference': getReference(transaction),
+                          'Bank': transaction.bank_name || '',
+                          'Cheque Date': transaction.cheque_date || '',
+                          'Status': getClearanceStatusLabel(transaction.clearance_status),
                           'Details': getDetails(transaction)
                         })
                       });
@@ -685,6 +1137,8 @@ export const Payments = () => {
             <CardContent>
               <div className="flex flex-col sm:flex-row gap-4 mb-4">
                 <Select value={typeFilter} onValueChange={setTypeFilter}><SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Filter by type" /></SelectTrigger><SelectContent><SelectItem value="all">All Types</SelectItem><SelectItem value="revenue">Revenue</SelectItem><SelectItem value="expense">Expense</SelectItem></SelectContent></Select>
+                <Select value={modeFilter} onValueChange={setModeFilter}><SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Filter by mode" /></SelectTrigger><SelectContent><SelectItem value="all">All Modes</SelectItem>{PAYMENT_MODES.map((mode) => (<SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>))}</SelectContent></Select>
+                <Select value={clearanceFilter} onValueChange={setClearanceFilter}><SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Filter by status" /></SelectTrigger><SelectContent><SelectItem value="all">All Statuses</SelectItem>{CLEARANCE_STATUSES.map((status) => (<SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>))}</SelectContent></Select>
                 <Popover open={partySearchOpen} onOpenChange={setPartySearchOpen}>
                     <PopoverTrigger asChild>
                         <Button variant="outline" role="combobox" aria-expanded={partySearchOpen} className="w-full sm:w-[200px] justify-between">
@@ -711,10 +1165,19 @@ export const Payments = () => {
                 </Popover>
                 <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full sm:w-auto justify-start text-left font-normal">{dateRange?.from ? (dateRange.to ? `${format(dateRange.from, "LLL dd, y")} - ${format(dateRange.to, "LLL dd, y")}` : format(dateRange.from, "LLL dd, y")) : <span>Pick a date range</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0" align="start"><Calendar initialFocus mode="range" defaultMonth={dateRange?.from} selected={dateRange} onSelect={setDateRange} numberOfMonths={2} /></PopoverContent></Popover>
               </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+                {PAYMENT_MODES.map((mode) => (
+                  <div key={mode.value} className="rounded-md border p-3">
+                    <p className="text-sm font-medium">{mode.label}</p>
+                    <p className="text-sm text-green-600">In: Rs. {totalsByMode[mode.value].revenue.toFixed(2)}</p>
+                    <p className="text-sm text-red-600">Out: Rs. {totalsByMode[mode.value].expense.toFixed(2)}</p>
+                  </div>
+                ))}
+              </div>
               <div className="overflow-x-auto">
                 <Table>
-                  <TableHeader><TableRow><TableHead>Type</TableHead><TableHead>Party</TableHead><TableHead className="hidden sm:table-cell">Details</TableHead><TableHead className="text-right">Amount</TableHead><TableHead className="hidden md:table-cell">Date</TableHead></TableRow></TableHeader>
-                  <TableBody>{transactions.map(t => (<TableRow key={t.id}><TableCell><Badge variant={t.type === 'revenue' ? 'default' : 'secondary'}>{t.type}</Badge></TableCell><TableCell className="max-w-[100px] truncate">{getPartyName(t)}</TableCell><TableCell className="hidden sm:table-cell">{getDetails(t)}</TableCell><TableCell className="text-right">Rs. {t.amount.toFixed(2)}</TableCell><TableCell className="hidden md:table-cell text-xs">{new Date(t.date_of_transaction).toLocaleDateString()}</TableCell></TableRow>))}</TableBody>
+                  <TableHeader><TableRow><TableHead>Type</TableHead><TableHead>Party</TableHead><TableHead className="hidden sm:table-cell">Details</TableHead><TableHead>Mode</TableHead><TableHead className="hidden lg:table-cell">Reference</TableHead><TableHead className="text-right">Amount</TableHead><TableHead className="hidden md:table-cell">Date</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                  <TableBody>{transactions.map(t => (<TableRow key={t.id}><TableCell><Badge variant={t.type === 'revenue' ? 'default' : 'secondary'}>{t.type}</Badge></TableCell><TableCell className="max-w-[100px] truncate">{getPartyName(t)}</TableCell><TableCell className="hidden sm:table-cell">{getDetails(t)}</TableCell><TableCell><div className="flex flex-col gap-1"><span>{getPaymentModeLabel(t.payment_mode)}</span>{t.clearance_status !== 'cleared' && (<Badge variant={t.clearance_status === 'bounced' ? 'destructive' : 'outline'} className="w-fit">{getClearanceStatusLabel(t.clearance_status)}</Badge>)}</div></TableCell><TableCell className="hidden lg:table-cell text-xs">{getReference(t) || '-'}{t.bank_name && <div className="text-muted-foreground">{t.bank_name}</div>}</TableCell><TableCell className="text-right">Rs. {t.amount.toFixed(2)}</TableCell><TableCell className="hidden md:table-cell text-xs">{new Date(t.date_of_transaction).toLocaleDateString()}</TableCell><TableCell className="text-right">{t.type === 'revenue' && t.customer_id && t.clearance_status !== 'bounced' && (<Can permission="payments.void"><Button variant="outline" size="sm" onClick={() => openVoidDialog(t)}>Void</Button></Can>)}</TableCell></TableRow>))}</TableBody>
                 </Table>
               </div>
             </CardContent>
@@ -778,7 +1241,7 @@ export const Payments = () => {
               <div className="overflow-x-auto"><Table><TableHeader><TableRow><TableHead>Customer</TableHead><TableHead className="text-right">Outstanding</TableHead></TableRow></TableHeader><TableBody>{filteredCustomerBalances.map(c => (<TableRow key={c.id}><TableCell>{c.name}</TableCell><TableCell className="text-right">Rs. {c.outstanding_balance?.toFixed(2) || '0.00'}</TableCell></TableRow>))}</TableBody></Table></div></CardContent></Card>
             <Card><CardHeader>
               <div className="flex justify-between items-center">
-                <CardTitle>Vendor Credit Balances</CardTitle>
+                <CardTitle>Vendor Balances</CardTitle>
                 <Button
                   variant="outline"
                   size="sm"
@@ -786,10 +1249,11 @@ export const Payments = () => {
                     try {
                       exportToCSV({
                         filename: 'vendor-balances',
-                        headers: ['Vendor Name', 'Credit Balance'],
+                        headers: ['Vendor Name', 'Payable', 'Credit Balance'],
                         data: filteredVendorBalances,
                         transformData: (vendor) => ({
                           'Vendor Name': vendor.name,
+                          'Payable': formatCurrency(vendor.outstanding_balance || 0),
                           'Credit Balance': formatCurrency(vendor.credit_balance || 0)
                         })
                       });
@@ -829,7 +1293,7 @@ export const Payments = () => {
                   Clear
                 </Button>
               </div>
-              <div className="overflow-x-auto"><Table><TableHeader><TableRow><TableHead>Vendor</TableHead><TableHead className="text-right">Credit Balance</TableHead></TableRow></TableHeader><TableBody>{filteredVendorBalances.map(v => (<TableRow key={v.id}><TableCell>{v.name}</TableCell><TableCell className="text-right">Rs. {v.credit_balance?.toFixed(2) || '0.00'}</TableCell></TableRow>))}</TableBody></Table></div></CardContent></Card>
+              <div className="overflow-x-auto"><Table><TableHeader><TableRow><TableHead>Vendor</TableHead><TableHead className="text-right">Payable</TableHead><TableHead className="text-right">Credit Balance</TableHead></TableRow></TableHeader><TableBody>{filteredVendorBalances.map(v => (<TableRow key={v.id}><TableCell>{v.name}</TableCell><TableCell className="text-right">Rs. {v.outstanding_balance?.toFixed(2) || '0.00'}</TableCell><TableCell className="text-right">Rs. {v.credit_balance?.toFixed(2) || '0.00'}</TableCell></TableRow>))}</TableBody></Table></div></CardContent></Card>
           </div>
         </TabsContent>
         <TabsContent value="credits">
@@ -844,12 +1308,14 @@ export const Payments = () => {
                     try {
                       exportToCSV({
                         filename: 'credits',
-                        headers: ['Date', 'Vendor', 'Amount', 'Status', 'Comments'],
+                        headers: ['Date', 'Vendor', 'Amount', 'Redeemed', 'Remaining', 'Status', 'Comments'],
                         data: filteredCredits,
                         transformData: (credit) => ({
                           'Date': formatDateTime(credit.date),
                           'Vendor': credit.customers?.name || 'N/A',
                           'Amount': formatCurrency(credit.amount),
+                          'Redeemed': formatCurrency(credit.redeemed_amount || 0),
+                          'Remaining': formatCurrency(getCreditRemaining(credit)),
                           'Status': credit.status === 'pending' ? 'Pending' : 'Redeemed',
                           'Comments': credit.comments || ''
                         })
@@ -867,6 +1333,7 @@ export const Payments = () => {
               </div>
             </CardHeader>
             <CardContent>
+              <p className="text-sm text-muted-foreground mb-4">Pending credits are redeemed by netting them off a vendor payment in Record Expense.</p>
               {/* Credit Filters */}
               <div className="flex flex-col sm:flex-row gap-4 mb-4 p-4 border rounded-lg bg-muted/50">
                 <Select value={creditStatusFilter} onValueChange={setCreditStatusFilter}>
@@ -942,6 +1409,7 @@ export const Payments = () => {
                       <TableHead>Date</TableHead>
                       <TableHead>Vendor</TableHead>
                       <TableHead>Amount</TableHead>
+                      <TableHead>Remaining</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Comments</TableHead>
                       <TableHead>Actions</TableHead>
@@ -950,13 +1418,13 @@ export const Payments = () => {
                   <TableBody>
                     {loading ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-8">
+                        <TableCell colSpan={7} className="text-center py-8">
                           Loading...
                         </TableCell>
                       </TableRow>
                     ) : filteredCredits.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                           {credits.length === 0 ? "No credits found." : "No credits match the current filters."}
                         </TableCell>
                       </TableRow>
@@ -966,6 +1434,7 @@ export const Payments = () => {
                           <TableCell>{new Date(credit.date).toLocaleDateString()}</TableCell>
                           <TableCell>{credit.customers?.name || 'N/A'}</TableCell>
                           <TableCell>₹{credit.amount.toFixed(2)}</TableCell>
+                          <TableCell>₹{getCreditRemaining(credit).toFixed(2)}</TableCell>
                           <TableCell>
                             <Badge variant={credit.status === 'redeemed' ? 'default' : 'secondary'}>
                               {credit.status}
@@ -981,14 +1450,6 @@ export const Payments = () => {
                               >
                                 Edit
                               </Button>
-                              {credit.status === 'pending' && (
-                                <Button
-                                  size="sm"
-                                  onClick={() => updateCreditStatus(credit.id, 'redeemed')}
-                                >
-                                  Mark Redeemed
-                                </Button>
-                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1000,8 +1461,343 @@ export const Payments = () => {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="settlements">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Vendor Settlements</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    try {
+                      exportToCSV({
+                        filename: 'vendor-settlements',
+                        headers: ['Date', 'Vendor', 'Paid', 'Credits Netted', 'Total Settled', 'Mode', 'Reference', 'Comments'],
+                        data: settlements,
+                        transformData: (settlement) => ({
+                          'Date': formatDateTime(settlement.settlement_date),
+                          'Vendor': settlement.customers?.name || 'N/A',
+                          'Paid': formatCurrency(settlement.payment_amount),
+                          'Credits Netted': formatCurrency(settlement.credit_amount),
+                          'Total Settled': formatCurrency(settlement.payment_amount + settlement.credit_amount),
+                          'Mode': getPaymentModeLabel(settlement.payment_mode),
+                          'Reference': settlement.reference_number || '',
+                          'Comments': settlement.comments || ''
+                        })
+                      });
+                      toast({ title: "Success", description: "Settlements exported to CSV successfully" });
+                    } catch (error) {
+                      toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+                    }
+                  }}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? <p>Loading...</p> : settlements.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No vendor settlements recorded. Select credits to net off while recording a vendor expense.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Vendor</TableHead>
+                        <TableHead className="text-right">Paid</TableHead>
+                        <TableHead className="text-right">Credits Netted</TableHead>
+                        <TableHead className="text-right">Total Settled</TableHead>
+                        <TableHead className="hidden md:table-cell">Mode</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {settlements.map((settlement) => (
+                        <TableRow key={settlement.id}>
+                          <TableCell>{format(new Date(settlement.settlement_date), "PPP")}</TableCell>
+                          <TableCell>{settlement.customers?.name || 'N/A'}</TableCell>
+                          <TableCell className="text-right">Rs. {settlement.payment_amount.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">Rs. {settlement.credit_amount.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-medium">Rs. {(settlement.payment_amount + settlement.credit_amount).toFixed(2)}</TableCell>
+                          <TableCell className="hidden md:table-cell">{getPaymentModeLabel(settlement.payment_mode)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="outline" size="sm" onClick={() => previewSettlementStatement(settlement.id)}>Statement</Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="advances">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Customer Advances</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    try {
+                      exportToCSV({
+                        filename: 'customer-advances',
+                        headers: ['Date', 'Customer', 'Amount', 'Applied', 'Remaining', 'Applied To'],
+                        data: advances,
+                        transformData: (advance) => ({
+                          'Date': formatDateTime(advance.date_of_transaction),
+                          'Customer': advance.customers?.name || '',
+                          'Amount': formatCurrency(advance.amount),
+                          'Applied': formatCurrency(getAppliedAmount(advance)),
+                          'Remaining': formatCurrency(getRemainingAdvance(advance)),
+                          'Applied To': advance.advance_applications.map(a => a.bills?.invoice_number).filter(Boolean).join(' ')
+                        })
+                      });
+                      toast({ title: "Success", description: "Advances exported to CSV successfully" });
+                    } catch (error) {
+                      toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+                    }
+                  }}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? <p>Loading...</p> : advances.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No customer advances recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead className="text-right">Applied</TableHead>
+                      <TableHead className="text-right">Remaining</TableHead>
+                      <TableHead>Applied To</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {advances.map((advance) => {
+                      const remaining = getRemainingAdvance(advance);
+                      return (
+                        <TableRow key={advance.id}>
+                          <TableCell>{format(new Date(advance.date_of_transaction), "PPP")}</TableCell>
+                          <TableCell>{advance.customers?.name || 'N/A'}</TableCell>
+                          <TableCell className="text-right">Rs. {advance.amount.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">Rs. {getAppliedAmount(advance).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={remaining > 0 ? 'default' : 'secondary'}>Rs. {remaining.toFixed(2)}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {advance.advance_applications.map(a => a.bills?.invoice_number).filter(Boolean).join(', ') || '-'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="cheques">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Cheque Register</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    try {
+                      exportToCSV({
+                        filename: 'cheque-register',
+                        headers: ['Received', 'Customer', 'Cheque Number', 'Bank', 'Cheque Date', 'Amount', 'Status', 'Bounce Reason', 'Bounce Fee'],
+                        data: filteredCheques,
+                        transformData: (cheque) => ({
+                          'Received': formatDateTime(cheque.received_at),
+                          'Customer': cheque.customers?.name || 'N/A',
+                          'Cheque Number': cheque.cheque_number,
+                          'Bank': cheque.bank_name || '',
+                          'Cheque Date': cheque.cheque_date || '',
+                          'Amount': formatCurrency(cheque.amount),
+                          'Status': getChequeStatusLabel(cheque.status),
+                          'Bounce Reason': cheque.bounce_reason || '',
+                          'Bounce Fee': formatCurrency(cheque.bounce_fee)
+                        })
+                      });
+                      toast({ title: "Success", description: "Cheques exported to CSV successfully" });
+                    } catch (error) {
+                      toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+                    }
+                  }}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row gap-4 mb-4">
+                <Select value={chequeStatusFilter} onValueChange={setChequeStatusFilter}><SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Filter by status" /></SelectTrigger><SelectContent><SelectItem value="all">All Statuses</SelectItem>{CHEQUE_STATUSES.map((status) => (<SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>))}</SelectContent></Select>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader><TableRow><TableHead>Cheque</TableHead><TableHead>Customer</TableHead><TableHead className="hidden md:table-cell">Cheque Date</TableHead><TableHead className="text-right">Amount</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Actions</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {filteredCheques.length > 0 ? filteredCheques.map((cheque) => (
+                      <TableRow key={cheque.id}>
+                        <TableCell><div className="font-medium">{cheque.cheque_number}</div>{cheque.bank_name && <div className="text-xs text-muted-foreground">{cheque.bank_name}</div>}</TableCell>
+                        <TableCell className="max-w-[120px] truncate">{cheque.customers?.name || 'N/A'}</TableCell>
+                        <TableCell className="hidden md:table-cell text-xs">{cheque.cheque_date ? new Date(cheque.cheque_date).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell className="text-right">Rs. {cheque.amount.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Badge variant={cheque.status === 'bounced' ? 'destructive' : cheque.status === 'cleared' ? 'default' : 'outline'}>{getChequeStatusLabel(cheque.status)}</Badge>
+                          {cheque.status === 'bounced' && (cheque.bounce_reason || cheque.bounce_fee > 0) && (
+                            <div className="text-xs text-muted-foreground mt-1">{cheque.bounce_reason}{cheque.bounce_fee > 0 && ` (fee Rs. ${cheque.bounce_fee.toFixed(2)})`}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Can permission="cheques.manage">
+                            <div className="flex justify-end gap-2">
+                              {cheque.status === 'received' && (
+                                <Button variant="outline" size="sm" onClick={() => updateChequeStatus(cheque, 'deposited')}>Deposit</Button>
+                              )}
+                              {(cheque.status === 'received' || cheque.status === 'deposited') && (
+                                <Button variant="outline" size="sm" onClick={() => updateChequeStatus(cheque, 'cleared')}>Clear</Button>
+                              )}
+                              {cheque.status !== 'bounced' && (
+                                <Button variant="destructive" size="sm" onClick={() => openBounceDialog(cheque)}>Bounce</Button>
+                              )}
+                            </div>
+                          </Can>
+                        </TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow><TableCell colSpan={6} className="text-center text-muted-foreground">No cheques found.</TableCell></TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="cash-summary">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+                <CardTitle>Day-End Cash Summary</CardTitle>
+                <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full sm:w-auto justify-start text-left font-normal"><CalendarIcon className="mr-2 h-4 w-4" />{cashSummaryDate ? format(cashSummaryDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0" align="end"><Calendar mode="single" selected={cashSummaryDate} onSelect={setCashSummaryDate} initialFocus /></PopoverContent></Popover>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {cashSummary ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Opening Cash</p><p className="text-xl font-semibold">Rs. {Number(cashSummary.opening_balance).toFixed(2)}</p></div>
+                  <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Cash Received</p><p className="text-xl font-semibold text-green-600">Rs. {Number(cashSummary.cash_in).toFixed(2)}</p></div>
+                  <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Cash Paid Out</p><p className="text-xl font-semibold text-red-600">Rs. {Number(cashSummary.cash_out).toFixed(2)}</p></div>
+                  <div className="rounded-md border p-4"><p className="text-sm text-muted-foreground">Cash in Hand</p><p className="text-xl font-semibold">Rs. {Number(cashSummary.closing_balance).toFixed(2)}</p></div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-4">Pick a date to see the cash summary.</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-4">Only cash transactions are counted. UPI, card, bank transfers and cheques do not change cash in hand.</p>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="voided">
+          <Card className="mt-4">
+            <CardHeader><CardTitle>Voided Payments</CardTitle></CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader><TableRow><TableHead>Voided On</TableHead><TableHead>Customer</TableHead><TableHead className="text-right">Amount</TableHead><TableHead>Reason</TableHead><TableHead className="hidden md:table-cell">Voided By</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {reversals.length > 0 ? reversals.map((reversal) => (
+                      <TableRow key={reversal.id}>
+                        <TableCell className="text-xs">{formatDateTime(reversal.reversed_at)}</TableCell>
+                        <TableCell className="max-w-[120px] truncate">{reversal.customers?.name || 'N/A'}</TableCell>
+                        <TableCell className="text-right">Rs. {reversal.amount.toFixed(2)}</TableCell>
+                        <TableCell><div>{reversal.reason}</div><div className="text-xs text-muted-foreground">{reversal.reversed_transactions.length} {reversal.reversed_transactions.length === 1 ? 'entry' : 'entries'} removed</div></TableCell>
+                        <TableCell className="hidden md:table-cell">{reversal.reversed_by_username || '-'}</TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground">No voided payments.</TableCell></TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
+      {/* Void Payment Dialog */}
+      <Dialog open={transactionToVoid !== null} onOpenChange={(open) => !open && setTransactionToVoid(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Void Payment</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {transactionToVoid?.collection_id
+                ? "Every entry recorded with this collection will be removed"
+                : "This entry will be removed"}
+              , the bills it paid will be reopened and the amount added back to {transactionToVoid?.customer?.name || 'the customer'}'s balance.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="voidReason">Reason</Label>
+              <Textarea id="voidReason" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} placeholder="e.g. Entered against the wrong customer" />
+            </div>
+          </div>
+          <DialogFooter className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => setTransactionToVoid(null)} className="w-full sm:w-auto">Cancel</Button>
+            <Button variant="destructive" onClick={voidPayment} disabled={isSubmitting || !voidReason.trim()} className="w-full sm:w-auto">
+              {isSubmitting ? 'Processing...' : 'Void Payment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bounce Cheque Dialog */}
+      <Dialog open={chequeToBounce !== null} onOpenChange={(open) => !open && setChequeToBounce(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Bounce Cheque {chequeToBounce?.cheque_number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              The Rs. {chequeToBounce?.amount.toFixed(2)} collected with this cheque will be taken back from the bills it paid and added back to {chequeToBounce?.customers?.name || 'the customer'}'s balance.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="bounceReason">Reason</Label>
+              <Input id="bounceReason" value={bounceReason} onChange={(e) => setBounceReason(e.target.value)} placeholder="e.g. Insufficient funds" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bounceFee">Bounce Fee (Optional)</Label>
+              <Input id="bounceFee" type="number" min="0" step="0.01" value={bounceFee} onChange={(e) => setBounceFee(parseFloat(e.target.value) || 0)} placeholder="0.00" />
+            </div>
+          </div>
+          <DialogFooter className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => setChequeToBounce(null)} className="w-full sm:w-auto">Cancel</Button>
+            <Button variant="destructive" onClick={bounceCheque} disabled={isSubmitting} className="w-full sm:w-auto">
+              {isSubmitting ? 'Processing...' : 'Bounce Cheque'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Credit Dialog */}
       <Dialog open={isEditCreditDialogOpen} onOpenChange={setIsEditCreditDialogOpen}>
         <DialogContent className="w-[95vw] max-w-md mx-auto">
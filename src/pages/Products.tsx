@@ -45,6 +45,9 @@ interface Product {
   min_stock: number;
   lot_size: number;
   lot_price: number;
+  hsn_code: string | null;
+  gst_rate: number | null;
+  cess_rate: number | null;
   product_vendors: { customers: Vendor }[];
 }
 
@@ -76,6 +79,9 @@ export const Products = () => {
     min_stock: 0,
     lot_size: 1,
     lot_price: 0,
+    hsn_code: "",
+    gst_rate: "",
+    cess_rate: "",
   });
 
   const fetchData = useCallback(async () => {
@@ -143,6 +149,9 @@ export const Products = () => {
         min_stock: product.min_stock,
         lot_size: product.lot_size,
         lot_price: product.lot_price,
+        hsn_code: product.hsn_code || "",
+        gst_rate: product.gst_rate?.toString() ?? "",
+        cess_rate: product.cess_rate?.toString() ?? "",
       });
       setSelectedVendors(product.product_vendors.map(pv => pv.customers));
     } else {
@@ -153,6 +162,9 @@ export const Products = () => {
         min_stock: 0,
         lot_size: 1,
         lot_price: 0,
+        hsn_code: "",
+        gst_rate: "",
+        cess_rate: "",
       });
       setSelectedVendors([]);
     }
@@ -177,6 +189,9 @@ export const Products = () => {
       p_lot_price: formData.lot_price,
       p_min_stock: formData.min_stock,
       p_vendor_ids: selectedVendors.map(v => v.id),
+      p_hsn_code: formData.hsn_code.trim() || null,
+      p_gst_rate: formData.gst_rate === "" ? null : parseFloat(formData.gst_rate),
+      p_cess_rate: formData.cess_rate === "" ? null : parseFloat(formData.cess_rate),
     });
 
     if (error) {
@@ -241,6 +256,18 @@ export const Products = () => {
                 <Label htmlFor="minStock">Minimum Stock Level</Label>
                 <Input id="minStock" type="number" min="0" value={formData.min_stock} onChange={(e) => handleFormDataChange("min_stock", parseInt(e.target.value) || 0)} placeholder="0" />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="hsnCode">HSN/SAC Code</Label>
+                <Input id="hsnCode" value={formData.hsn_code} onChange={(e) => handleFormDataChange("hsn_code", e.target.value)} placeholder="e.g. 2202" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gstRate">GST Rate (%)</Label>
+                <Input id="gstRate" type="number" min="0" step="0.01" value={formData.gst_rate} onChange={(e) => handleFormDataChange("gst_rate", e.target.value)} placeholder="Bill default" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cessRate">Cess Rate (%)</Label>
+                <Input id="cessRate" type="number" min="0" step="0.01" value={formData.cess_rate} onChange={(e) => handleFormDataChange("cess_rate", e.target.value)} placeholder="0" />
+              </div>
               <div className="col-span-2 space-y-2">
                 <Label>Vendors</Label>
                 <Popover>
@@ -307,6 +334,12 @@ export const Products = () => {
                   <div className="flex justify-between"><span className="text-sm text-muted-foreground">Lot Size:</span><span className="font-medium">{product.lot_size} units</span></div>
                   <div className="flex justify-between"><span className="text-sm text-muted-foreground">Unit Price:</span><span className="font-medium">Rs. {product.price.toFixed(2)}</span></div>
                   <div className="flex justify-between"><span className="text-sm text-muted-foreground">Min Stock:</span><span className="font-medium">{product.min_stock} units</span></div>
+                  {product.hsn_code && (
+                    <div className="flex justify-between"><span className="text-sm text-muted-foreground">HSN/SAC:</span><span className="font-medium">{product.hsn_code}</span></div>
+                  )}
+                  {product.gst_rate !== null && (
+                    <div className="flex justify-between"><span className="text-sm text-muted-foreground">GST:</span><span className="font-medium">{product.gst_rate}%{product.cess_rate ? ` + ${product.cess_rate}% cess` : ""}</span></div>
+                  )}
                 </div>
                 <div className="mt-4 pt-2 border-t">
                   <h4 className="text-sm font-medium mb-2">Vendors</h4>
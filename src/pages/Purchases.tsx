@@ -0,0 +1,712 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import PurchaseOrderTemplate from "@/components/templates/PurchaseOrderTemplate";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { exportToCSV, formatCurrency, formatDate } from "@/lib/csv-export";
+import { openDocumentPreview } from "@/lib/document-preview";
+import {
+  DEFAULT_REORDER_SETTINGS,
+  DraftPurchaseOrder,
+  ProductVendor,
+  ReorderProduct,
+  ReorderSettings,
+  buildReorderSuggestions,
+  getPurchaseOrderReference,
+  groupIntoPurchaseOrders,
+} from "@/lib/reorder";
+import { supabase } from "@/lib/supabase";
+import { format } from "date-fns";
+import { AlertTriangle, Check, ChevronsUpDown, Download, FileText, Plus, ShoppingCart, Trash2, Truck } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+interface Vendor {
+  id: string;
+  name: string;
+  outstanding_balance: number;
+  address: string | null;
+  gst_number: string | null;
+  primary_phone_number: string | null;
+}
+
+interface Product {
+  id: string;
+  name: string;
+}
+
+interface PurchaseLine {
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface PurchaseBill {
+  id: string;
+  vendor_id: string;
+  vendor_invoice_number: string | null;
+  bill_date: string;
+  due_date: string | null;
+  total_amount: number;
+  paid_amount: number;
+  status: "outstanding" | "partial" | "paid";
+  comments: string | null;
+  customers: { name: string } | null;
+  purchase_bill_items: { quantity: number; unit_cost: number; products: { name: string } | null }[];
+}
+
+export const Purchases = () => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Form State
+  const [selectedVendor, setSelectedVendor] = useState("");
+  const [vendorInvoiceNumber, setVendorInvoiceNumber] = useState("");
+  const [billDate, setBillDate] = useState<Date | undefined>(new Date());
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [lines, setLines] = useState<PurchaseLine[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState("");
+  const [lineQuantity, setLineQuantity] = useState(1);
+  const [lineCost, setLineCost] = useState(0);
+  const [comments, setComments] = useState("");
+  const [vendorSearchOpen, setVendorSearchOpen] = useState(false);
+  const [productSearchOpen, setProductSearchOpen] = useState(false);
+
+  // Data State
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [bills, setBills] = useState<PurchaseBill[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingProducts, setLoadingProducts] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Filter State
+  const [vendorFilter, setVendorFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [activeTab, setActiveTab] = useState("new-purchase");
+
+  // Reorder State
+  const [reorderSettings, setReorderSettings] = useState<ReorderSettings>(DEFAULT_REORDER_SETTINGS);
+  const [reorderProducts, setReorderProducts] = useState<ReorderProduct[]>([]);
+  const [productVendors, setProductVendors] = useState<ProductVendor[]>([]);
+  // Lots entered by hand per product; 0 leaves the product off its order
+  const [lotOverrides, setLotOverrides] = useState<Record<string, number>>({});
+  const [loadingReorder, setLoadingReorder] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    const vendorsPromise = supabase.from("customers").select("id, name, outstanding_balance, address, gst_number, primary_phone_number").eq("is_active", true).eq("type", "vendor").order("name");
+    const billsPromise = supabase
+      .from("purchase_bills")
+      .select("*, customers(name), purchase_bill_items(quantity, unit_cost, products(name))")
+      .order("bill_date", { ascending: false });
+
+    const [vendorsRes, billsRes] = await Promise.all([vendorsPromise, billsPromise]);
+
+    if (vendorsRes.error) toast({ title: "Error fetching vendors", description: vendorsRes.error.message, variant: "destructive" });
+    else setVendors(vendorsRes.data || []);
+
+    if (billsRes.error) toast({ title: "Error fetching purchase bills", description: billsRes.error.message, variant: "destructive" });
+    else setBills(billsRes.data as unknown as PurchaseBill[]);
+
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const fetchReorderData = useCallback(async () => {
+    setLoadingReorder(true);
+    const [reorderRes, productVendorsRes] = await Promise.all([
+      supabase.rpc("get_reorder_data", { p_days: reorderSettings.salesDays }),
+      supabase.from("product_vendors").select("product_id, vendor_id"),
+    ]);
+
+    if (reorderRes.error) toast({ title: "Error fetching sales for reorder suggestions", description: reorderRes.error.message, variant: "destructive" });
+    else setReorderProducts(reorderRes.data || []);
+
+    if (productVendorsRes.error) toast({ title: "Error fetching product vendors", description: productVendorsRes.error.message, variant: "destructive" });
+    else setProductVendors(productVendorsRes.data || []);
+
+    setLoadingReorder(false);
+  }, [toast, reorderSettings.salesDays]);
+
+  useEffect(() => {
+    fetchReorderData();
+  }, [fetchReorderData]);
+
+  // Effect to fetch the products a vendor supplies when a vendor is selected
+  useEffect(() => {
+    const fetchProductsForVendor = async () => {
+      setSelectedProduct("");
+      if (!selectedVendor) {
+        setProducts([]);
+        return;
+      }
+      setLoadingProducts(true);
+      const { data, error } = await supabase
+        .from("product_vendors")
+        .select("products(id, name)")
+        .eq("vendor_id", selectedVendor);
+
+      if (error) {
+        toast({ title: "Error fetching products for vendor", description: error.message, variant: "destructive" });
+        setProducts([]);
+      } else {
+        setProducts(data.map(item => item.products) as unknown as Product[]);
+      }
+      setLoadingProducts(false);
+    };
+
+    fetchProductsForVendor();
+  }, [selectedVendor, toast]);
+
+  const filteredBills = useMemo(() => bills.filter((bill) =>
+    (vendorFilter === "all" || bill.vendor_id === vendorFilter) &&
+    (statusFilter === "all" || bill.status === statusFilter)
+  ), [bills, vendorFilter, statusFilter]);
+
+  const totalPayable = useMemo(() => bills.reduce((sum, bill) => sum + (bill.total_amount - bill.paid_amount), 0), [bills]);
+  const unpaidCount = bills.filter((bill) => bill.status !== "paid").length;
+  const linesTotal = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  const reorderSuggestions = useMemo(
+    () =>
+      buildReorderSuggestions(reorderProducts, productVendors, vendors, reorderSettings).map((suggestion) => {
+        const lots = lotOverrides[suggestion.product_id] ?? suggestion.lots;
+        return { ...suggestion, lots, quantity: lots * suggestion.lot_size };
+      }),
+    [reorderProducts, productVendors, vendors, reorderSettings, lotOverrides]
+  );
+  const draftOrders = useMemo(() => groupIntoPurchaseOrders(reorderSuggestions, vendors), [reorderSuggestions, vendors]);
+  const unassignedSuggestions = reorderSuggestions.filter((suggestion) => !suggestion.vendor_id);
+
+  const updateReorderSetting = (key: keyof ReorderSettings, value: number) => {
+    setReorderSettings({ ...reorderSettings, [key]: Math.max(value, key === "salesDays" ? 1 : 0) });
+    setLotOverrides({});
+  };
+
+  const printPurchaseOrder = async (order: DraftPurchaseOrder) => {
+    const lines = order.lines.filter((line) => line.lots > 0);
+    if (lines.length === 0) {
+      toast({ title: "Error", description: "This order has no items to print.", variant: "destructive" });
+      return;
+    }
+    const { data: sellerInfo, error } = await supabase.from("seller_info").select("*").limit(1).maybeSingle();
+    if (error) {
+      toast({ title: "Error fetching seller info", description: error.message, variant: "destructive" });
+      return;
+    }
+    const reference = getPurchaseOrderReference(order.vendor_id);
+    openDocumentPreview({
+      content: (
+        <PurchaseOrderTemplate
+          order={{ ...order, lines }}
+          reference={reference}
+          vendor={vendors.find((vendor) => vendor.id === order.vendor_id)}
+          sellerInfo={sellerInfo}
+        />
+      ),
+      filename: `purchase_order_${reference}.pdf`,
+      downloadLabel: "PDF",
+      downloadIcon: "📥",
+      buttonColor: "#007bff",
+      buttonShadow: "rgba(0,123,255,0.3)",
+      onError: (error) => toast({ title: "PDF Generation Failed", description: error instanceof Error ? error.message : "There was an error generating the PDF. Please try again.", variant: "destructive" }),
+    });
+  };
+
+  // Starts a purchase bill from a draft order once the goods arrive
+  const receivePurchaseOrder = (order: DraftPurchaseOrder) => {
+    setSelectedVendor(order.vendor_id);
+    setLines(
+      order.lines
+        .filter((line) => line.lots > 0)
+        .map((line) => ({ product_id: line.product_id, product_name: line.product_name, quantity: line.quantity, unit_cost: line.unit_cost }))
+    );
+    setComments("Received against reorder purchase order");
+    setActiveTab("new-purchase");
+  };
+
+  const addLine = () => {
+    const product = products.find((p) => p.id === selectedProduct);
+    if (!product || lineQuantity <= 0 || lineCost < 0) {
+      toast({ title: "Error", description: "Please select a product and enter a valid quantity and unit cost.", variant: "destructive" });
+      return;
+    }
+    if (lines.some((line) => line.product_id === product.id)) {
+      toast({ title: "Error", description: "This product is already on the bill.", variant: "destructive" });
+      return;
+    }
+    setLines([...lines, { product_id: product.id, product_name: product.name, quantity: lineQuantity, unit_cost: lineCost }]);
+    setSelectedProduct("");
+    setLineQuantity(1);
+    setLineCost(0);
+  };
+
+  const resetForm = () => {
+    setSelectedVendor("");
+    setVendorInvoiceNumber("");
+    setBillDate(new Date());
+    setDueDate(undefined);
+    setLines([]);
+    setComments("");
+  };
+
+  const submitPurchaseBill = async () => {
+    if (!selectedVendor || lines.length === 0) {
+      toast({ title: "Error", description: "Please select a vendor and add at least one item.", variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("create_purchase_bill", {
+      p_vendor_id: selectedVendor,
+      p_vendor_invoice_number: vendorInvoiceNumber,
+      p_bill_date: billDate?.toISOString(),
+      p_due_date: dueDate?.toISOString() || null,
+      p_items: lines.map(({ product_id, quantity, unit_cost }) => ({ product_id, quantity, unit_cost })),
+      p_comments: comments || null,
+    });
+    if (error) toast({ title: "Error recording purchase bill", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: `Purchase bill of Rs. ${linesTotal.toFixed(2)} recorded and stock updated.` });
+      resetForm();
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const getStatusVariant = (status: PurchaseBill["status"]) => {
+    if (status === "paid") return "default" as const;
+    if (status === "partial") return "secondary" as const;
+    return "destructive" as const;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Purchases</h1>
+        <p className="text-muted-foreground">Record vendor bills for stock received and track what we owe.</p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card><CardContent className="p-4"><div className="flex items-center gap-2"><Truck className="h-5 w-5 text-primary" /><div><p className="text-sm text-muted-foreground">Purchase Bills</p><p className="text-2xl font-bold">{bills.length}</p></div></div></CardContent></Card>
+        <Card><CardContent className="p-4"><div className="flex items-center gap-2"><AlertTriangle className="h-5 w-5 text-warning" /><div><p className="text-sm text-muted-foreground">Unpaid Bills</p><p className="text-2xl font-bold text-warning">{unpaidCount}</p></div></div></CardContent></Card>
+        <Card><CardContent className="p-4"><div><p className="text-sm text-muted-foreground">Total Payable</p><p className="text-2xl font-bold">Rs. {totalPayable.toFixed(2)}</p></div></CardContent></Card>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="new-purchase">New Purchase</TabsTrigger>
+          <TabsTrigger value="purchase-bills">Purchase Bills</TabsTrigger>
+          <TabsTrigger value="reorder">Reorder</TabsTrigger>
+        </TabsList>
+        <TabsContent value="new-purchase">
+          <Card className="mt-4">
+            <CardHeader><CardTitle className="flex items-center gap-2"><Plus className="h-5 w-5" />New Purchase Bill</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="vendor">Vendor</Label>
+                  <Popover open={vendorSearchOpen} onOpenChange={setVendorSearchOpen}>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        role="combobox"
+                        aria-expanded={vendorSearchOpen}
+                        className="w-full justify-between"
+                        disabled={lines.length > 0}
+                      >
+                        <span className="truncate">
+                          {selectedVendor
+                            ? vendors.find((vendor) => vendor.id === selectedVendor)?.name
+                            : "Select vendor"}
+                        </span>
+                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0">
+                      <Command>
+                        <CommandInput placeholder="Search vendors..." className="h-9" />
+                        <CommandList className="max-h-[200px]">
+                          <CommandEmpty>No vendor found.</CommandEmpty>
+                          <CommandGroup>
+                            {vendors.map((vendor) => (
+                              <CommandItem
+                                key={vendor.id}
+                                value={vendor.name}
+                                onSelect={() => {
+                                  setSelectedVendor(vendor.id);
+                                  setVendorSearchOpen(false);
+                                }}
+                                className="cursor-pointer"
+                              >
+                                <Check className={`mr-2 h-4 w-4 ${selectedVendor === vendor.id ? "opacity-100" : "opacity-0"}`} />
+                                <div className="flex flex-col">
+                                  <span className="truncate">{vendor.name}</span>
+                                  <span className="text-xs text-muted-foreground">
+                                    Payable: ₹{vendor.outstanding_balance?.toFixed(2) || '0.00'}
+                                  </span>
+                                </div>
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="vendorInvoiceNumber">Vendor Invoice Number</Label>
+                  <Input id="vendorInvoiceNumber" value={vendorInvoiceNumber} onChange={(e) => setVendorInvoiceNumber(e.target.value)} placeholder="As printed on the vendor's bill" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Bill Date</Label>
+                  <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{billDate ? format(billDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={billDate} onSelect={setBillDate} initialFocus /></PopoverContent></Popover>
+                </div>
+                <div className="space-y-2">
+                  <Label>Due Date (Optional)</Label>
+                  <Popover><PopoverTrigger asChild><Button variant={"outline"} className="w-full justify-start text-left font-normal">{dueDate ? format(dueDate, "PPP") : <span>Pick a date</span>}</Button></PopoverTrigger><PopoverContent className="w-auto p-0"><Calendar mode="single" selected={dueDate} onSelect={setDueDate} initialFocus /></PopoverContent></Popover>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end p-4 border rounded-lg">
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Product</Label>
+                  <Popover open={productSearchOpen} onOpenChange={setProductSearchOpen}>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        role="combobox"
+                        aria-expanded={productSearchOpen}
+                        className="w-full justify-between"
+                        disabled={!selectedVendor || loadingProducts}
+                      >
+                        <span className="truncate">
+                          {loadingProducts
+                            ? "Loading products..."
+                            : selectedProduct
+                            ? products.find((product) => product.id === selectedProduct)?.name
+                            : "Select product"}
+                        </span>
+                        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-[var(--radix-popover-trigger-width)] max-w-[95vw] p-0">
+                      <Command>
+                        <CommandInput placeholder="Search products..." className="h-9" />
+                        <CommandList className="max-h-[200px]">
+                          <CommandEmpty>No product found.</CommandEmpty>
+                          <CommandGroup>
+                            {products.map((product) => (
+                              <CommandItem
+                                key={product.id}
+                                value={product.name}
+                                onSelect={() => {
+                                  setSelectedProduct(product.id);
+                                  setProductSearchOpen(false);
+                                }}
+                                className="cursor-pointer"
+                              >
+                                <Check className={`mr-2 h-4 w-4 ${selectedProduct === product.id ? "opacity-100" : "opacity-0"}`} />
+                                <span className="truncate">{product.name}</span>
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lineQuantity">Quantity (units)</Label>
+                  <Input id="lineQuantity" type="number" min="1" value={lineQuantity} onChange={(e) => setLineQuantity(parseInt(e.target.value) || 0)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lineCost">Unit Cost</Label>
+                  <Input id="lineCost" type="number" min="0" step="0.01" value={lineCost} onChange={(e) => setLineCost(parseFloat(e.target.value) || 0)} />
+                </div>
+                <Button onClick={addLine} variant="outline" className="md:col-start-4" disabled={!selectedProduct}>
+                  <Plus className="mr-2 h-4 w-4" />Add Item
+                </Button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader><TableRow><TableHead>Product</TableHead><TableHead className="text-right">Quantity</TableHead><TableHead className="text-right">Unit Cost</TableHead><TableHead className="text-right">Total</TableHead><TableHead></TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {lines.length > 0 ? lines.map((line) => (
+                      <TableRow key={line.product_id}>
+                        <TableCell>{line.product_name}</TableCell>
+                        <TableCell className="text-right">{line.quantity}</TableCell>
+                        <TableCell className="text-right">Rs. {line.unit_cost.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">Rs. {(line.quantity * line.unit_cost).toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setLines(lines.filter((l) => l.product_id !== line.product_id))}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground">No items added yet.</TableCell></TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="text-right text-lg font-semibold">Total: Rs. {linesTotal.toFixed(2)}</div>
+
+              <div className="space-y-2">
+                <Label htmlFor="comments">Comments</Label>
+                <Textarea id="comments" value={comments} onChange={(e) => setComments(e.target.value)} placeholder="Optional comments..." />
+              </div>
+              <Button onClick={submitPurchaseBill} className="w-full sm:w-auto" disabled={isSubmitting || !can("purchases.create")}>
+                {isSubmitting ? 'Recording...' : 'Record Purchase Bill'}
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="purchase-bills">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Purchase Bills</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    try {
+                      exportToCSV({
+                        filename: 'purchase-bills',
+                        headers: ['Bill Date', 'Vendor', 'Vendor Invoice', 'Items', 'Total', 'Paid', 'Balance', 'Due Date', 'Status'],
+                        data: filteredBills,
+                        transformData: (bill) => ({
+                          'Bill Date': formatDate(bill.bill_date),
+                          'Vendor': bill.customers?.name || 'N/A',
+                          'Vendor Invoice': bill.vendor_invoice_number || '',
+                          'Items': bill.purchase_bill_items.map((item) => `${item.products?.name || 'Unknown'} x ${item.quantity} @ ${item.unit_cost}`).join('; '),
+                          'Total': formatCurrency(bill.total_amount),
+                          'Paid': formatCurrency(bill.paid_amount),
+                          'Balance': formatCurrency(bill.total_amount - bill.paid_amount),
+                          'Due Date': bill.due_date ? formatDate(bill.due_date) : '',
+                          'Status': bill.status
+                        })
+                      });
+                      toast({ title: "Success", description: "Purchase bills exported to CSV successfully" });
+                    } catch (error) {
+                      toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+                    }
+                  }}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row gap-4 mb-4">
+                <Select value={vendorFilter} onValueChange={setVendorFilter}><SelectTrigger className="w-full sm:w-[200px]"><SelectValue placeholder="Filter by vendor" /></SelectTrigger><SelectContent><SelectItem value="all">All Vendors</SelectItem>{vendors.map((vendor) => (<SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>))}</SelectContent></Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter}><SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Filter by status" /></SelectTrigger><SelectContent><SelectItem value="all">All Statuses</SelectItem><SelectItem value="outstanding">Outstanding</SelectItem><SelectItem value="partial">Partial</SelectItem><SelectItem value="paid">Paid</SelectItem></SelectContent></Select>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader><TableRow><TableHead>Date</TableHead><TableHead>Vendor</TableHead><TableHead className="hidden sm:table-cell">Invoice</TableHead><TableHead className="hidden lg:table-cell">Items</TableHead><TableHead className="text-right">Total</TableHead><TableHead className="text-right">Balance</TableHead><TableHead>Status</TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow><TableCell colSpan={7} className="text-center">Loading...</TableCell></TableRow>
+                    ) : filteredBills.length > 0 ? filteredBills.map((bill) => (
+                      <TableRow key={bill.id}>
+                        <TableCell className="text-xs">{new Date(bill.bill_date).toLocaleDateString()}</TableCell>
+                        <TableCell className="max-w-[120px] truncate">{bill.customers?.name || 'N/A'}</TableCell>
+                        <TableCell className="hidden sm:table-cell">{bill.vendor_invoice_number || '-'}</TableCell>
+                        <TableCell className="hidden lg:table-cell text-xs">{bill.purchase_bill_items.map((item) => `${item.products?.name || 'Unknown'} x ${item.quantity}`).join(', ')}</TableCell>
+                        <TableCell className="text-right">Rs. {bill.total_amount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">Rs. {(bill.total_amount - bill.paid_amount).toFixed(2)}</TableCell>
+                        <TableCell><Badge variant={getStatusVariant(bill.status)}>{bill.status}</Badge></TableCell>
+                      </TableRow>
+                    )) : (
+                      <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground">No purchase bills found.</TableCell></TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-4">Pay vendors from the Record Expense form on the Payments page by selecting the vendor and the bills being paid.</p>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="reorder">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle className="flex items-center gap-2"><ShoppingCart className="h-5 w-5" />Reorder Suggestions</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={draftOrders.length === 0}
+                  onClick={() => {
+                    try {
+                      exportToCSV({
+                        filename: 'purchase-orders',
+                        headers: ['PO No.', 'Vendor', 'Product', 'Current Stock', 'Minimum Stock', 'Sales Per Day', 'Lots', 'Lot Size', 'Quantity', 'Rate', 'Amount'],
+                        data: draftOrders.flatMap((order) => order.lines.filter((line) => line.lots > 0).map((line) => ({ order, line }))),
+                        transformData: ({ order, line }) => ({
+                          'PO No.': getPurchaseOrderReference(order.vendor_id),
+                          'Vendor': order.vendor_name,
+                          'Product': line.product_name,
+                          'Current Stock': line.current_stock.toString(),
+                          'Minimum Stock': line.min_stock.toString(),
+                          'Sales Per Day': line.daily_velocity.toFixed(2),
+                          'Lots': line.lots.toString(),
+                          'Lot Size': line.lot_size.toString(),
+                          'Quantity': line.quantity.toString(),
+                          'Rate': formatCurrency(line.unit_cost),
+                          'Amount': formatCurrency(line.quantity * line.unit_cost)
+                        })
+                      });
+                      toast({ title: "Success", description: "Purchase orders exported to CSV successfully" });
+                    } catch (error) {
+                      toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+                    }
+                  }}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="salesDays">Sales Period (days)</Label>
+                  <Input id="salesDays" type="number" min="1" value={reorderSettings.salesDays} onChange={(e) => updateReorderSetting("salesDays", parseInt(e.target.value) || 1)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leadDays">Vendor Lead Time (days)</Label>
+                  <Input id="leadDays" type="number" min="0" value={reorderSettings.leadDays} onChange={(e) => updateReorderSetting("leadDays", parseInt(e.target.value) || 0)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="coverDays">Order to Cover (days)</Label>
+                  <Input id="coverDays" type="number" min="0" value={reorderSettings.coverDays} onChange={(e) => updateReorderSetting("coverDays", parseInt(e.target.value) || 0)} />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Products are suggested when their stock would fall to the minimum before a new delivery arrives, based on average daily sales over the sales period.
+                Orders top stock up to the minimum plus the lead time and cover period, rounded up to whole lots, from the vendor last purchased from.
+              </p>
+              {loadingReorder ? (
+                <p className="text-center text-muted-foreground">Loading...</p>
+              ) : reorderSuggestions.length === 0 ? (
+                <p className="text-center text-muted-foreground">Nothing needs to be reordered.</p>
+              ) : null}
+            </CardContent>
+          </Card>
+          {!loadingReorder && draftOrders.map((order) => (
+            <Card key={order.vendor_id} className="mt-4">
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                  <div>
+                    <CardTitle>{order.vendor_name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {getPurchaseOrderReference(order.vendor_id)} · Draft · {formatCurrency(order.total)}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => printPurchaseOrder(order)} className="gap-2">
+                      <FileText className="h-4 w-4" />
+                      Print PO
+                    </Button>
+                    {can("purchases.create") && (
+                      <Button size="sm" onClick={() => receivePurchaseOrder(order)} disabled={order.lines.every((line) => line.lots === 0)}>
+                        Record Purchase
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Stock</TableHead>
+                        <TableHead className="text-right hidden sm:table-cell">Min</TableHead>
+                        <TableHead className="text-right hidden sm:table-cell">Sales / Day</TableHead>
+                        <TableHead className="text-right">Lots</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead className="text-right hidden sm:table-cell">Rate</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {order.lines.map((line) => (
+                        <TableRow key={line.product_id} className={line.lots === 0 ? "opacity-50" : ""}>
+                          <TableCell>{line.product_name}</TableCell>
+                          <TableCell className="text-right">{line.current_stock}</TableCell>
+                          <TableCell className="text-right hidden sm:table-cell">{line.min_stock}</TableCell>
+                          <TableCell className="text-right hidden sm:table-cell">{line.daily_velocity.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min="0"
+                              value={line.lots}
+                              onChange={(e) => setLotOverrides({ ...lotOverrides, [line.product_id]: Math.max(parseInt(e.target.value) || 0, 0) })}
+                              className="h-8 w-20 ml-auto text-right"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.quantity}
+                            {line.lot_size > 1 && <span className="text-xs text-muted-foreground"> ({line.lot_size}/lot)</span>}
+                          </TableCell>
+                          <TableCell className="text-right hidden sm:table-cell">Rs. {line.unit_cost.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">Rs. {(line.quantity * line.unit_cost).toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {!loadingReorder && unassignedSuggestions.length > 0 && (
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><AlertTriangle className="h-5 w-5 text-warning" />No Vendor Linked</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-2">Link a vendor to these products on the Products page to add them to an order.</p>
+                <div className="flex flex-wrap gap-2">
+                  {unassignedSuggestions.map((suggestion) => (
+                    <Badge key={suggestion.product_id} variant="outline">
+                      {suggestion.product_name} · {suggestion.quantity} units
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
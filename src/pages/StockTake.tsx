@@ -0,0 +1,480 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import StockTakeReportTemplate from "@/components/templates/StockTakeReportTemplate";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { exportToCSV, formatCurrency, formatDateTime } from "@/lib/csv-export";
+import { openDocumentPreview } from "@/lib/document-preview";
+import {
+  StockTake as StockTakeSession,
+  StockTakeItem,
+  StockTakeStatus,
+  getCountedQuantity,
+  getStockTakeReference,
+  getVariance,
+  getVarianceValue,
+  summarizeStockTake,
+} from "@/lib/stock-take";
+import { StockLocation, getDefaultLocation } from "@/lib/stock-locations";
+import { supabase } from "@/lib/supabase";
+import { ClipboardCheck, Download, FileText, Play } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+// Lots and loose units as typed, blank until the product is counted
+type CountEntry = { lots: string; units: string };
+
+const toCountEntry = (item: StockTakeItem): CountEntry => ({
+  lots: item.counted_lots === null ? "" : String(item.counted_lots),
+  units: item.counted_units === null ? "" : String(item.counted_units),
+});
+
+const parseCount = (value: string): number | null => (value.trim() === "" ? null : Math.max(parseInt(value, 10) || 0, 0));
+
+export const StockTake = () => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const [stockTakes, setStockTakes] = useState<StockTakeSession[]>([]);
+  const [counts, setCounts] = useState<Record<string, CountEntry>>({});
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [comments, setComments] = useState("");
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [stockTakeLocation, setStockTakeLocation] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [countFilter, setCountFilter] = useState("all");
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    const [{ data, error }, locationsRes] = await Promise.all([
+      supabase
+        .from("stock_takes")
+        .select("*, stock_locations(name), stock_take_items(*, products(name))")
+        .order("started_at", { ascending: false }),
+      supabase.from("stock_locations").select("*").eq("is_active", true).order("name", { ascending: true }),
+    ]);
+
+    if (locationsRes.data) {
+      const activeLocations = locationsRes.data as StockLocation[];
+      setLocations(activeLocations);
+      setStockTakeLocation((current) => current || getDefaultLocation(activeLocations)?.id || "");
+    }
+
+    if (error) toast({ title: "Error fetching stock takes", description: error.message, variant: "destructive" });
+    else {
+      const sessions = data as unknown as StockTakeSession[];
+      sessions.forEach((session) =>
+        session.stock_take_items.sort((a, b) => (a.products?.name || "").localeCompare(b.products?.name || ""))
+      );
+      setStockTakes(sessions);
+      const open = sessions.find((session) => session.status === "open");
+      setCounts(open ? Object.fromEntries(open.stock_take_items.map((item) => [item.product_id, toCountEntry(item)])) : {});
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openStockTake = stockTakes.find((session) => session.status === "open") || null;
+
+  // Items of the open stock take with the counts typed so far
+  const liveItems = useMemo(() => (openStockTake?.stock_take_items || []).map((item) => {
+    const entry = counts[item.product_id] || toCountEntry(item);
+    const lots = parseCount(entry.lots);
+    const units = parseCount(entry.units);
+    return { ...item, counted_lots: lots, counted_units: units, counted_quantity: getCountedQuantity(lots, units, item.lot_size) };
+  }), [openStockTake, counts]);
+
+  const summary = useMemo(() => summarizeStockTake(liveItems), [liveItems]);
+
+  const visibleItems = liveItems.filter((item) =>
+    (item.products?.name || "").toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (countFilter === "all" ||
+      (countFilter === "uncounted" && item.counted_quantity === null) ||
+      (countFilter === "variance" && getVariance(item) !== 0))
+  );
+
+  const isDirty = liveItems.some((item) => {
+    const saved = openStockTake?.stock_take_items.find((original) => original.id === item.id);
+    return saved ? saved.counted_lots !== item.counted_lots || saved.counted_units !== item.counted_units : false;
+  });
+
+  const updateCount = (productId: string, field: keyof CountEntry, value: string) => {
+    setCounts((previous) => ({ ...previous, [productId]: { ...(previous[productId] || { lots: "", units: "" }), [field]: value } }));
+  };
+
+  const startStockTake = async () => {
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("start_stock_take", {
+      p_comments: comments || null,
+      p_location_id: stockTakeLocation || null,
+    });
+    if (error) toast({ title: "Error starting stock take", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: "Stock take started. Expected quantities have been snapshotted." });
+      setComments("");
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const saveCounts = async (): Promise<boolean> => {
+    if (!openStockTake) return false;
+    const { error } = await supabase.rpc("save_stock_take_counts", {
+      p_stock_take_id: openStockTake.id,
+      p_counts: liveItems.map((item) => ({ product_id: item.product_id, lots: item.counted_lots, units: item.counted_units })),
+    });
+    if (error) {
+      toast({ title: "Error saving counts", description: error.message, variant: "destructive" });
+      return false;
+    }
+    return true;
+  };
+
+  const handleSaveCounts = async () => {
+    setIsSubmitting(true);
+    if (await saveCounts()) {
+      toast({ title: "Success", description: "Counts saved." });
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const approveStockTake = async () => {
+    if (!openStockTake) return;
+    setIsSubmitting(true);
+    if (isDirty && !(await saveCounts())) {
+      setIsSubmitting(false);
+      return;
+    }
+    const { error } = await supabase.rpc("approve_stock_take", { p_stock_take_id: openStockTake.id });
+    if (error) toast({ title: "Error approving stock take", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Success", description: `${summary.withVariance} stock corrections posted.` });
+      previewReport(openStockTake.id);
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const cancelStockTake = async () => {
+    if (!openStockTake) return;
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("cancel_stock_take", { p_stock_take_id: openStockTake.id });
+    if (error) toast({ title: "Error cancelling stock take", description: error.message, variant: "destructive" });
+    else {
+      toast({ title: "Stock take cancelled", description: "No stock was changed." });
+      fetchData();
+    }
+    setIsSubmitting(false);
+  };
+
+  const previewReport = async (stockTakeId: string) => {
+    const [stockTakeRes, sellerInfoRes] = await Promise.all([
+      supabase.from("stock_takes").select("*, stock_locations(name), stock_take_items(*, products(name))").eq("id", stockTakeId).single(),
+      supabase.from("seller_info").select("*").limit(1).maybeSingle(),
+    ]);
+    if (stockTakeRes.error) {
+      toast({ title: "Error loading stock take", description: stockTakeRes.error.message, variant: "destructive" });
+      return;
+    }
+    const stockTake = stockTakeRes.data as unknown as StockTakeSession;
+    openDocumentPreview({
+      content: <StockTakeReportTemplate stockTake={stockTake} sellerInfo={sellerInfoRes.data} />,
+      filename: `stock_take_${getStockTakeReference(stockTake)}.pdf`,
+      downloadLabel: "PDF",
+      downloadIcon: "📥",
+      buttonColor: "#007bff",
+      buttonShadow: "rgba(0,123,255,0.3)",
+      onError: (error) => toast({ title: "PDF Generation Failed", description: error instanceof Error ? error.message : "There was an error generating the PDF. Please try again.", variant: "destructive" }),
+    });
+  };
+
+  const getStatusVariant = (status: StockTakeStatus) => {
+    if (status === "approved") return "default" as const;
+    if (status === "open") return "secondary" as const;
+    return "outline" as const;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Stock Take</h1>
+        <p className="text-muted-foreground">Count physical stock, review variances and post the corrections in one go.</p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card><CardContent className="p-4"><div className="flex items-center gap-2"><ClipboardCheck className="h-5 w-5 text-primary" /><div><p className="text-sm text-muted-foreground">Products Counted</p><p className="text-2xl font-bold">{openStockTake ? `${summary.counted} / ${summary.total}` : "-"}</p></div></div></CardContent></Card>
+        <Card><CardContent className="p-4"><div><p className="text-sm text-muted-foreground">Products With Variance</p><p className="text-2xl font-bold text-warning">{openStockTake ? summary.withVariance : "-"}</p></div></CardContent></Card>
+        <Card><CardContent className="p-4"><div><p className="text-sm text-muted-foreground">Net Variance Value</p><p className={`text-2xl font-bold ${summary.netValue < 0 ? "text-destructive" : ""}`}>{openStockTake ? `Rs. ${summary.netValue.toFixed(2)}` : "-"}</p></div></CardContent></Card>
+      </div>
+
+      <Tabs defaultValue="count">
+        <TabsList>
+          <TabsTrigger value="count">Count</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+        <TabsContent value="count">
+          {loading ? (
+            <Card className="mt-4"><CardContent className="p-6 text-center text-muted-foreground">Loading...</CardContent></Card>
+          ) : !openStockTake ? (
+            <Card className="mt-4">
+              <CardHeader><CardTitle className="flex items-center gap-2"><Play className="h-5 w-5" />Start a Stock Take</CardTitle></CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Starting a stock take records the current quantity of every product at the location as the expected quantity. Sales and purchases can continue while counting.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="stockTakeLocation">Location</Label>
+                  <Select value={stockTakeLocation} onValueChange={setStockTakeLocation}>
+                    <SelectTrigger id="stockTakeLocation" className="sm:max-w-xs">
+                      <SelectValue placeholder="Select location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stockTakeComments">Comments</Label>
+                  <Textarea id="stockTakeComments" value={comments} onChange={(e) => setComments(e.target.value)} placeholder="e.g. Month-end count, main godown" />
+                </div>
+                <Button onClick={startStockTake} disabled={isSubmitting || !stockTakeLocation || !can("stock_take.count")}>
+                  {isSubmitting ? "Starting..." : "Start Stock Take"}
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="mt-4">
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row justify-between gap-2">
+                  <div>
+                    <CardTitle>{getStockTakeReference(openStockTake)}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {openStockTake.stock_locations?.name || "-"} · Started {new Date(openStockTake.started_at).toLocaleString()} by {openStockTake.started_by_username || "-"}
+                      {openStockTake.comments ? ` · ${openStockTake.comments}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={handleSaveCounts} disabled={isSubmitting || !isDirty || !can("stock_take.count")}>
+                      Save Counts
+                    </Button>
+                    {can("stock_take.approve") && (
+                      <>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" disabled={isSubmitting}>Cancel Stock Take</Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Cancel this stock take?</AlertDialogTitle>
+                              <AlertDialogDescription>The counts entered so far are kept for reference but no stock is changed.</AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Keep Counting</AlertDialogCancel>
+                              <AlertDialogAction onClick={cancelStockTake}>Cancel Stock Take</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button disabled={isSubmitting || summary.counted === 0}>Approve & Post</Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Post {summary.withVariance} stock corrections?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Every counted product with a variance is corrected by counted minus expected, worth Rs. {summary.netValue.toFixed(2)} in total.
+                                {summary.counted < summary.total && ` ${summary.total - summary.counted} uncounted products are left unchanged.`}
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Back</AlertDialogCancel>
+                              <AlertDialogAction onClick={approveStockTake}>Approve & Post</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col sm:flex-row gap-4 mb-4">
+                  <Input placeholder="Search products..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="sm:max-w-xs" />
+                  <Select value={countFilter} onValueChange={setCountFilter}>
+                    <SelectTrigger className="w-full sm:w-[180px]"><SelectValue placeholder="Filter" /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Products</SelectItem>
+                      <SelectItem value="uncounted">Not Yet Counted</SelectItem>
+                      <SelectItem value="variance">With Variance</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Expected</TableHead>
+                        <TableHead>Lots</TableHead>
+                        <TableHead>Units</TableHead>
+                        <TableHead className="text-right">Counted</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleItems.length > 0 ? visibleItems.map((item) => {
+                        const variance = getVariance(item);
+                        const entry = counts[item.product_id] || { lots: "", units: "" };
+                        return (
+                          <TableRow key={item.id}>
+                            <TableCell>
+                              <div className="font-medium">{item.products?.name || "Unknown"}</div>
+                              {item.lot_size > 1 && <div className="text-xs text-muted-foreground">Lot size {item.lot_size}</div>}
+                            </TableCell>
+                            <TableCell className="text-right">{item.expected_quantity}</TableCell>
+                            <TableCell>
+                              {item.lot_size > 1 ? (
+                                <Input type="number" min="0" value={entry.lots} onChange={(e) => updateCount(item.product_id, "lots", e.target.value)} className="h-8 w-20" disabled={!can("stock_take.count")} />
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Input type="number" min="0" value={entry.units} onChange={(e) => updateCount(item.product_id, "units", e.target.value)} className="h-8 w-20" disabled={!can("stock_take.count")} />
+                            </TableCell>
+                            <TableCell className="text-right">{item.counted_quantity ?? "-"}</TableCell>
+                            <TableCell className={`text-right ${variance < 0 ? "text-red-600" : variance > 0 ? "text-green-600" : ""}`}>
+                              {item.counted_quantity === null ? "-" : variance > 0 ? `+${variance}` : variance}
+                            </TableCell>
+                            <TableCell className="text-right">{variance !== 0 ? `Rs. ${getVarianceValue(item).toFixed(2)}` : "-"}</TableCell>
+                          </TableRow>
+                        );
+                      }) : (
+                        <TableRow><TableCell colSpan={7} className="text-center text-muted-foreground">No products found.</TableCell></TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-xs text-muted-foreground mt-4">
+                  Enter full lots and loose units; the counted quantity is lots × lot size + units. Variances are valued at the product price.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+        <TabsContent value="history">
+          <Card className="mt-4">
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle>Stock Takes</CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    try {
+                      exportToCSV({
+                        filename: 'stock-takes',
+                        headers: ['Reference', 'Location', 'Status', 'Started', 'Started By', 'Closed', 'Closed By', 'Counted', 'Products', 'With Variance', 'Net Variance', 'Comments'],
+                        data: stockTakes,
+                        transformData: (stockTake) => {
+                          const stockTakeSummary = summarizeStockTake(stockTake.stock_take_items);
+                          return {
+                            'Reference': getStockTakeReference(stockTake),
+                            'Location': stockTake.stock_locations?.name || '',
+                            'Status': stockTake.status,
+                            'Started': formatDateTime(stockTake.started_at),
+                            'Started By': stockTake.started_by_username || '',
+                            'Closed': stockTake.closed_at ? formatDateTime(stockTake.closed_at) : '',
+                            'Closed By': stockTake.closed_by_username || '',
+                            'Counted': stockTakeSummary.counted,
+                            'Products': stockTakeSummary.total,
+                            'With Variance': stockTakeSummary.withVariance,
+                            'Net Variance': formatCurrency(stockTakeSummary.netValue),
+                            'Comments': stockTake.comments || ''
+                          };
+                        }
+                      });
+                      toast({ title: "Success", description: "Stock takes exported to CSV successfully" });
+                    } catch (error) {
+                      toast({ title: "Error", description: "Failed to export CSV", variant: "destructive" });
+                    }
+                  }}
+                  className="gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader><TableRow><TableHead>Reference</TableHead><TableHead>Location</TableHead><TableHead>Started</TableHead><TableHead className="hidden sm:table-cell">Closed</TableHead><TableHead className="text-right">Counted</TableHead><TableHead className="text-right">Net Variance</TableHead><TableHead>Status</TableHead><TableHead></TableHead></TableRow></TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow><TableCell colSpan={8} className="text-center">Loading...</TableCell></TableRow>
+                    ) : stockTakes.length > 0 ? stockTakes.map((stockTake) => {
+                      const stockTakeSummary = summarizeStockTake(stockTake.stock_take_items);
+                      return (
+                        <TableRow key={stockTake.id}>
+                          <TableCell className="font-medium">{getStockTakeReference(stockTake)}</TableCell>
+                          <TableCell>{stockTake.stock_locations?.name || '-'}</TableCell>
+                          <TableCell className="text-xs">{new Date(stockTake.started_at).toLocaleString()}<div className="text-muted-foreground">{stockTake.started_by_username || '-'}</div></TableCell>
+                          <TableCell className="hidden sm:table-cell text-xs">{stockTake.closed_at ? new Date(stockTake.closed_at).toLocaleString() : '-'}<div className="text-muted-foreground">{stockTake.closed_by_username || ''}</div></TableCell>
+                          <TableCell className="text-right">{stockTakeSummary.counted} / {stockTakeSummary.total}</TableCell>
+                          <TableCell className="text-right">Rs. {stockTakeSummary.netValue.toFixed(2)}</TableCell>
+                          <TableCell><Badge variant={getStatusVariant(stockTake.status)}>{stockTake.status}</Badge></TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="outline" size="sm" onClick={() => previewReport(stockTake.id)} className="gap-2">
+                              <FileText className="h-4 w-4" />
+                              Report
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    }) : (
+                      <TableRow><TableCell colSpan={8} className="text-center text-muted-foreground">No stock takes yet.</TableCell></TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
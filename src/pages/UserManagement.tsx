@@ -14,6 +14,9 @@ import { Edit, Trash2, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQueryClient } from "@tanstack/react-query";
 
 interface User {
   id: string;
@@ -21,6 +24,109 @@ interface User {
   role_name: string;
 }
 
+interface PermissionRow {
+  key: string;
+  category: string;
+  description: string;
+}
+
+const PermissionMatrix = ({ roles }: { roles: { id: string; name: string }[] }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [permissions, setPermissions] = useState<PermissionRow[]>([]);
+  const [grants, setGrants] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  const fetchMatrix = useCallback(async () => {
+    setLoading(true);
+    const [permissionsRes, grantsRes] = await Promise.all([
+      supabase.from('permissions').select('*').order('category').order('key'),
+      supabase.from('role_permissions').select('role_id, permission_key'),
+    ]);
+    if (permissionsRes.error || grantsRes.error) {
+      toast({
+        title: "Error fetching permissions",
+        description: (permissionsRes.error || grantsRes.error)?.message,
+        variant: "destructive",
+      });
+    } else {
+      setPermissions(permissionsRes.data || []);
+      setGrants(new Set((grantsRes.data || []).map(g => `${g.role_id}|${g.permission_key}`)));
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchMatrix();
+  }, [fetchMatrix]);
+
+  const togglePermission = async (roleId: string, permissionKey: string, granted: boolean) => {
+    const grantKey = `${roleId}|${permissionKey}`;
+    const { error } = granted
+      ? await supabase.from('role_permissions').insert({ role_id: roleId, permission_key: permissionKey })
+      : await supabase.from('role_permissions').delete().eq('role_id', roleId).eq('permission_key', permissionKey);
+
+    if (error) {
+      toast({ title: "Error updating permission", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setGrants(prev => {
+      const next = new Set(prev);
+      if (granted) next.add(grantKey);
+      else next.delete(grantKey);
+      return next;
+    });
+    queryClient.invalidateQueries({ queryKey: ['permissions'] });
+  };
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>Role Permissions</CardTitle></CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Choose what each role can open and do. Admins always have every permission.
+        </p>
+        {loading ? <p>Loading...</p> : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  {roles.map(role => (
+                    <TableHead key={role.id} className="text-center capitalize">{role.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {permissions.map((permission, index) => (
+                  <TableRow key={permission.key}>
+                    <TableCell>
+                      {(index === 0 || permissions[index - 1].category !== permission.category) && (
+                        <div className="text-xs font-semibold uppercase text-muted-foreground">{permission.category}</div>
+                      )}
+                      <div className="text-sm">{permission.description}</div>
+                    </TableCell>
+                    {roles.map(role => (
+                      <TableCell key={role.id} className="text-center">
+                        <Checkbox
+                          checked={role.name === 'admin' || grants.has(`${role.id}|${permission.key}`)}
+                          disabled={role.name === 'admin'}
+                          onCheckedChange={(checked) => togglePermission(role.id, permission.key, checked === true)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 const UserManagement = () => {
   const { toast } = useToast();
   const [users, setUsers] = useState<User[]>([]);
@@ -182,6 +288,7 @@ const UserManagement = () => {
           )}
         </CardContent>
       </Card>
+      <PermissionMatrix roles={roles} />
     </div>
   );
 };